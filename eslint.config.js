@@ -135,6 +135,7 @@ export default tseslint.config(
             'memfs/lib/volume.js',
             'yargs/**',
             'msw/node',
+            'js-tiktoken/**',
           ],
         },
       ],
@@ -0,0 +1,150 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { expect, describe, it, beforeEach, afterEach } from 'vitest';
+import { MockLlmServer, TestRig, type MockLlmResponse } from './test-helper.js';
+import { join } from 'node:path';
+import {
+  OpenRouterClient,
+  ZaiClient,
+  type OpenAIChatChunk,
+} from '@google/gemini-cli-core/src/index.js';
+
+const TOOL_LOOP_RESPONSES = join(
+  import.meta.dirname,
+  'mock-llm-server.tool-loop.responses',
+);
+
+describe('Mock LLM server', () => {
+  let rig: TestRig;
+  let server: MockLlmServer;
+
+  beforeEach(() => {
+    rig = new TestRig();
+  });
+
+  afterEach(async () => {
+    await rig.cleanup();
+    await server?.stop();
+  });
+
+  it('should run the tool loop of a Zai session', async () => {
+    server = MockLlmServer.fromFile(TOOL_LOOP_RESPONSES);
+    await server.start();
+    rig.setup('mock-llm-server-zai-tool-loop', {
+      mockLlmServer: server,
+      settings: {
+        security: { auth: { selectedType: 'zai-glm' } },
+        model: { name: 'glm-4.7' },
+      },
+    });
+    rig.createFile('hello.txt', 'Hello from the mock server');
+
+    const result = await rig.run({
+      args: 'Read hello.txt and tell me what it says',
+    });
+
+    expect(result).toContain('The file says: Hello from the mock server');
+    expect(server.isDone).toBe(true);
+    expect(server.requests.map((request) => request.protocol)).toEqual([
+      'openai',
+      'openai',
+    ]);
+    expect(JSON.stringify(server.requests[1].body['messages'])).toContain(
+      'Hello from the mock server',
+    );
+  });
+
+  it('should run the same tool loop over the Gemini API', async () => {
+    server = MockLlmServer.fromFile(TOOL_LOOP_RESPONSES);
+    await server.start();
+    rig.setup('mock-llm-server-gemini-tool-loop', { mockLlmServer: server });
+    rig.createFile('hello.txt', 'Hello from the mock server');
+
+    const result = await rig.run({
+      args: 'Read hello.txt and tell me what it says',
+    });
+
+    expect(result).toContain('The file says: Hello from the mock server');
+    expect(server.requests.map((request) => request.protocol)).toEqual([
+      'gemini',
+      'gemini',
+    ]);
+    expect(JSON.stringify(server.requests[1].body['contents'])).toContain(
+      'functionResponse',
+    );
+  });
+
+  it('should stream reasoning and tool calls to ZaiClient', async () => {
+    server = MockLlmServer.fromFile(TOOL_LOOP_RESPONSES);
+    await server.start();
+
+    const stream = await new ZaiClient(
+      'test-key',
+      server.openaiBaseUrl,
+    ).streamChat({
+      model: 'glm-4.7',
+      messages: [{ role: 'user', content: 'Read hello.txt' }],
+    });
+    const chunks: OpenAIChatChunk[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+
+    const deltas = chunks.map((chunk) => chunk.choices[0]?.delta);
+    expect(deltas[0]?.reasoning_content).toContain('Reading the File');
+    expect(deltas[1]?.tool_calls).toEqual([
+      {
+        index: 0,
+        id: expect.any(String),
+        type: 'function',
+        function: {
+          name: 'read_file',
+          arguments: JSON.stringify({ file_path: 'hello.txt' }),
+        },
+      },
+    ]);
+    expect(chunks.at(-1)?.choices[0].finish_reason).toBe('tool_calls');
+    expect(chunks.at(-1)?.usage?.completion_tokens).toBe(12);
+  });
+
+  it('should retry scripted errors and list models with OpenRouterClient', async () => {
+    server = new MockLlmServer(
+      [
+        { method: 'error', status: 429, message: 'Rate limit exceeded' },
+        {
+          method: 'generateContent',
+          response: {
+            candidates: [
+              {
+                content: { role: 'model', parts: [{ text: 'Hi there' }] },
+                finishReason: 'STOP',
+                index: 0,
+              },
+            ],
+          },
+        },
+      ] as MockLlmResponse[],
+      { models: [{ id: 'openai/gpt-4o', context_length: 128000 }] },
+    );
+    await server.start();
+    const client = new OpenRouterClient('test-key', server.openaiBaseUrl);
+
+    const response = await client.chat(
+      {
+        model: 'openai/gpt-4o',
+        messages: [{ role: 'user', content: 'Hello' }],
+      },
+      { initialDelayMs: 1 },
+    );
+
+    expect(response.choices[0].message.content).toBe('Hi there');
+    expect(server.requests).toHaveLength(2);
+    expect(await client.listModels()).toEqual([
+      { id: 'openai/gpt-4o', context_length: 128000 },
+    ]);
+  });
+});
@@ -8,6 +8,20 @@ import { AuthType } from '@google/gemini-cli-core';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { validateAuthMethod } from './auth.js';
 
+vi.mock('@google/gemini-cli-core', async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import('@google/gemini-cli-core')>();
+  return {
+    ...actual,
+    loadDevoraSettings: vi.fn().mockReturnValue({
+      activeProvider: 'vllm',
+      providers: {
+        vllm: { baseUrl: 'http://localhost:8000/v1', model: 'qwen' },
+      },
+    }),
+  };
+});
+
 vi.mock('./settings.js', () => ({
   loadEnvironment: vi.fn(),
   loadSettings: vi.fn().mockReturnValue({
@@ -21,6 +35,7 @@ describe('validateAuthMethod', () => {
     vi.stubEnv('GOOGLE_CLOUD_PROJECT', undefined);
     vi.stubEnv('GOOGLE_CLOUD_LOCATION', undefined);
     vi.stubEnv('GOOGLE_API_KEY', undefined);
+    vi.stubEnv('OPENROUTER_API_KEY', undefined);
   });
 
   afterEach(() => {
@@ -83,6 +98,29 @@ describe('validateAuthMethod', () => {
         '• GOOGLE_API_KEY environment variable (if using express mode).\n' +
         'Update your environment and try again (no reload needed if using .env)!',
     },
+    {
+      description:
+        'should return null for OPENROUTER if OPENROUTER_API_KEY is set',
+      authType: AuthType.OPENROUTER,
+      envs: { OPENROUTER_API_KEY: 'sk-or-v1-test' },
+      expected: null,
+    },
+    {
+      description:
+        'should return an error message for OPENROUTER if OPENROUTER_API_KEY is not set',
+      authType: AuthType.OPENROUTER,
+      envs: {},
+      expected:
+        'When using OpenRouter, you must specify the OPENROUTER_API_KEY environment variable.\n' +
+        'Update your environment and try again (no reload needed if using .env)!',
+    },
+    {
+      description:
+        'should return null for OPENAI_COMPATIBLE with a keyless local provider',
+      authType: AuthType.OPENAI_COMPATIBLE,
+      envs: {},
+      expected: null,
+    },
     {
       description: 'should return an error message for an invalid auth method',
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
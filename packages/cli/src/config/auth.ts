@@ -4,9 +4,32 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { AuthType } from '@google/gemini-cli-core';
+import {
+  AuthType,
+  getActiveProviderId,
+  loadDevoraSettings,
+  OPENROUTER_PROVIDER_ID,
+  resolveOpenAICompatibleProvider,
+  type ResolvedOpenAICompatibleProvider,
+} from '@google/gemini-cli-core';
 import { loadEnvironment, loadSettings } from './settings.js';
 
+/**
+ * Returns an error message when the API key of an OpenAI-compatible provider
+ * is missing, or null when the provider can be used.
+ */
+export function validateOpenAICompatibleProvider(
+  provider: ResolvedOpenAICompatibleProvider,
+): string | null {
+  if (provider.apiKeyEnv && !provider.apiKey) {
+    return (
+      `When using ${provider.displayName}, you must specify the ${provider.apiKeyEnv} environment variable.\n` +
+      'Update your environment and try again (no reload needed if using .env)!'
+    );
+  }
+  return null;
+}
+
 export function validateAuthMethod(authMethod: string): string | null {
   loadEnvironment(loadSettings().merged);
   if (
@@ -53,5 +76,27 @@ export function validateAuthMethod(authMethod: string): string | null {
     return null;
   }
 
+  if (
+    authMethod === AuthType.OPENROUTER ||
+    authMethod === AuthType.OPENAI_COMPATIBLE
+  ) {
+    const devoraSettings = loadDevoraSettings();
+    const providerId =
+      authMethod === AuthType.OPENROUTER
+        ? OPENROUTER_PROVIDER_ID
+        : getActiveProviderId(devoraSettings);
+    const provider = resolveOpenAICompatibleProvider(
+      devoraSettings,
+      providerId,
+    );
+    if (!provider) {
+      return (
+        `Unknown OpenAI-compatible provider "${providerId}".\n` +
+        'Declare it under "providers" in the Devora settings file, or pick another one with /provider use.'
+      );
+    }
+    return validateOpenAICompatibleProvider(provider);
+  }
+
   return 'Invalid auth method selected.';
 }
@@ -727,6 +727,9 @@ export async function loadCliConfig(
     bugCommand: settings.advanced?.bugCommand,
     model: resolvedModel,
     maxSessionTurns: settings.model?.maxSessionTurns,
+    maxSessionCostUsd: settings.model?.maxSessionCostUsd,
+    fallbackChain: settings.model?.fallbackChain,
+    routingCandidates: settings.model?.routingCandidates,
     experimentalZedIntegration: argv.experimentalAcp || false,
     listExtensions: argv.listExtensions || false,
     listSessions: argv.listSessions || false,
@@ -25,6 +25,7 @@ import {
   KeychainTokenStorage,
   loadAgentsFromDirectory,
   loadSkillsFromDir,
+  getHookTarget,
 } from '@google/gemini-cli-core';
 import {
   loadSettings,
@@ -852,7 +853,7 @@ describe('extension tests', () => {
 
         expect(extension.hooks).toBeDefined();
         expect(extension.hooks?.BeforeTool).toHaveLength(1);
-        expect(extension.hooks?.BeforeTool?.[0].hooks[0].command).toBe(
+        expect(getHookTarget(extension.hooks!.BeforeTool![0].hooks[0])).toBe(
           `echo ${extDir}`,
         );
       });
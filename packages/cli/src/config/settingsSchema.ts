@@ -15,6 +15,8 @@ import type {
   TelemetrySettings,
   AuthType,
   AgentOverride,
+  CategoryConfig,
+  RoutingCandidate,
 } from '@google/gemini-cli-core';
 import {
   DEFAULT_TRUNCATE_TOOL_OUTPUT_LINES,
@@ -692,6 +694,46 @@ const SETTINGS_SCHEMA = {
           'Maximum number of user/model/tool turns to keep in a session. -1 means unlimited.',
         showInDialog: true,
       },
+      maxSessionCostUsd: {
+        type: 'number',
+        label: 'Max Session Cost (USD)',
+        category: 'Model',
+        requiresRestart: false,
+        default: -1,
+        description:
+          'Cost in USD after which the session pauses for confirmation, for models with known pricing. -1 means unlimited.',
+        showInDialog: true,
+      },
+      fallbackChain: {
+        type: 'array',
+        label: 'Fallback Chain',
+        category: 'Model',
+        requiresRestart: true,
+        default: [] as string[],
+        description: oneLine`
+          Ordered models to switch to when the current one keeps failing,
+          written "provider:model" (e.g. "openrouter:anthropic/claude-sonnet-4")
+          or as a plain Gemini model name.
+        `,
+        showInDialog: false,
+        items: { type: 'string' },
+      },
+      routingCandidates: {
+        type: 'array',
+        label: 'Routing Candidates',
+        category: 'Model',
+        requiresRestart: true,
+        default: [] as RoutingCandidate[],
+        description: oneLine`
+          Models that auto model requests are routed to, picking the cheapest
+          and fastest one supporting what the request needs.
+        `,
+        showInDialog: false,
+        items: {
+          type: 'object',
+          ref: 'RoutingCandidate',
+        },
+      },
       summarizeToolOutput: {
         type: 'object',
         label: 'Summarize Tool Output',
@@ -810,6 +852,78 @@ const SETTINGS_SCHEMA = {
           ref: 'AgentOverride',
         },
       },
+      categories: {
+        type: 'object',
+        label: 'Delegation Categories',
+        category: 'Advanced',
+        requiresRestart: true,
+        default: {} as Record<string, CategoryConfig>,
+        description: oneLine`
+          Categories of the tasks delegated by Sisyphus, each running on its
+          own provider, model and temperature, e.g. "quick" on a cheap model.
+          Extends the default categories.
+        `,
+        showInDialog: false,
+        additionalProperties: {
+          type: 'object',
+          ref: 'CategoryConfig',
+        },
+      },
+      sisyphus: {
+        type: 'object',
+        label: 'Sisyphus',
+        category: 'Advanced',
+        requiresRestart: false,
+        default: {},
+        description: 'Settings of the Sisyphus orchestrator in Megawork mode.',
+        showInDialog: false,
+        properties: {
+          enableTodoContinuation: {
+            type: 'boolean',
+            label: 'Enable Todo Continuation',
+            category: 'Advanced',
+            requiresRestart: false,
+            default: true,
+            description: oneLine`
+              Re-prompt the model when it ends its turn while todos are still
+              pending or in progress.
+            `,
+            showInDialog: false,
+          },
+          maxTurns: {
+            type: 'number',
+            label: 'Max Todo Continuations',
+            category: 'Advanced',
+            requiresRestart: false,
+            default: 50,
+            description:
+              'Maximum number of todo continuations for a single prompt.',
+            showInDialog: false,
+          },
+          maxTimeMinutes: {
+            type: 'number',
+            label: 'Max Time (Minutes)',
+            category: 'Advanced',
+            requiresRestart: false,
+            default: 60,
+            description:
+              'Time after which a prompt is no longer continued (in minutes).',
+            showInDialog: false,
+          },
+          todoContinuationMessage: {
+            type: 'string',
+            label: 'Todo Continuation Message',
+            category: 'Advanced',
+            requiresRestart: false,
+            default: undefined as string | undefined,
+            description: oneLine`
+              Message sent to continue the model. Defaults to a reminder
+              listing the incomplete todos.
+            `,
+            showInDialog: false,
+          },
+        },
+      },
     },
   },
 
@@ -1984,6 +2098,11 @@ export const SETTINGS_SCHEMA_DEFINITIONS: Record<
         description:
           'Marks the server as trusted. Trusted servers may gain additional capabilities.',
       },
+      trustSampling: {
+        type: 'boolean',
+        description:
+          'Approves the sampling requests of the server, which use the model of the session, without asking.',
+      },
       description: {
         type: 'string',
         description: 'Human-readable description of the server.',
@@ -2131,6 +2250,57 @@ export const SETTINGS_SCHEMA_DEFINITIONS: Record<
       },
     },
   },
+  CategoryConfig: {
+    type: 'object',
+    description: 'A category of delegated tasks.',
+    additionalProperties: false,
+    properties: {
+      provider: {
+        type: 'string',
+        description:
+          'Id of the OpenAI-compatible provider serving the model, or "gemini". Defaults to the provider of the session.',
+      },
+      model: {
+        type: 'string',
+        description:
+          'Model of the provider. Defaults to the model of the agent.',
+      },
+      temperature: {
+        type: 'number',
+        description: 'Temperature of the requests.',
+      },
+      description: {
+        type: 'string',
+        description: 'When to use the category, shown to the model.',
+      },
+      promptAppend: {
+        type: 'string',
+        description: 'Instructions appended to the system prompt of the agent.',
+      },
+    },
+  },
+  RoutingCandidate: {
+    type: 'object',
+    description: 'A model that auto model requests may be routed to.',
+    additionalProperties: false,
+    required: ['model'],
+    properties: {
+      model: {
+        type: 'string',
+        description:
+          'The model, written "provider:model" (e.g. "zai:glm-4.5-air") or as a plain Gemini model name.',
+      },
+      tags: {
+        type: 'array',
+        description:
+          'Capabilities of the model. Defaults to the ones the model catalog of its provider describes.',
+        items: {
+          type: 'string',
+          enum: ['tools', 'vision', 'long-context'],
+        },
+      },
+    },
+  },
   CustomTheme: {
     type: 'object',
     description:
@@ -2256,13 +2426,39 @@ export const SETTINGS_SCHEMA_DEFINITIONS: Record<
               type: {
                 type: 'string',
                 description:
-                  'Type of hook (currently only "command" supported).',
+                  'Type of hook: "command" runs a shell command, "function" calls a function exported by an ES module in-process, "http" POSTs the JSON input to a URL.',
               },
               command: {
                 type: 'string',
                 description:
                   'Shell command to execute. Receives JSON input via stdin and returns JSON output via stdout.',
               },
+              module: {
+                type: 'string',
+                description:
+                  'ES module exporting the handler of a function hook, relative to the project directory. The handler receives the JSON input and returns the JSON output.',
+              },
+              export: {
+                type: 'string',
+                description:
+                  'Name of the function exported by the module. Defaults to "default".',
+              },
+              url: {
+                type: 'string',
+                description:
+                  'URL an HTTP hook POSTs the JSON input to. The response body is parsed as the JSON output.',
+              },
+              headers: {
+                type: 'object',
+                description:
+                  'Request headers of an HTTP hook. $VAR and ${VAR} are expanded from the environment.',
+                additionalProperties: { type: 'string' },
+              },
+              retries: {
+                type: 'number',
+                description:
+                  'Number of times an HTTP hook request failing with a network error, 429 or 5xx is retried.',
+              },
               description: {
                 type: 'string',
                 description: 'A description of the hook.',
@@ -118,6 +118,8 @@ describe('runNonInteractive', () => {
       totalLinesAdded: 0,
       totalLinesRemoved: 0,
     },
+    subagents: {},
+    routing: { totalDecisions: 0, bySource: {} },
   };
 
   beforeEach(async () => {
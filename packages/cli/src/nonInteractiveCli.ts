@@ -343,6 +343,18 @@ export async function runNonInteractive({
                 message: 'Maximum session turns exceeded',
               });
             }
+          } else if (event.type === GeminiEventType.SessionCostLimitExceeded) {
+            const costMessage = `Session cost of $${event.value.costUsd.toFixed(4)} reached the limit of $${event.value.maxCostUsd.toFixed(2)}, stopping execution`;
+            if (streamFormatter) {
+              streamFormatter.emitEvent({
+                type: JsonStreamEventType.ERROR,
+                timestamp: new Date().toISOString(),
+                severity: 'error',
+                message: costMessage,
+              });
+            } else {
+              process.stderr.write(`${costMessage}\n`);
+            }
           } else if (event.type === GeminiEventType.Error) {
             throw event.value.error;
           } else if (event.type === GeminiEventType.AgentExecutionStopped) {
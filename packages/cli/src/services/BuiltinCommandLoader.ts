@@ -51,6 +51,8 @@ import { setupGithubCommand } from '../ui/commands/setupGithubCommand.js';
 import { terminalSetupCommand } from '../ui/commands/terminalSetupCommand.js';
 import { zaiCommand } from '../ui/commands/zaiCommand.js';
 import { openrouterCommand } from '../ui/commands/openrouterCommand.js';
+import { providerCommand } from '../ui/commands/providerCommand.js';
+import { tasksCommand } from '../ui/commands/tasksCommand.js';
 import { megaworkCommand } from '../ui/commands/megaworkCommand.js';
 
 /**
@@ -170,6 +172,8 @@ export class BuiltinCommandLoader implements ICommandLoader {
       terminalSetupCommand,
       zaiCommand,
       openrouterCommand,
+      providerCommand,
+      tasksCommand,
       megaworkCommand,
     ];
     handle?.end();
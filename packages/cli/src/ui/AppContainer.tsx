@@ -52,6 +52,7 @@ import {
   CoreEvent,
   refreshServerHierarchicalMemory,
   type MemoryChangedPayload,
+  type MegaworkModeChangedPayload,
   writeToStdout,
   disableMouseEvents,
   enterAlternateScreen,
@@ -112,6 +113,7 @@ import {
   useConfirmUpdateRequests,
   useExtensionUpdates,
 } from './hooks/useExtensionUpdates.js';
+import { useMcpSamplingRequests } from './hooks/useMcpSamplingRequests.js';
 import { ShellFocusContext } from './contexts/ShellFocusContext.js';
 import { type ExtensionManager } from '../config/extension-manager.js';
 import { requestConsentInteractive } from '../config/extensions/consent.js';
@@ -227,6 +229,9 @@ export const AppContainer = (props: AppContainerProps) => {
 
   const { addConfirmUpdateExtensionRequest, confirmUpdateExtensionRequests } =
     useConfirmUpdateRequests();
+  const { mcpSamplingRequests } = useMcpSamplingRequests(
+    config.getMessageBus(),
+  );
   const {
     extensionsUpdateState,
     extensionsUpdateStateInternal,
@@ -259,6 +264,9 @@ export const AppContainer = (props: AppContainerProps) => {
   );
 
   const [currentModel, setCurrentModel] = useState(config.getModel());
+  const [megaworkModeActive, setMegaworkModeActive] = useState(
+    config.isMegaworkMode(),
+  );
 
   const [userTier, setUserTier] = useState<UserTierId | undefined>(undefined);
 
@@ -363,6 +371,17 @@ export const AppContainer = (props: AppContainerProps) => {
     };
   }, [config]);
 
+  useEffect(() => {
+    const handleMegaworkModeChanged = (payload: MegaworkModeChangedPayload) => {
+      setMegaworkModeActive(payload.enabled);
+    };
+
+    coreEvents.on(CoreEvent.MegaworkModeChanged, handleMegaworkModeChanged);
+    return () => {
+      coreEvents.off(CoreEvent.MegaworkModeChanged, handleMegaworkModeChanged);
+    };
+  }, []);
+
   useEffect(() => {
     const handleSettingsChanged = () => {
       setSettingsNonce((prev) => prev + 1);
@@ -821,6 +840,7 @@ Logging in with Google... Restarting Gemini CLI to continue.
     handleApprovalModeChange,
     activePtyId,
     loopDetectionConfirmationRequest,
+    sessionCostConfirmationRequest,
     lastOutputTime,
     retryStatus,
   } = useGeminiStream(
@@ -1473,7 +1493,9 @@ Logging in with Google... Restarting Gemini CLI to continue.
     !!confirmationRequest ||
     !!customDialog ||
     confirmUpdateExtensionRequests.length > 0 ||
+    mcpSamplingRequests.length > 0 ||
     !!loopDetectionConfirmationRequest ||
+    !!sessionCostConfirmationRequest ||
     isThemeDialogOpen ||
     isSettingsDialogOpen ||
     isModelDialogOpen ||
@@ -1577,13 +1599,16 @@ Logging in with Google... Restarting Gemini CLI to continue.
       commandContext,
       confirmationRequest,
       confirmUpdateExtensionRequests,
+      mcpSamplingRequests,
       loopDetectionConfirmationRequest,
+      sessionCostConfirmationRequest,
       geminiMdFileCount,
       streamingState,
       initError,
       pendingGeminiHistoryItems,
       thought,
       shellModeActive,
+      megaworkModeActive,
       userMessages: inputHistory,
       buffer,
       inputWidth,
@@ -1669,13 +1694,16 @@ Logging in with Google... Restarting Gemini CLI to continue.
       commandContext,
       confirmationRequest,
       confirmUpdateExtensionRequests,
+      mcpSamplingRequests,
       loopDetectionConfirmationRequest,
+      sessionCostConfirmationRequest,
       geminiMdFileCount,
       streamingState,
       initError,
       pendingGeminiHistoryItems,
       thought,
       shellModeActive,
+      megaworkModeActive,
       inputHistory,
       buffer,
       inputWidth,
@@ -11,7 +11,7 @@ import type {
   HookRegistryEntry,
   MessageActionReturn,
 } from '@google/gemini-cli-core';
-import { getErrorMessage } from '@google/gemini-cli-core';
+import { getErrorMessage, getHookTarget } from '@google/gemini-cli-core';
 import { SettingScope } from '../../config/settings.js';
 
 /**
@@ -199,7 +199,7 @@ function completeHookNames(
  * Get a display name for a hook
  */
 function getHookDisplayName(hook: HookRegistryEntry): string {
-  return hook.config.name || hook.config.command || 'unknown-hook';
+  return hook.config.name || getHookTarget(hook.config) || 'unknown-hook';
 }
 
 /**
@@ -0,0 +1,98 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import type { Config } from '@google/gemini-cli-core';
+import { megaworkCommand } from './megaworkCommand.js';
+import { type CommandContext } from './types.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+
+describe('megaworkCommand', () => {
+  let mockContext: CommandContext;
+  let megawork: boolean;
+  const mockConfig = {
+    isMegaworkMode: vi.fn(() => megawork),
+    setMegaworkMode: vi.fn(async (enabled: boolean) => {
+      megawork = enabled;
+    }),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    megawork = false;
+    mockContext = createMockCommandContext({
+      services: { config: mockConfig as unknown as Config },
+    });
+  });
+
+  const getSubCommand = (name: string) => {
+    const subCommand = megaworkCommand.subCommands?.find(
+      (cmd) => cmd.name === name,
+    );
+    if (!subCommand?.action) {
+      throw new Error(`The ${name} subcommand must have an action.`);
+    }
+    return subCommand;
+  };
+
+  it('should turn Megawork mode on', async () => {
+    const result = await getSubCommand('on').action!(mockContext, '');
+
+    expect(mockConfig.setMegaworkMode).toHaveBeenCalledExactlyOnceWith(true);
+    expect(result).toMatchObject({
+      messageType: 'info',
+      content: expect.stringContaining('Megawork mode activated'),
+    });
+  });
+
+  it('should turn Megawork mode off', async () => {
+    megawork = true;
+
+    const result = await getSubCommand('off').action!(mockContext, '');
+
+    expect(mockConfig.setMegaworkMode).toHaveBeenCalledExactlyOnceWith(false);
+    expect(result).toMatchObject({
+      content: expect.stringContaining('Megawork mode deactivated'),
+    });
+  });
+
+  it('should say when the mode is already set', async () => {
+    const result = await getSubCommand('off').action!(mockContext, '');
+
+    expect(mockConfig.setMegaworkMode).not.toHaveBeenCalled();
+    expect(result).toMatchObject({
+      content: 'Megawork mode is already off.',
+    });
+  });
+
+  it('should show the current status', async () => {
+    expect(
+      await getSubCommand('status').action!(mockContext, ''),
+    ).toMatchObject({
+      content: expect.stringContaining('Megawork mode is off.'),
+    });
+
+    megawork = true;
+
+    expect(await megaworkCommand.action!(mockContext, '')).toMatchObject({
+      content: expect.stringContaining('Megawork mode is on.'),
+    });
+  });
+
+  it('should show an error if config is not available', async () => {
+    const contextWithoutConfig = createMockCommandContext({
+      services: { config: null },
+    });
+
+    const result = await getSubCommand('on').action!(contextWithoutConfig, '');
+
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'error',
+      content: 'Config not loaded.',
+    });
+  });
+});
@@ -6,28 +6,79 @@
 
 import type { SlashCommand, CommandContext } from './types.js';
 import { CommandKind } from './types.js';
-import {
-  MEGAWORK_SYSTEM_MESSAGE,
-  getMegaworkSystemMessage,
-} from '@devora/core/src/agents/sisyphus/types.js';
+import type { MessageActionReturn } from '@google/gemini-cli-core';
 
 /**
- * /megawork command - Activates Sisyphus multi-agent orchestration mode
- *
- * This command injects the Megawork system message which activates
- * the Sisyphus orchestrator with todo-obsession and parallel delegation.
+ * /megawork command - Switches the session to Sisyphus multi-agent
+ * orchestration mode
  *
  * Usage:
  *   /megawork on    - Activates Megawork mode
  *   /megawork off   - Deactivates Megawork mode
  *   /megawork       - Shows current status
  *
- * Megawork mode enables:
- * - Todo-obsession tracking
- * - Parallel background agent execution
- * - Strategic delegation to specialized agents (oracle, explore, librarian, frontend)
- * - Session resume for 70%+ token savings
+ * While Megawork mode is on, the main agent runs with the Sisyphus
+ * orchestrator prompt, can delegate to the Sisyphus agents (oracle, explore,
+ * librarian, frontend) in the foreground or background, and is reminded of
+ * unfinished todos. The mode is saved with the session and restored by
+ * /resume.
  */
+
+const CONFIG_NOT_LOADED: MessageActionReturn = {
+  type: 'message',
+  messageType: 'error',
+  content: 'Config not loaded.',
+};
+
+async function setMegaworkMode(
+  context: CommandContext,
+  enabled: boolean,
+): Promise<MessageActionReturn> {
+  const { config } = context.services;
+  if (!config) {
+    return CONFIG_NOT_LOADED;
+  }
+
+  if (config.isMegaworkMode() === enabled) {
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: `Megawork mode is already ${enabled ? 'on' : 'off'}.`,
+    };
+  }
+
+  await config.setMegaworkMode(enabled);
+
+  return {
+    type: 'message',
+    messageType: 'info',
+    content: enabled
+      ? `⚡ Megawork mode activated. Sisyphus now orchestrates this session:
+- Todo-obsession tracking
+- Parallel background execution with \`background_task\`
+- Fan-out to several agents at once with \`parallel_tasks\`
+- Strategic delegation with \`delegate_task\` to oracle, explore, librarian and frontend`
+      : 'Megawork mode deactivated. You can reactivate it with `/megawork on`.',
+  };
+}
+
+async function statusAction(
+  context: CommandContext,
+): Promise<MessageActionReturn> {
+  const { config } = context.services;
+  if (!config) {
+    return CONFIG_NOT_LOADED;
+  }
+
+  return {
+    type: 'message',
+    messageType: 'info',
+    content: config.isMegaworkMode()
+      ? 'Megawork mode is on. Use `/megawork off` to return to normal operation.'
+      : 'Megawork mode is off. Use `/megawork on` to let Sisyphus orchestrate this session.',
+  };
+}
+
 export const megaworkCommand: SlashCommand = {
   name: 'megawork',
   altNames: ['mw', 'sisyphus'],
@@ -35,127 +86,28 @@ export const megaworkCommand: SlashCommand = {
     '⚡ Activate Sisyphus orchestration mode with todo-obsession and parallel delegation',
   kind: CommandKind.BUILT_IN,
   autoExecute: false,
+  action: statusAction,
   subCommands: [
     {
       name: 'on',
       description: 'Activate Megawork mode (Sisyphus orchestration)',
       kind: CommandKind.BUILT_IN,
       autoExecute: true,
-      action: async (context) => {
-        const { ui } = context;
-
-        // Inject the Megawork system message as a user message
-        ui.addItem({
-          type: 'user',
-          text: MEGAWORK_SYSTEM_MESSAGE,
-        });
-
-        ui.setDebugMessage(
-          '⚡ Megawork mode activated - Sisyphus orchestration enabled',
-        );
-
-        // Also add a system message for visual feedback
-        ui.addItem({
-          type: 'info',
-          text: `
-⚡ **MEGAWORK MODE ACTIVATED** ⚡
-
-Sisyphus orchestration is now enabled with:
-- Todo-obsession tracking
-- Parallel background execution
-- Strategic delegation to specialized agents
-- Session resume capability
-
-Available agents:
-- **oracle**: Architecture consultant (read-only)
-- **explore**: Codebase search specialist
-- **librarian**: Documentation researcher
-- **frontend**: UI/UX design specialist
-
-Usage: Use \`delegate_task\` to delegate work to these agents.
-          `.trim(),
-        });
-
-        return;
-      },
+      action: (context) => setMegaworkMode(context, true),
     },
     {
       name: 'off',
       description: 'Deactivate Megawork mode',
       kind: CommandKind.BUILT_IN,
       autoExecute: true,
-      action: async (context) => {
-        const { ui } = context;
-
-        ui.setDebugMessage('Megawork mode deactivated');
-
-        ui.addItem({
-          type: 'info',
-          text: `
-**Megawork mode deactivated**
-
-Returning to normal operation mode.
-You can reactivate with \`/megawork on\`
-          `.trim(),
-        });
-
-        return;
-      },
+      action: (context) => setMegaworkMode(context, false),
     },
     {
       name: 'status',
       description: 'Show current Megawork mode status',
       kind: CommandKind.BUILT_IN,
       autoExecute: true,
-      action: async (context) => {
-        const { ui } = context;
-
-        // Check if Megawork is active by looking at recent history
-        // For now, just show instructions
-        ui.addItem({
-          type: 'info',
-          text: `
-**Megawork Mode Status**
-
-Megawork mode activates Sisyphus orchestration with:
-- Todo-obsession (obsessive task tracking)
-- Parallel delegation (explore + librarian run simultaneously)
-- Strategic agent selection (oracle, explore, librarian, frontend)
-
-**Available subcommands:**
-- \`/megawork on\` - Activate mode
-- \`/megawork off\` - Deactivate mode
-
-**Quick start:**
-1. Type \`/megawork on\` to activate
-2. Describe your complex task
-3. Sisyphus will create todos and delegate automatically
-          `.trim(),
-        });
-
-        return;
-      },
+      action: statusAction,
     },
   ],
 };
-
-/**
- * Helper function to check if Megawork mode is active
- * This can be used by other parts of the system to detect active mode
- *
- * @param context The command context
- * @returns true if Megawork mode appears to be active
- */
-export function isMegaworkActive(_context: CommandContext): boolean {
-  // This is a simplified check - a full implementation would check
-  // the session state for the Megawork system message
-  // For now, we rely on the user having activated it via /megawork on
-  return false; // Default to false - actual state tracking would be more complex
-}
-
-/**
- * Gets the Megawork system message
- *
- * @returns The Megawork activation message
- */
-export { getMegaworkSystemMessage };
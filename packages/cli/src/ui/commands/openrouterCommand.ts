@@ -11,6 +11,8 @@ import {
   loadDevoraSettings,
   saveDevoraSettings,
   OpenRouterClient,
+  OPENROUTER_PROVIDER_ID,
+  readModelCatalogSnapshot,
 } from '@google/gemini-cli-core';
 
 function promptUser(question: string): Promise<string> {
@@ -102,8 +104,9 @@ const apiKeySubCommand: SlashCommand = {
 const modelSubCommand: SlashCommand = {
   name: 'model',
   kind: CommandKind.BUILT_IN,
-  description: 'List available models or select a model',
-  action: async (context: CommandContext, _args: string) => {
+  description:
+    'Select an OpenRouter model. Usage: /openrouter model [--refresh]',
+  action: async (context: CommandContext, args: string) => {
     const settings = loadDevoraSettings();
 
     if (!settings.openrouterApiKey) {
@@ -121,121 +124,37 @@ const modelSubCommand: SlashCommand = {
       };
     }
 
-    try {
-      const client = new OpenRouterClient(settings.openrouterApiKey);
-      const modelsResponse = await client.getModels();
-
-      context.ui.addItem(
-        {
-          type: 'info',
-          text: `\nAvailable OpenRouter models (${modelsResponse.data.length} total):\n`,
-        },
-        Date.now(),
-      );
-
-      // Sort models alphabetically by name and display ALL models
-      const sortedModels = modelsResponse.data.sort(
-        (a: { name: string }, b: { name: string }) =>
-          a.name.localeCompare(b.name),
-      );
-
-      for (const [index, model] of sortedModels.entries()) {
-        const currentMarker =
-          settings.model?.name === model.id ? ' [CURRENT]' : '';
-        context.ui.addItem(
-          {
-            type: 'info',
-            text: `${(index + 1).toString().padStart(2)}. ${model.name}${currentMarker}`,
-          },
-          Date.now(),
-        );
+    if (args.trim() === '--refresh') {
+      try {
+        const modelsResponse = await new OpenRouterClient(
+          settings.openrouterApiKey,
+          settings.providers?.[OPENROUTER_PROVIDER_ID]?.baseUrl,
+        ).getModels({ refresh: true });
         context.ui.addItem(
           {
             type: 'info',
-            text: `    ID: ${model.id}`,
+            text: `Model catalog refreshed (${modelsResponse.data.length} models)`,
           },
           Date.now(),
         );
-        if (model.description) {
-          context.ui.addItem(
-            {
-              type: 'info',
-              text: `    ${model.description}`,
-            },
-            Date.now(),
-          );
-        }
+      } catch (error) {
         context.ui.addItem(
           {
-            type: 'info',
-            text: `    Context: ${model.context_length.toLocaleString()} tokens\n`,
+            type: 'error',
+            text: `❌ Failed to fetch models: ${error instanceof Error ? error.message : String(error)}`,
           },
           Date.now(),
         );
       }
-
-      const currentModel =
-        settings.model?.name || 'anthropic/claude-3.5-sonnet';
-      context.ui.addItem(
-        {
-          type: 'info',
-          text: `Current model: ${currentModel}`,
-        },
-        Date.now(),
-      );
-
-      const changeModel = await promptUser(
-        '\nEnter model ID to change (or press Enter to keep current): ',
-      );
-
-      if (changeModel) {
-        const selectedModel = modelsResponse.data.find(
-          (m: { id: string; name: string }) =>
-            m.id === changeModel || m.name === changeModel,
-        );
-
-        if (selectedModel) {
-          settings.model = { name: selectedModel.id };
-          saveDevoraSettings(settings);
-          context.ui.addItem(
-            {
-              type: 'info',
-              text: `✅ Model changed to: ${selectedModel.name}`,
-            },
-            Date.now(),
-          );
-        } else {
-          context.ui.addItem(
-            {
-              type: 'error',
-              text: `❌ Model "${changeModel}" not found. Please try again.`,
-            },
-            Date.now(),
-          );
-        }
-      }
-
-      return {
-        type: 'message',
-        messageType: 'info',
-        content: 'Model operation complete',
-      };
-    } catch (error) {
-      context.ui.addItem(
-        {
-          type: 'error',
-          text: `❌ Failed to fetch models: ${error instanceof Error ? error.message : String(error)}`,
-        },
-        Date.now(),
-      );
-
-      return {
-        type: 'message',
-        messageType: 'error',
-        content: 'Failed to fetch models',
-      };
     }
+
+    return {
+      type: 'dialog',
+      dialog: 'model',
+    };
   },
+  completion: async (_context: CommandContext, partialArg: string) =>
+    '--refresh'.startsWith(partialArg) ? ['--refresh'] : [],
 };
 
 const statusSubCommand: SlashCommand = {
@@ -268,6 +187,16 @@ const statusSubCommand: SlashCommand = {
         },
         Date.now(),
       );
+      const catalog = readModelCatalogSnapshot(OPENROUTER_PROVIDER_ID);
+      context.ui.addItem(
+        {
+          type: 'info',
+          text: catalog
+            ? `Model catalog: ${catalog.models.length} models, updated ${new Date(catalog.fetchedAt).toLocaleString()}`
+            : 'Model catalog: not downloaded yet',
+        },
+        Date.now(),
+      );
       context.ui.addItem(
         {
           type: 'info',
@@ -0,0 +1,153 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  AuthType,
+  loadDevoraSettings,
+  saveDevoraSettings,
+} from '@google/gemini-cli-core';
+import { providerCommand } from './providerCommand.js';
+import { type CommandContext } from './types.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+import { SettingScope } from '../../config/settings.js';
+
+vi.mock('@google/gemini-cli-core', async () => {
+  const actual = await vi.importActual('@google/gemini-cli-core');
+  return {
+    ...actual,
+    loadDevoraSettings: vi.fn(),
+    saveDevoraSettings: vi.fn(),
+  };
+});
+
+describe('providerCommand', () => {
+  let mockContext: CommandContext;
+  const refreshAuth = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('ZAI_API_KEY', '');
+    vi.mocked(loadDevoraSettings).mockReturnValue({
+      activeProvider: 'vllm',
+      providers: {
+        vllm: {
+          displayName: 'On-prem vLLM',
+          baseUrl: 'http://localhost:8000/v1',
+          apiKeyEnv: 'VLLM_API_KEY',
+          model: 'qwen2.5-coder',
+          headers: { 'X-Team': 'platform' },
+        },
+      },
+    });
+    mockContext = createMockCommandContext({
+      services: {
+        config: { refreshAuth },
+      },
+    });
+    mockContext.services.settings.setValue = vi.fn();
+  });
+
+  const getSubCommand = (name: string) => {
+    const subCommand = providerCommand.subCommands?.find(
+      (cmd) => cmd.name === name,
+    );
+    if (!subCommand?.action) {
+      throw new Error(`The ${name} subcommand must have an action.`);
+    }
+    return subCommand;
+  };
+
+  it('should show the active provider by default', async () => {
+    vi.stubEnv('VLLM_API_KEY', 'vllm-secret-key');
+
+    const result = await providerCommand.action!(mockContext, '');
+
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content: [
+        'Provider: On-prem vLLM (vllm)',
+        'Base URL: http://localhost:8000/v1',
+        'Model: qwen2.5-coder',
+        'API Key: vllm-sec...-key (from VLLM_API_KEY)',
+        'Headers: X-Team',
+      ].join('\n'),
+    });
+  });
+
+  it('should list presets and custom providers, marking the active one', async () => {
+    const result = await getSubCommand('list').action!(mockContext, '');
+
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content: expect.stringContaining(
+        '- vllm [ACTIVE]: On-prem vLLM, qwen2.5-coder @ http://localhost:8000/v1',
+      ),
+    });
+    expect((result as { content: string }).content).toContain(
+      '- zai: Zai GLM, glm-4.7 @ https://api.z.ai/api/coding/paas/v4',
+    );
+  });
+
+  it('should switch the active provider and refresh auth', async () => {
+    vi.stubEnv('ZAI_API_KEY', 'zai-secret-key');
+
+    const result = await getSubCommand('use').action!(mockContext, 'zai');
+
+    expect(saveDevoraSettings).toHaveBeenCalledWith(
+      expect.objectContaining({ activeProvider: 'zai' }),
+    );
+    expect(mockContext.services.settings.setValue).toHaveBeenCalledWith(
+      SettingScope.User,
+      'security.auth.selectedType',
+      AuthType.OPENAI_COMPATIBLE,
+    );
+    expect(refreshAuth).toHaveBeenCalledWith(AuthType.OPENAI_COMPATIBLE, 'zai');
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content:
+        'Switched to Zai GLM (glm-4.7 @ https://api.z.ai/api/coding/paas/v4).',
+    });
+  });
+
+  it('should not switch to a provider whose API key is missing', async () => {
+    const result = await getSubCommand('use').action!(mockContext, 'zai');
+
+    expect(refreshAuth).not.toHaveBeenCalled();
+    expect(saveDevoraSettings).not.toHaveBeenCalled();
+    expect(mockContext.services.settings.setValue).not.toHaveBeenCalled();
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'error',
+      content: expect.stringContaining(
+        'Failed to switch to Zai GLM: When using Zai GLM, you must specify the ZAI_API_KEY environment variable.',
+      ),
+    });
+  });
+
+  it('should reject unknown providers', async () => {
+    const result = await getSubCommand('use').action!(mockContext, 'nope');
+
+    expect(saveDevoraSettings).not.toHaveBeenCalled();
+    expect(refreshAuth).not.toHaveBeenCalled();
+    expect(result).toMatchObject({
+      type: 'message',
+      messageType: 'error',
+    });
+  });
+
+  it('should complete provider ids', async () => {
+    const completions = await getSubCommand('use').completion!(
+      mockContext,
+      'v',
+    );
+
+    expect(completions).toEqual(['vllm']);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { CommandContext, SlashCommand } from './types.js';
+import { CommandKind } from './types.js';
+import {
+  AuthType,
+  getActiveProviderId,
+  getOpenAICompatibleProviderIds,
+  loadDevoraSettings,
+  resolveOpenAICompatibleProvider,
+  saveDevoraSettings,
+  type MessageActionReturn,
+} from '@google/gemini-cli-core';
+import { SettingScope } from '../../config/settings.js';
+import { validateOpenAICompatibleProvider } from '../../config/auth.js';
+
+function maskApiKey(apiKey: string): string {
+  if (apiKey.length <= 8) return '***';
+  return `${apiKey.slice(0, 8)}...${apiKey.slice(-4)}`;
+}
+
+const statusSubCommand: SlashCommand = {
+  name: 'status',
+  kind: CommandKind.BUILT_IN,
+  description: 'Show the active OpenAI-compatible provider',
+  action: async (
+    _context: CommandContext,
+    _args: string,
+  ): Promise<MessageActionReturn> => {
+    const settings = loadDevoraSettings();
+    const providerId = getActiveProviderId(settings);
+    const provider = resolveOpenAICompatibleProvider(settings, providerId);
+
+    if (!provider) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: `Active provider "${providerId}" is not configured. Use /provider list to see the available providers.`,
+      };
+    }
+
+    const lines = [
+      `Provider: ${provider.displayName} (${provider.id})`,
+      `Base URL: ${provider.baseUrl}`,
+      `Model: ${provider.model}`,
+      `API Key: ${provider.apiKey ? maskApiKey(provider.apiKey) : 'Not configured'}${
+        provider.apiKeyEnv ? ` (from ${provider.apiKeyEnv})` : ''
+      }`,
+    ];
+    const headerNames = Object.keys(provider.headers ?? {});
+    if (headerNames.length > 0) {
+      lines.push(`Headers: ${headerNames.join(', ')}`);
+    }
+
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: lines.join('\n'),
+    };
+  },
+};
+
+const listSubCommand: SlashCommand = {
+  name: 'list',
+  kind: CommandKind.BUILT_IN,
+  description: 'List the configured OpenAI-compatible providers',
+  action: async (
+    _context: CommandContext,
+    _args: string,
+  ): Promise<MessageActionReturn> => {
+    const settings = loadDevoraSettings();
+    const activeId = getActiveProviderId(settings);
+
+    const lines = getOpenAICompatibleProviderIds(settings).map((id) => {
+      const provider = resolveOpenAICompatibleProvider(settings, id);
+      const marker = id === activeId ? ' [ACTIVE]' : '';
+      if (!provider) {
+        return `- ${id}${marker}: incomplete (missing baseUrl or model)`;
+      }
+      return `- ${id}${marker}: ${provider.displayName}, ${provider.model} @ ${provider.baseUrl}`;
+    });
+
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: `OpenAI-compatible providers:\n${lines.join('\n')}`,
+    };
+  },
+};
+
+const useSubCommand: SlashCommand = {
+  name: 'use',
+  kind: CommandKind.BUILT_IN,
+  description:
+    'Switch to another OpenAI-compatible provider. Usage: /provider use <id>',
+  completion: async (_context: CommandContext, partialArg: string) =>
+    getOpenAICompatibleProviderIds(loadDevoraSettings()).filter((id) =>
+      id.startsWith(partialArg),
+    ),
+  action: async (
+    context: CommandContext,
+    args: string,
+  ): Promise<MessageActionReturn> => {
+    const providerId = args.trim();
+    if (!providerId) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'Usage: /provider use <id>',
+      };
+    }
+
+    const settings = loadDevoraSettings();
+    const provider = resolveOpenAICompatibleProvider(settings, providerId);
+    if (!provider) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: `Unknown provider "${providerId}". Declare it under "providers" in the Devora settings file (baseUrl and model are required).`,
+      };
+    }
+
+    // Only persist the switch once the provider is usable, so a missing key
+    // does not break the next launch.
+    const keyError = validateOpenAICompatibleProvider(provider);
+    if (keyError) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: `Failed to switch to ${provider.displayName}: ${keyError}`,
+      };
+    }
+    try {
+      await context.services.config?.refreshAuth(
+        AuthType.OPENAI_COMPATIBLE,
+        providerId,
+      );
+    } catch (error) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: `Failed to switch to ${provider.displayName}: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+
+    settings.activeProvider = providerId;
+    saveDevoraSettings(settings);
+    context.services.settings.setValue(
+      SettingScope.User,
+      'security.auth.selectedType',
+      AuthType.OPENAI_COMPATIBLE,
+    );
+
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: `Switched to ${provider.displayName} (${provider.model} @ ${provider.baseUrl}).`,
+    };
+  },
+};
+
+export const providerCommand: SlashCommand = {
+  name: 'provider',
+  description: 'Manage OpenAI-compatible providers (vLLM, LiteLLM, Zai, ...)',
+  kind: CommandKind.BUILT_IN,
+  subCommands: [statusSubCommand, listSubCommand, useSubCommand],
+  autoExecute: false,
+  action: async (context: CommandContext, args: string) =>
+    statusSubCommand.action!(context, args),
+};
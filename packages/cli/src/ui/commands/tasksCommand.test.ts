@@ -0,0 +1,153 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  BackgroundTaskManager,
+  type BackgroundTask,
+} from '@google/gemini-cli-core';
+import { tasksCommand } from './tasksCommand.js';
+import { type CommandContext } from './types.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+
+const runningTask: BackgroundTask = {
+  id: 'task_1',
+  description: 'Find auth code',
+  agent: 'explore',
+  status: 'running',
+  sessionID: 'session-1',
+  startedAt: new Date(Date.now() - 65_000),
+  progress: { lastTool: 'grep', lastMessage: 'Looking at src/auth' },
+};
+
+const completedTask: BackgroundTask = {
+  id: 'task_2',
+  description: 'Review design',
+  agent: 'oracle',
+  status: 'completed',
+  sessionID: 'session-1',
+  startedAt: new Date(0),
+  completedAt: new Date(12_000),
+  result: 'Looks good.',
+};
+
+describe('tasksCommand', () => {
+  let mockContext: CommandContext;
+  const manager = {
+    listTasks: vi.fn(),
+    getTask: vi.fn(),
+    cancelTask: vi.fn(),
+    cancelAll: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(BackgroundTaskManager, 'getInstance').mockReturnValue(
+      manager as unknown as BackgroundTaskManager,
+    );
+    manager.listTasks.mockReturnValue([runningTask, completedTask]);
+    manager.getTask.mockImplementation((id: string) =>
+      [runningTask, completedTask].find((task) => task.id === id),
+    );
+    mockContext = createMockCommandContext();
+  });
+
+  const getSubCommand = (name: string) => {
+    const subCommand = tasksCommand.subCommands?.find(
+      (cmd) => cmd.name === name,
+    );
+    if (!subCommand?.action) {
+      throw new Error(`The ${name} subcommand must have an action.`);
+    }
+    return subCommand;
+  };
+
+  it('should list the background tasks by default', async () => {
+    const result = await tasksCommand.action!(mockContext, '');
+
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content: [
+        'Background tasks:',
+        '- task_1 [running] explore: Find auth code (1m 5s)',
+        '- task_2 [completed] oracle: Review design (12.0s)',
+      ].join('\n'),
+    });
+  });
+
+  it('should say when there are no background tasks', async () => {
+    manager.listTasks.mockReturnValue([]);
+
+    const result = await tasksCommand.action!(mockContext, '');
+
+    expect(result).toMatchObject({
+      content: 'No background tasks in this session.',
+    });
+  });
+
+  it('should show the progress of a running task', async () => {
+    const result = await getSubCommand('output').action!(mockContext, 'task_1');
+
+    expect(result).toMatchObject({
+      messageType: 'info',
+      content: expect.stringContaining(
+        'Last tool: grep\nLast message: Looking at src/auth',
+      ),
+    });
+  });
+
+  it('should show the result of a completed task', async () => {
+    const result = await getSubCommand('output').action!(mockContext, 'task_2');
+
+    expect(result).toMatchObject({
+      content: expect.stringMatching(/\n\nLooks good\.$/),
+    });
+  });
+
+  it('should report unknown tasks', async () => {
+    const result = await getSubCommand('output').action!(mockContext, 'nope');
+
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'error',
+      content: 'Background task "nope" not found.',
+    });
+  });
+
+  it('should cancel a task', async () => {
+    manager.cancelTask.mockReturnValue(true);
+
+    const result = await getSubCommand('cancel').action!(mockContext, 'task_1');
+
+    expect(manager.cancelTask).toHaveBeenCalledWith('task_1');
+    expect(result).toMatchObject({
+      messageType: 'info',
+      content: 'Cancelled background task task_1.',
+    });
+  });
+
+  it('should cancel all tasks', async () => {
+    manager.cancelAll.mockReturnValue(2);
+
+    const result = await getSubCommand('cancel').action!(mockContext, 'all');
+
+    expect(result).toMatchObject({
+      content: 'Cancelled 2 background task(s).',
+    });
+  });
+
+  it('should complete task ids', async () => {
+    expect(await getSubCommand('cancel').completion!(mockContext, '')).toEqual([
+      'all',
+      'task_1',
+      'task_2',
+    ]);
+    expect(
+      await getSubCommand('output').completion!(mockContext, 'task_2'),
+    ).toEqual(['task_2']);
+  });
+});
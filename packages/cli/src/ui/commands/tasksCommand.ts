@@ -0,0 +1,164 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { CommandContext, SlashCommand } from './types.js';
+import { CommandKind } from './types.js';
+import {
+  BackgroundTaskManager,
+  type BackgroundTask,
+  type MessageActionReturn,
+} from '@google/gemini-cli-core';
+import { formatElapsedTime } from '../utils/formatters.js';
+
+function describeTask(task: BackgroundTask): string {
+  const elapsed = task.startedAt
+    ? formatElapsedTime(task.startedAt, task.completedAt)
+    : 'queued';
+  return `${task.id} [${task.status}] ${task.agent}: ${task.description} (${elapsed})`;
+}
+
+function completeTaskIds(
+  _context: CommandContext,
+  partialArg: string,
+): string[] {
+  return BackgroundTaskManager.getInstance()
+    .listTasks()
+    .map((task) => task.id)
+    .filter((id) => id.startsWith(partialArg));
+}
+
+const listSubCommand: SlashCommand = {
+  name: 'list',
+  kind: CommandKind.BUILT_IN,
+  description: 'List background tasks',
+  autoExecute: true,
+  action: async (
+    _context: CommandContext,
+    _args: string,
+  ): Promise<MessageActionReturn> => {
+    const tasks = BackgroundTaskManager.getInstance().listTasks();
+    if (tasks.length === 0) {
+      return {
+        type: 'message',
+        messageType: 'info',
+        content: 'No background tasks in this session.',
+      };
+    }
+
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: `Background tasks:\n${tasks.map((task) => `- ${describeTask(task)}`).join('\n')}`,
+    };
+  },
+};
+
+const outputSubCommand: SlashCommand = {
+  name: 'output',
+  kind: CommandKind.BUILT_IN,
+  description:
+    'Show the progress or result of a background task. Usage: /tasks output <task_id>',
+  completion: completeTaskIds,
+  action: async (
+    _context: CommandContext,
+    args: string,
+  ): Promise<MessageActionReturn> => {
+    const taskId = args.trim();
+    if (!taskId) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'Usage: /tasks output <task_id>',
+      };
+    }
+
+    const task = BackgroundTaskManager.getInstance().getTask(taskId);
+    if (!task) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: `Background task "${taskId}" not found.`,
+      };
+    }
+
+    const lines = [describeTask(task)];
+    if (task.progress?.lastTool) {
+      lines.push(`Last tool: ${task.progress.lastTool}`);
+    }
+    if (task.progress?.lastMessage) {
+      lines.push(`Last message: ${task.progress.lastMessage}`);
+    }
+    if (task.error) {
+      lines.push(`Error: ${task.error}`);
+    }
+    if (task.result) {
+      lines.push('', task.result);
+    }
+
+    return {
+      type: 'message',
+      messageType: task.status === 'error' ? 'error' : 'info',
+      content: lines.join('\n'),
+    };
+  },
+};
+
+const cancelSubCommand: SlashCommand = {
+  name: 'cancel',
+  kind: CommandKind.BUILT_IN,
+  description:
+    'Cancel a background task, or all of them. Usage: /tasks cancel <task_id|all>',
+  completion: (context, partialArg) => [
+    ...('all'.startsWith(partialArg) ? ['all'] : []),
+    ...completeTaskIds(context, partialArg),
+  ],
+  action: async (
+    _context: CommandContext,
+    args: string,
+  ): Promise<MessageActionReturn> => {
+    const taskId = args.trim();
+    if (!taskId) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'Usage: /tasks cancel <task_id|all>',
+      };
+    }
+
+    const manager = BackgroundTaskManager.getInstance();
+    if (taskId === 'all') {
+      const cancelled = manager.cancelAll();
+      return {
+        type: 'message',
+        messageType: 'info',
+        content: `Cancelled ${cancelled} background task(s).`,
+      };
+    }
+
+    if (!manager.cancelTask(taskId)) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: `Background task "${taskId}" not found or already stopped.`,
+      };
+    }
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: `Cancelled background task ${taskId}.`,
+    };
+  },
+};
+
+export const tasksCommand: SlashCommand = {
+  name: 'tasks',
+  description: 'List, inspect and cancel background agent tasks',
+  kind: CommandKind.BUILT_IN,
+  subCommands: [listSubCommand, outputSubCommand, cancelSubCommand],
+  autoExecute: true,
+  action: async (context: CommandContext, args: string) =>
+    listSubCommand.action!(context, args),
+};
@@ -6,7 +6,8 @@
 
 import type {
   CommandContext,
-  SlashCommand
+  OpenDialogActionReturn,
+  SlashCommand,
 } from './types.js';
 import { CommandKind } from './types.js';
 import * as readline from 'node:readline';
@@ -16,18 +17,6 @@ import {
   type DevoraSettings,
 } from '@google/gemini-cli-core';
 
-// Latest Zai models (updated 2025)
-const ZAI_MODELS = [
-  { id: 'glm-4.7', name: 'GLM-4.7', description: 'Default - Best for coding' },
-  {
-    id: 'glm-4.7-plus',
-    name: 'GLM-4.7 Plus',
-    description: 'Enhanced capabilities',
-  },
-  { id: 'glm-4.7-flash', name: 'GLM-4.7 Flash', description: 'Fast responses' },
-  { id: 'glm-4-air', name: 'GLM-4 Air', description: 'Lightweight & fast' },
-] as const;
-
 function promptUser(question: string): Promise<string> {
   const rl = readline.createInterface({
     input: process.stdin,
@@ -206,66 +195,10 @@ const modelSubCommand: SlashCommand = {
   name: 'model',
   kind: CommandKind.BUILT_IN,
   description: 'Change your Zai model',
-  action: async (context: CommandContext, _args: string) => {
-    const settings = loadDevoraSettings();
-    const currentModel = settings.model?.name || 'glm-4.7';
-
-    let modelList = '🤖 Available Zai Models:\n\n';
-    ZAI_MODELS.forEach((model, index) => {
-      const isCurrent = model.id === currentModel;
-      modelList += `  ${index + 1}. ${model.name}${isCurrent ? ' (current)' : ''}\n`;
-      modelList += `     ${model.description}\n\n`;
-    });
-
-    context.ui.addItem(
-      {
-        type: 'info',
-        text: modelList + 'Enter the number of the model you want to use:',
-      },
-      Date.now(),
-    );
-
-    const choice = await promptUser('Model number (1-4): ');
-    const modelIndex = parseInt(choice, 10) - 1;
-
-    if (
-      isNaN(modelIndex) ||
-      modelIndex < 0 ||
-      modelIndex >= ZAI_MODELS.length
-    ) {
-      context.ui.addItem(
-        {
-          type: 'error',
-          text: '❌ Invalid choice. Please enter a number between 1 and 4.',
-        },
-        Date.now(),
-      );
-      return {
-        type: 'message',
-        messageType: 'error',
-        content: 'Invalid model choice',
-      };
-    }
-
-    const selectedModel = ZAI_MODELS[modelIndex];
-    settings.model = settings.model || {};
-    settings.model.name = selectedModel.id;
-    saveDevoraSettings(settings);
-
-    context.ui.addItem(
-      {
-        type: 'info',
-        text: `✅ Model changed to ${selectedModel.name}\n\n${selectedModel.description}`,
-      },
-      Date.now(),
-    );
-
-    return {
-      type: 'message',
-      messageType: 'info',
-      content: `Model changed to ${selectedModel.name}`,
-    };
-  },
+  action: (): OpenDialogActionReturn => ({
+    type: 'dialog',
+    dialog: 'model',
+  }),
 };
 
 const statusSubCommand: SlashCommand = {
@@ -320,6 +253,5 @@ export const zaiCommand: SlashCommand = {
   autoExecute: false,
   action: async (context: CommandContext, _args: string) =>
     // If no subcommand is provided, show status
-     statusSubCommand.action!(context, _args)
-  ,
+    statusSubCommand.action!(context, _args),
 };
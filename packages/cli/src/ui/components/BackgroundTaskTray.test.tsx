@@ -0,0 +1,79 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { render } from '../../test-utils/render.js';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { BackgroundTask } from '@google/gemini-cli-core';
+import { BackgroundTaskTray } from './BackgroundTaskTray.js';
+import { useBackgroundTasks } from '../hooks/useBackgroundTasks.js';
+
+vi.mock('../hooks/useBackgroundTasks.js');
+
+const now = Date.now();
+
+const createTask = (overrides: Partial<BackgroundTask>): BackgroundTask => ({
+  id: 'task_1',
+  description: 'Find auth code',
+  agent: 'explore',
+  status: 'running',
+  sessionID: 'session-1',
+  ...overrides,
+});
+
+describe('<BackgroundTaskTray />', () => {
+  beforeEach(() => {
+    vi.mocked(useBackgroundTasks).mockReturnValue([]);
+  });
+
+  it('renders nothing when there are no tasks', () => {
+    const { lastFrame } = render(<BackgroundTaskTray />);
+    expect(lastFrame()).toBe('');
+  });
+
+  it('renders nothing when every task has stopped', () => {
+    vi.mocked(useBackgroundTasks).mockReturnValue([
+      createTask({ status: 'completed', completedAt: new Date(now) }),
+    ]);
+
+    const { lastFrame } = render(<BackgroundTaskTray />);
+    expect(lastFrame()).toBe('');
+  });
+
+  it('lists running, queued and finished tasks with their progress', () => {
+    vi.mocked(useBackgroundTasks).mockReturnValue([
+      createTask({
+        startedAt: new Date(now - 5_000),
+        progress: { lastTool: 'grep', lastMessage: 'Looking at src/auth' },
+      }),
+      createTask({
+        id: 'task_2',
+        agent: 'librarian',
+        description: 'Read the docs',
+        status: 'pending',
+      }),
+      createTask({
+        id: 'task_3',
+        agent: 'oracle',
+        description: 'Review design',
+        status: 'error',
+        startedAt: new Date(now - 20_000),
+        completedAt: new Date(now - 10_000),
+        error: 'Agent stopped early (MAX_TURNS)',
+      }),
+    ]);
+
+    const { lastFrame } = render(<BackgroundTaskTray />);
+    const frame = lastFrame();
+
+    expect(frame).toContain('Background tasks');
+    expect(frame).toContain('1 running, 1 queued (/tasks to manage)');
+    expect(frame).toContain('explore Find auth code');
+    expect(frame).toContain('last tool: grep · Looking at src/auth');
+    expect(frame).toContain('librarian Read the docs (queued)');
+    expect(frame).toContain('oracle Review design (10.0s)');
+    expect(frame).toContain('Agent stopped early (MAX_TURNS)');
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type React from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import { Box, Text } from 'ink';
+import {
+  isTerminalTaskStatus,
+  type BackgroundTask,
+  type BackgroundTaskStatus,
+} from '@google/gemini-cli-core';
+import { theme } from '../semantic-colors.js';
+import { formatElapsedTime } from '../utils/formatters.js';
+import { useBackgroundTasks } from '../hooks/useBackgroundTasks.js';
+
+/** Number of stopped tasks still listed while others are running */
+const MAX_FINISHED_TASKS = 3;
+
+const TaskStatusDisplay: React.FC<{ status: BackgroundTaskStatus }> = ({
+  status,
+}) => {
+  switch (status) {
+    case 'completed':
+      return (
+        <Text color={theme.status.success} aria-label="Completed">
+          ✓
+        </Text>
+      );
+    case 'running':
+      return (
+        <Text color={theme.text.accent} aria-label="Running">
+          »
+        </Text>
+      );
+    case 'pending':
+      return (
+        <Text color={theme.text.secondary} aria-label="Queued">
+          ☐
+        </Text>
+      );
+    case 'error':
+    case 'cancelled':
+    default:
+      return (
+        <Text color={theme.status.error} aria-label="Stopped">
+          ✗
+        </Text>
+      );
+  }
+};
+
+const TaskItemDisplay: React.FC<{ task: BackgroundTask; now: number }> = ({
+  task,
+  now,
+}) => {
+  const details = [
+    task.progress?.lastTool && `last tool: ${task.progress.lastTool}`,
+    task.status === 'error' ? task.error : task.progress?.lastMessage,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+  const elapsed = task.startedAt
+    ? formatElapsedTime(task.startedAt, task.completedAt ?? now)
+    : 'queued';
+
+  return (
+    <Box flexDirection="column" aria-role="listitem">
+      <Box flexDirection="row" columnGap={1}>
+        <TaskStatusDisplay status={task.status} />
+        <Text color={theme.text.accent} bold>
+          {task.agent}
+        </Text>
+        <Box flexShrink={1}>
+          <Text color={theme.text.primary} wrap="truncate">
+            {task.description}
+          </Text>
+        </Box>
+        <Text color={theme.text.secondary}>({elapsed})</Text>
+      </Box>
+      {details && (
+        <Box paddingLeft={2}>
+          <Text color={theme.text.secondary} wrap="truncate">
+            {details}
+          </Text>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+/**
+ * Lists the Sisyphus background tasks while at least one of them is queued or
+ * running, along with the last few that stopped.
+ */
+export const BackgroundTaskTray: React.FC = () => {
+  const tasks = useBackgroundTasks();
+  const [now, setNow] = useState(() => Date.now());
+
+  const activeTasks = useMemo(
+    () => tasks.filter((task) => !isTerminalTaskStatus(task.status)),
+    [tasks],
+  );
+  const finishedTasks = useMemo(
+    () =>
+      tasks
+        .filter((task) => isTerminalTaskStatus(task.status))
+        .sort(
+          (a, b) =>
+            (b.completedAt?.getTime() ?? 0) - (a.completedAt?.getTime() ?? 0),
+        )
+        .slice(0, MAX_FINISHED_TASKS),
+    [tasks],
+  );
+  const hasActiveTasks = activeTasks.length > 0;
+
+  // Refresh the elapsed times while tasks are running.
+  useEffect(() => {
+    if (!hasActiveTasks) {
+      return;
+    }
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [hasActiveTasks]);
+
+  if (!hasActiveTasks) {
+    return null;
+  }
+
+  const running = activeTasks.filter((task) => task.status === 'running');
+  const queued = activeTasks.length - running.length;
+  const summary = [
+    `${running.length} running`,
+    queued > 0 ? `${queued} queued` : undefined,
+  ]
+    .filter(Boolean)
+    .join(', ');
+
+  return (
+    <Box
+      borderStyle="single"
+      borderBottom={false}
+      borderRight={false}
+      borderLeft={false}
+      borderColor={theme.border.default}
+      paddingLeft={1}
+      paddingRight={1}
+      flexDirection="column"
+    >
+      <Box flexDirection="row" columnGap={2} height={1}>
+        <Text color={theme.text.primary} bold aria-label="Background tasks">
+          Background tasks
+        </Text>
+        <Text color={theme.text.secondary}>{summary} (/tasks to manage)</Text>
+      </Box>
+      <Box flexDirection="column" aria-role="list">
+        {[...activeTasks, ...finishedTasks].map((task) => (
+          <TaskItemDisplay task={task} now={now} key={task.id} />
+        ))}
+      </Box>
+    </Box>
+  );
+};
@@ -49,6 +49,10 @@ vi.mock('./ShellModeIndicator.js', () => ({
   ShellModeIndicator: () => <Text>ShellModeIndicator</Text>,
 }));
 
+vi.mock('./MegaworkModeIndicator.js', () => ({
+  MegaworkModeIndicator: () => <Text>MegaworkModeIndicator</Text>,
+}));
+
 vi.mock('./DetailedMessagesDisplay.js', () => ({
   DetailedMessagesDisplay: () => <Text>DetailedMessagesDisplay</Text>,
 }));
@@ -107,6 +111,7 @@ const createMockUIState = (overrides: Partial<UIState> = {}): UIState =>
     slashCommands: [],
     commandContext: null,
     shellModeActive: false,
+    megaworkModeActive: false,
     isFocused: true,
     thought: '',
     currentLoadingPhrase: '',
@@ -440,6 +445,24 @@ describe('Composer', () => {
       expect(lastFrame()).toContain('ShellModeIndicator');
     });
 
+    it('shows MegaworkModeIndicator next to the approval mode when Megawork mode is on', () => {
+      const uiState = createMockUIState({
+        showApprovalModeIndicator: ApprovalMode.YOLO,
+        megaworkModeActive: true,
+      });
+
+      const { lastFrame } = renderComposer(uiState);
+
+      expect(lastFrame()).toContain('MegaworkModeIndicator');
+      expect(lastFrame()).toContain('ApprovalModeIndicator');
+    });
+
+    it('does not show MegaworkModeIndicator when Megawork mode is off', () => {
+      const { lastFrame } = renderComposer(createMockUIState());
+
+      expect(lastFrame()).not.toContain('MegaworkModeIndicator');
+    });
+
     it('shows RawMarkdownIndicator when renderMarkdown is false', () => {
       const uiState = createMockUIState({
         renderMarkdown: false,
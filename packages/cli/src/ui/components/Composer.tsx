@@ -10,6 +10,7 @@ import { LoadingIndicator } from './LoadingIndicator.js';
 import { StatusDisplay } from './StatusDisplay.js';
 import { ApprovalModeIndicator } from './ApprovalModeIndicator.js';
 import { ShellModeIndicator } from './ShellModeIndicator.js';
+import { MegaworkModeIndicator } from './MegaworkModeIndicator.js';
 import { DetailedMessagesDisplay } from './DetailedMessagesDisplay.js';
 import { RawMarkdownIndicator } from './RawMarkdownIndicator.js';
 import { InputPrompt } from './InputPrompt.js';
@@ -28,6 +29,7 @@ import { ApprovalMode } from '@google/gemini-cli-core';
 import { StreamingState } from '../types.js';
 import { ConfigInitDisplay } from '../components/ConfigInitDisplay.js';
 import { TodoTray } from './messages/Todo.js';
+import { BackgroundTaskTray } from './BackgroundTaskTray.js';
 
 export const Composer = () => {
   const config = useConfig();
@@ -79,6 +81,8 @@ export const Composer = () => {
 
       <TodoTray />
 
+      <BackgroundTaskTray />
+
       <Box
         marginTop={1}
         justifyContent={
@@ -92,6 +96,7 @@ export const Composer = () => {
           <StatusDisplay hideContextSummary={hideContextSummary} />
         </Box>
         <Box paddingTop={isNarrow ? 1 : 0}>
+          {uiState.megaworkModeActive && <MegaworkModeIndicator />}
           {showApprovalModeIndicator !== ApprovalMode.DEFAULT &&
             !uiState.shellModeActive && (
               <ApprovalModeIndicator approvalMode={showApprovalModeIndicator} />
@@ -4,9 +4,11 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { useContext } from 'react';
 import { Text } from 'ink';
 import { theme } from '../semantic-colors.js';
 import { tokenLimit } from '@google/gemini-cli-core';
+import { ConfigContext } from '../contexts/ConfigContext.js';
 
 export const ContextUsageDisplay = ({
   promptTokenCount,
@@ -17,7 +19,8 @@ export const ContextUsageDisplay = ({
   model: string;
   terminalWidth: number;
 }) => {
-  const percentage = promptTokenCount / tokenLimit(model);
+  const config = useContext(ConfigContext);
+  const percentage = promptTokenCount / tokenLimit(model, config);
   const percentageLeft = ((1 - percentage) * 100).toFixed(0);
 
   const label = terminalWidth < 100 ? '%' : '% context left';
@@ -19,6 +19,9 @@ vi.mock('../IdeIntegrationNudge.js', () => ({
 vi.mock('./LoopDetectionConfirmation.js', () => ({
   LoopDetectionConfirmation: () => <Text>LoopDetectionConfirmation</Text>,
 }));
+vi.mock('./SessionCostConfirmation.js', () => ({
+  SessionCostConfirmation: () => <Text>SessionCostConfirmation</Text>,
+}));
 vi.mock('./FolderTrustDialog.js', () => ({
   FolderTrustDialog: () => <Text>FolderTrustDialog</Text>,
 }));
@@ -71,11 +74,13 @@ describe('DialogManager', () => {
     staticExtraHeight: 0,
     mainAreaWidth: 80,
     confirmUpdateExtensionRequests: [],
+    mcpSamplingRequests: [],
     showIdeRestartPrompt: false,
     proQuotaRequest: null,
     shouldShowIdePrompt: false,
     isFolderTrustDialogOpen: false,
     loopDetectionConfirmationRequest: null,
+    sessionCostConfirmationRequest: null,
     confirmationRequest: null,
     isThemeDialogOpen: false,
     isSettingsDialogOpen: false,
@@ -129,6 +134,16 @@ describe('DialogManager', () => {
       { loopDetectionConfirmationRequest: { onComplete: vi.fn() } },
       'LoopDetectionConfirmation',
     ],
+    [
+      {
+        sessionCostConfirmationRequest: {
+          costUsd: 1.2,
+          maxCostUsd: 1,
+          onComplete: vi.fn(),
+        },
+      },
+      'SessionCostConfirmation',
+    ],
     [
       { confirmationRequest: { prompt: 'foo', onConfirm: vi.fn() } },
       'ConsentPrompt',
@@ -139,6 +154,10 @@ describe('DialogManager', () => {
       },
       'ConsentPrompt',
     ],
+    [
+      { mcpSamplingRequests: [{ prompt: 'foo', onConfirm: vi.fn() }] },
+      'ConsentPrompt',
+    ],
     [{ isThemeDialogOpen: true }, 'ThemeDialog'],
     [{ isSettingsDialogOpen: true }, 'SettingsDialog'],
     [{ isModelDialogOpen: true }, 'ModelDialog'],
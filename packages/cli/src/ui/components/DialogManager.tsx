@@ -7,6 +7,7 @@
 import { Box, Text } from 'ink';
 import { IdeIntegrationNudge } from '../IdeIntegrationNudge.js';
 import { LoopDetectionConfirmation } from './LoopDetectionConfirmation.js';
+import { SessionCostConfirmation } from './SessionCostConfirmation.js';
 import { FolderTrustDialog } from './FolderTrustDialog.js';
 import { ConsentPrompt } from './ConsentPrompt.js';
 import { ThemeDialog } from './ThemeDialog.js';
@@ -102,6 +103,15 @@ export const DialogManager = ({
       />
     );
   }
+  if (uiState.sessionCostConfirmationRequest) {
+    return (
+      <SessionCostConfirmation
+        costUsd={uiState.sessionCostConfirmationRequest.costUsd}
+        maxCostUsd={uiState.sessionCostConfirmationRequest.maxCostUsd}
+        onComplete={uiState.sessionCostConfirmationRequest.onComplete}
+      />
+    );
+  }
   if (uiState.confirmationRequest) {
     return (
       <ConsentPrompt
@@ -121,6 +131,16 @@ export const DialogManager = ({
       />
     );
   }
+  if (uiState.mcpSamplingRequests.length > 0) {
+    const request = uiState.mcpSamplingRequests[0];
+    return (
+      <ConsentPrompt
+        prompt={request.prompt}
+        onConfirm={request.onConfirm}
+        terminalWidth={terminalWidth}
+      />
+    );
+  }
   if (uiState.isThemeDialogOpen) {
     return (
       <Box flexDirection="column">
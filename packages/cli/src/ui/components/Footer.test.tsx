@@ -58,6 +58,8 @@ const mockSessionStats: SessionStatsState = {
       totalLinesAdded: 0,
       totalLinesRemoved: 0,
     },
+    subagents: {},
+    routing: { totalDecisions: 0, bySource: {} },
   },
 };
 
@@ -133,6 +135,36 @@ describe('<Footer />', () => {
     expect(lastFrame()).toMatch(/\(\d+% context left\)/);
   });
 
+  it('displays the session cost once it is known', () => {
+    const { lastFrame } = renderWithProviders(<Footer />, {
+      width: 120,
+      uiState: {
+        sessionStats: {
+          ...mockSessionStats,
+          metrics: {
+            ...mockSessionStats.metrics,
+            models: {
+              'openai/gpt-4o': {
+                api: { totalRequests: 1, totalErrors: 0, totalLatencyMs: 100 },
+                tokens: {
+                  input: 10,
+                  prompt: 10,
+                  candidates: 20,
+                  total: 30,
+                  cached: 0,
+                  thoughts: 0,
+                  tool: 0,
+                },
+                costUsd: 0.0123,
+              },
+            },
+          },
+        },
+      },
+    });
+    expect(lastFrame()).toContain('$0.0123');
+  });
+
   it('displays the model name and abbreviated context percentage', () => {
     const { lastFrame } = renderWithProviders(<Footer />, {
       width: 99,
@@ -11,6 +11,7 @@ import {
   shortenPath,
   tildeifyPath,
   getDisplayString,
+  getSessionCostUsd,
 } from '@google/gemini-cli-core';
 import { ConsoleSummaryDisplay } from './ConsoleSummaryDisplay.js';
 import process from 'node:process';
@@ -23,6 +24,7 @@ import { useUIState } from '../contexts/UIStateContext.js';
 import { useConfig } from '../contexts/ConfigContext.js';
 import { useSettings } from '../contexts/SettingsContext.js';
 import { useVimMode } from '../contexts/VimModeContext.js';
+import { formatCost } from '../utils/formatters.js';
 
 export const Footer: React.FC = () => {
   const uiState = useUIState();
@@ -40,6 +42,7 @@ export const Footer: React.FC = () => {
     errorCount,
     showErrorDetails,
     promptTokenCount,
+    sessionCostUsd,
     nightly,
     isTrustedFolder,
     mainAreaWidth,
@@ -53,6 +56,7 @@ export const Footer: React.FC = () => {
     errorCount: uiState.errorCount,
     showErrorDetails: uiState.showErrorDetails,
     promptTokenCount: uiState.sessionStats.lastPromptTokenCount,
+    sessionCostUsd: getSessionCostUsd(uiState.sessionStats.metrics),
     nightly: uiState.nightly,
     isTrustedFolder: uiState.isTrustedFolder,
     mainAreaWidth: uiState.mainAreaWidth,
@@ -159,6 +163,12 @@ export const Footer: React.FC = () => {
                   />
                 </>
               )}
+              {sessionCostUsd > 0 && (
+                <Text color={theme.text.secondary}>
+                  {' '}
+                  {formatCost(sessionCostUsd)}
+                </Text>
+              )}
             </Text>
             {showMemoryUsage && <MemoryUsageDisplay />}
           </Box>
@@ -55,6 +55,8 @@ const mockSessionStats: SessionStatsState = {
       byName: {},
     },
     files: { totalLinesAdded: 0, totalLinesRemoved: 0 },
+    subagents: {},
+    routing: { totalDecisions: 0, bySource: {} },
   },
 };
 
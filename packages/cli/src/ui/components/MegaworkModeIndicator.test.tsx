@@ -0,0 +1,17 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { render } from '../../test-utils/render.js';
+import { MegaworkModeIndicator } from './MegaworkModeIndicator.js';
+import { describe, it, expect } from 'vitest';
+
+describe('MegaworkModeIndicator', () => {
+  it('renders correctly', () => {
+    const { lastFrame } = render(<MegaworkModeIndicator />);
+    expect(lastFrame()).toContain('⚡ megawork');
+    expect(lastFrame()).toContain('/megawork off to disable');
+  });
+});
@@ -0,0 +1,18 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type React from 'react';
+import { Box, Text } from 'ink';
+import { theme } from '../semantic-colors.js';
+
+export const MegaworkModeIndicator: React.FC = () => (
+  <Box marginRight={1}>
+    <Text color={theme.text.accent}>
+      ⚡ megawork
+      <Text color={theme.text.secondary}> (/megawork off to disable)</Text>
+    </Text>
+  </Box>
+);
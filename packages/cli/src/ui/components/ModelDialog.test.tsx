@@ -16,13 +16,23 @@ import {
   DEFAULT_GEMINI_FLASH_LITE_MODEL,
   PREVIEW_GEMINI_MODEL,
   PREVIEW_GEMINI_MODEL_AUTO,
+  AuthType,
+} from '@google/gemini-cli-core';
+import type {
+  Config,
+  DevoraSettings,
+  ModelSlashCommandEvent,
+  ProviderModel,
 } from '@google/gemini-cli-core';
-import type { Config, ModelSlashCommandEvent } from '@google/gemini-cli-core';
 
 // Mock dependencies
 const mockGetDisplayString = vi.fn();
 const mockLogModelSlashCommand = vi.fn();
 const mockModelSlashCommandEvent = vi.fn();
+const mockLoadDevoraSettings = vi.fn();
+const mockSaveDevoraSettings = vi.fn();
+const mockGetConfiguredProviders = vi.fn();
+const mockListConfiguredProviderModels = vi.fn();
 
 vi.mock('@google/gemini-cli-core', async () => {
   const actual = await vi.importActual('@google/gemini-cli-core');
@@ -36,6 +46,13 @@ vi.mock('@google/gemini-cli-core', async () => {
         mockModelSlashCommandEvent(model);
       }
     },
+    loadDevoraSettings: () => mockLoadDevoraSettings(),
+    saveDevoraSettings: (settings: DevoraSettings) =>
+      mockSaveDevoraSettings(settings),
+    getConfiguredProviders: (settings: DevoraSettings) =>
+      mockGetConfiguredProviders(settings),
+    listConfiguredProviderModels: (settings: DevoraSettings) =>
+      mockListConfiguredProviderModels(settings),
   };
 });
 
@@ -45,6 +62,8 @@ describe('<ModelDialog />', () => {
   const mockGetPreviewFeatures = vi.fn();
   const mockOnClose = vi.fn();
   const mockGetHasAccessToPreviewModel = vi.fn();
+  const mockGetContentGeneratorConfig = vi.fn();
+  const mockRefreshAuth = vi.fn();
 
   interface MockConfig extends Partial<Config> {
     setModel: (model: string, isTemporary?: boolean) => void;
@@ -58,13 +77,40 @@ describe('<ModelDialog />', () => {
     getModel: mockGetModel,
     getPreviewFeatures: mockGetPreviewFeatures,
     getHasAccessToPreviewModel: mockGetHasAccessToPreviewModel,
+    getContentGeneratorConfig: mockGetContentGeneratorConfig,
+    refreshAuth: mockRefreshAuth,
   };
 
+  const providerModels: ProviderModel[] = [
+    {
+      providerId: 'zai',
+      providerName: 'Zai',
+      id: 'glm-4.7',
+      contextLength: 200_000,
+      supportsTools: true,
+    },
+    {
+      providerId: 'openrouter',
+      providerName: 'OpenRouter',
+      id: 'openai/gpt-4o',
+      contextLength: 128_000,
+      pricing: { prompt: 0.0000025, completion: 0.00001 },
+      supportsTools: true,
+      supportsVision: true,
+    },
+  ];
+
   beforeEach(() => {
     vi.resetAllMocks();
     mockGetModel.mockReturnValue(DEFAULT_GEMINI_MODEL_AUTO);
     mockGetPreviewFeatures.mockReturnValue(false);
     mockGetHasAccessToPreviewModel.mockReturnValue(false);
+    mockGetContentGeneratorConfig.mockReturnValue({
+      authType: AuthType.LOGIN_WITH_GOOGLE,
+    });
+    mockLoadDevoraSettings.mockReturnValue({});
+    mockGetConfiguredProviders.mockReturnValue([]);
+    mockListConfiguredProviderModels.mockResolvedValue(providerModels);
 
     // Default implementation for getDisplayString
     mockGetDisplayString.mockImplementation((val: string) => {
@@ -221,6 +267,166 @@ describe('<ModelDialog />', () => {
     expect(lastFrame()).toContain('Manual');
   });
 
+  describe('Providers', () => {
+    beforeEach(() => {
+      mockLoadDevoraSettings.mockReturnValue({ activeProvider: 'zai' });
+      mockGetConfiguredProviders.mockReturnValue([
+        { id: 'zai', displayName: 'Zai' },
+        { id: 'openrouter', displayName: 'OpenRouter' },
+      ]);
+    });
+
+    it('offers the other providers in the "main" view', () => {
+      const { lastFrame } = renderComponent();
+      expect(lastFrame()).toContain('Other providers');
+      expect(lastFrame()).toContain('Zai, OpenRouter');
+    });
+
+    it('lists the provider models alongside the Gemini models', async () => {
+      const { lastFrame, stdin } = renderComponent();
+
+      // Navigate to "Other providers" (index 2) and select
+      stdin.write('\u001B[B');
+      await waitForUpdate();
+      stdin.write('\u001B[B');
+      await waitForUpdate();
+      stdin.write('\r');
+      await waitForUpdate();
+
+      expect(lastFrame()).toContain(DEFAULT_GEMINI_MODEL);
+      expect(lastFrame()).toContain('glm-4.7');
+      expect(mockListConfiguredProviderModels).toHaveBeenCalledWith({
+        activeProvider: 'zai',
+      });
+
+      // Escape goes back to the "main" view
+      stdin.write('\u001B');
+      await waitForUpdate();
+      expect(mockOnClose).not.toHaveBeenCalled();
+      expect(lastFrame()).toContain('Other providers');
+    });
+
+    it('opens the provider models directly when using a provider', async () => {
+      mockGetContentGeneratorConfig.mockReturnValue({
+        authType: AuthType.OPENAI_COMPATIBLE,
+        providerId: 'zai',
+      });
+      mockGetModel.mockReturnValue('glm-4.7');
+      const { lastFrame } = renderComponent();
+      await waitForUpdate();
+
+      expect(lastFrame()).toContain('glm-4.7 (current)');
+      expect(lastFrame()).toContain('OpenRouter · 128K context');
+      expect(lastFrame()).not.toContain(DEFAULT_GEMINI_FLASH_MODEL);
+    });
+
+    it('switches provider and model without restarting', async () => {
+      vi.stubEnv('OPENROUTER_API_KEY', 'sk-or-test');
+      mockGetContentGeneratorConfig.mockReturnValue({
+        authType: AuthType.OPENAI_COMPATIBLE,
+        providerId: 'zai',
+      });
+      mockGetModel.mockReturnValue('glm-4.7');
+      const { stdin } = renderComponent();
+      await waitForUpdate();
+
+      stdin.write('\u001B[B'); // Arrow Down to openai/gpt-4o
+      await waitForUpdate();
+      stdin.write('\r');
+      await waitForUpdate();
+
+      expect(mockSaveDevoraSettings).toHaveBeenCalledWith(
+        expect.objectContaining({
+          activeProvider: 'openrouter',
+          providers: { openrouter: { model: 'openai/gpt-4o' } },
+        }),
+      );
+      expect(mockRefreshAuth).toHaveBeenCalledWith(
+        AuthType.OPENAI_COMPATIBLE,
+        'openrouter',
+      );
+      expect(mockSetModel).toHaveBeenCalledWith('openai/gpt-4o', true);
+      expect(mockOnClose).toHaveBeenCalled();
+    });
+
+    it('keeps the settings when the API key of the provider is missing', async () => {
+      vi.stubEnv('OPENROUTER_API_KEY', '');
+      mockGetContentGeneratorConfig.mockReturnValue({
+        authType: AuthType.OPENAI_COMPATIBLE,
+        providerId: 'zai',
+      });
+      mockGetModel.mockReturnValue('glm-4.7');
+      const { lastFrame, stdin } = renderComponent();
+      await waitForUpdate();
+
+      stdin.write('\u001B[B'); // Arrow Down to openai/gpt-4o
+      await waitForUpdate();
+      stdin.write('\r');
+      await waitForUpdate();
+
+      expect(mockRefreshAuth).not.toHaveBeenCalled();
+      expect(mockSaveDevoraSettings).not.toHaveBeenCalled();
+      expect(mockSetModel).not.toHaveBeenCalled();
+      expect(mockOnClose).not.toHaveBeenCalled();
+      expect(lastFrame()).toContain('OPENROUTER_API_KEY');
+    });
+
+    it('keeps the settings when the provider fails to start', async () => {
+      vi.stubEnv('OPENROUTER_API_KEY', 'sk-or-test');
+      mockRefreshAuth.mockRejectedValue(new Error('Invalid base URL'));
+      mockGetContentGeneratorConfig.mockReturnValue({
+        authType: AuthType.OPENAI_COMPATIBLE,
+        providerId: 'zai',
+      });
+      mockGetModel.mockReturnValue('glm-4.7');
+      const { lastFrame, stdin } = renderComponent();
+      await waitForUpdate();
+
+      stdin.write('\u001B[B'); // Arrow Down to openai/gpt-4o
+      await waitForUpdate();
+      stdin.write('\r');
+      await waitForUpdate();
+
+      expect(mockSaveDevoraSettings).not.toHaveBeenCalled();
+      expect(mockOnClose).not.toHaveBeenCalled();
+      expect(lastFrame()).toContain(
+        'Failed to switch to OpenRouter: Invalid base URL',
+      );
+    });
+
+    it('uses the provider serving the session rather than the saved one', async () => {
+      mockGetContentGeneratorConfig.mockReturnValue({
+        authType: AuthType.OPENAI_COMPATIBLE,
+        providerId: 'openrouter',
+      });
+      mockGetModel.mockReturnValue('glm-4.7');
+      const { stdin } = renderComponent();
+      await waitForUpdate();
+
+      stdin.write('\u001B[B'); // Arrow Down to openai/gpt-4o
+      await waitForUpdate();
+      stdin.write('\r');
+      await waitForUpdate();
+
+      expect(mockRefreshAuth).not.toHaveBeenCalled();
+      expect(mockSetModel).toHaveBeenCalledWith('openai/gpt-4o', true);
+    });
+
+    it('closes on escape when using a provider', async () => {
+      mockGetContentGeneratorConfig.mockReturnValue({
+        authType: AuthType.OPENAI_COMPATIBLE,
+        providerId: 'zai',
+      });
+      const { stdin } = renderComponent();
+      await waitForUpdate();
+
+      stdin.write('\u001B');
+      await waitForUpdate();
+
+      expect(mockOnClose).toHaveBeenCalled();
+    });
+  });
+
   describe('Preview Logic', () => {
     it('should NOT show preview options if user has no access', () => {
       mockGetHasAccessToPreviewModel.mockReturnValue(false);
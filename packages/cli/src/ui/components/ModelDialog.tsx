@@ -5,7 +5,7 @@
  */
 
 import type React from 'react';
-import { useCallback, useContext, useMemo, useState } from 'react';
+import { useCallback, useContext, useEffect, useMemo, useState } from 'react';
 import { Box, Text } from 'ink';
 import {
   PREVIEW_GEMINI_MODEL,
@@ -18,21 +18,56 @@ import {
   ModelSlashCommandEvent,
   logModelSlashCommand,
   getDisplayString,
+  AuthType,
+  getConfiguredProviders,
+  getErrorMessage,
+  isAutoModel,
+  listConfiguredProviderModels,
+  loadDevoraSettings,
+  resolveOpenAICompatibleProvider,
+  saveDevoraSettings,
+  selectProviderModel,
+  type ProviderModel,
 } from '@google/gemini-cli-core';
 import { useKeypress } from '../hooks/useKeypress.js';
 import { theme } from '../semantic-colors.js';
 import { DescriptiveRadioButtonSelect } from './shared/DescriptiveRadioButtonSelect.js';
 import { ConfigContext } from '../contexts/ConfigContext.js';
+import { SettingsContext } from '../contexts/SettingsContext.js';
+import { SettingScope } from '../../config/settings.js';
+import { validateOpenAICompatibleProvider } from '../../config/auth.js';
 import { ThemedGradient } from './ThemedGradient.js';
+import { ProviderModelPicker } from './ProviderModelPicker.js';
 
 interface ModelDialogProps {
   onClose: () => void;
 }
 
+const GEMINI_PROVIDER_ID = 'gemini';
+
 export function ModelDialog({ onClose }: ModelDialogProps): React.JSX.Element {
   const config = useContext(ConfigContext);
-  const [view, setView] = useState<'main' | 'manual'>('main');
+  const settings = useContext(SettingsContext);
+
+  // Read the providers once when the dialog opens.
+  const [devoraSettings] = useState(loadDevoraSettings);
+  const configuredProviders = useMemo(
+    () => getConfiguredProviders(devoraSettings),
+    [devoraSettings],
+  );
+  // The provider serving the session, which may differ from the saved one
+  // after a fallback; undefined when authenticated with Google, the only
+  // case where Gemini models are offered.
+  const activeProviderId = config?.getContentGeneratorConfig()?.providerId;
+
+  const [view, setView] = useState<'main' | 'manual' | 'providers'>(
+    activeProviderId ? 'providers' : 'main',
+  );
   const [persistMode, setPersistMode] = useState(false);
+  const [providerModels, setProviderModels] = useState<
+    ProviderModel[] | undefined
+  >();
+  const [providerError, setProviderError] = useState<string | undefined>();
 
   // Determine the Preferred Model (read once when the dialog opens).
   const preferredModel = config?.getModel() || DEFAULT_GEMINI_MODEL_AUTO;
@@ -57,13 +92,14 @@ export function ModelDialog({ onClose }: ModelDialogProps): React.JSX.Element {
   useKeypress(
     (key) => {
       if (key.name === 'escape') {
-        if (view === 'manual') {
+        if (view === 'manual' || (view === 'providers' && !activeProviderId)) {
           setView('main');
         } else {
           onClose();
         }
       }
-      if (key.name === 'tab') {
+      // In the providers view, Tab switches the provider filter.
+      if (key.name === 'tab' && view !== 'providers') {
         setPersistMode((prev) => !prev);
       }
     },
@@ -89,6 +125,17 @@ export function ModelDialog({ onClose }: ModelDialogProps): React.JSX.Element {
       },
     ];
 
+    if (configuredProviders.length > 0) {
+      list.push({
+        value: 'Providers',
+        title: 'Other providers',
+        description: `Search the models of ${configuredProviders
+          .map((provider) => provider.displayName)
+          .join(', ')}`,
+        key: 'Providers',
+      });
+    }
+
     if (shouldShowPreviewModels) {
       list.unshift({
         value: PREVIEW_GEMINI_MODEL_AUTO,
@@ -99,7 +146,7 @@ export function ModelDialog({ onClose }: ModelDialogProps): React.JSX.Element {
       });
     }
     return list;
-  }, [shouldShowPreviewModels, manualModelSelected]);
+  }, [shouldShowPreviewModels, manualModelSelected, configuredProviders]);
 
   const manualOptions = useMemo(() => {
     const list = [
@@ -137,6 +184,45 @@ export function ModelDialog({ onClose }: ModelDialogProps): React.JSX.Element {
     return list;
   }, [shouldShowPreviewModels]);
 
+  useEffect(() => {
+    if (view !== 'providers' || providerModels) {
+      return;
+    }
+    // Gemini models come first, as in the other views.
+    const geminiModels: ProviderModel[] = activeProviderId
+      ? []
+      : manualOptions.map((option) => ({
+          providerId: GEMINI_PROVIDER_ID,
+          providerName: 'Gemini',
+          id: option.value,
+          supportsTools: true,
+          supportsVision: true,
+        }));
+    let cancelled = false;
+    void listConfiguredProviderModels(devoraSettings).then((models) => {
+      if (!cancelled) {
+        setProviderModels([...geminiModels, ...models]);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [view, providerModels, activeProviderId, manualOptions, devoraSettings]);
+
+  // The model the active provider answers with: the session model unless it
+  // is a Gemini model, which providers replace with their own.
+  const currentProviderModel = useMemo(() => {
+    if (!activeProviderId) {
+      return { providerId: GEMINI_PROVIDER_ID, id: preferredModel };
+    }
+    const id =
+      preferredModel.startsWith('gemini-') || isAutoModel(preferredModel)
+        ? resolveOpenAICompatibleProvider(devoraSettings, activeProviderId)
+            ?.model
+        : preferredModel;
+    return id ? { providerId: activeProviderId, id } : undefined;
+  }, [activeProviderId, preferredModel, devoraSettings]);
+
   const options = view === 'main' ? mainOptions : manualOptions;
 
   // Calculate the initial index based on the preferred model.
@@ -159,6 +245,10 @@ export function ModelDialog({ onClose }: ModelDialogProps): React.JSX.Element {
         setView('manual');
         return;
       }
+      if (model === 'Providers') {
+        setView('providers');
+        return;
+      }
 
       if (config) {
         config.setModel(model, persistMode ? false : true);
@@ -170,6 +260,107 @@ export function ModelDialog({ onClose }: ModelDialogProps): React.JSX.Element {
     [config, onClose, persistMode],
   );
 
+  // Switches provider, refreshing the content generator when it changes.
+  // The provider and its model are remembered for future sessions, once the
+  // switch succeeded so that a broken provider does not break the next launch.
+  const handleProviderModelSelect = useCallback(
+    async (model: ProviderModel) => {
+      if (model.providerId === GEMINI_PROVIDER_ID) {
+        handleSelect(model.id);
+        return;
+      }
+      if (!config) {
+        onClose();
+        return;
+      }
+
+      const switchesProvider = model.providerId !== activeProviderId;
+      if (switchesProvider) {
+        const provider = resolveOpenAICompatibleProvider(
+          devoraSettings,
+          model.providerId,
+        );
+        const keyError = provider
+          ? validateOpenAICompatibleProvider(provider)
+          : `Unknown provider "${model.providerId}".`;
+        if (keyError) {
+          setProviderError(keyError);
+          return;
+        }
+        try {
+          await config.refreshAuth(
+            AuthType.OPENAI_COMPATIBLE,
+            model.providerId,
+          );
+        } catch (error) {
+          setProviderError(
+            `Failed to switch to ${model.providerName}: ${getErrorMessage(error)}`,
+          );
+          return;
+        }
+      }
+
+      saveDevoraSettings(
+        selectProviderModel(devoraSettings, model.providerId, model.id),
+      );
+      if (switchesProvider) {
+        settings?.setValue(
+          SettingScope.User,
+          'security.auth.selectedType',
+          AuthType.OPENAI_COMPATIBLE,
+        );
+      }
+      config.setModel(model.id, true);
+      logModelSlashCommand(config, new ModelSlashCommandEvent(model.id));
+      onClose();
+    },
+    [config, settings, devoraSettings, activeProviderId, handleSelect, onClose],
+  );
+
+  if (view === 'providers') {
+    return (
+      <Box
+        borderStyle="round"
+        borderColor={theme.border.default}
+        flexDirection="column"
+        padding={1}
+        width="100%"
+      >
+        <Text bold>Select Model</Text>
+        <Box marginTop={1} flexDirection="column">
+          {providerModels ? (
+            <ProviderModelPicker
+              models={providerModels}
+              currentModel={currentProviderModel}
+              onSelect={(model) => void handleProviderModelSelect(model)}
+            />
+          ) : (
+            <Text color={theme.text.secondary}>Loading models...</Text>
+          )}
+        </Box>
+        {providerError && (
+          <Box marginTop={1}>
+            <Text color={theme.status.error}>{providerError}</Text>
+          </Box>
+        )}
+        <Box marginTop={1} flexDirection="column">
+          <Text color={theme.text.secondary}>
+            {
+              '> The selected provider and model are remembered for future sessions.'
+            }
+          </Text>
+        </Box>
+        <Box marginTop={1} flexDirection="column">
+          <Text color={theme.text.secondary}>
+            {activeProviderId
+              ? '(Press Esc to close)'
+              : '(Press Esc to go back)'}
+          </Text>
+        </Box>
+      </Box>
+    );
+  }
+
   let header;
   let subheader;
 
@@ -73,6 +73,8 @@ describe('<ModelStatsDisplay />', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      subagents: {},
+      routing: { totalDecisions: 0, bySource: {} },
     });
 
     expect(lastFrame()).toContain(
@@ -114,6 +116,8 @@ describe('<ModelStatsDisplay />', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      subagents: {},
+      routing: { totalDecisions: 0, bySource: {} },
     });
 
     const output = lastFrame();
@@ -168,6 +172,8 @@ describe('<ModelStatsDisplay />', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      subagents: {},
+      routing: { totalDecisions: 0, bySource: {} },
     });
 
     const output = lastFrame();
@@ -222,6 +228,8 @@ describe('<ModelStatsDisplay />', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      subagents: {},
+      routing: { totalDecisions: 0, bySource: {} },
     });
 
     const output = lastFrame();
@@ -267,6 +275,8 @@ describe('<ModelStatsDisplay />', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      subagents: {},
+      routing: { totalDecisions: 0, bySource: {} },
     });
 
     expect(lastFrame()).toMatchSnapshot();
@@ -305,6 +315,8 @@ describe('<ModelStatsDisplay />', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      subagents: {},
+      routing: { totalDecisions: 0, bySource: {} },
     });
 
     const output = lastFrame();
@@ -313,6 +325,55 @@ describe('<ModelStatsDisplay />', () => {
     expect(output).toMatchSnapshot();
   });
 
+  it('should display the cost when at least one model is priced', () => {
+    const tokens = {
+      input: 10,
+      prompt: 10,
+      candidates: 20,
+      total: 30,
+      cached: 0,
+      thoughts: 0,
+      tool: 0,
+    };
+    const { lastFrame } = renderWithMockedStats({
+      models: {
+        'openai/gpt-4o': {
+          api: { totalRequests: 1, totalErrors: 0, totalLatencyMs: 100 },
+          tokens,
+          costUsd: 0.0042,
+        },
+        'local-model': {
+          api: { totalRequests: 1, totalErrors: 0, totalLatencyMs: 100 },
+          tokens,
+        },
+      },
+      tools: {
+        totalCalls: 0,
+        totalSuccess: 0,
+        totalFail: 0,
+        totalDurationMs: 0,
+        totalDecisions: {
+          accept: 0,
+          reject: 0,
+          modify: 0,
+          [ToolCallDecision.AUTO_ACCEPT]: 0,
+        },
+        byName: {},
+      },
+      files: {
+        totalLinesAdded: 0,
+        totalLinesRemoved: 0,
+      },
+      subagents: {},
+      routing: { totalDecisions: 0, bySource: {} },
+    });
+
+    const output = lastFrame();
+    expect(output).toContain('Cost');
+    expect(output).toContain('$0.0042');
+    expect(output).toContain('unknown');
+  });
+
   it('should handle models with long names (gemini-3-*-preview) without layout breaking', () => {
     const { lastFrame } = renderWithMockedStats(
       {
@@ -359,6 +420,8 @@ describe('<ModelStatsDisplay />', () => {
           totalLinesAdded: 0,
           totalLinesRemoved: 0,
         },
+        subagents: {},
+        routing: { totalDecisions: 0, bySource: {} },
       },
       80,
     );
@@ -7,7 +7,7 @@
 import type React from 'react';
 import { Box, Text } from 'ink';
 import { theme } from '../semantic-colors.js';
-import { formatDuration } from '../utils/formatters.js';
+import { formatCost, formatDuration } from '../utils/formatters.js';
 import {
   calculateAverageLatency,
   calculateCacheHitRate,
@@ -55,6 +55,9 @@ export const ModelStatsDisplay: React.FC = () => {
   const hasCached = activeModels.some(
     ([, metrics]) => metrics.tokens.cached > 0,
   );
+  const hasCost = activeModels.some(
+    ([, metrics]) => metrics.costUsd !== undefined,
+  );
 
   // Helper to create a row with values for each model
   const createRow = (
@@ -171,6 +174,20 @@ export const ModelStatsDisplay: React.FC = () => {
     ),
   );
 
+  if (hasCost) {
+    rows.push(
+      // Spacer
+      { metric: '' },
+      createRow('Cost', (m) =>
+        m.costUsd === undefined ? (
+          <Text color={theme.text.secondary}>unknown</Text>
+        ) : (
+          formatCost(m.costUsd)
+        ),
+      ),
+    );
+  }
+
   const columns: Array<Column<StatRowData>> = [
     {
       key: 'metric',
@@ -0,0 +1,160 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { render } from 'ink-testing-library';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { ProviderModel } from '@google/gemini-cli-core';
+import {
+  ProviderModelPicker,
+  describeProviderModel,
+} from './ProviderModelPicker.js';
+import { KeypressProvider } from '../contexts/KeypressContext.js';
+
+const models: ProviderModel[] = [
+  {
+    providerId: 'zai',
+    providerName: 'Zai',
+    id: 'glm-4.7',
+    contextLength: 200_000,
+    supportsTools: true,
+  },
+  {
+    providerId: 'openrouter',
+    providerName: 'OpenRouter',
+    id: 'openai/gpt-4o',
+    name: 'OpenAI: GPT-4o',
+    contextLength: 128_000,
+    pricing: { prompt: 0.0000025, completion: 0.00001 },
+    supportsTools: true,
+    supportsVision: true,
+  },
+  {
+    providerId: 'openrouter',
+    providerName: 'OpenRouter',
+    id: 'google/gemini-2.5-pro',
+    contextLength: 1_048_576,
+    supportsVision: true,
+  },
+];
+
+describe('describeProviderModel', () => {
+  it('describes the model metadata', () => {
+    expect(describeProviderModel(models[1])).toBe(
+      'OpenRouter · 128K context · $2.50/$10.00 per 1M tokens · tools · vision',
+    );
+    expect(describeProviderModel(models[2])).toBe(
+      'OpenRouter · 1M context · vision',
+    );
+  });
+
+  it('leaves out unknown metadata', () => {
+    expect(
+      describeProviderModel({
+        providerId: 'zai',
+        providerName: 'Zai',
+        id: 'glm-4.7',
+      }),
+    ).toBe('Zai');
+  });
+});
+
+describe('<ProviderModelPicker />', () => {
+  const mockOnSelect = vi.fn();
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  const renderPicker = (currentModel?: { providerId: string; id: string }) =>
+    render(
+      <KeypressProvider>
+        <ProviderModelPicker
+          models={models}
+          currentModel={currentModel}
+          onSelect={mockOnSelect}
+        />
+      </KeypressProvider>,
+    );
+
+  const waitForUpdate = () =>
+    new Promise((resolve) => setTimeout(resolve, 150));
+
+  it('lists the models of every provider', () => {
+    const { lastFrame } = renderPicker({ providerId: 'zai', id: 'glm-4.7' });
+    expect(lastFrame()).toContain('glm-4.7 (current)');
+    expect(lastFrame()).toContain('openai/gpt-4o');
+    expect(lastFrame()).toContain('google/gemini-2.5-pro');
+    expect(lastFrame()).toContain('3 of 3 models');
+  });
+
+  it('filters the models by search terms', async () => {
+    const { lastFrame, stdin } = renderPicker();
+
+    stdin.write('gpt');
+    await waitForUpdate();
+
+    expect(lastFrame()).toContain('openai/gpt-4o');
+    expect(lastFrame()).not.toContain('glm-4.7');
+    expect(lastFrame()).toContain('1 of 3 models');
+
+    stdin.write('\r');
+    await waitForUpdate();
+
+    expect(mockOnSelect).toHaveBeenCalledWith(models[1]);
+  });
+
+  it('cycles the provider filter with Tab', async () => {
+    const { lastFrame, stdin } = renderPicker();
+
+    stdin.write('\t'); // Zai
+    await waitForUpdate();
+    expect(lastFrame()).toContain('Provider: Zai');
+    expect(lastFrame()).toContain('1 of 3 models');
+
+    stdin.write('\t'); // OpenRouter
+    await waitForUpdate();
+    expect(lastFrame()).toContain('Provider: OpenRouter');
+    expect(lastFrame()).not.toContain('glm-4.7');
+
+    stdin.write('\t'); // All
+    await waitForUpdate();
+    expect(lastFrame()).toContain('Provider: All');
+  });
+
+  it('cycles the capability filter with Shift+Tab', async () => {
+    const { lastFrame, stdin } = renderPicker();
+
+    stdin.write('\u001B[Z'); // tools
+    await waitForUpdate();
+    expect(lastFrame()).toContain('Capability: tools');
+    expect(lastFrame()).not.toContain('google/gemini-2.5-pro');
+
+    stdin.write('\u001B[Z'); // vision
+    await waitForUpdate();
+    expect(lastFrame()).toContain('Capability: vision');
+    expect(lastFrame()).not.toContain('glm-4.7');
+  });
+
+  it('selects the highlighted model with Enter', async () => {
+    const { stdin } = renderPicker({ providerId: 'zai', id: 'glm-4.7' });
+
+    stdin.write('\u001B[B'); // Arrow Down
+    await waitForUpdate();
+    stdin.write('\r');
+    await waitForUpdate();
+
+    expect(mockOnSelect).toHaveBeenCalledWith(models[1]);
+  });
+
+  it('shows a message when nothing matches', async () => {
+    const { lastFrame, stdin } = renderPicker();
+
+    stdin.write('claude');
+    await waitForUpdate();
+
+    expect(lastFrame()).toContain('No matching models.');
+  });
+});
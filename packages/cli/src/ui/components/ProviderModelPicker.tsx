@@ -0,0 +1,250 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type React from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import { Box, Text } from 'ink';
+import type { ProviderModel } from '@google/gemini-cli-core';
+import { theme } from '../semantic-colors.js';
+import { useKeypress } from '../hooks/useKeypress.js';
+import { useTextBuffer } from './shared/text-buffer.js';
+import { TextInput } from './shared/TextInput.js';
+
+const CAPABILITY_FILTERS = ['any', 'tools', 'vision'] as const;
+type CapabilityFilter = (typeof CAPABILITY_FILTERS)[number];
+
+const SEARCH_INPUT_WIDTH = 60;
+
+interface ProviderModelPickerProps {
+  models: ProviderModel[];
+  /** The model in use, highlighted when the picker opens */
+  currentModel?: { providerId: string; id: string };
+  onSelect: (model: ProviderModel) => void;
+  maxItemsToShow?: number;
+}
+
+function formatContextLength(tokens: number): string {
+  return tokens >= 1_000_000
+    ? `${+(tokens / 1_000_000).toFixed(1)}M`
+    : `${Math.round(tokens / 1000)}K`;
+}
+
+function formatPricePerMillion(pricePerToken: number): string {
+  return `$${(pricePerToken * 1_000_000).toFixed(2)}`;
+}
+
+/**
+ * Describes what a model's metadata tells about it, e.g.
+ * "OpenRouter · 128K context · $2.50/$10.00 per 1M tokens · tools · vision".
+ */
+export function describeProviderModel(model: ProviderModel): string {
+  const details = [model.providerName];
+  if (model.contextLength) {
+    details.push(`${formatContextLength(model.contextLength)} context`);
+  }
+  if (model.pricing) {
+    details.push(
+      `${formatPricePerMillion(model.pricing.prompt)}/${formatPricePerMillion(
+        model.pricing.completion,
+      )} per 1M tokens`,
+    );
+  }
+  if (model.supportsTools) {
+    details.push('tools');
+  }
+  if (model.supportsVision) {
+    details.push('vision');
+  }
+  return details.join(' · ');
+}
+
+function matchesQuery(model: ProviderModel, query: string): boolean {
+  const haystack =
+    `${model.id} ${model.name ?? ''} ${model.providerName}`.toLowerCase();
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .every((term) => haystack.includes(term));
+}
+
+function matchesCapability(
+  model: ProviderModel,
+  filter: CapabilityFilter,
+): boolean {
+  switch (filter) {
+    case 'tools':
+      return !!model.supportsTools;
+    case 'vision':
+      return !!model.supportsVision;
+    default:
+      return true;
+  }
+}
+
+/**
+ * A searchable list of the models of every configured provider. Typing
+ * filters the list, Tab cycles through the providers and Shift+Tab through
+ * the capabilities.
+ */
+export function ProviderModelPicker({
+  models,
+  currentModel,
+  onSelect,
+  maxItemsToShow = 8,
+}: ProviderModelPickerProps): React.JSX.Element {
+  const [query, setQuery] = useState('');
+  const [providerIndex, setProviderIndex] = useState(0);
+  const [capabilityIndex, setCapabilityIndex] = useState(0);
+  const [activeIndex, setActiveIndex] = useState(() =>
+    Math.max(
+      0,
+      models.findIndex(
+        (model) =>
+          model.providerId === currentModel?.providerId &&
+          model.id === currentModel.id,
+      ),
+    ),
+  );
+
+  const providers = useMemo(() => {
+    const names = new Map<string, string>();
+    for (const model of models) {
+      names.set(model.providerId, model.providerName);
+    }
+    return Array.from(names, ([id, name]) => ({ id, name }));
+  }, [models]);
+
+  // Index 0 stands for every provider.
+  const providerFilter =
+    providerIndex > 0 ? providers[providerIndex - 1] : undefined;
+  const capabilityFilter = CAPABILITY_FILTERS[capabilityIndex];
+
+  const filteredModels = useMemo(
+    () =>
+      models.filter(
+        (model) =>
+          (!providerFilter || model.providerId === providerFilter.id) &&
+          matchesCapability(model, capabilityFilter) &&
+          matchesQuery(model, query.trim()),
+      ),
+    [models, providerFilter, capabilityFilter, query],
+  );
+
+  // Keep the highlighted model within the filtered list.
+  useEffect(() => {
+    setActiveIndex((index) =>
+      Math.min(index, Math.max(0, filteredModels.length - 1)),
+    );
+  }, [filteredModels.length]);
+
+  const buffer = useTextBuffer({
+    initialText: '',
+    initialCursorOffset: 0,
+    viewport: { width: SEARCH_INPUT_WIDTH, height: 1 },
+    isValidPath: () => false,
+    singleLine: true,
+    onChange: (text) => setQuery(text),
+  });
+
+  // Start from the best match whenever the search changes.
+  useEffect(() => {
+    if (query) {
+      setActiveIndex(0);
+    }
+  }, [query]);
+
+  useKeypress(
+    (key) => {
+      if (key.name === 'up') {
+        setActiveIndex((index) => Math.max(0, index - 1));
+      } else if (key.name === 'down') {
+        setActiveIndex((index) =>
+          Math.min(filteredModels.length - 1, index + 1),
+        );
+      } else if (key.name === 'tab' && key.shift) {
+        setCapabilityIndex((index) => (index + 1) % CAPABILITY_FILTERS.length);
+        setActiveIndex(0);
+      } else if (key.name === 'tab') {
+        setProviderIndex((index) => (index + 1) % (providers.length + 1));
+        setActiveIndex(0);
+      }
+    },
+    { isActive: true },
+  );
+
+  const scrollOffset = Math.max(
+    0,
+    Math.min(
+      activeIndex - Math.floor(maxItemsToShow / 2),
+      filteredModels.length - maxItemsToShow,
+    ),
+  );
+  const visibleModels = filteredModels.slice(
+    scrollOffset,
+    scrollOffset + maxItemsToShow,
+  );
+
+  return (
+    <Box flexDirection="column">
+      <Box
+        borderStyle="round"
+        borderColor={theme.border.focused}
+        paddingX={1}
+        height={3}
+      >
+        <TextInput
+          buffer={buffer}
+          placeholder="Search models"
+          onSubmit={() => {
+            const model = filteredModels[activeIndex];
+            if (model) {
+              onSelect(model);
+            }
+          }}
+        />
+      </Box>
+      <Text color={theme.text.secondary}>
+        Provider: {providerFilter?.name ?? 'All'} (Tab) · Capability:{' '}
+        {capabilityFilter} (Shift+Tab) · {filteredModels.length} of{' '}
+        {models.length} models
+      </Text>
+      <Box flexDirection="column" marginTop={1}>
+        {filteredModels.length === 0 ? (
+          <Text color={theme.text.secondary}>No matching models.</Text>
+        ) : (
+          visibleModels.map((model, idx) => {
+            const isActive = scrollOffset + idx === activeIndex;
+            const isCurrent =
+              model.providerId === currentModel?.providerId &&
+              model.id === currentModel.id;
+            return (
+              <Box key={`${model.providerId}/${model.id}`}>
+                <Box minWidth={2}>
+                  <Text color={theme.status.success}>
+                    {isActive ? '●' : ' '}
+                  </Text>
+                </Box>
+                <Box flexDirection="column">
+                  <Text
+                    color={isActive ? theme.status.success : theme.text.primary}
+                  >
+                    {model.id}
+                    {isCurrent && (
+                      <Text color={theme.text.secondary}> (current)</Text>
+                    )}
+                  </Text>
+                  <Text color={theme.text.secondary}>
+                    {describeProviderModel(model)}
+                  </Text>
+                </Box>
+              </Box>
+            );
+          })
+        )}
+      </Box>
+    </Box>
+  );
+}
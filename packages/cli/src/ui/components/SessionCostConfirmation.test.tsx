@@ -0,0 +1,30 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { renderWithProviders } from '../../test-utils/render.js';
+import { describe, it, expect, vi } from 'vitest';
+import { SessionCostConfirmation } from './SessionCostConfirmation.js';
+
+describe('SessionCostConfirmation', () => {
+  const onComplete = vi.fn();
+
+  it('contains the cost and the expected options', () => {
+    const { lastFrame } = renderWithProviders(
+      <SessionCostConfirmation
+        costUsd={1.5}
+        maxCostUsd={1}
+        onComplete={onComplete}
+      />,
+      { width: 100 },
+    );
+    const output = lastFrame()!.toString();
+
+    expect(output).toContain('The session cost limit was reached');
+    expect(output).toContain('This session has cost $1.50');
+    expect(output).toContain('Stop (esc)');
+    expect(output).toContain('Continue and allow another $1.00');
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Box, Text } from 'ink';
+import type { RadioSelectItem } from './shared/RadioButtonSelect.js';
+import { RadioButtonSelect } from './shared/RadioButtonSelect.js';
+import { useKeypress } from '../hooks/useKeypress.js';
+import { theme } from '../semantic-colors.js';
+import { formatCost } from '../utils/formatters.js';
+
+export type SessionCostConfirmationResult = {
+  userSelection: 'continue' | 'stop';
+};
+
+interface SessionCostConfirmationProps {
+  costUsd: number;
+  maxCostUsd: number;
+  onComplete: (result: SessionCostConfirmationResult) => void;
+}
+
+export function SessionCostConfirmation({
+  costUsd,
+  maxCostUsd,
+  onComplete,
+}: SessionCostConfirmationProps) {
+  useKeypress(
+    (key) => {
+      if (key.name === 'escape') {
+        onComplete({
+          userSelection: 'stop',
+        });
+      }
+    },
+    { isActive: true },
+  );
+
+  const OPTIONS: Array<RadioSelectItem<SessionCostConfirmationResult>> = [
+    {
+      label: 'Stop (esc)',
+      value: {
+        userSelection: 'stop',
+      },
+      key: 'Stop (esc)',
+    },
+    {
+      label: `Continue and allow another ${formatCost(maxCostUsd)}`,
+      value: {
+        userSelection: 'continue',
+      },
+      key: 'Continue',
+    },
+  ];
+
+  return (
+    <Box width="100%" flexDirection="row">
+      <Box
+        flexDirection="column"
+        borderStyle="round"
+        borderColor={theme.status.warning}
+        flexGrow={1}
+        marginLeft={1}
+      >
+        <Box paddingX={1} paddingY={0} flexDirection="column">
+          <Box minHeight={1}>
+            <Box minWidth={3}>
+              <Text
+                color={theme.status.warning}
+                aria-label="Session cost limit reached:"
+              >
+                ?
+              </Text>
+            </Box>
+            <Box>
+              <Text wrap="truncate-end">
+                <Text color={theme.text.primary} bold>
+                  The session cost limit was reached
+                </Text>{' '}
+              </Text>
+            </Box>
+          </Box>
+          <Box marginTop={1}>
+            <Box flexDirection="column">
+              <Text color={theme.text.secondary}>
+                This session has cost {formatCost(costUsd)}, which reaches the
+                limit of {formatCost(maxCostUsd)} set by maxSessionCostUsd. Do
+                you want to stop or keep going?
+              </Text>
+              <Box marginTop={1}>
+                <RadioButtonSelect items={OPTIONS} onSelect={onComplete} />
+              </Box>
+            </Box>
+          </Box>
+        </Box>
+      </Box>
+    </Box>
+  );
+}
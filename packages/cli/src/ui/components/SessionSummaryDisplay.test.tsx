@@ -72,6 +72,8 @@ describe('<SessionSummaryDisplay />', () => {
         totalLinesAdded: 42,
         totalLinesRemoved: 15,
       },
+      subagents: {},
+      routing: { totalDecisions: 0, bySource: {} },
     };
 
     const { lastFrame } = renderWithMockedStats(metrics);
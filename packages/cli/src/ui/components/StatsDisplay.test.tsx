@@ -64,6 +64,8 @@ const createTestMetrics = (
     totalLinesAdded: 0,
     totalLinesRemoved: 0,
   },
+  subagents: {},
+  routing: { totalDecisions: 0, bySource: {} },
   ...overrides,
 });
 
@@ -300,6 +302,82 @@ describe('<StatsDisplay />', () => {
     });
   });
 
+  describe('Cost Display', () => {
+    it('renders the session cost and the subagents when known', () => {
+      const metrics = createTestMetrics({
+        models: {
+          'openai/gpt-4o': {
+            api: { totalRequests: 3, totalErrors: 0, totalLatencyMs: 300 },
+            tokens: {
+              input: 300,
+              prompt: 300,
+              candidates: 150,
+              total: 450,
+              cached: 0,
+              thoughts: 0,
+              tool: 0,
+            },
+            costUsd: 0.0123,
+          },
+        },
+        subagents: {
+          codebase_investigator: {
+            totalRequests: 2,
+            totalTokens: 1200,
+            costUsd: 0.008,
+          },
+        },
+      });
+
+      const { lastFrame } = renderWithMockedStats(metrics);
+      const output = lastFrame();
+
+      expect(output).toContain('Session Cost:');
+      expect(output).toContain('$0.0123');
+      expect(output).toContain('Subagents');
+      expect(output).toContain('codebase_investigator:');
+      expect(output).toContain('2 reqs, 1,200 tokens, $0.0080');
+    });
+
+    it('hides the cost when no model is priced', () => {
+      const { lastFrame } = renderWithMockedStats(createTestMetrics());
+      const output = lastFrame();
+
+      expect(output).not.toContain('Session Cost:');
+      expect(output).not.toContain('Subagents');
+    });
+  });
+
+  describe('Model Routing Display', () => {
+    it('renders the routing decisions and the reasoning of the last one', () => {
+      const metrics = createTestMetrics({
+        routing: {
+          totalDecisions: 3,
+          bySource: { classifier: 1, 'cost-aware': 2 },
+          lastDecision: {
+            model: 'glm-4.5-air',
+            source: 'cost-aware',
+            reasoning: 'Picked zai:glm-4.5-air',
+          },
+        },
+      });
+
+      const { lastFrame } = renderWithMockedStats(metrics);
+      const output = lastFrame();
+
+      expect(output).toContain('Model Routing');
+      expect(output).toContain('3 (classifier 1, cost-aware 2)');
+      expect(output).toContain('glm-4.5-air by cost-aware');
+      expect(output).toContain('Picked zai:glm-4.5-air');
+    });
+
+    it('hides the routing before the first decision', () => {
+      const { lastFrame } = renderWithMockedStats(createTestMetrics());
+
+      expect(lastFrame()).not.toContain('Model Routing');
+    });
+  });
+
   describe('Code Changes Display', () => {
     it('displays Code Changes when line counts are present', () => {
       const metrics = createTestMetrics({
@@ -320,6 +398,8 @@ describe('<StatsDisplay />', () => {
           totalLinesAdded: 42,
           totalLinesRemoved: 18,
         },
+        subagents: {},
+        routing: { totalDecisions: 0, bySource: {} },
       });
 
       const { lastFrame } = renderWithMockedStats(metrics);
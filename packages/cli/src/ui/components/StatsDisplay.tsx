@@ -8,7 +8,7 @@ import type React from 'react';
 import { Box, Text } from 'ink';
 import { ThemedGradient } from './ThemedGradient.js';
 import { theme } from '../semantic-colors.js';
-import { formatDuration } from '../utils/formatters.js';
+import { formatCost, formatDuration } from '../utils/formatters.js';
 import type { ModelMetrics } from '../contexts/SessionContext.js';
 import { useSessionStats } from '../contexts/SessionContext.js';
 import {
@@ -23,6 +23,7 @@ import {
 import { computeSessionStats } from '../utils/computeStats.js';
 import {
   type RetrieveUserQuotaResponse,
+  getSessionCostUsd,
   VALID_GEMINI_MODELS,
 } from '@google/gemini-cli-core';
 
@@ -373,8 +374,12 @@ export const StatsDisplay: React.FC<StatsDisplayProps> = ({
 }) => {
   const { stats } = useSessionStats();
   const { metrics } = stats;
-  const { models, tools, files } = metrics;
+  const { models, tools, files, subagents, routing } = metrics;
   const computed = computeSessionStats(metrics);
+  const hasCost = Object.values(models).some(
+    (model) => model.costUsd !== undefined,
+  );
+  const subagentEntries = Object.entries(subagents);
 
   const successThresholds = {
     green: TOOL_SUCCESS_RATE_HIGH,
@@ -478,6 +483,62 @@ export const StatsDisplay: React.FC<StatsDisplayProps> = ({
           </Text>
         </SubStatRow>
       </Section>
+      {hasCost && (
+        <Section title="Cost">
+          <StatRow title="Session Cost:">
+            <Text color={theme.text.primary}>
+              {formatCost(getSessionCostUsd(metrics))}
+            </Text>
+          </StatRow>
+        </Section>
+      )}
+      {subagentEntries.length > 0 && (
+        <Section title="Subagents">
+          {subagentEntries.map(([name, subagent]) => (
+            <StatRow key={name} title={`${name}:`}>
+              <Text color={theme.text.primary}>
+                {subagent.totalRequests} reqs,{' '}
+                {subagent.totalTokens.toLocaleString()} tokens
+                {subagent.costUsd !== undefined &&
+                  `, ${formatCost(subagent.costUsd)}`}
+              </Text>
+            </StatRow>
+          ))}
+        </Section>
+      )}
+      {routing.lastDecision && (
+        <Section title="Model Routing">
+          <StatRow title="Decisions:">
+            <Text color={theme.text.primary}>
+              {routing.totalDecisions}{' '}
+              <Text color={theme.text.secondary}>
+                (
+                {Object.entries(routing.bySource)
+                  .map(([source, count]) => `${source} ${count}`)
+                  .join(', ')}
+                )
+              </Text>
+            </Text>
+          </StatRow>
+          <StatRow title="Last Decision:">
+            <Text color={theme.text.primary}>
+              {routing.lastDecision.model}{' '}
+              <Text color={theme.text.secondary}>
+                by {routing.lastDecision.source}
+              </Text>
+            </Text>
+          </StatRow>
+          {routing.lastDecision.reasoning && (
+            <SubStatRow title="Reasoning:">
+              <Box flexShrink={1}>
+                <Text color={theme.text.secondary}>
+                  {routing.lastDecision.reasoning}
+                </Text>
+              </Box>
+            </SubStatRow>
+          )}
+        </Section>
+      )}
       <ModelUsageTable
         models={models}
         quotas={quotas}
@@ -60,6 +60,8 @@ describe('<ToolStatsDisplay />', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      subagents: {},
+      routing: { totalDecisions: 0, bySource: {} },
     });
 
     expect(lastFrame()).toContain(
@@ -101,6 +103,8 @@ describe('<ToolStatsDisplay />', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      subagents: {},
+      routing: { totalDecisions: 0, bySource: {} },
     });
 
     const output = lastFrame();
@@ -153,6 +157,8 @@ describe('<ToolStatsDisplay />', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      subagents: {},
+      routing: { totalDecisions: 0, bySource: {} },
     });
 
     const output = lastFrame();
@@ -194,6 +200,8 @@ describe('<ToolStatsDisplay />', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      subagents: {},
+      routing: { totalDecisions: 0, bySource: {} },
     });
 
     expect(lastFrame()).toMatchSnapshot();
@@ -232,6 +240,8 @@ describe('<ToolStatsDisplay />', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      subagents: {},
+      routing: { totalDecisions: 0, bySource: {} },
     });
 
     const output = lastFrame();
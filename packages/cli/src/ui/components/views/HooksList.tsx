@@ -12,6 +12,8 @@ interface HooksListProps {
   hooks: ReadonlyArray<{
     config: {
       command?: string;
+      module?: string;
+      url?: string;
       type: string;
       name?: string;
       description?: string;
@@ -79,7 +81,11 @@ export const HooksList: React.FC<HooksListProps> = ({ hooks }) => {
             <Box flexDirection="column" paddingLeft={2}>
               {eventHooks.map((hook, index) => {
                 const hookName =
-                  hook.config.name || hook.config.command || 'unknown';
+                  hook.config.name ||
+                  hook.config.command ||
+                  hook.config.module ||
+                  hook.config.url ||
+                  'unknown';
                 const statusColor = hook.enabled
                   ? theme.status.success
                   : theme.text.secondary;
@@ -102,6 +108,12 @@ export const HooksList: React.FC<HooksListProps> = ({ hooks }) => {
                         {hook.config.name &&
                           hook.config.command &&
                           ` | Command: ${hook.config.command}`}
+                        {hook.config.name &&
+                          hook.config.module &&
+                          ` | Module: ${hook.config.module}`}
+                        {hook.config.name &&
+                          hook.config.url &&
+                          ` | URL: ${hook.config.url}`}
                         {hook.matcher && ` | Matcher: ${hook.matcher}`}
                         {hook.sequential && ` | Sequential`}
                         {hook.config.timeout &&
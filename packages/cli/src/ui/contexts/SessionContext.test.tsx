@@ -132,6 +132,8 @@ describe('SessionStatsContext', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      subagents: {},
+      routing: { totalDecisions: 0, bySource: {} },
     };
 
     act(() => {
@@ -194,6 +196,8 @@ describe('SessionStatsContext', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      subagents: {},
+      routing: { totalDecisions: 0, bySource: {} },
     };
 
     act(() => {
@@ -17,6 +17,7 @@ import {
 import type {
   SessionMetrics,
   ModelMetrics,
+  SubagentMetrics,
   ToolCallStats,
 } from '@google/gemini-cli-core';
 import { uiTelemetryService, sessionId } from '@google/gemini-cli-core';
@@ -47,7 +48,18 @@ function areModelMetricsEqual(a: ModelMetrics, b: ModelMetrics): boolean {
   ) {
     return false;
   }
-  return true;
+  return a.costUsd === b.costUsd;
+}
+
+function areSubagentMetricsEqual(
+  a: SubagentMetrics,
+  b: SubagentMetrics,
+): boolean {
+  return (
+    a.totalRequests === b.totalRequests &&
+    a.totalTokens === b.totalTokens &&
+    a.costUsd === b.costUsd
+  );
 }
 
 function areToolCallStatsEqual(a: ToolCallStats, b: ToolCallStats): boolean {
@@ -136,6 +148,28 @@ function areMetricsEqual(a: SessionMetrics, b: SessionMetrics): boolean {
     }
   }
 
+  // Compare routing. Each decision is counted, and replaces the last one.
+  if (
+    a.routing.totalDecisions !== b.routing.totalDecisions ||
+    a.routing.lastDecision !== b.routing.lastDecision
+  ) {
+    return false;
+  }
+
+  // Compare subagents
+  const subagentsAKeys = Object.keys(a.subagents);
+  const subagentsBKeys = Object.keys(b.subagents);
+  if (subagentsAKeys.length !== subagentsBKeys.length) return false;
+
+  for (const key of subagentsAKeys) {
+    if (
+      !b.subagents[key] ||
+      !areSubagentMetricsEqual(a.subagents[key], b.subagents[key])
+    ) {
+      return false;
+    }
+  }
+
   return true;
 }
 
@@ -11,6 +11,7 @@ import type {
   ConsoleMessageItem,
   ConfirmationRequest,
   LoopDetectionConfirmationRequest,
+  SessionCostConfirmationRequest,
   HistoryItemWithoutId,
   StreamingState,
   ActiveHook,
@@ -77,13 +78,16 @@ export interface UIState {
   commandContext: CommandContext;
   confirmationRequest: ConfirmationRequest | null;
   confirmUpdateExtensionRequests: ConfirmationRequest[];
+  mcpSamplingRequests: ConfirmationRequest[];
   loopDetectionConfirmationRequest: LoopDetectionConfirmationRequest | null;
+  sessionCostConfirmationRequest: SessionCostConfirmationRequest | null;
   geminiMdFileCount: number;
   streamingState: StreamingState;
   initError: string | null;
   pendingGeminiHistoryItems: HistoryItemWithoutId[];
   thought: ThoughtSummary | null;
   shellModeActive: boolean;
+  megaworkModeActive: boolean;
   userMessages: string[];
   buffer: TextBuffer;
   inputWidth: number;
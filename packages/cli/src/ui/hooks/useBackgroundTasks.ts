@@ -0,0 +1,35 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useState } from 'react';
+import {
+  BackgroundTaskManager,
+  type BackgroundTask,
+} from '@google/gemini-cli-core';
+
+/**
+ * Returns the Sisyphus background tasks of the session, refreshed each time
+ * one of them changes.
+ */
+export const useBackgroundTasks = (): BackgroundTask[] => {
+  const [tasks, setTasks] = useState<BackgroundTask[]>(() =>
+    BackgroundTaskManager.getInstance().listTasks(),
+  );
+
+  useEffect(() => {
+    const manager = BackgroundTaskManager.getInstance();
+    const handleUpdate = () => setTasks(manager.listTasks());
+
+    manager.on('update', handleUpdate);
+    // Catch up on updates emitted before the listener was attached.
+    handleUpdate();
+    return () => {
+      manager.off('update', handleUpdate);
+    };
+  }, []);
+
+  return tasks;
+};
@@ -3064,6 +3064,142 @@ describe('useGeminiStream', () => {
     });
   });
 
+  describe('Todo Continuation', () => {
+    it('should show the forced continuation between the model messages', async () => {
+      mockSendMessageStream.mockReturnValue(
+        (async function* () {
+          yield {
+            type: ServerGeminiEventType.Content,
+            value: 'Step one done.',
+          };
+          yield {
+            type: ServerGeminiEventType.TodoContinuation,
+            value: {
+              continuation: 1,
+              maxContinuations: 50,
+              incompleteTodoCount: 2,
+            },
+          };
+          yield { type: ServerGeminiEventType.Content, value: 'Step two.' };
+        })(),
+      );
+
+      const { result } = renderTestHook();
+
+      await act(async () => {
+        await result.current.submitQuery('test query');
+      });
+
+      await waitFor(() => {
+        expect(mockAddItem).toHaveBeenCalledWith(
+          { type: 'gemini', text: 'Step one done.' },
+          expect.any(Number),
+        );
+        expect(mockAddItem).toHaveBeenCalledWith(
+          {
+            type: 'info',
+            text: '2 todo(s) left, continuing (1/50). Press Esc to stop.',
+          },
+          expect.any(Number),
+        );
+        expect(mockAddItem).toHaveBeenCalledWith(
+          { type: 'gemini', text: 'Step two.' },
+          expect.any(Number),
+        );
+      });
+    });
+  });
+
+  describe('Session Cost Confirmation', () => {
+    const costLimitStream = () =>
+      (async function* () {
+        yield {
+          type: ServerGeminiEventType.SessionCostLimitExceeded,
+          value: { costUsd: 1.25, maxCostUsd: 1 },
+        };
+      })();
+
+    it('should raise the limit and resume the request when the user continues', async () => {
+      const client = new MockedGeminiClientClass(mockConfig);
+      client.raiseSessionCostLimit = vi.fn();
+      client.getSessionCostLimitUsd = vi.fn().mockReturnValue(2);
+      mockSendMessageStream.mockReturnValueOnce(costLimitStream());
+      mockSendMessageStream.mockReturnValueOnce(
+        (async function* () {
+          yield {
+            type: ServerGeminiEventType.Content,
+            value: 'Resumed',
+          };
+        })(),
+      );
+
+      const { result } = renderTestHook([], client);
+
+      await act(async () => {
+        await result.current.submitQuery('test query');
+      });
+
+      await waitFor(() => {
+        expect(result.current.sessionCostConfirmationRequest).toMatchObject({
+          costUsd: 1.25,
+          maxCostUsd: 1,
+        });
+      });
+
+      await act(async () => {
+        result.current.sessionCostConfirmationRequest?.onComplete({
+          userSelection: 'continue',
+        });
+      });
+
+      expect(client.raiseSessionCostLimit).toHaveBeenCalledTimes(1);
+      expect(result.current.sessionCostConfirmationRequest).toBeNull();
+      expect(mockAddItem).toHaveBeenCalledWith({
+        type: 'info',
+        text: 'The session cost limit was raised to $2.00. Resuming request...',
+      });
+      await waitFor(() => {
+        expect(mockSendMessageStream).toHaveBeenCalledTimes(2);
+        expect(mockSendMessageStream).toHaveBeenNthCalledWith(
+          2,
+          'test query',
+          expect.any(AbortSignal),
+          expect.any(String),
+        );
+      });
+    });
+
+    it('should halt the request when the user stops', async () => {
+      const client = new MockedGeminiClientClass(mockConfig);
+      client.raiseSessionCostLimit = vi.fn();
+      mockSendMessageStream.mockReturnValueOnce(costLimitStream());
+
+      const { result } = renderTestHook([], client);
+
+      await act(async () => {
+        await result.current.submitQuery('test query');
+      });
+
+      await waitFor(() => {
+        expect(result.current.sessionCostConfirmationRequest).not.toBeNull();
+      });
+
+      await act(async () => {
+        result.current.sessionCostConfirmationRequest?.onComplete({
+          userSelection: 'stop',
+        });
+      });
+
+      expect(client.raiseSessionCostLimit).not.toHaveBeenCalled();
+      expect(result.current.sessionCostConfirmationRequest).toBeNull();
+      expect(mockAddItem).toHaveBeenCalledWith({
+        type: 'info',
+        text: 'The session has cost $1.25, which reaches the limit of $1.00 set by maxSessionCostUsd. The request has been halted.',
+      });
+      expect(mockSendMessageStream).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('Agent Execution Events', () => {
     it('should handle AgentExecutionStopped event with systemMessage', async () => {
       mockSendMessageStream.mockReturnValue(
@@ -41,6 +41,7 @@ import type {
   ServerGeminiContentEvent as ContentEvent,
   ServerGeminiFinishedEvent,
   ServerGeminiStreamEvent as GeminiEvent,
+  ServerGeminiTodoContinuationEvent,
   ThoughtSummary,
   ToolCallRequestInfo,
   GeminiErrorEventValue,
@@ -54,6 +55,7 @@ import type {
   HistoryItemToolGroup,
   SlashCommandProcessorResult,
   HistoryItemModel,
+  SessionCostConfirmationRequest,
 } from '../types.js';
 import { StreamingState, MessageType, ToolCallStatus } from '../types.js';
 import { isAtCommand, isSlashCommand } from '../utils/commandUtils.js';
@@ -77,6 +79,7 @@ import path from 'node:path';
 import { useSessionStats } from '../contexts/SessionContext.js';
 import { useKeypress } from './useKeypress.js';
 import type { LoadedSettings } from '../../config/settings.js';
+import { formatCost } from '../utils/formatters.js';
 
 enum StreamProcessingStatus {
   Completed,
@@ -232,6 +235,12 @@ export const useGeminiStream = (
   ] = useState<{
     onComplete: (result: { userSelection: 'disable' | 'keep' }) => void;
   } | null>(null);
+  const sessionCostLimitRef = useRef<{
+    costUsd: number;
+    maxCostUsd: number;
+  } | null>(null);
+  const [sessionCostConfirmationRequest, setSessionCostConfirmationRequest] =
+    useState<SessionCostConfirmationRequest | null>(null);
 
   const onExec = useCallback(async (done: Promise<void>) => {
     setIsResponding(true);
@@ -747,6 +756,28 @@ export const useGeminiStream = (
     [addItem, pendingHistoryItemRef, setPendingHistoryItem],
   );
 
+  const handleTodoContinuationEvent = useCallback(
+    (
+      eventValue: ServerGeminiTodoContinuationEvent['value'],
+      userMessageTimestamp: number,
+    ) => {
+      if (pendingHistoryItemRef.current) {
+        addItem(pendingHistoryItemRef.current, userMessageTimestamp);
+        setPendingHistoryItem(null);
+      }
+      addItem(
+        {
+          type: MessageType.INFO,
+          text:
+            `${eventValue.incompleteTodoCount} todo(s) left, continuing ` +
+            `(${eventValue.continuation}/${eventValue.maxContinuations}). Press Esc to stop.`,
+        },
+        userMessageTimestamp,
+      );
+    },
+    [addItem, pendingHistoryItemRef, setPendingHistoryItem],
+  );
+
   const handleMaxSessionTurnsEvent = useCallback(
     () =>
       addItem({
@@ -762,7 +793,7 @@ export const useGeminiStream = (
     (estimatedRequestTokenCount: number, remainingTokenCount: number) => {
       onCancelSubmit(true);
 
-      const limit = tokenLimit(config.getModel());
+      const limit = tokenLimit(config.getModel(), config);
 
       const isLessThan75Percent =
         limit > 0 && remainingTokenCount < limit * 0.75;
@@ -892,6 +923,9 @@ export const useGeminiStream = (
           case ServerGeminiEventType.MaxSessionTurns:
             handleMaxSessionTurnsEvent();
             break;
+          case ServerGeminiEventType.TodoContinuation:
+            handleTodoContinuationEvent(event.value, userMessageTimestamp);
+            break;
           case ServerGeminiEventType.ContextWindowWillOverflow:
             handleContextWindowWillOverflowEvent(
               event.value.estimatedRequestTokenCount,
@@ -912,6 +946,10 @@ export const useGeminiStream = (
             // before we add loop detected message to history
             loopDetectedRef.current = true;
             break;
+          case ServerGeminiEventType.SessionCostLimitExceeded:
+            // handled after the stream like LoopDetected
+            sessionCostLimitRef.current = event.value;
+            break;
           case ServerGeminiEventType.Retry:
           case ServerGeminiEventType.InvalidStream:
             // Will add the missing logic later
@@ -940,6 +978,7 @@ export const useGeminiStream = (
       handleChatCompressionEvent,
       handleFinishedEvent,
       handleMaxSessionTurnsEvent,
+      handleTodoContinuationEvent,
       handleContextWindowWillOverflowEvent,
       handleCitationEvent,
       handleChatModelEvent,
@@ -1097,6 +1136,41 @@ export const useGeminiStream = (
                   },
                 });
               }
+              if (sessionCostLimitRef.current) {
+                const { costUsd, maxCostUsd } = sessionCostLimitRef.current;
+                sessionCostLimitRef.current = null;
+                setSessionCostConfirmationRequest({
+                  costUsd,
+                  maxCostUsd,
+                  onComplete: (result: {
+                    userSelection: 'continue' | 'stop';
+                  }) => {
+                    setSessionCostConfirmationRequest(null);
+
+                    if (result.userSelection === 'continue') {
+                      geminiClient.raiseSessionCostLimit();
+                      addItem({
+                        type: 'info',
+                        text: `The session cost limit was raised to ${formatCost(geminiClient.getSessionCostLimitUsd())}. Resuming request...`,
+                      });
+
+                      if (lastQueryRef.current && lastPromptIdRef.current) {
+                        // eslint-disable-next-line @typescript-eslint/no-floating-promises
+                        submitQuery(
+                          lastQueryRef.current,
+                          { isContinuation: true },
+                          lastPromptIdRef.current,
+                        );
+                      }
+                    } else {
+                      addItem({
+                        type: 'info',
+                        text: `The session has cost ${formatCost(costUsd)}, which reaches the limit of ${formatCost(maxCostUsd)} set by maxSessionCostUsd. The request has been halted.`,
+                      });
+                    }
+                  },
+                });
+              }
             } catch (error: unknown) {
               spanMetadata.error = error;
               if (error instanceof UnauthorizedError) {
@@ -1422,6 +1496,7 @@ export const useGeminiStream = (
     handleApprovalModeChange,
     activePtyId,
     loopDetectionConfirmationRequest,
+    sessionCostConfirmationRequest,
     lastOutputTime,
     retryStatus,
   };
@@ -0,0 +1,100 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { act } from 'react';
+import { renderHook } from '../../test-utils/render.js';
+import { describe, it, expect } from 'vitest';
+import {
+  MessageBus,
+  MessageBusType,
+  type McpSamplingRequest,
+  type McpSamplingResponse,
+  type PolicyEngine,
+} from '@google/gemini-cli-core';
+import { useMcpSamplingRequests } from './useMcpSamplingRequests.js';
+
+describe('useMcpSamplingRequests', () => {
+  const samplingRequest: McpSamplingRequest = {
+    type: MessageBusType.MCP_SAMPLING_REQUEST,
+    correlationId: 'request-1',
+    serverName: 'summarizer',
+    model: 'gemini-2.5-pro',
+    systemPrompt: 'Be brief.',
+    messages: [{ role: 'user', text: 'Summarize the diff' }],
+    maxTokens: 200,
+  };
+
+  it('should ask the user and publish their answer', async () => {
+    const messageBus = new MessageBus({} as PolicyEngine);
+    const responses: McpSamplingResponse[] = [];
+    messageBus.subscribe<McpSamplingResponse>(
+      MessageBusType.MCP_SAMPLING_RESPONSE,
+      (response) => responses.push(response),
+    );
+    const { result } = renderHook(() => useMcpSamplingRequests(messageBus));
+
+    await act(() => messageBus.publish(samplingRequest));
+
+    expect(result.current.mcpSamplingRequests).toHaveLength(1);
+    const { prompt, onConfirm } = result.current.mcpSamplingRequests[0];
+    expect(prompt).toBe(
+      'MCP server **summarizer** wants to send a request to **gemini-2.5-pro** (up to 200 tokens).\n\n' +
+        '**System prompt:** Be brief.\n\n' +
+        '**user:** Summarize the diff\n\n' +
+        'Do you want to allow it?',
+    );
+
+    await act(async () => {
+      onConfirm(false);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    });
+    expect(responses).toEqual([
+      {
+        type: MessageBusType.MCP_SAMPLING_RESPONSE,
+        correlationId: 'request-1',
+        confirmed: false,
+      },
+    ]);
+    expect(result.current.mcpSamplingRequests).toEqual([]);
+  });
+
+  it('should drop requests that are cancelled before they are answered', async () => {
+    const messageBus = new MessageBus({} as PolicyEngine);
+    const { result } = renderHook(() => useMcpSamplingRequests(messageBus));
+
+    await act(async () => {
+      await messageBus.publish(samplingRequest);
+      await messageBus.publish({
+        ...samplingRequest,
+        correlationId: 'request-2',
+      });
+    });
+    await act(() =>
+      messageBus.publish({
+        type: MessageBusType.MCP_SAMPLING_CANCELLED,
+        correlationId: 'request-1',
+      }),
+    );
+
+    expect(
+      result.current.mcpSamplingRequests.map((r) => r.correlationId),
+    ).toEqual(['request-2']);
+  });
+
+  it('should stop listening when unmounted', async () => {
+    const messageBus = new MessageBus({} as PolicyEngine);
+    const { unmount } = renderHook(() => useMcpSamplingRequests(messageBus));
+
+    unmount();
+
+    expect(messageBus.listenerCount(MessageBusType.MCP_SAMPLING_REQUEST)).toBe(
+      0,
+    );
+    expect(
+      messageBus.listenerCount(MessageBusType.MCP_SAMPLING_CANCELLED),
+    ).toBe(0);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useState } from 'react';
+import {
+  MessageBusType,
+  type McpSamplingCancelled,
+  type McpSamplingRequest,
+  type MessageBus,
+} from '@google/gemini-cli-core';
+import type { ConfirmationRequest } from '../types.js';
+
+const MAX_MESSAGE_LENGTH = 300;
+
+interface McpSamplingConfirmationRequest extends ConfirmationRequest {
+  correlationId: string;
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_MESSAGE_LENGTH
+    ? `${text.slice(0, MAX_MESSAGE_LENGTH)}…`
+    : text;
+}
+
+export function formatSamplingPrompt(request: McpSamplingRequest): string {
+  const lines = [
+    `MCP server **${request.serverName}** wants to send a request to **${request.model}** (up to ${request.maxTokens} tokens).`,
+    '',
+  ];
+  if (request.systemPrompt) {
+    lines.push(`**System prompt:** ${truncate(request.systemPrompt)}`, '');
+  }
+  for (const message of request.messages) {
+    lines.push(`**${message.role}:** ${truncate(message.text)}`, '');
+  }
+  lines.push('Do you want to allow it?');
+  return lines.join('\n');
+}
+
+/**
+ * Queues the sampling requests of MCP servers for the user to approve, and
+ * drops the ones that time out or are cancelled before they are answered.
+ */
+export const useMcpSamplingRequests = (messageBus: MessageBus) => {
+  const [mcpSamplingRequests, setMcpSamplingRequests] = useState<
+    McpSamplingConfirmationRequest[]
+  >([]);
+
+  useEffect(() => {
+    const remove = (correlationId: string) =>
+      setMcpSamplingRequests((requests) =>
+        requests.filter((r) => r.correlationId !== correlationId),
+      );
+
+    const handleRequest = (request: McpSamplingRequest) => {
+      setMcpSamplingRequests((requests) => [
+        ...requests,
+        {
+          correlationId: request.correlationId,
+          prompt: formatSamplingPrompt(request),
+          onConfirm: (confirmed) => {
+            remove(request.correlationId);
+            void messageBus.publish({
+              type: MessageBusType.MCP_SAMPLING_RESPONSE,
+              correlationId: request.correlationId,
+              confirmed,
+            });
+          },
+        },
+      ]);
+    };
+    const handleCancelled = (message: McpSamplingCancelled) =>
+      remove(message.correlationId);
+
+    messageBus.subscribe(MessageBusType.MCP_SAMPLING_REQUEST, handleRequest);
+    messageBus.subscribe(
+      MessageBusType.MCP_SAMPLING_CANCELLED,
+      handleCancelled,
+    );
+    return () => {
+      messageBus.unsubscribe(
+        MessageBusType.MCP_SAMPLING_REQUEST,
+        handleRequest,
+      );
+      messageBus.unsubscribe(
+        MessageBusType.MCP_SAMPLING_CANCELLED,
+        handleCancelled,
+      );
+    };
+  }, [messageBus]);
+
+  return { mcpSamplingRequests };
+};
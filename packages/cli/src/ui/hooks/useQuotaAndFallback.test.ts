@@ -34,6 +34,14 @@ import { useQuotaAndFallback } from './useQuotaAndFallback.js';
 import type { UseHistoryManagerReturn } from './useHistoryManager.js';
 import { MessageType } from '../types.js';
 
+vi.mock('@google/gemini-cli-core', async () => {
+  const actual = await vi.importActual('@google/gemini-cli-core');
+  return {
+    ...actual,
+    loadDevoraSettings: () => ({ zaiApiKey: 'zai-key' }),
+  };
+});
+
 // Use a type alias for SpyInstance as it's not directly exported
 type SpyInstance = ReturnType<typeof vi.spyOn>;
 
@@ -337,6 +345,79 @@ To disable gemini-3-pro-preview, disable "Preview features" in /settings.`,
     });
   });
 
+  describe('OpenAI-compatible providers', () => {
+    beforeEach(() => {
+      vi.spyOn(mockConfig, 'getContentGeneratorConfig').mockReturnValue({
+        authType: AuthType.OPENAI_COMPATIBLE,
+        providerId: 'zai',
+      });
+    });
+
+    it('should ask whether to keep trying a rate limited model', async () => {
+      const { result } = renderHook(() =>
+        useQuotaAndFallback({
+          config: mockConfig,
+          historyManager: mockHistoryManager,
+          userTier: undefined,
+          setModelSwitchedFromQuotaError: mockSetModelSwitchedFromQuotaError,
+        }),
+      );
+      const handler = setFallbackHandlerSpy.mock
+        .calls[0][0] as FallbackModelHandler;
+
+      let promise: Promise<FallbackIntent | null>;
+      act(() => {
+        promise = handler(
+          'glm-4.7',
+          'glm-4.7',
+          new RetryableQuotaError('Rate limited', mockGoogleApiError),
+        );
+      });
+
+      const request = result.current.proQuotaRequest;
+      expect(request?.failedModel).toBe('glm-4.7');
+      expect(request?.fallbackModel).toBe('glm-4.7');
+      expect(request?.isTerminalQuotaError).toBe(false);
+      expect(request?.message).toBe(
+        `Zai GLM is rate limiting or failing requests to glm-4.7.
+/model to switch models.
+Set model.fallbackChain in settings.json to switch models automatically.`,
+      );
+
+      act(() => {
+        result.current.handleProQuotaChoice('retry_once');
+      });
+      expect(await promise!).toBe('retry_once');
+    });
+
+    it('should report exhausted provider quotas', async () => {
+      const { result } = renderHook(() =>
+        useQuotaAndFallback({
+          config: mockConfig,
+          historyManager: mockHistoryManager,
+          userTier: undefined,
+          setModelSwitchedFromQuotaError: mockSetModelSwitchedFromQuotaError,
+        }),
+      );
+      const handler = setFallbackHandlerSpy.mock
+        .calls[0][0] as FallbackModelHandler;
+
+      act(() => {
+        void handler(
+          'glm-4.7',
+          'glm-4.7',
+          new TerminalQuotaError('Balance exhausted', mockGoogleApiError),
+        );
+      });
+
+      const request = result.current.proQuotaRequest;
+      expect(request?.isTerminalQuotaError).toBe(true);
+      expect(request?.message).toContain(
+        'Usage limit reached for glm-4.7 on Zai GLM.',
+      );
+    });
+  });
+
   describe('handleProQuotaChoice', () => {
     it('should do nothing if there is no pending pro quota request', () => {
       const { result } = renderHook(() =>
@@ -17,6 +17,8 @@ import {
   PREVIEW_GEMINI_MODEL,
   DEFAULT_GEMINI_MODEL,
   VALID_GEMINI_MODELS,
+  loadDevoraSettings,
+  resolveOpenAICompatibleProvider,
 } from '@google/gemini-cli-core';
 import { useCallback, useEffect, useRef, useState } from 'react';
 import { type UseHistoryManagerReturn } from './useHistoryManager.js';
@@ -53,11 +55,14 @@ export function useQuotaAndFallback({
       fallbackModel,
       error,
     ): Promise<FallbackIntent | null> => {
-      // Fallbacks are currently only handled for OAuth users.
+      // Fallbacks are handled for OAuth users and OpenAI-compatible
+      // providers.
       const contentGeneratorConfig = config.getContentGeneratorConfig();
+      const providerId = contentGeneratorConfig?.providerId;
       if (
         !contentGeneratorConfig ||
-        contentGeneratorConfig.authType !== AuthType.LOGIN_WITH_GOOGLE
+        (contentGeneratorConfig.authType !== AuthType.LOGIN_WITH_GOOGLE &&
+          !providerId)
       ) {
         return null;
       }
@@ -70,7 +75,11 @@ export function useQuotaAndFallback({
         failedModel === PREVIEW_GEMINI_MODEL
           ? 'all Pro models'
           : failedModel;
-      if (error instanceof TerminalQuotaError) {
+      if (providerId) {
+        isTerminalQuotaError = error instanceof TerminalQuotaError;
+        isModelNotFoundError = error instanceof ModelNotFoundError;
+        message = getProviderFailureMessage(providerId, failedModel, error);
+      } else if (error instanceof TerminalQuotaError) {
         isTerminalQuotaError = true;
         // Common part of the message for both tiers
         const messageLines = [
@@ -218,6 +227,35 @@ export function useQuotaAndFallback({
   };
 }
 
+function getProviderFailureMessage(
+  providerId: string,
+  failedModel: string,
+  error: unknown,
+): string {
+  const providerName =
+    resolveOpenAICompatibleProvider(loadDevoraSettings(), providerId)
+      ?.displayName ?? providerId;
+  let messageLines: Array<string | null>;
+  if (error instanceof TerminalQuotaError) {
+    messageLines = [
+      `Usage limit reached for ${failedModel} on ${providerName}.`,
+      error.retryDelayMs ? getResetTimeMessage(error.retryDelayMs) : null,
+      `/stats for usage details`,
+    ];
+  } else if (error instanceof ModelNotFoundError) {
+    messageLines = [`${providerName} cannot serve ${failedModel}.`];
+  } else {
+    messageLines = [
+      `${providerName} is rate limiting or failing requests to ${failedModel}.`,
+    ];
+  }
+  messageLines.push(
+    `/model to switch models.`,
+    `Set model.fallbackChain in settings.json to switch models automatically.`,
+  );
+  return messageLines.filter(Boolean).join('\n');
+}
+
 function getResetTimeMessage(delayMs: number): string {
   const resetDate = new Date(Date.now() + delayMs);
 
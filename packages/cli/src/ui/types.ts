@@ -434,6 +434,12 @@ export interface LoopDetectionConfirmationRequest {
   onComplete: (result: { userSelection: 'disable' | 'keep' }) => void;
 }
 
+export interface SessionCostConfirmationRequest {
+  costUsd: number;
+  maxCostUsd: number;
+  onComplete: (result: { userSelection: 'continue' | 'stop' }) => void;
+}
+
 export interface ActiveHook {
   name: string;
   eventName: string;
@@ -134,6 +134,8 @@ describe('computeSessionStats', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      subagents: {},
+      routing: { totalDecisions: 0, bySource: {} },
     };
 
     const result = computeSessionStats(metrics);
@@ -184,6 +186,8 @@ describe('computeSessionStats', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      subagents: {},
+      routing: { totalDecisions: 0, bySource: {} },
     };
 
     const result = computeSessionStats(metrics);
@@ -223,6 +227,8 @@ describe('computeSessionStats', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      subagents: {},
+      routing: { totalDecisions: 0, bySource: {} },
     };
 
     const result = computeSessionStats(metrics);
@@ -245,6 +251,8 @@ describe('computeSessionStats', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      subagents: {},
+      routing: { totalDecisions: 0, bySource: {} },
     };
 
     const result = computeSessionStats(metrics);
@@ -268,6 +276,8 @@ describe('computeSessionStats', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      subagents: {},
+      routing: { totalDecisions: 0, bySource: {} },
     };
 
     const result = computeSessionStats(metrics);
@@ -294,6 +304,8 @@ describe('computeSessionStats', () => {
         totalLinesAdded: 42,
         totalLinesRemoved: 18,
       },
+      subagents: {},
+      routing: { totalDecisions: 0, bySource: {} },
     };
 
     const result = computeSessionStats(metrics);
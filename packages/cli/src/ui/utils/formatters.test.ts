@@ -6,9 +6,11 @@
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import {
+  formatCost,
   formatDuration,
   formatMemoryUsage,
   formatTimeAgo,
+  formatElapsedTime,
   stripReferenceContent,
 } from './formatters.js';
 
@@ -75,6 +77,25 @@ describe('formatters', () => {
     });
   });
 
+  describe('formatElapsedTime', () => {
+    it('should round down to the second', () => {
+      const start = new Date(0);
+      expect(formatElapsedTime(start, 61_900)).toBe('1m 1s');
+      expect(formatElapsedTime(start, new Date(5_500))).toBe('5.0s');
+    });
+  });
+
+  describe('formatCost', () => {
+    it('should show fractions of a cent below a dollar', () => {
+      expect(formatCost(0.00421)).toBe('$0.0042');
+    });
+
+    it('should round to the cent from a dollar', () => {
+      expect(formatCost(1.254)).toBe('$1.25');
+      expect(formatCost(0)).toBe('$0.00');
+    });
+  });
+
   describe('formatTimeAgo', () => {
     const NOW = new Date('2025-01-01T12:00:00Z');
 
@@ -67,6 +67,31 @@ export const formatDuration = (milliseconds: number): string => {
   return parts.join(' ');
 };
 
+/**
+ * Formats the time elapsed between two dates, rounded down to the second.
+ * @param start The start of the period.
+ * @param end The end of the period, defaults to now.
+ * @returns A formatted string representing the elapsed time.
+ */
+export const formatElapsedTime = (
+  start: Date,
+  end: Date | number = Date.now(),
+): string => {
+  const elapsed = new Date(end).getTime() - start.getTime();
+  return formatDuration(Math.floor(elapsed / 1000) * 1000);
+};
+
+/**
+ * Formats a cost in USD, with more decimals for the fractions of a cent that
+ * single requests often cost (e.g., "$0.0042", "$1.25").
+ * @param costUsd The cost in USD.
+ * @returns A formatted string representing the cost.
+ */
+export const formatCost = (costUsd: number): string =>
+  costUsd > 0 && costUsd < 1
+    ? `$${costUsd.toFixed(4)}`
+    : `$${costUsd.toFixed(2)}`;
+
 export const formatTimeAgo = (date: string | number | Date): string => {
   const past = new Date(date);
   if (isNaN(past.getTime())) {
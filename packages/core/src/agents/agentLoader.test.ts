@@ -77,6 +77,44 @@ System prompt content.`);
       });
     });
 
+    it('should parse frontmatter with a provider, thinking budget and category', async () => {
+      const filePath = await writeAgentMarkdown(`---
+name: reviewer
+description: Reviews changes
+tools:
+  - read_file
+  - search_file_content
+provider: openrouter
+model: anthropic/claude-sonnet-4
+temperature: 0
+thinking_budget: 8192
+category: quick
+---
+Review the change.`);
+
+      const result = await parseAgentMarkdown(filePath);
+      expect(result[0]).toMatchObject({
+        tools: ['read_file', 'search_file_content'],
+        provider: 'openrouter',
+        model: 'anthropic/claude-sonnet-4',
+        temperature: 0,
+        thinking_budget: 8192,
+        category: 'quick',
+      });
+    });
+
+    it('should throw AgentLoadError if a provider is set without a model', async () => {
+      const filePath = await writeAgentMarkdown(`---
+name: test-agent
+description: Test
+provider: zai
+---
+Body`);
+      await expect(parseAgentMarkdown(filePath)).rejects.toThrow(
+        /model: A model is required when a provider is set/,
+      );
+    });
+
     it('should throw AgentLoadError if frontmatter is missing', async () => {
       const filePath = await writeAgentMarkdown(`Just some markdown content.`);
       await expect(parseAgentMarkdown(filePath)).rejects.toThrow(
@@ -297,6 +335,33 @@ Body`);
       expect(result.modelConfig.model).toBe('auto');
     });
 
+    it('should convert the provider, thinking budget and category', () => {
+      const markdown = {
+        kind: 'local' as const,
+        name: 'test-agent',
+        description: 'A test agent',
+        provider: 'zai',
+        model: 'glm-4.7',
+        temperature: 0.2,
+        thinking_budget: 0,
+        category: 'quick',
+        system_prompt: 'You are a test agent.',
+      };
+
+      const result = markdownToAgentDefinition(markdown);
+      expect(result).toMatchObject({
+        provider: 'zai',
+        category: 'quick',
+        modelConfig: {
+          model: 'glm-4.7',
+          generateContentConfig: {
+            temperature: 0.2,
+            thinkingConfig: { thinkingBudget: 0 },
+          },
+        },
+      });
+    });
+
     it('should convert remote agent definition', () => {
       const markdown = {
         kind: 'remote' as const,
@@ -30,8 +30,11 @@ interface FrontmatterLocalAgentDefinition
   description: string;
   tools?: string[];
   system_prompt: string;
+  provider?: string;
   model?: string;
   temperature?: number;
+  thinking_budget?: number;
+  category?: string;
   max_turns?: number;
   timeout_mins?: number;
 }
@@ -85,12 +88,20 @@ const localAgentSchema = z
         }),
       )
       .optional(),
+    provider: z.string().optional(),
     model: z.string().optional(),
     temperature: z.number().optional(),
+    thinking_budget: z.number().int().min(-1).optional(),
+    category: z.string().optional(),
     max_turns: z.number().int().positive().optional(),
     timeout_mins: z.number().int().positive().optional(),
   })
-  .strict();
+  .strict()
+  // The model of the session may not be served by another provider.
+  .refine((agent) => !agent.provider || agent.model, {
+    message: 'A model is required when a provider is set',
+    path: ['model'],
+  });
 
 const remoteAgentSchema = z
   .object({
@@ -288,6 +299,9 @@ export function markdownToAgentDefinition(
       generateContentConfig: {
         temperature: markdown.temperature ?? 1,
         topP: 0.95,
+        ...(markdown.thinking_budget !== undefined && {
+          thinkingConfig: { thinkingBudget: markdown.thinking_budget },
+        }),
       },
     },
     runConfig: {
@@ -299,6 +313,8 @@ export function markdownToAgentDefinition(
           tools: markdown.tools,
         }
       : undefined,
+    provider: markdown.provider,
+    category: markdown.category,
     inputConfig,
   };
 }
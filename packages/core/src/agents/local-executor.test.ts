@@ -28,6 +28,7 @@ import {
   type FunctionCall,
   type Part,
   type GenerateContentResponse,
+  type GenerateContentResponseUsageMetadata,
   type Content,
   type PartListUnion,
   type Tool,
@@ -35,6 +36,7 @@ import {
 import type { Config } from '../config/config.js';
 import { MockTool } from '../test-utils/mock-tool.js';
 import { getDirectoryContextString } from '../utils/environmentContext.js';
+import { getFolderStructure } from '../utils/getFolderStructure.js';
 import { z } from 'zod';
 import { promptIdContext } from '../utils/promptIdContext.js';
 import {
@@ -54,6 +56,7 @@ import type {
   OutputConfig,
 } from './types.js';
 import { AgentTerminateMode } from './types.js';
+import { AgentTokenBudget } from './token-budget.js';
 import type { AnyDeclarativeTool, AnyToolInvocation } from '../tools/tools.js';
 import { CompressionStatus } from '../core/turn.js';
 import { ChatCompressionService } from '../services/chatCompressionService.js';
@@ -63,17 +66,30 @@ import type {
 } from '../services/modelConfigService.js';
 import { getModelConfigAlias } from './registry.js';
 import type { ModelRouterService } from '../routing/modelRouterService.js';
+import type { ContentGenerator } from '../core/contentGenerator.js';
+import {
+  createSubagentSession,
+  loadSubagentSession,
+  SubagentSessionNotFoundError,
+} from './subagent-sessions.js';
+import type { ResumedSessionData } from '../services/chatRecordingService.js';
 
 const {
   mockSendMessageStream,
   mockExecuteToolCall,
   mockSetSystemInstruction,
+  mockSetContentGenerator,
   mockCompress,
+  mockRecordMessage,
+  mockRecordToolCalls,
 } = vi.hoisted(() => ({
   mockSendMessageStream: vi.fn(),
   mockExecuteToolCall: vi.fn(),
   mockSetSystemInstruction: vi.fn(),
+  mockSetContentGenerator: vi.fn(),
   mockCompress: vi.fn(),
+  mockRecordMessage: vi.fn(),
+  mockRecordToolCalls: vi.fn(),
 }));
 
 let mockChatHistory: Content[] = [];
@@ -96,10 +112,25 @@ vi.mock('../core/geminiChat.js', async (importOriginal) => {
       getHistory: vi.fn((_curated?: boolean) => [...mockChatHistory]),
       setHistory: mockSetHistory,
       setSystemInstruction: mockSetSystemInstruction,
+      setContentGenerator: mockSetContentGenerator,
+      getChatRecordingService: () => ({
+        recordMessage: mockRecordMessage,
+        recordToolCalls: mockRecordToolCalls,
+      }),
     })),
   };
 });
 
+vi.mock('./subagent-sessions.js', async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import('./subagent-sessions.js')>();
+  return {
+    ...actual,
+    createSubagentSession: vi.fn(),
+    loadSubagentSession: vi.fn(),
+  };
+});
+
 vi.mock('../core/nonInteractiveToolExecutor.js', () => ({
   executeToolCall: mockExecuteToolCall,
 }));
@@ -110,6 +141,8 @@ vi.mock('../utils/version.js', () => ({
 
 vi.mock('../utils/environmentContext.js');
 
+vi.mock('../utils/getFolderStructure.js');
+
 vi.mock('../telemetry/loggers.js', () => ({
   logAgentStart: vi.fn(),
   logAgentFinish: vi.fn(),
@@ -130,6 +163,8 @@ vi.mock('../utils/promptIdContext.js', async (importOriginal) => {
 });
 
 const MockedGeminiChat = vi.mocked(GeminiChat);
+const mockedCreateSubagentSession = vi.mocked(createSubagentSession);
+const mockedLoadSubagentSession = vi.mocked(loadSubagentSession);
 const mockedGetDirectoryContextString = vi.mocked(getDirectoryContextString);
 const mockedPromptIdContext = vi.mocked(promptIdContext);
 const mockedLogAgentStart = vi.mocked(logAgentStart);
@@ -160,6 +195,7 @@ const mockModelResponse = (
   functionCalls: FunctionCall[],
   thought?: string,
   text?: string,
+  usageMetadata?: GenerateContentResponseUsageMetadata,
 ) => {
   const parts: Part[] = [];
   if (thought) {
@@ -171,6 +207,9 @@ const mockModelResponse = (
   if (text) parts.push({ text });
 
   const responseChunk = createMockResponseChunk(parts, functionCalls);
+  if (usageMetadata) {
+    responseChunk.usageMetadata = usageMetadata;
+  }
 
   mockSendMessageStream.mockImplementationOnce(async () =>
     (async function* () {
@@ -198,6 +237,20 @@ const getMockMessageParams = (callIndex: number) => {
 let mockConfig: Config;
 let parentToolRegistry: ToolRegistry;
 
+const createMockSession = (
+  sessionId: string,
+  messages: ResumedSessionData['conversation']['messages'] = [],
+): ResumedSessionData => ({
+  conversation: {
+    sessionId,
+    projectHash: 'project-hash',
+    startTime: '2025-01-01T00:00:00.000Z',
+    lastUpdated: '2025-01-01T00:00:00.000Z',
+    messages,
+  },
+  filePath: `/tmp/chats/subagents/session-${sessionId}.json`,
+});
+
 /**
  * Type-safe helper to create agent definitions for tests.
  */
@@ -276,11 +329,19 @@ describe('LocalAgentExecutor', () => {
         ({
           sendMessageStream: mockSendMessageStream,
           setSystemInstruction: mockSetSystemInstruction,
+          setContentGenerator: mockSetContentGenerator,
           getHistory: vi.fn((_curated?: boolean) => [...mockChatHistory]),
           getLastPromptTokenCount: vi.fn(() => 100),
           setHistory: mockSetHistory,
+          getChatRecordingService: () => ({
+            recordMessage: mockRecordMessage,
+            recordToolCalls: mockRecordToolCalls,
+          }),
         }) as unknown as GeminiChat,
     );
+    mockedCreateSubagentSession.mockImplementation(() =>
+      createMockSession('new-session'),
+    );
 
     vi.useFakeTimers();
 
@@ -1015,6 +1076,224 @@ describe('LocalAgentExecutor', () => {
     });
   });
 
+  describe('Sessions', () => {
+    it('should record the run in a new session', async () => {
+      const definition = createTestDefinition();
+      const executor = await LocalAgentExecutor.create(
+        definition,
+        mockConfig,
+        onActivity,
+      );
+
+      mockModelResponse([
+        { name: LS_TOOL_NAME, args: { path: '.' }, id: 'call1' },
+      ]);
+      mockExecuteToolCall.mockResolvedValueOnce({
+        status: 'success',
+        request: {
+          callId: 'call1',
+          name: LS_TOOL_NAME,
+          args: { path: '.' },
+          isClientInitiated: false,
+          prompt_id: 'test-prompt',
+        },
+        tool: {} as AnyDeclarativeTool,
+        invocation: {} as AnyToolInvocation,
+        response: {
+          callId: 'call1',
+          resultDisplay: 'file1.txt',
+          responseParts: [
+            {
+              functionResponse: {
+                name: LS_TOOL_NAME,
+                response: { result: 'file1.txt' },
+                id: 'call1',
+              },
+            },
+          ],
+          error: undefined,
+          errorType: undefined,
+          contentLength: undefined,
+        },
+      });
+      mockModelResponse([
+        {
+          name: TASK_COMPLETE_TOOL_NAME,
+          args: { finalResult: 'Found file1.txt' },
+          id: 'call2',
+        },
+      ]);
+
+      expect(executor.getSessionId()).toBeUndefined();
+      await executor.run({ goal: 'Find files' }, signal);
+
+      expect(executor.getSessionId()).toBe('new-session');
+      expect(MockedGeminiChat.mock.calls[0][4]).toEqual(
+        createMockSession('new-session'),
+      );
+      expect(mockRecordMessage).toHaveBeenCalledWith({
+        model: 'gemini-test-model',
+        type: 'gemini',
+        content: '',
+      });
+      expect(mockRecordToolCalls).toHaveBeenCalledWith('gemini-test-model', [
+        expect.objectContaining({
+          id: 'call1',
+          name: LS_TOOL_NAME,
+          args: { path: '.' },
+          status: 'success',
+          result: [
+            {
+              functionResponse: {
+                name: LS_TOOL_NAME,
+                response: { result: 'file1.txt' },
+                id: 'call1',
+              },
+            },
+          ],
+        }),
+      ]);
+    });
+
+    it('should continue the conversation of a resumed session', async () => {
+      const session = createMockSession('previous-session', [
+        {
+          id: 'm1',
+          timestamp: '2025-01-01T00:00:00.000Z',
+          type: 'user',
+          content: 'Find the auth code',
+        },
+        {
+          id: 'm2',
+          timestamp: '2025-01-01T00:00:01.000Z',
+          type: 'gemini',
+          content: 'It is in src/auth.',
+        },
+      ]);
+      mockedLoadSubagentSession.mockReturnValue(session);
+      const definition = createTestDefinition();
+      const executor = await LocalAgentExecutor.create(
+        definition,
+        mockConfig,
+        onActivity,
+        { resumeSessionId: 'previous-session' },
+      );
+
+      mockModelResponse([
+        {
+          name: TASK_COMPLETE_TOOL_NAME,
+          args: { finalResult: 'Done' },
+          id: 'call1',
+        },
+      ]);
+
+      await executor.run({ goal: 'Check the tests' }, signal);
+
+      expect(mockedLoadSubagentSession).toHaveBeenCalledWith(
+        mockConfig,
+        'previous-session',
+        definition.name,
+      );
+      expect(mockedCreateSubagentSession).not.toHaveBeenCalled();
+      expect(executor.getSessionId()).toBe('previous-session');
+      const [, , , startHistory, resumedSession] =
+        MockedGeminiChat.mock.calls[0];
+      expect(startHistory).toEqual([
+        { role: 'user', parts: [{ text: 'Find the auth code' }] },
+        { role: 'model', parts: [{ text: 'It is in src/auth.' }] },
+      ]);
+      expect(resumedSession).toBe(session);
+    });
+
+    it('should fail when the session to resume does not exist', async () => {
+      mockedLoadSubagentSession.mockImplementation(() => {
+        throw new SubagentSessionNotFoundError('missing');
+      });
+      const definition = createTestDefinition();
+      const executor = await LocalAgentExecutor.create(
+        definition,
+        mockConfig,
+        onActivity,
+        { resumeSessionId: 'missing' },
+      );
+
+      await expect(
+        executor.run({ goal: 'Check the tests' }, signal),
+      ).rejects.toThrow('Subagent session "missing" not found');
+      expect(mockSendMessageStream).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Skills', () => {
+    const skill = {
+      name: 'frontend-design',
+      description: 'Builds polished UIs.',
+      location: '/skills/frontend-design/SKILL.md',
+      body: 'Use the design tokens from tokens.json.',
+    };
+
+    it('should load the skills into the system prompt and tool set', async () => {
+      vi.mocked(getFolderStructure).mockResolvedValue('Mocked skill folder');
+      const addDirectory = vi
+        .spyOn(mockConfig.getWorkspaceContext(), 'addDirectory')
+        .mockImplementation(() => {});
+      const definition = createTestDefinition();
+      const executor = await LocalAgentExecutor.create(
+        definition,
+        mockConfig,
+        onActivity,
+        { skills: [skill] },
+      );
+
+      mockModelResponse([
+        {
+          name: TASK_COMPLETE_TOOL_NAME,
+          args: { finalResult: 'Done' },
+          id: 'call1',
+        },
+      ]);
+
+      await executor.run({ goal: 'Build the form' }, signal);
+
+      expect(addDirectory).toHaveBeenCalledWith('/skills/frontend-design');
+      const [, systemInstruction, tools] = MockedGeminiChat.mock.calls[0];
+      expect(systemInstruction).toContain(
+        '<activated_skill name="frontend-design">',
+      );
+      expect(systemInstruction).toContain(
+        'Use the design tokens from tokens.json.',
+      );
+      expect(systemInstruction).toContain('Mocked skill folder');
+      const toolNames = tools?.[0].functionDeclarations?.map((t) => t.name);
+      expect(toolNames).toContain(LS_TOOL_NAME);
+      expect(toolNames).toContain(READ_FILE_TOOL_NAME);
+    });
+
+    it('should not mention skills when none are loaded', async () => {
+      const definition = createTestDefinition();
+      const executor = await LocalAgentExecutor.create(
+        definition,
+        mockConfig,
+        onActivity,
+      );
+
+      mockModelResponse([
+        {
+          name: TASK_COMPLETE_TOOL_NAME,
+          args: { finalResult: 'Done' },
+          id: 'call1',
+        },
+      ]);
+
+      await executor.run({ goal: 'Build the form' }, signal);
+
+      const [, systemInstruction, tools] = MockedGeminiChat.mock.calls[0];
+      expect(systemInstruction).not.toContain('<activated_skill');
+      const toolNames = tools?.[0].functionDeclarations?.map((t) => t.name);
+      expect(toolNames).not.toContain(READ_FILE_TOOL_NAME);
+    });
+  });
+
   describe('Edge Cases and Error Handling', () => {
     it('should report an error if complete_task output fails schema validation', async () => {
       const definition = createTestDefinition(
@@ -1305,6 +1584,138 @@ describe('LocalAgentExecutor', () => {
         expect.any(AbortSignal),
       );
     });
+
+    it('should route the tasks of a category to its provider, model and temperature', async () => {
+      const definition = createTestDefinition();
+      definition.modelConfig.model = 'concrete-model';
+      vi.spyOn(mockConfig, 'getAgentsSettings').mockReturnValue({
+        categories: {
+          quick: {
+            provider: 'zai',
+            model: 'glm-4.5-air',
+            temperature: 0.1,
+            promptAppend: 'Keep the change minimal.',
+          },
+        },
+      });
+      const mockRouter = {
+        route: vi.fn().mockResolvedValue({
+          model: 'glm-4.5-air',
+          providerId: 'zai',
+          metadata: { source: 'category', reasoning: 'test' },
+        }),
+      };
+      vi.spyOn(mockConfig, 'getModelRouterService').mockReturnValue(
+        mockRouter as unknown as ModelRouterService,
+      );
+      const contentGenerator = {} as ContentGenerator;
+      vi.spyOn(mockConfig, 'getProviderContentGenerator').mockResolvedValue(
+        contentGenerator,
+      );
+      vi.spyOn(
+        mockConfig.modelConfigService,
+        'getResolvedConfig',
+      ).mockReturnValue({
+        model: 'concrete-model',
+        generateContentConfig: { topP: 0.9 },
+      } as unknown as ResolvedModelConfig);
+      const registerRuntimeModelConfig = vi.spyOn(
+        mockConfig.modelConfigService,
+        'registerRuntimeModelConfig',
+      );
+
+      const executor = await LocalAgentExecutor.create(
+        definition,
+        mockConfig,
+        onActivity,
+        { category: 'quick' },
+      );
+
+      mockModelResponse([
+        {
+          name: TASK_COMPLETE_TOOL_NAME,
+          args: { finalResult: 'done' },
+          id: 'call1',
+        },
+      ]);
+
+      await executor.run({ goal: 'test' }, signal);
+
+      expect(mockRouter.route).toHaveBeenCalledWith(
+        expect.objectContaining({ category: 'quick' }),
+      );
+      expect(mockSetContentGenerator).toHaveBeenCalledWith(contentGenerator);
+      const categoryAlias = `${definition.name}-config-quick`;
+      expect(registerRuntimeModelConfig).toHaveBeenCalledWith(categoryAlias, {
+        modelConfig: {
+          model: 'glm-4.5-air',
+          generateContentConfig: { topP: 0.9, temperature: 0.1 },
+        },
+      });
+      expect(mockSendMessageStream).toHaveBeenCalledWith(
+        { model: categoryAlias, overrideScope: categoryAlias },
+        expect.any(Array),
+        expect.any(String),
+        expect.any(AbortSignal),
+      );
+      const [, systemInstruction] = MockedGeminiChat.mock.calls[0];
+      expect(systemInstruction).toContain('Keep the change minimal.');
+    });
+
+    it('should run agents pinned to a provider on its model in their default category', async () => {
+      const definition = createTestDefinition();
+      definition.modelConfig.model = 'anthropic/claude-sonnet-4';
+      definition.provider = 'openrouter';
+      definition.category = 'careful';
+      vi.spyOn(mockConfig, 'getAgentsSettings').mockReturnValue({
+        categories: {
+          careful: { promptAppend: 'Double-check every claim.' },
+        },
+      });
+      const mockRouter = { route: vi.fn() };
+      vi.spyOn(mockConfig, 'getModelRouterService').mockReturnValue(
+        mockRouter as unknown as ModelRouterService,
+      );
+      const contentGenerator = {} as ContentGenerator;
+      const getProviderContentGenerator = vi
+        .spyOn(mockConfig, 'getProviderContentGenerator')
+        .mockResolvedValue(contentGenerator);
+      vi.spyOn(
+        mockConfig.modelConfigService,
+        'getResolvedConfig',
+      ).mockReturnValue({
+        model: 'anthropic/claude-sonnet-4',
+        generateContentConfig: {},
+      } as unknown as ResolvedModelConfig);
+
+      const executor = await LocalAgentExecutor.create(
+        definition,
+        mockConfig,
+        onActivity,
+      );
+
+      mockModelResponse([
+        {
+          name: TASK_COMPLETE_TOOL_NAME,
+          args: { finalResult: 'done' },
+          id: 'call1',
+        },
+      ]);
+
+      await executor.run({ goal: 'test' }, signal);
+
+      expect(mockRouter.route).not.toHaveBeenCalled();
+      expect(getProviderContentGenerator).toHaveBeenCalledWith('openrouter');
+      expect(mockSetContentGenerator).toHaveBeenCalledWith(contentGenerator);
+      expect(mockSendMessageStream).toHaveBeenCalledWith(
+        expect.objectContaining({ model: 'anthropic/claude-sonnet-4' }),
+        expect.any(Array),
+        expect.any(String),
+        expect.any(AbortSignal),
+      );
+      const [, systemInstruction] = MockedGeminiChat.mock.calls[0];
+      expect(systemInstruction).toContain('Double-check every claim.');
+    });
   });
 
   describe('run (Termination Conditions)', () => {
@@ -1470,8 +1881,16 @@ describe('LocalAgentExecutor', () => {
   });
 
   describe('run (Recovery Turns)', () => {
-    const mockWorkResponse = (id: string) => {
-      mockModelResponse([{ name: LS_TOOL_NAME, args: { path: '.' }, id }]);
+    const mockWorkResponse = (
+      id: string,
+      usageMetadata?: GenerateContentResponseUsageMetadata,
+    ) => {
+      mockModelResponse(
+        [{ name: LS_TOOL_NAME, args: { path: '.' }, id }],
+        undefined,
+        undefined,
+        usageMetadata,
+      );
       mockExecuteToolCall.mockResolvedValueOnce({
         status: 'success',
         request: {
@@ -1544,6 +1963,43 @@ describe('LocalAgentExecutor', () => {
       );
     });
 
+    it('should stop with a final turn once the shared token budget is used up', async () => {
+      const tokenBudget = new AgentTokenBudget(1000);
+      tokenBudget.consume(400); // Used by another agent
+      const executor = await LocalAgentExecutor.create(
+        createTestDefinition([LS_TOOL_NAME]),
+        mockConfig,
+        onActivity,
+        { tokenBudget },
+      );
+
+      mockWorkResponse('t1', { totalTokenCount: 700 });
+      mockModelResponse([
+        {
+          name: TASK_COMPLETE_TOOL_NAME,
+          args: { finalResult: 'Partial findings.' },
+          id: 't2',
+        },
+      ]);
+
+      const output = await executor.run({ goal: 'Budget test' }, signal);
+
+      expect(output).toEqual({
+        result: 'Partial findings.',
+        terminate_reason: AgentTerminateMode.GOAL,
+      });
+      expect(tokenBudget.usedTokens).toBe(1100);
+      expect(mockSendMessageStream).toHaveBeenCalledTimes(2);
+      expect(activities).toContainEqual(
+        expect.objectContaining({
+          type: 'THOUGHT_CHUNK',
+          data: {
+            text: 'Execution limit reached (TOKEN_BUDGET). Attempting one final recovery turn with a grace period.',
+          },
+        }),
+      );
+    });
+
     it('should fail if complete_task is NOT called during the grace turn after MAX_TURNS', async () => {
       const MAX = 1;
       const definition = createTestDefinition([LS_TOOL_NAME], {
@@ -4,6 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import * as path from 'node:path';
 import type { Config } from '../config/config.js';
 import { reportError } from '../utils/errorReporting.js';
 import { GeminiChat, StreamEventType } from '../core/geminiChat.js';
@@ -47,12 +48,49 @@ import { type z } from 'zod';
 import { zodToJsonSchema } from 'zod-to-json-schema';
 import { debugLogger } from '../utils/debugLogger.js';
 import { getModelConfigAlias } from './registry.js';
+import { getDelegationCategories } from './sisyphus/categories.js';
+import type { CategoryConfig } from './sisyphus/types.js';
+import type { ModelConfigKey } from '../services/modelConfigService.js';
 import { getVersion } from '../utils/version.js';
 import { ApprovalMode } from '../policy/types.js';
+import {
+  conversationToHistory,
+  createSubagentSession,
+  loadSubagentSession,
+  toToolCallRecords,
+} from './subagent-sessions.js';
+import type { SkillDefinition } from '../skills/skillManager.js';
+import { formatActivatedSkill } from '../tools/activate-skill.js';
+import { READ_FILE_TOOL_NAME } from '../tools/tool-names.js';
+import { getFolderStructure } from '../utils/getFolderStructure.js';
+import type { AgentTokenBudget } from './token-budget.js';
 
 /** A callback function to report on agent activity. */
 export type ActivityCallback = (activity: SubagentActivityEvent) => void;
 
+export interface LocalAgentExecutorOptions {
+  /**
+   * Id of a previous session of the agent to continue. Its transcript is
+   * loaded back into the chat and the new turns are appended to it.
+   */
+  resumeSessionId?: string;
+  /**
+   * Skills loaded into the agent. Their instructions are added to the system
+   * prompt and their bundled resources are made readable.
+   */
+  skills?: SkillDefinition[];
+  /**
+   * Delegation category of the task. Its model, provider and temperature are
+   * used for the requests of the agent.
+   */
+  category?: string;
+  /**
+   * Token budget shared with other agents. The tokens of each request are
+   * charged to it, and the agent stops once it is used up.
+   */
+  tokenBudget?: AgentTokenBudget;
+}
+
 const TASK_COMPLETE_TOOL_NAME = 'complete_task';
 const GRACE_PERIOD_MS = 60 * 1000; // 1 min
 
@@ -86,6 +124,11 @@ export class LocalAgentExecutor<TOutput extends z.ZodTypeAny> {
   private readonly runtimeContext: Config;
   private readonly onActivity?: ActivityCallback;
   private readonly compressionService: ChatCompressionService;
+  private readonly resumeSessionId?: string;
+  private readonly skills: SkillDefinition[];
+  private readonly category?: string;
+  private readonly tokenBudget?: AgentTokenBudget;
+  private sessionId?: string;
   private hasFailedCompressionAttempt = false;
 
   /**
@@ -97,12 +140,14 @@ export class LocalAgentExecutor<TOutput extends z.ZodTypeAny> {
    * @param definition The definition object for the agent.
    * @param runtimeContext The global runtime configuration.
    * @param onActivity An optional callback to receive activity events.
+   * @param options Optional settings, such as a session to resume.
    * @returns A promise that resolves to a new `LocalAgentExecutor` instance.
    */
   static async create<TOutput extends z.ZodTypeAny>(
     definition: LocalAgentDefinition<TOutput>,
     runtimeContext: Config,
     onActivity?: ActivityCallback,
+    options: LocalAgentExecutorOptions = {},
   ): Promise<LocalAgentExecutor<TOutput>> {
     // Create an isolated tool registry for this agent instance.
     const agentToolRegistry = new ToolRegistry(
@@ -134,6 +179,21 @@ export class LocalAgentExecutor<TOutput extends z.ZodTypeAny> {
       agentToolRegistry.sortTools();
     }
 
+    const skills = options.skills ?? [];
+    if (skills.length > 0) {
+      // The agent needs to read the resources bundled with its skills.
+      const readFileTool = parentToolRegistry.getTool(READ_FILE_TOOL_NAME);
+      if (readFileTool && !agentToolRegistry.getTool(READ_FILE_TOOL_NAME)) {
+        agentToolRegistry.registerTool(readFileTool);
+        agentToolRegistry.sortTools();
+      }
+      for (const skill of skills) {
+        runtimeContext
+          .getWorkspaceContext()
+          .addDirectory(path.dirname(skill.location));
+      }
+    }
+
     // Get the parent prompt ID from context
     const parentPromptId = promptIdContext.getStore();
 
@@ -143,6 +203,10 @@ export class LocalAgentExecutor<TOutput extends z.ZodTypeAny> {
       agentToolRegistry,
       parentPromptId,
       onActivity,
+      options.resumeSessionId,
+      skills,
+      options.category ?? definition.category,
+      options.tokenBudget,
     );
   }
 
@@ -158,11 +222,19 @@ export class LocalAgentExecutor<TOutput extends z.ZodTypeAny> {
     toolRegistry: ToolRegistry,
     parentPromptId: string | undefined,
     onActivity?: ActivityCallback,
+    resumeSessionId?: string,
+    skills: SkillDefinition[] = [],
+    category?: string,
+    tokenBudget?: AgentTokenBudget,
   ) {
     this.definition = definition;
     this.runtimeContext = runtimeContext;
     this.toolRegistry = toolRegistry;
     this.onActivity = onActivity;
+    this.resumeSessionId = resumeSessionId;
+    this.skills = skills;
+    this.category = category;
+    this.tokenBudget = tokenBudget;
     this.compressionService = new ChatCompressionService();
 
     const randomIdPart = Math.random().toString(36).slice(2, 8);
@@ -172,6 +244,15 @@ export class LocalAgentExecutor<TOutput extends z.ZodTypeAny> {
     this.agentId = `${parentPrefix}${this.definition.name}-${randomIdPart}`;
   }
 
+  /**
+   * Returns the id of the session recording the agent's transcript, which can
+   * be passed back as `resumeSessionId` to continue the conversation. It is
+   * only known once the run has started its chat.
+   */
+  getSessionId(): string | undefined {
+    return this.sessionId;
+  }
+
   /**
    * Executes a single turn of the agent's logic, from calling the model
    * to processing its response.
@@ -220,6 +301,7 @@ export class LocalAgentExecutor<TOutput extends z.ZodTypeAny> {
 
     const { nextMessage, submittedOutput, taskCompleted } =
       await this.processFunctionCalls(functionCalls, combinedSignal, promptId);
+    this.recordToolCalls(chat, functionCalls, nextMessage, promptId);
     if (taskCompleted) {
       const finalResult = submittedOutput ?? 'Task completed successfully.';
       return {
@@ -243,6 +325,7 @@ export class LocalAgentExecutor<TOutput extends z.ZodTypeAny> {
     reason:
       | AgentTerminateMode.TIMEOUT
       | AgentTerminateMode.MAX_TURNS
+      | AgentTerminateMode.TOKEN_BUDGET
       | AgentTerminateMode.ERROR_NO_COMPLETE_TASK_CALL,
   ): string {
     let explanation = '';
@@ -253,6 +336,9 @@ export class LocalAgentExecutor<TOutput extends z.ZodTypeAny> {
       case AgentTerminateMode.MAX_TURNS:
         explanation = 'You have exceeded the maximum number of turns.';
         break;
+      case AgentTerminateMode.TOKEN_BUDGET:
+        explanation = 'You have used up your token budget.';
+        break;
       case AgentTerminateMode.ERROR_NO_COMPLETE_TASK_CALL:
         explanation = 'You have stopped calling tools without finishing.';
         break;
@@ -274,6 +360,7 @@ export class LocalAgentExecutor<TOutput extends z.ZodTypeAny> {
     reason:
       | AgentTerminateMode.TIMEOUT
       | AgentTerminateMode.MAX_TURNS
+      | AgentTerminateMode.TOKEN_BUDGET
       | AgentTerminateMode.ERROR_NO_COMPLETE_TASK_CALL,
     externalSignal: AbortSignal, // The original signal passed to run()
   ): Promise<string | null> {
@@ -469,6 +556,12 @@ export class LocalAgentExecutor<TOutput extends z.ZodTypeAny> {
               error: finalResult,
               context: 'max_turns',
             });
+          } else if (terminateReason === AgentTerminateMode.TOKEN_BUDGET) {
+            finalResult = `Agent used up its token budget (${this.tokenBudget?.limit} tokens).`;
+            this.emitActivity('ERROR', {
+              error: finalResult,
+              context: 'token_budget',
+            });
           } else if (
             terminateReason === AgentTerminateMode.ERROR_NO_COMPLETE_TASK_CALL
           ) {
@@ -606,7 +699,8 @@ export class LocalAgentExecutor<TOutput extends z.ZodTypeAny> {
     const requestedModel = resolvedConfig.model;
 
     let modelToUse: string;
-    if (isAutoModel(requestedModel)) {
+    let providerId: string | undefined;
+    if (this.shouldRouteModel(requestedModel)) {
       // TODO(joshualitt): This try / catch is inconsistent with the routing
       // behavior for the main agent. Ideally, we would have a universal
       // policy for routing failure. Given routing failure does not necessarily
@@ -618,23 +712,28 @@ export class LocalAgentExecutor<TOutput extends z.ZodTypeAny> {
           request: message.parts || [],
           signal,
           requestedModel,
+          category: this.category,
         };
         const router = this.runtimeContext.getModelRouterService();
         const decision = await router.route(routingContext);
         modelToUse = decision.model;
+        providerId = decision.providerId;
       } catch (error) {
         debugLogger.warn(`Error during model routing: ${error}`);
         modelToUse = DEFAULT_GEMINI_MODEL;
       }
     } else {
       modelToUse = requestedModel;
+      providerId = this.definition.provider;
     }
 
+    chat.setContentGenerator(
+      providerId
+        ? await this.runtimeContext.getProviderContentGenerator(providerId)
+        : undefined,
+    );
     const responseStream = await chat.sendMessageStream(
-      {
-        model: modelToUse,
-        overrideScope: this.definition.name,
-      },
+      this.getModelConfigKey(modelToUse),
       message.parts || [],
       promptId,
       signal,
@@ -642,12 +741,16 @@ export class LocalAgentExecutor<TOutput extends z.ZodTypeAny> {
 
     const functionCalls: FunctionCall[] = [];
     let textResponse = '';
+    let totalTokenCount = 0;
 
     for await (const resp of responseStream) {
       if (signal.aborted) break;
 
       if (resp.type === StreamEventType.CHUNK) {
         const chunk = resp.value;
+        // The usage of a response is reported by its last chunks.
+        totalTokenCount =
+          chunk.usageMetadata?.totalTokenCount ?? totalTokenCount;
         const parts = chunk.candidates?.[0]?.content?.parts;
 
         // Extract and emit any subject "thought" content from the model.
@@ -676,9 +779,55 @@ export class LocalAgentExecutor<TOutput extends z.ZodTypeAny> {
       }
     }
 
+    this.tokenBudget?.consume(totalTokenCount);
+
     return { functionCalls, textResponse };
   }
 
+  /**
+   * Whether the model of a request is chosen by the router. Agents pinned to
+   * a provider keep their model unless their category sets another one.
+   */
+  private shouldRouteModel(requestedModel: string): boolean {
+    if (this.definition.provider) {
+      const category = this.getCategory();
+      return !!(category?.model || category?.provider);
+    }
+    return !!this.category || isAutoModel(requestedModel);
+  }
+
+  /**
+   * Returns the model config of a request. Tasks of a category with a
+   * temperature use the agent's config with the category's temperature.
+   */
+  private getModelConfigKey(model: string): ModelConfigKey {
+    const modelConfigKey = { model, overrideScope: this.definition.name };
+    const temperature = this.getCategory()?.temperature;
+    if (temperature === undefined) {
+      return modelConfigKey;
+    }
+
+    const { generateContentConfig } =
+      this.runtimeContext.modelConfigService.getResolvedConfig(modelConfigKey);
+    const categoryAlias = `${getModelConfigAlias(this.definition)}-${this.category}`;
+    this.runtimeContext.modelConfigService.registerRuntimeModelConfig(
+      categoryAlias,
+      {
+        modelConfig: {
+          model,
+          generateContentConfig: { ...generateContentConfig, temperature },
+        },
+      },
+    );
+    return { model: categoryAlias, overrideScope: categoryAlias };
+  }
+
+  private getCategory(): CategoryConfig | undefined {
+    return this.category
+      ? getDelegationCategories(this.runtimeContext)[this.category]
+      : undefined;
+  }
+
   /** Initializes a `GeminiChat` instance for the agent run. */
   private async createChatObject(
     inputs: AgentInputs,
@@ -692,10 +841,22 @@ export class LocalAgentExecutor<TOutput extends z.ZodTypeAny> {
       );
     }
 
-    const startHistory = this.applyTemplateToInitialMessages(
-      promptConfig.initialMessages ?? [],
-      inputs,
-    );
+    const session = this.resumeSessionId
+      ? loadSubagentSession(
+          this.runtimeContext,
+          this.resumeSessionId,
+          this.definition.name,
+        )
+      : createSubagentSession(this.runtimeContext, this.definition.name);
+    this.sessionId = session.conversation.sessionId;
+
+    const startHistory = [
+      ...this.applyTemplateToInitialMessages(
+        promptConfig.initialMessages ?? [],
+        inputs,
+      ),
+      ...conversationToHistory(session.conversation.messages),
+    ];
 
     // Build system instruction from the templated prompt string.
     const systemInstruction = promptConfig.systemPrompt
@@ -708,6 +869,7 @@ export class LocalAgentExecutor<TOutput extends z.ZodTypeAny> {
         systemInstruction,
         [{ functionDeclarations: tools }],
         startHistory,
+        session,
       );
     } catch (error) {
       await reportError(
@@ -721,6 +883,26 @@ export class LocalAgentExecutor<TOutput extends z.ZodTypeAny> {
     }
   }
 
+  /**
+   * Records the tool calls of a turn in the agent's transcript. They go in a
+   * message of their own, as the recording service would otherwise add them
+   * to the message of a previous turn when the model replies without text.
+   */
+  private recordToolCalls(
+    chat: GeminiChat,
+    functionCalls: FunctionCall[],
+    responseMessage: Content,
+    promptId: string,
+  ): void {
+    const model = this.definition.modelConfig.model ?? DEFAULT_GEMINI_MODEL;
+    const recording = chat.getChatRecordingService();
+    recording.recordMessage({ model, type: 'gemini', content: '' });
+    recording.recordToolCalls(
+      model,
+      toToolCallRecords(functionCalls, responseMessage.parts ?? [], promptId),
+    );
+  }
+
   /**
    * Executes function calls requested by the model and returns the results.
    *
@@ -982,10 +1164,10 @@ export class LocalAgentExecutor<TOutput extends z.ZodTypeAny> {
    */
   private prepareToolsList(): FunctionDeclaration[] {
     const toolsList: FunctionDeclaration[] = [];
+    const toolNamesToLoad: string[] = [];
     const { toolConfig, outputConfig } = this.definition;
 
     if (toolConfig) {
-      const toolNamesToLoad: string[] = [];
       for (const toolRef of toolConfig.tools) {
         if (typeof toolRef === 'string') {
           toolNamesToLoad.push(toolRef);
@@ -997,11 +1179,18 @@ export class LocalAgentExecutor<TOutput extends z.ZodTypeAny> {
           toolsList.push(toolRef);
         }
       }
-      // Add schemas from tools that were registered by name.
-      toolsList.push(
-        ...this.toolRegistry.getFunctionDeclarationsFiltered(toolNamesToLoad),
-      );
     }
+    // Skills come with resources the agent may need to read.
+    if (
+      this.skills.length > 0 &&
+      !toolNamesToLoad.includes(READ_FILE_TOOL_NAME)
+    ) {
+      toolNamesToLoad.push(READ_FILE_TOOL_NAME);
+    }
+    // Add schemas from tools that were registered by name.
+    toolsList.push(
+      ...this.toolRegistry.getFunctionDeclarationsFiltered(toolNamesToLoad),
+    );
 
     // Always inject complete_task.
     // Configure its schema based on whether output is expected.
@@ -1056,6 +1245,25 @@ export class LocalAgentExecutor<TOutput extends z.ZodTypeAny> {
     const dirContext = await getDirectoryContextString(this.runtimeContext);
     finalPrompt += `\n\n# Environment Context\n${dirContext}`;
 
+    // Append the instructions of the skills loaded for this task.
+    if (this.skills.length > 0) {
+      const activatedSkills = await Promise.all(
+        this.skills.map(async (skill) =>
+          formatActivatedSkill(
+            skill,
+            await getFolderStructure(path.dirname(skill.location)),
+          ),
+        ),
+      );
+      finalPrompt += `\n\n# Skills\nFollow the instructions of these skills, which were loaded for your task. Read their resources with \`${READ_FILE_TOOL_NAME}\` when needed.\n\n${activatedSkills.join('\n\n')}`;
+    }
+
+    // Append the instructions of the task's category.
+    const promptAppend = this.getCategory()?.promptAppend;
+    if (promptAppend) {
+      finalPrompt += `\n\n${promptAppend}`;
+    }
+
     // Append standard rules for non-interactive execution.
     finalPrompt += `
 Important Rules:
@@ -1117,6 +1325,10 @@ Important Rules:
       return AgentTerminateMode.MAX_TURNS;
     }
 
+    if (this.tokenBudget?.isExhausted()) {
+      return AgentTerminateMode.TOKEN_BUDGET;
+    }
+
     return null;
   }
 
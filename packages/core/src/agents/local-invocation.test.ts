@@ -59,6 +59,7 @@ describe('LocalSubagentInvocation', () => {
 
     mockExecutorInstance = {
       run: vi.fn(),
+      getSessionId: vi.fn(),
       definition: testDefinition,
     } as unknown as Mocked<LocalAgentExecutor<z.ZodUnknown>>;
 
@@ -169,6 +170,7 @@ describe('LocalSubagentInvocation', () => {
         testDefinition,
         mockConfig,
         expect.any(Function),
+        {},
       );
       expect(updateOutput).toHaveBeenCalledWith('Subagent starting...\n');
 
@@ -185,6 +187,37 @@ describe('LocalSubagentInvocation', () => {
       expect(result.returnDisplay).toContain('Termination Reason:\n GOAL');
     });
 
+    it('should resume the given session and report its id', async () => {
+      invocation = new LocalSubagentInvocation(
+        testDefinition,
+        mockConfig,
+        params,
+        mockMessageBus,
+        undefined,
+        undefined,
+        { resumeSessionId: 'session-123' },
+      );
+      mockExecutorInstance.run.mockResolvedValue({
+        result: 'Follow-up done.',
+        terminate_reason: AgentTerminateMode.GOAL,
+      });
+      mockExecutorInstance.getSessionId.mockReturnValue('session-123');
+
+      const result = await invocation.execute(signal, updateOutput);
+
+      expect(MockLocalAgentExecutor.create).toHaveBeenCalledWith(
+        testDefinition,
+        mockConfig,
+        expect.any(Function),
+        { resumeSessionId: 'session-123' },
+      );
+      expect(result.llmContent).toEqual([
+        {
+          text: "Subagent 'MockAgent' finished.\nTermination Reason: GOAL\nSession ID: session-123\nResult:\nFollow-up done.",
+        },
+      ]);
+    });
+
     it('should stream THOUGHT_CHUNK activities from the executor', async () => {
       mockExecutorInstance.run.mockImplementation(async () => {
         const onActivity = MockLocalAgentExecutor.create.mock.calls[0][2];
@@ -5,7 +5,10 @@
  */
 
 import type { Config } from '../config/config.js';
-import { LocalAgentExecutor } from './local-executor.js';
+import {
+  LocalAgentExecutor,
+  type LocalAgentExecutorOptions,
+} from './local-executor.js';
 import type { AnsiOutput } from '../utils/terminalSerializer.js';
 import { BaseToolInvocation, type ToolResult } from '../tools/tools.js';
 import { ToolErrorType } from '../tools/tool-error.js';
@@ -38,6 +41,7 @@ export class LocalSubagentInvocation extends BaseToolInvocation<
    * @param config The global runtime configuration.
    * @param params The validated input parameters for the agent.
    * @param messageBus Message bus for policy enforcement.
+   * @param executorOptions Options of the executor, such as a session to resume.
    */
   constructor(
     private readonly definition: LocalAgentDefinition,
@@ -46,6 +50,7 @@ export class LocalSubagentInvocation extends BaseToolInvocation<
     messageBus: MessageBus,
     _toolName?: string,
     _toolDisplayName?: string,
+    private readonly executorOptions: LocalAgentExecutorOptions = {},
   ) {
     super(
       params,
@@ -105,12 +110,14 @@ export class LocalSubagentInvocation extends BaseToolInvocation<
         this.definition,
         this.config,
         onActivity,
+        this.executorOptions,
       );
 
       const output = await executor.run(this.params, signal);
+      const sessionId = executor.getSessionId();
 
       const resultContent = `Subagent '${this.definition.name}' finished.
-Termination Reason: ${output.terminate_reason}
+Termination Reason: ${output.terminate_reason}${sessionId ? `\nSession ID: ${sessionId}` : ''}
 Result:
 ${output.result}`;
 
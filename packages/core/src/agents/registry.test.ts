@@ -209,13 +209,19 @@ describe('AgentRegistry', () => {
         name: 'project-only',
         description: 'Project only',
       };
+      const devoraAgent = {
+        ...MOCK_AGENT_V1,
+        name: 'project-only',
+        description: 'Devora version',
+      };
 
       vi.mocked(tomlLoader.loadAgentsFromDirectory)
         .mockResolvedValueOnce({ agents: [userAgent], errors: [] }) // User dir
         .mockResolvedValueOnce({
           agents: [projectAgent, uniqueProjectAgent],
           errors: [],
-        }); // Project dir
+        }) // Project dir
+        .mockResolvedValueOnce({ agents: [devoraAgent], errors: [] }); // Devora dir
 
       await registry.initialize();
 
@@ -223,10 +229,18 @@ describe('AgentRegistry', () => {
       expect(registry.getDefinition('common-agent')?.description).toBe(
         'Project version',
       );
-      expect(registry.getDefinition('project-only')).toBeDefined();
+      // The Devora roster should override the project's .gemini agents
+      expect(registry.getDefinition('project-only')?.description).toBe(
+        'Devora version',
+      );
       expect(
         vi.mocked(tomlLoader.loadAgentsFromDirectory),
-      ).toHaveBeenCalledTimes(2);
+      ).toHaveBeenCalledTimes(3);
+      expect(
+        vi.mocked(tomlLoader.loadAgentsFromDirectory),
+      ).toHaveBeenLastCalledWith(
+        mockConfig.storage.getProjectDevoraAgentsDir(),
+      );
     });
 
     it('should NOT load TOML agents when enableAgents is false', async () => {
@@ -441,6 +455,46 @@ describe('AgentRegistry', () => {
       });
     });
 
+    it('should warn about agents with an unknown category', async () => {
+      const emitFeedback = vi.spyOn(coreEvents, 'emitFeedback');
+
+      await registry.testRegisterAgent({ ...MOCK_AGENT_V1, category: 'quick' });
+      expect(emitFeedback).not.toHaveBeenCalled();
+
+      await registry.testRegisterAgent({
+        ...MOCK_AGENT_V1,
+        category: 'missing',
+      });
+      expect(emitFeedback).toHaveBeenCalledExactlyOnceWith(
+        'warning',
+        "Agent 'MockAgent' uses the unknown category 'missing', which is ignored.",
+      );
+      expect(registry.getDefinition('MockAgent')).toBeDefined();
+    });
+
+    it('should not register agents with an unknown provider', async () => {
+      const emitFeedback = vi.spyOn(coreEvents, 'emitFeedback');
+
+      await registry.testRegisterAgent({
+        ...MOCK_AGENT_V1,
+        provider: 'openroutr',
+      });
+
+      expect(emitFeedback).toHaveBeenCalledExactlyOnceWith(
+        'warning',
+        expect.stringContaining(
+          "Agent 'MockAgent' uses the unknown provider 'openroutr' and is not registered. Known providers: gemini, zai, openrouter",
+        ),
+      );
+      expect(registry.getDefinition('MockAgent')).toBeUndefined();
+
+      await registry.testRegisterAgent({
+        ...MOCK_AGENT_V1,
+        provider: 'openrouter',
+      });
+      expect(registry.getDefinition('MockAgent')).toBeDefined();
+    });
+
     it('should register a remote agent definition', async () => {
       const remoteAgent: AgentDefinition = {
         kind: 'remote',
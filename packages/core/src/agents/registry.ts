@@ -17,6 +17,10 @@ import { OracleAgent } from './sisyphus/oracle.js';
 import { ExploreAgent } from './sisyphus/explore.js';
 import { LibrarianAgent } from './sisyphus/librarian.js';
 import { FrontendAgent } from './sisyphus/frontend.js';
+import { getDelegationCategories } from './sisyphus/categories.js';
+import { loadDevoraSettings } from '../config/firstRunSetup.js';
+import { GEMINI_PROVIDER_ID } from '../fallback/providerFallback.js';
+import { getOpenAICompatibleProviderIds } from '../openai-compatible/providers.js';
 import { A2AClientManager } from './a2a-client-manager.js';
 import { ADCHandler } from './remote-invocation.js';
 import { type z } from 'zod';
@@ -114,22 +118,27 @@ export class AgentRegistry {
       userAgents.agents.map((agent) => this.registerAgent(agent)),
     );
 
-    // Load project-level agents: .gemini/agents/ (relative to Project Root)
+    // Load project-level agents: .gemini/agents/, then the team roster of
+    // .devora/agents/ (relative to Project Root)
     const folderTrustEnabled = this.config.getFolderTrust();
     const isTrustedFolder = this.config.isTrustedFolder();
 
     if (!folderTrustEnabled || isTrustedFolder) {
-      const projectAgentsDir = this.config.storage.getProjectAgentsDir();
-      const projectAgents = await loadAgentsFromDirectory(projectAgentsDir);
-      for (const error of projectAgents.errors) {
-        coreEvents.emitFeedback(
-          'error',
-          `Agent loading error: ${error.message}`,
+      for (const projectAgentsDir of [
+        this.config.storage.getProjectAgentsDir(),
+        this.config.storage.getProjectDevoraAgentsDir(),
+      ]) {
+        const projectAgents = await loadAgentsFromDirectory(projectAgentsDir);
+        for (const error of projectAgents.errors) {
+          coreEvents.emitFeedback(
+            'error',
+            `Agent loading error: ${error.message}`,
+          );
+        }
+        await Promise.allSettled(
+          projectAgents.agents.map((agent) => this.registerAgent(agent)),
         );
       }
-      await Promise.allSettled(
-        projectAgents.agents.map((agent) => this.registerAgent(agent)),
-      );
     } else {
       coreEvents.emitFeedback(
         'info',
@@ -268,6 +277,22 @@ export class AgentRegistry {
       return;
     }
 
+    // A pinned provider is only resolved on the first request of the agent,
+    // so typos are caught here instead.
+    if (definition.provider) {
+      const providerIds = [
+        GEMINI_PROVIDER_ID,
+        ...getOpenAICompatibleProviderIds(loadDevoraSettings()),
+      ];
+      if (!providerIds.includes(definition.provider)) {
+        coreEvents.emitFeedback(
+          'warning',
+          `Agent '${definition.name}' uses the unknown provider '${definition.provider}' and is not registered. Known providers: ${providerIds.join(', ')}.`,
+        );
+        return;
+      }
+    }
+
     this.allDefinitions.set(definition.name, definition);
 
     const settingsOverrides =
@@ -286,6 +311,16 @@ export class AgentRegistry {
       debugLogger.log(`[AgentRegistry] Overriding agent '${definition.name}'`);
     }
 
+    if (
+      definition.category &&
+      !(definition.category in getDelegationCategories(this.config))
+    ) {
+      coreEvents.emitFeedback(
+        'warning',
+        `Agent '${definition.name}' uses the unknown category '${definition.category}', which is ignored.`,
+      );
+    }
+
     const mergedDefinition = this.applyOverrides(definition, settingsOverrides);
     this.agents.set(mergedDefinition.name, mergedDefinition);
 
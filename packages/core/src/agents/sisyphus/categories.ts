@@ -0,0 +1,25 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Config } from '../../config/config.js';
+import type { CategoryConfig } from './types.js';
+import { DEFAULT_CATEGORIES } from './types.js';
+
+/**
+ * Returns the delegation categories: the default ones, merged with the
+ * categories of the `agents.categories` setting.
+ */
+export function getDelegationCategories(
+  config: Config,
+): Record<string, CategoryConfig> {
+  const categories: Record<string, CategoryConfig> = { ...DEFAULT_CATEGORIES };
+  for (const [name, category] of Object.entries(
+    config.getAgentsSettings().categories ?? {},
+  )) {
+    categories[name] = { ...categories[name], ...category };
+  }
+  return categories;
+}
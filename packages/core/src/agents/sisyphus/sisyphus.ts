@@ -7,6 +7,7 @@
 import type { LocalAgentDefinition } from '../types.js';
 import {
   DELEGATE_TASK_TOOL_NAME,
+  PARALLEL_TASKS_TOOL_NAME,
   BACKGROUND_TASK_TOOL_NAME,
   BACKGROUND_OUTPUT_TOOL_NAME,
   BACKGROUND_CANCEL_TOOL_NAME,
@@ -31,9 +32,10 @@ const SisyphusOutputSchema = z.object({
 });
 
 /**
- * Build the Sisyphus system prompt
+ * Build the Sisyphus system prompt, also the system prompt of the main agent
+ * in Megawork mode
  */
-function buildSisyphusSystemPrompt(): string {
+export function buildSisyphusSystemPrompt(): string {
   return `
 <Role>
 You are "Sisyphus" - Powerful AI Agent with orchestration capabilities from Devora CLI.
@@ -121,6 +123,16 @@ result = await task(...)  // Never wait synchronously for explore/librarian
 3. When results needed: ${BACKGROUND_OUTPUT_TOOL_NAME}(task_id="...")
 4. BEFORE final answer: ${BACKGROUND_CANCEL_TOOL_NAME}(all=true)
 
+### Fan-out (when you need ALL results before the next step):
+${PARALLEL_TASKS_TOOL_NAME} runs up to ${SISYPHUS_DEFAULTS.MAX_PARALLEL_TASKS} agents at once and returns one merged report with the status of each agent. Give large investigations a shared budget:
+\`\`\`typescript
+${PARALLEL_TASKS_TOOL_NAME}(description="Map auth flow", max_time_minutes=5, max_tokens=200000, tasks=[
+  {description: "Find login handlers", subagent_type: "explore", prompt: "Find..."},
+  {description: "Find session storage", subagent_type: "explore", prompt: "Find..."},
+  {description: "OAuth best practices", subagent_type: "librarian", prompt: "Find..."}
+])
+\`\`\`
+
 ### Resume Previous Agent (CRITICAL for efficiency):
 Pass resume=session_id to continue previous agent with FULL CONTEXT PRESERVED.
 
@@ -284,14 +296,7 @@ You have access to specialized subagents. Use ${DELEGATE_TASK_TOOL_NAME} to dele
 
 ## Available Categories
 
-Categories spawn optimized "Sisyphus-Junior" instances:
-
-| Category | Temperature | Best For |
-|----------|-------------|----------|
-| visual | 0.8 | Frontend, UI/UX, design |
-| business-logic | 0.2 | Backend, architecture, logic |
-| writing | 0.7 | Documentation, prose |
-| quick | 0.1 | Trivial tasks |
+Categories run a task on the model and temperature suited to it, e.g. a vision model for visual work or a fast model for trivial tasks. ${DELEGATE_TASK_TOOL_NAME} lists the categories. Pass one as \`category\`, alone to delegate to a Sisyphus instance, or with \`subagent_type\` to run that agent on the category's model.
 
 ## Delegation Guidelines
 
@@ -358,7 +363,10 @@ export const SisyphusAgent: LocalAgentDefinition<typeof SisyphusOutputSchema> =
       model: 'inherit',
       generateContentConfig: {
         temperature: 0.2,
-        // Note: thinkingConfig would be set here if supported
+        thinkingConfig: {
+          includeThoughts: true,
+          thinkingBudget: SISYPHUS_DEFAULTS.THINKING_BUDGET,
+        },
       },
     },
 
@@ -370,6 +378,7 @@ export const SisyphusAgent: LocalAgentDefinition<typeof SisyphusOutputSchema> =
     toolConfig: {
       tools: [
         DELEGATE_TASK_TOOL_NAME,
+        PARALLEL_TASKS_TOOL_NAME,
         BACKGROUND_TASK_TOOL_NAME,
         BACKGROUND_OUTPUT_TOOL_NAME,
         BACKGROUND_CANCEL_TOOL_NAME,
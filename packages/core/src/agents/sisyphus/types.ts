@@ -5,13 +5,22 @@
  */
 
 /**
- * Categories for task delegation
+ * Categories for task delegation. A category runs the delegated agent on its
+ * own model, e.g. a vision model for visual tasks or a cheap model for quick
+ * ones.
  */
 export interface CategoryConfig {
+  /**
+   * Id of the OpenAI-compatible provider serving the model, or `gemini`.
+   * Defaults to the provider of the session.
+   */
+  provider?: string;
+  /** Model of the provider. Defaults to the model of the agent. */
   model?: string;
   temperature?: number;
   description?: string;
-  prompt_append?: string;
+  /** Instructions appended to the system prompt of the agent */
+  promptAppend?: string;
 }
 
 /**
@@ -19,9 +28,13 @@ export interface CategoryConfig {
  */
 export interface SisyphusConfig {
   thinkingBudget?: number;
+  /** Maximum number of forced todo continuations per prompt */
   maxTurns?: number;
+  /** Time after which a prompt is no longer continued, in minutes */
   maxTimeMinutes?: number;
   enableTodoContinuation?: boolean;
+  /** Message sent to the model instead of the default todo reminder */
+  todoContinuationMessage?: string;
   enableKeywordDetection?: boolean;
 }
 
@@ -38,6 +51,29 @@ export interface DelegateTaskArgs {
   resume?: string;
 }
 
+/**
+ * Parallel tasks arguments
+ */
+export interface ParallelTasksArgs {
+  description: string;
+  tasks: ParallelTaskArgs[];
+  /** Time budget shared by the tasks, in minutes */
+  max_time_minutes?: number;
+  /** Token budget shared by the tasks */
+  max_tokens?: number;
+}
+
+/**
+ * A task run by parallel_tasks
+ */
+export interface ParallelTaskArgs {
+  description: string;
+  prompt: string;
+  subagent_type: string;
+  category?: string;
+  skills?: string[];
+}
+
 /**
  * Background task arguments
  */
@@ -83,6 +119,8 @@ export interface BackgroundTask {
   agent: string;
   status: BackgroundTaskStatus;
   sessionID: string;
+  /** Session of the agent's own transcript, to pass as `resume` */
+  agentSessionId?: string;
   queuedAt?: Date;
   startedAt?: Date;
   completedAt?: Date;
@@ -91,6 +129,10 @@ export interface BackgroundTask {
     lastMessage?: string;
     lastMessageAt?: Date;
   };
+  /** Final output of the agent, once completed */
+  result?: string;
+  /** Failure message, once errored */
+  error?: string;
 }
 
 /**
@@ -138,6 +180,7 @@ export const SISYPHUS_DEFAULTS = {
   MAX_TURNS: 50,
   MAX_TIME_MINUTES: 60,
   PARALLEL_AGENTS: 3,
+  MAX_PARALLEL_TASKS: 8,
   POLL_INTERVAL_MS: 500,
   STABILITY_POLLS_REQUIRED: 3,
   MIN_STABILITY_TIME_MS: 10000,
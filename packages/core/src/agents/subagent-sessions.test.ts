@@ -0,0 +1,240 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { Config } from '../config/config.js';
+import type { MessageRecord } from '../services/chatRecordingService.js';
+import {
+  conversationToHistory,
+  createSubagentSession,
+  getSubagentChatsDir,
+  loadSubagentSession,
+  SubagentSessionMismatchError,
+  SubagentSessionNotFoundError,
+  toToolCallRecords,
+} from './subagent-sessions.js';
+
+const timestamp = '2025-01-01T00:00:00.000Z';
+
+describe('subagent sessions', () => {
+  let tempDir: string;
+  let config: Config;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'subagent-sessions-'));
+    config = {
+      storage: { getProjectTempDir: () => tempDir },
+      getProjectRoot: () => '/project',
+    } as unknown as Config;
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('createSubagentSession', () => {
+    it('should write an empty transcript below the chats directory', () => {
+      const session = createSubagentSession(config, 'explore');
+
+      expect(getSubagentChatsDir(config)).toBe(
+        path.join(tempDir, 'chats', 'subagents'),
+      );
+      expect(path.dirname(session.filePath)).toBe(getSubagentChatsDir(config));
+      expect(JSON.parse(fs.readFileSync(session.filePath, 'utf8'))).toEqual(
+        session.conversation,
+      );
+      expect(session.conversation.messages).toEqual([]);
+      expect(session.conversation.agentName).toBe('explore');
+    });
+  });
+
+  describe('loadSubagentSession', () => {
+    it('should load a session by id', () => {
+      const created = createSubagentSession(config, 'explore');
+
+      const loaded = loadSubagentSession(
+        config,
+        created.conversation.sessionId,
+        'explore',
+      );
+
+      expect(loaded).toEqual(created);
+    });
+
+    it('should throw for unknown sessions', () => {
+      expect(() => loadSubagentSession(config, 'missing', 'explore')).toThrow(
+        SubagentSessionNotFoundError,
+      );
+    });
+
+    it('should reject sessions recorded by another agent', () => {
+      const created = createSubagentSession(config, 'explore');
+      const sessionId = created.conversation.sessionId;
+
+      expect(() => loadSubagentSession(config, sessionId, 'oracle')).toThrow(
+        SubagentSessionMismatchError,
+      );
+      expect(() => loadSubagentSession(config, sessionId, 'oracle')).toThrow(
+        `Subagent session "${sessionId}" was not recorded by agent "oracle"`,
+      );
+    });
+
+    it('should reject ids that are not plain names', () => {
+      expect(() =>
+        loadSubagentSession(config, '../session', 'explore'),
+      ).toThrow('Subagent session "../session" not found');
+    });
+  });
+
+  describe('toToolCallRecords', () => {
+    it('should pair each call with its responses', () => {
+      const records = toToolCallRecords(
+        [
+          { id: 'call1', name: 'ls', args: { path: '.' } },
+          { name: 'read_file', args: { path: 'a.ts' } },
+        ],
+        [
+          {
+            functionResponse: {
+              id: 'call1',
+              name: 'ls',
+              response: { output: 'a.ts' },
+            },
+          },
+          {
+            functionResponse: {
+              id: 'prompt#1-1',
+              name: 'read_file',
+              response: { error: 'Permission denied' },
+            },
+          },
+        ],
+        'prompt#1',
+      );
+
+      expect(records).toEqual([
+        expect.objectContaining({
+          id: 'call1',
+          name: 'ls',
+          status: 'success',
+          result: [
+            expect.objectContaining({ functionResponse: expect.any(Object) }),
+          ],
+        }),
+        expect.objectContaining({
+          id: 'prompt#1-1',
+          name: 'read_file',
+          status: 'error',
+        }),
+      ]);
+    });
+  });
+
+  describe('conversationToHistory', () => {
+    it('should rebuild text turns and tool calls', () => {
+      const messages: MessageRecord[] = [
+        { id: '1', timestamp, type: 'user', content: 'Find the auth code' },
+        { id: '2', timestamp, type: 'gemini', content: 'Searching.' },
+        {
+          id: '3',
+          timestamp,
+          type: 'gemini',
+          content: '',
+          toolCalls: [
+            {
+              id: 'call1',
+              name: 'grep',
+              args: { pattern: 'login' },
+              result: [
+                {
+                  functionResponse: {
+                    id: 'call1',
+                    name: 'grep',
+                    response: { output: 'src/auth.ts' },
+                  },
+                },
+              ],
+              status: 'success',
+              timestamp,
+            },
+          ],
+        },
+        { id: '4', timestamp, type: 'info', content: 'ignored' },
+        {
+          id: '5',
+          timestamp,
+          type: 'gemini',
+          content: '',
+          toolCalls: [
+            {
+              id: 'call2',
+              name: 'read_file',
+              args: { path: 'src/auth.ts' },
+              status: 'cancelled',
+              timestamp,
+            },
+          ],
+        },
+      ];
+
+      expect(conversationToHistory(messages)).toEqual([
+        { role: 'user', parts: [{ text: 'Find the auth code' }] },
+        {
+          role: 'model',
+          parts: [
+            { text: 'Searching.' },
+            {
+              functionCall: {
+                id: 'call1',
+                name: 'grep',
+                args: { pattern: 'login' },
+              },
+            },
+          ],
+        },
+        {
+          role: 'user',
+          parts: [
+            {
+              functionResponse: {
+                id: 'call1',
+                name: 'grep',
+                response: { output: 'src/auth.ts' },
+              },
+            },
+          ],
+        },
+        {
+          role: 'model',
+          parts: [
+            {
+              functionCall: {
+                id: 'call2',
+                name: 'read_file',
+                args: { path: 'src/auth.ts' },
+              },
+            },
+          ],
+        },
+        {
+          role: 'user',
+          parts: [
+            {
+              functionResponse: {
+                id: 'call2',
+                name: 'read_file',
+                response: { error: 'The tool call did not complete.' },
+              },
+            },
+          ],
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { randomUUID } from 'node:crypto';
+import type { Content, FunctionCall, Part } from '@google/genai';
+import type { Config } from '../config/config.js';
+import type {
+  ConversationRecord,
+  MessageRecord,
+  ResumedSessionData,
+  ToolCallRecord,
+} from '../services/chatRecordingService.js';
+import { SESSION_FILE_PREFIX } from '../services/chatRecordingService.js';
+import { getProjectHash } from '../utils/paths.js';
+import { partListUnionToString } from '../core/geminiRequest.js';
+
+const SESSION_ID_PATTERN = /^[\w-]+$/;
+
+/**
+ * Thrown when a subagent session cannot be resumed.
+ */
+export class SubagentSessionNotFoundError extends Error {
+  constructor(sessionId: string) {
+    super(`Subagent session "${sessionId}" not found`);
+    this.name = 'SubagentSessionNotFoundError';
+  }
+}
+
+/**
+ * Thrown when a subagent session is resumed by another agent than the one
+ * that recorded it.
+ */
+export class SubagentSessionMismatchError extends Error {
+  constructor(sessionId: string, agentName: string) {
+    super(
+      `Subagent session "${sessionId}" was not recorded by agent "${agentName}"`,
+    );
+    this.name = 'SubagentSessionMismatchError';
+  }
+}
+
+/**
+ * Returns the directory holding subagent transcripts. It sits below the chats
+ * directory so that subagent sessions are not listed with the user's own.
+ */
+export function getSubagentChatsDir(config: Config): string {
+  return path.join(config.storage.getProjectTempDir(), 'chats', 'subagents');
+}
+
+function getSubagentSessionFile(config: Config, sessionId: string): string {
+  return path.join(
+    getSubagentChatsDir(config),
+    `${SESSION_FILE_PREFIX}${sessionId}.json`,
+  );
+}
+
+/**
+ * Creates an empty transcript for a new subagent session of an agent.
+ *
+ * @returns The session, ready to be recorded by a `ChatRecordingService`.
+ */
+export function createSubagentSession(
+  config: Config,
+  agentName: string,
+): ResumedSessionData {
+  const sessionId = randomUUID();
+  const now = new Date().toISOString();
+  const conversation: ConversationRecord = {
+    sessionId,
+    projectHash: getProjectHash(config.getProjectRoot()),
+    startTime: now,
+    lastUpdated: now,
+    messages: [],
+    agentName,
+  };
+  const filePath = getSubagentSessionFile(config, sessionId);
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(conversation, null, 2));
+  return { conversation, filePath };
+}
+
+/**
+ * Loads the transcript of a previous subagent session of an agent.
+ *
+ * @throws {SubagentSessionNotFoundError} If no transcript exists for the id.
+ * @throws {SubagentSessionMismatchError} If the session belongs to another agent.
+ */
+export function loadSubagentSession(
+  config: Config,
+  sessionId: string,
+  agentName: string,
+): ResumedSessionData {
+  if (!SESSION_ID_PATTERN.test(sessionId)) {
+    throw new SubagentSessionNotFoundError(sessionId);
+  }
+
+  const filePath = getSubagentSessionFile(config, sessionId);
+  let conversation: ConversationRecord;
+  try {
+    conversation = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch {
+    throw new SubagentSessionNotFoundError(sessionId);
+  }
+  if (conversation.agentName !== agentName) {
+    throw new SubagentSessionMismatchError(sessionId, agentName);
+  }
+  return { conversation, filePath };
+}
+
+/**
+ * Builds the records of the tool calls of a turn from the calls requested by
+ * the model and the function responses sent back. Calls without an id are
+ * matched the way the executor names them, `<promptId>-<index>`.
+ */
+export function toToolCallRecords(
+  functionCalls: FunctionCall[],
+  responseParts: Part[],
+  promptId: string,
+): ToolCallRecord[] {
+  const timestamp = new Date().toISOString();
+  return functionCalls.map((functionCall, index) => {
+    const callId = functionCall.id ?? `${promptId}-${index}`;
+    const result = responseParts.filter(
+      (part) => part.functionResponse?.id === callId,
+    );
+    const failed = result.some(
+      (part) => part.functionResponse?.response?.['error'] !== undefined,
+    );
+    return {
+      id: callId,
+      name: functionCall.name ?? '',
+      args: functionCall.args ?? {},
+      result,
+      status: failed ? 'error' : 'success',
+      timestamp,
+    };
+  });
+}
+
+/**
+ * Rebuilds the chat history of a subagent from its recorded messages.
+ * Consecutive messages of the same role, such as the text of a model turn and
+ * the tool calls recorded after it, are merged into a single content.
+ */
+export function conversationToHistory(messages: MessageRecord[]): Content[] {
+  const history: Content[] = [];
+
+  for (const message of messages) {
+    const text = partListUnionToString(message.content).trim();
+
+    if (message.type === 'user') {
+      if (text) {
+        appendContent(history, { role: 'user', parts: [{ text }] });
+      }
+      continue;
+    }
+    if (message.type !== 'gemini') {
+      continue;
+    }
+
+    const toolCalls = message.toolCalls ?? [];
+    const modelParts: Part[] = text ? [{ text }] : [];
+    for (const toolCall of toolCalls) {
+      modelParts.push({
+        functionCall: {
+          id: toolCall.id,
+          name: toolCall.name,
+          args: toolCall.args,
+        },
+      });
+    }
+    if (modelParts.length > 0) {
+      appendContent(history, { role: 'model', parts: modelParts });
+    }
+
+    if (toolCalls.length > 0) {
+      appendContent(history, {
+        role: 'user',
+        parts: toolCalls.flatMap((toolCall) => toFunctionResponses(toolCall)),
+      });
+    }
+  }
+
+  return history;
+}
+
+function appendContent(history: Content[], content: Content): void {
+  const last = history.at(-1);
+  if (last && last.role === content.role) {
+    last.parts = [...(last.parts ?? []), ...(content.parts ?? [])];
+  } else {
+    history.push(content);
+  }
+}
+
+/**
+ * Every function call needs a response, even when none was recorded (e.g. the
+ * agent was interrupted while the tool ran).
+ */
+function toFunctionResponses(toolCall: ToolCallRecord): Part[] {
+  if (Array.isArray(toolCall.result) && toolCall.result.length > 0) {
+    return toolCall.result as Part[];
+  }
+  if (typeof toolCall.result === 'string') {
+    return [
+      {
+        functionResponse: {
+          id: toolCall.id,
+          name: toolCall.name,
+          response: { output: toolCall.result },
+        },
+      },
+    ];
+  }
+  return [
+    {
+      functionResponse: {
+        id: toolCall.id,
+        name: toolCall.name,
+        response: { error: 'The tool call did not complete.' },
+      },
+    },
+  ];
+}
@@ -0,0 +1,32 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * A budget of tokens shared by agents running concurrently. Each request of
+ * an agent is charged to it, and the agents stop at the start of their next
+ * turn once it is used up.
+ */
+export class AgentTokenBudget {
+  private used = 0;
+
+  /**
+   * @param limit Maximum number of tokens, prompts and responses included.
+   */
+  constructor(readonly limit: number = Infinity) {}
+
+  /** Charges the tokens of a request to the budget. */
+  consume(tokens: number): void {
+    this.used += tokens;
+  }
+
+  get usedTokens(): number {
+    return this.used;
+  }
+
+  isExhausted(): boolean {
+    return this.used >= this.limit;
+  }
+}
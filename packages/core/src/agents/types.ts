@@ -22,6 +22,7 @@ export enum AgentTerminateMode {
   TIMEOUT = 'TIMEOUT',
   GOAL = 'GOAL',
   MAX_TURNS = 'MAX_TURNS',
+  TOKEN_BUDGET = 'TOKEN_BUDGET',
   ABORTED = 'ABORTED',
   ERROR_NO_COMPLETE_TASK_CALL = 'ERROR_NO_COMPLETE_TASK_CALL',
 }
@@ -89,6 +90,15 @@ export interface LocalAgentDefinition<
   // Optional configs
   toolConfig?: ToolConfig;
 
+  /**
+   * Id of the OpenAI-compatible provider serving `modelConfig.model`, or
+   * `gemini`. Defaults to the provider of the session.
+   */
+  provider?: string;
+
+  /** Delegation category of the agent's tasks when they name none. */
+  category?: string;
+
   /**
    * An optional function to process the raw output from the agent's final tool
    * call into a string format.
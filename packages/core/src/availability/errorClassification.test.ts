@@ -0,0 +1,100 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { APIError } from 'openai';
+import {
+  classifyFailureKind,
+  classifyOpenAIError,
+} from './errorClassification.js';
+import {
+  RetryableQuotaError,
+  TerminalQuotaError,
+} from '../utils/googleQuotaErrors.js';
+import { ModelNotFoundError } from '../utils/httpErrors.js';
+
+const apiError = (
+  status: number,
+  error?: Record<string, unknown>,
+  headers?: Record<string, string>,
+) => new APIError(status, error, 'Request failed', headers);
+
+describe('classifyOpenAIError', () => {
+  it('should classify rate limits as retryable', () => {
+    expect(classifyOpenAIError(apiError(429))).toBeInstanceOf(
+      RetryableQuotaError,
+    );
+  });
+
+  it.each([
+    ['OpenAI quota', apiError(429, { code: 'insufficient_quota' })],
+    ['Zai balance', apiError(429, { code: '1113' })],
+    ['OpenRouter credits', apiError(402)],
+  ])('should classify exhausted %s as terminal', (_, error) => {
+    expect(classifyOpenAIError(error)).toBeInstanceOf(TerminalQuotaError);
+  });
+
+  it('should honor the Retry-After header', () => {
+    const error = classifyOpenAIError(
+      apiError(429, undefined, { 'retry-after': '20' }),
+    );
+    expect(error).toBeInstanceOf(RetryableQuotaError);
+    expect((error as RetryableQuotaError).retryDelayMs).toBe(20000);
+
+    expect(
+      (
+        classifyOpenAIError(
+          apiError(429, undefined, { 'retry-after-ms': '1500' }),
+        ) as RetryableQuotaError
+      ).retryDelayMs,
+    ).toBe(1500);
+  });
+
+  it('should read Retry-After dates', () => {
+    vi.useFakeTimers({ now: new Date('2025-01-01T00:00:00Z') });
+    try {
+      const error = classifyOpenAIError(
+        apiError(429, undefined, {
+          'retry-after': 'Wed, 01 Jan 2025 00:00:30 GMT',
+        }),
+      );
+      expect((error as RetryableQuotaError).retryDelayMs).toBe(30000);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should not wait for rate limits lifting in more than two minutes', () => {
+    const error = classifyOpenAIError(
+      apiError(429, undefined, { 'retry-after': '3600' }),
+    );
+    expect(error).toBeInstanceOf(TerminalQuotaError);
+    expect((error as TerminalQuotaError).retryDelayMs).toBe(3600000);
+  });
+
+  it('should classify unknown models as not found', () => {
+    expect(classifyOpenAIError(apiError(404))).toBeInstanceOf(
+      ModelNotFoundError,
+    );
+    expect(
+      classifyOpenAIError(apiError(400, { code: 'model_not_found' })),
+    ).toBeInstanceOf(ModelNotFoundError);
+  });
+
+  it('should leave other errors to the status-based retries', () => {
+    expect(classifyOpenAIError(apiError(503))).toBeUndefined();
+    expect(classifyOpenAIError(new Error('boom'))).toBeUndefined();
+  });
+});
+
+describe('classifyFailureKind', () => {
+  it('should classify OpenAI-compatible errors', () => {
+    expect(classifyFailureKind(apiError(429))).toBe('transient');
+    expect(classifyFailureKind(apiError(402))).toBe('terminal');
+    expect(classifyFailureKind(apiError(404))).toBe('not_found');
+    expect(classifyFailureKind(apiError(500))).toBe('unknown');
+  });
+});
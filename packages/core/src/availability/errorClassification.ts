@@ -4,6 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { APIError } from 'openai';
 import {
   TerminalQuotaError,
   RetryableQuotaError,
@@ -11,14 +12,89 @@ import {
 import { ModelNotFoundError } from '../utils/httpErrors.js';
 import type { FailureKind } from './modelPolicy.js';
 
+/**
+ * Error codes of OpenAI-compatible APIs meaning that the account cannot be
+ * used until it is topped up: OpenAI's `insufficient_quota`, and Zai's
+ * insufficient balance (1113), daily limit (1304) and usage limit (1308).
+ */
+const OPENAI_TERMINAL_QUOTA_CODES = [
+  'insufficient_quota',
+  'billing_hard_limit_reached',
+  '1113',
+  '1304',
+  '1308',
+];
+
+/**
+ * Returns the delay requested by the `retry-after-ms` or `retry-after`
+ * header of a response, in seconds.
+ */
+function getRetryAfterSeconds(error: APIError): number | undefined {
+  const retryAfterMs = Number(error.headers?.['retry-after-ms']);
+  if (retryAfterMs > 0) {
+    return retryAfterMs / 1000;
+  }
+  const retryAfter = error.headers?.['retry-after'];
+  if (!retryAfter) {
+    return undefined;
+  }
+  const seconds = Number(retryAfter);
+  if (!Number.isNaN(seconds)) {
+    return seconds > 0 ? seconds : undefined;
+  }
+  // The header may also be an HTTP date.
+  const delayMs = Date.parse(retryAfter) - Date.now();
+  return delayMs > 0 ? delayMs / 1000 : undefined;
+}
+
+/**
+ * Converts an error of an OpenAI-compatible API (Zai, OpenRouter, ...) to the
+ * errors the retry and fallback logic understand. Returns undefined for other
+ * errors, and for server errors which are retried on their status. The
+ * `Retry-After` header of quota errors sets their retry delay.
+ */
+export function classifyOpenAIError(error: unknown): Error | undefined {
+  if (!(error instanceof APIError) || error.status === undefined) {
+    return undefined;
+  }
+
+  const code = error.code ?? error.type;
+  const cause = { code: error.status, message: error.message, details: [] };
+  if (error.status === 404 || code === 'model_not_found') {
+    return new ModelNotFoundError(error.message, 404);
+  }
+  // OpenRouter answers 402 when the credits are exhausted.
+  if (
+    error.status === 402 ||
+    (code !== undefined && OPENAI_TERMINAL_QUOTA_CODES.includes(String(code)))
+  ) {
+    return new TerminalQuotaError(
+      error.message,
+      cause,
+      getRetryAfterSeconds(error),
+    );
+  }
+  if (error.status === 429) {
+    const retryAfterSeconds = getRetryAfterSeconds(error);
+    // Like Gemini quotas, limits lifting in more than two minutes are not
+    // waited for.
+    if (retryAfterSeconds !== undefined && retryAfterSeconds > 120) {
+      return new TerminalQuotaError(error.message, cause, retryAfterSeconds);
+    }
+    return new RetryableQuotaError(error.message, cause, retryAfterSeconds);
+  }
+  return undefined;
+}
+
 export function classifyFailureKind(error: unknown): FailureKind {
-  if (error instanceof TerminalQuotaError) {
+  const classifiedError = classifyOpenAIError(error) ?? error;
+  if (classifiedError instanceof TerminalQuotaError) {
     return 'terminal';
   }
-  if (error instanceof RetryableQuotaError) {
+  if (classifiedError instanceof RetryableQuotaError) {
     return 'transient';
   }
-  if (error instanceof ModelNotFoundError) {
+  if (classifiedError instanceof ModelNotFoundError) {
     return 'not_found';
   }
   return 'unknown';
@@ -162,4 +162,31 @@ describe('ModelAvailabilityService', () => {
       reason: 'quota',
     });
   });
+
+  it('computes the stats of the recent requests of a model', () => {
+    expect(service.getPerformanceStats(model)).toBeUndefined();
+
+    service.recordRequest(model, 1000, false);
+    service.recordRequest(model, 3000, true);
+    service.reset();
+
+    expect(service.getPerformanceStats(model)).toEqual({
+      requests: 2,
+      errorRate: 0.5,
+      averageLatencyMs: 2000,
+    });
+  });
+
+  it('keeps the stats of the last 20 requests only', () => {
+    service.recordRequest(model, 5000, true);
+    for (let i = 0; i < 20; i++) {
+      service.recordRequest(model, 100, false);
+    }
+
+    expect(service.getPerformanceStats(model)).toEqual({
+      requests: 20,
+      errorRate: 0,
+      averageLatencyMs: 100,
+    });
+  });
 });
@@ -29,6 +29,25 @@ export interface ModelAvailabilitySnapshot {
   reason?: UnavailabilityReason;
 }
 
+/**
+ * Latency and errors of the recent requests of a model
+ */
+export interface ModelPerformanceStats {
+  /** Number of requests the stats cover, up to the last 20 */
+  requests: number;
+  /** Share of the requests that failed, from 0 to 1 */
+  errorRate: number;
+  averageLatencyMs: number;
+}
+
+interface RequestOutcome {
+  latencyMs: number;
+  failed: boolean;
+}
+
+// The number of recent requests of a model kept for its stats.
+const RECENT_REQUESTS_WINDOW = 20;
+
 export interface ModelSelectionResult {
   selectedModel: ModelId | null;
   attempts?: number;
@@ -40,6 +59,7 @@ export interface ModelSelectionResult {
 
 export class ModelAvailabilityService {
   private readonly health = new Map<ModelId, HealthState>();
+  private readonly recentRequests = new Map<ModelId, RequestOutcome[]>();
 
   markTerminal(model: ModelId, reason: TerminalUnavailabilityReason) {
     this.setState(model, {
@@ -115,6 +135,36 @@ export class ModelAvailabilityService {
     return { selectedModel: null, skipped };
   }
 
+  recordRequest(model: ModelId, latencyMs: number, failed: boolean) {
+    const outcomes = this.recentRequests.get(model) ?? [];
+    outcomes.push({ latencyMs, failed });
+    if (outcomes.length > RECENT_REQUESTS_WINDOW) {
+      outcomes.shift();
+    }
+    this.recentRequests.set(model, outcomes);
+  }
+
+  /**
+   * Returns the stats of the recent requests of a model, or undefined when it
+   * was not requested yet.
+   */
+  getPerformanceStats(model: ModelId): ModelPerformanceStats | undefined {
+    const outcomes = this.recentRequests.get(model);
+    if (!outcomes?.length) {
+      return undefined;
+    }
+    const failures = outcomes.filter((outcome) => outcome.failed).length;
+    const totalLatencyMs = outcomes.reduce(
+      (total, outcome) => total + outcome.latencyMs,
+      0,
+    );
+    return {
+      requests: outcomes.length,
+      errorRate: failures / outcomes.length,
+      averageLatencyMs: totalLatencyMs / outcomes.length,
+    };
+  }
+
   resetTurn() {
     for (const [model, state] of this.health.entries()) {
       if (state.status === 'sticky_retry') {
@@ -123,6 +173,10 @@ export class ModelAvailabilityService {
     }
   }
 
+  /**
+   * Forgets the health of the models. The stats of their recent requests are
+   * kept, as they still describe the models after switching auth.
+   */
   reset() {
     this.health.clear();
   }
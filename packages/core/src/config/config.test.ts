@@ -166,6 +166,7 @@ vi.mock('../resources/resource-registry.js', () => ({
 const mockCoreEvents = vi.hoisted(() => ({
   emitFeedback: vi.fn(),
   emitModelChanged: vi.fn(),
+  emitMegaworkModeChanged: vi.fn(),
   emitConsoleLog: vi.fn(),
   on: vi.fn(),
 }));
@@ -193,6 +194,7 @@ import { getCodeAssistServer } from '../code_assist/codeAssist.js';
 import { getExperiments } from '../code_assist/experiments/experiments.js';
 import type { CodeAssistServer } from '../code_assist/server.js';
 import { ContextManager } from '../services/contextManager.js';
+import { CoreEvent } from '../utils/events.js';
 
 vi.mock('../core/baseLlmClient.js');
 vi.mock('../core/tokenLimits.js', () => ({
@@ -401,6 +403,7 @@ describe('Server Config (config.ts)', () => {
       expect(createContentGeneratorConfig).toHaveBeenCalledWith(
         config,
         authType,
+        undefined,
       );
       // Verify that contentGeneratorConfig is updated
       expect(config.getContentGeneratorConfig()).toEqual(mockContentConfig);
@@ -1079,6 +1082,101 @@ describe('Server Config (config.ts)', () => {
     });
   });
 
+  describe('setMegaworkMode', () => {
+    const SISYPHUS_TOOL_NAMES = [
+      'delegate_task',
+      'parallel_tasks',
+      'background_task',
+      'background_output',
+      'background_cancel',
+    ];
+
+    const getRegisteredToolNames = () =>
+      (ToolRegistry.prototype.registerTool as Mock).mock.calls.map(
+        (call) => (call[0] as { name: string }).name,
+      );
+
+    it('should not register the Sisyphus tools outside Megawork mode', async () => {
+      const config = new Config(baseParams);
+      await config.initialize();
+
+      expect(config.isMegaworkMode()).toBe(false);
+      expect(getRegisteredToolNames()).not.toContain('delegate_task');
+    });
+
+    it('should register the Sisyphus tools while Megawork mode is on', async () => {
+      const config = new Config(baseParams);
+      await config.initialize();
+
+      await config.setMegaworkMode(true);
+
+      expect(config.isMegaworkMode()).toBe(true);
+      expect(getRegisteredToolNames()).toEqual(
+        expect.arrayContaining(SISYPHUS_TOOL_NAMES),
+      );
+      expect(mockCoreEvents.emitMegaworkModeChanged).toHaveBeenCalledWith(true);
+
+      await config.setMegaworkMode(false);
+
+      expect(config.isMegaworkMode()).toBe(false);
+      expect(
+        (ToolRegistry.prototype.unregisterTool as Mock).mock.calls.map(
+          (call) => call[0],
+        ),
+      ).toEqual(SISYPHUS_TOOL_NAMES);
+      expect(mockCoreEvents.emitMegaworkModeChanged).toHaveBeenLastCalledWith(
+        false,
+      );
+    });
+
+    it('should do nothing when the mode does not change', async () => {
+      const config = new Config(baseParams);
+      await config.initialize();
+
+      await config.setMegaworkMode(false);
+
+      expect(mockCoreEvents.emitMegaworkModeChanged).not.toHaveBeenCalled();
+    });
+
+    it('should rebuild delegate_task when the agents are reloaded', async () => {
+      const config = new Config(baseParams);
+      await config.initialize();
+      await config.setMegaworkMode(true);
+      (ToolRegistry.prototype.registerTool as Mock).mockClear();
+
+      const [, onAgentsRefreshed] = mockCoreEvents.on.mock.calls.find(
+        ([event]) => event === CoreEvent.AgentsRefreshed,
+      )!;
+      await onAgentsRefreshed();
+
+      expect(getRegisteredToolNames()).toContain('delegate_task');
+    });
+
+    it('should refresh the tools and system prompt of the active chat', async () => {
+      const config = new Config(baseParams);
+      await config.initialize();
+      const client = {
+        isInitialized: vi.fn().mockReturnValue(true),
+        setTools: vi.fn(),
+        updateSystemInstruction: vi.fn(),
+        getChatRecordingService: vi
+          .fn()
+          .mockReturnValue({ saveMegaworkMode: vi.fn() }),
+      };
+      vi.spyOn(config, 'getGeminiClient').mockReturnValue(
+        client as unknown as GeminiClient,
+      );
+
+      await config.setMegaworkMode(true);
+
+      expect(client.setTools).toHaveBeenCalled();
+      expect(client.updateSystemInstruction).toHaveBeenCalled();
+      expect(
+        client.getChatRecordingService().saveMegaworkMode,
+      ).toHaveBeenCalledExactlyOnceWith(true);
+    });
+  });
+
   describe('getTruncateToolOutputThreshold', () => {
     beforeEach(() => {
       vi.clearAllMocks();
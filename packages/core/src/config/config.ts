@@ -86,7 +86,7 @@ import type { GenerateContentParameters } from '@google/genai';
 
 // Re-export OAuth config type
 export type { MCPOAuthConfig, AnyToolInvocation };
-import type { AnyToolInvocation } from '../tools/tools.js';
+import type { AnyDeclarativeTool, AnyToolInvocation } from '../tools/tools.js';
 import { WorkspaceContext } from '../utils/workspaceContext.js';
 import { Storage } from './storage.js';
 import type { ShellExecutionConfig } from '../services/shellExecutionService.js';
@@ -104,6 +104,13 @@ import type { Experiments } from '../code_assist/experiments/experiments.js';
 import { AgentRegistry } from '../agents/registry.js';
 import { setGlobalProxy } from '../utils/fetch.js';
 import { DelegateToAgentTool } from '../agents/delegate-to-agent-tool.js';
+import {
+  BackgroundCancelTool,
+  BackgroundOutputTool,
+  BackgroundTaskTool,
+  DelegateTaskTool,
+  ParallelTasksTool,
+} from '../tools/sisyphus/index.js';
 import { DELEGATE_TO_AGENT_TOOL_NAME } from '../tools/tool-names.js';
 import { getExperiments } from '../code_assist/experiments/experiments.js';
 import { ExperimentFlags } from '../code_assist/experiments/flagNames.js';
@@ -111,6 +118,15 @@ import { debugLogger } from '../utils/debugLogger.js';
 import { SkillManager, type SkillDefinition } from '../skills/skillManager.js';
 import { startupProfiler } from '../telemetry/startupProfiler.js';
 import type { AgentDefinition } from '../agents/types.js';
+import type {
+  CategoryConfig,
+  SisyphusConfig,
+} from '../agents/sisyphus/types.js';
+import type { RoutingCandidate } from '../routing/strategies/costAwareStrategy.js';
+import {
+  GEMINI_PROVIDER_ID,
+  getGeminiAuthType,
+} from '../fallback/providerFallback.js';
 import {
   logApprovalModeSwitch,
   logApprovalModeDuration,
@@ -186,6 +202,10 @@ export interface AgentOverride {
 
 export interface AgentSettings {
   overrides?: Record<string, AgentOverride>;
+  /** Delegation categories, added to or replacing the default ones */
+  categories?: Record<string, CategoryConfig>;
+  /** Settings of the Sisyphus orchestrator in Megawork mode */
+  sisyphus?: SisyphusConfig;
 }
 
 /**
@@ -278,6 +298,8 @@ export class MCPServerConfig {
     readonly targetAudience?: string,
     /* targetServiceAccount format: <service-account-name>@<project-num>.iam.gserviceaccount.com */
     readonly targetServiceAccount?: string,
+    // Approves the sampling requests of the server without asking the user
+    readonly trustSampling?: boolean,
   ) {}
 }
 
@@ -333,6 +355,9 @@ export interface ConfigParameters {
   bugCommand?: BugCommandSettings;
   model: string;
   maxSessionTurns?: number;
+  maxSessionCostUsd?: number;
+  fallbackChain?: string[];
+  routingCandidates?: RoutingCandidate[];
   experimentalZedIntegration?: boolean;
   listSessions?: boolean;
   deleteSession?: string;
@@ -425,6 +450,10 @@ export class Config {
   private fileSystemService: FileSystemService;
   private contentGeneratorConfig!: ContentGeneratorConfig;
   private contentGenerator!: ContentGenerator;
+  private providerContentGenerators = new Map<
+    string,
+    Promise<ContentGenerator>
+  >();
   readonly modelConfigService: ModelConfigService;
   private readonly embeddingModel: string;
   private readonly sandbox: SandboxConfig | undefined;
@@ -476,6 +505,9 @@ export class Config {
 
   private _activeModel: string;
   private readonly maxSessionTurns: number;
+  private readonly maxSessionCostUsd: number;
+  private readonly fallbackChain: string[];
+  private readonly routingCandidates: RoutingCandidate[];
   private readonly listSessions: boolean;
   private readonly deleteSession: string | undefined;
   private readonly listExtensions: boolean;
@@ -560,6 +592,8 @@ export class Config {
   private remoteAdminSettings: FetchAdminControlsResponse | undefined;
   private latestApiRequest: GenerateContentParameters | undefined;
   private lastModeSwitchTime: number = Date.now();
+  private megawork = false;
+  private sisyphusToolNames: string[] = [];
 
   constructor(params: ConfigParameters) {
     this.sessionId = params.sessionId;
@@ -645,6 +679,9 @@ export class Config {
     this.previewFeatures = params.previewFeatures ?? undefined;
     this.experimentalJitContext = params.experimentalJitContext ?? false;
     this.maxSessionTurns = params.maxSessionTurns ?? -1;
+    this.maxSessionCostUsd = params.maxSessionCostUsd ?? -1;
+    this.fallbackChain = params.fallbackChain ?? [];
+    this.routingCandidates = params.routingCandidates ?? [];
     this.experimentalZedIntegration =
       params.experimentalZedIntegration ?? false;
     this.listSessions = params.listSessions ?? false;
@@ -874,9 +911,52 @@ export class Config {
     return this.contentGenerator;
   }
 
-  async refreshAuth(authMethod: AuthType) {
+  /**
+   * Returns the content generator of a provider, e.g. the provider of a
+   * delegation category. The generators of other providers than the
+   * session's are created on first use.
+   *
+   * @param providerId The id of an OpenAI-compatible provider, or `gemini`.
+   */
+  getProviderContentGenerator(providerId: string): Promise<ContentGenerator> {
+    if (
+      providerId ===
+      (this.contentGeneratorConfig?.providerId ?? GEMINI_PROVIDER_ID)
+    ) {
+      return Promise.resolve(this.contentGenerator);
+    }
+
+    let contentGenerator = this.providerContentGenerators.get(providerId);
+    if (!contentGenerator) {
+      const isGemini = providerId === GEMINI_PROVIDER_ID;
+      contentGenerator = createContentGeneratorConfig(
+        this,
+        isGemini ? getGeminiAuthType() : AuthType.OPENAI_COMPATIBLE,
+        isGemini ? undefined : providerId,
+      ).then((contentGeneratorConfig) =>
+        createContentGenerator(
+          contentGeneratorConfig,
+          this,
+          this.getSessionId(),
+        ),
+      );
+      // Providers failing to start are tried again on the next request.
+      contentGenerator.catch(() =>
+        this.providerContentGenerators.delete(providerId),
+      );
+      this.providerContentGenerators.set(providerId, contentGenerator);
+    }
+    return contentGenerator;
+  }
+
+  /**
+   * @param providerId The OpenAI-compatible provider to use instead of the
+   *     active one, for the session only.
+   */
+  async refreshAuth(authMethod: AuthType, providerId?: string) {
     // Reset availability service when switching auth
     this.modelAvailabilityService.reset();
+    this.providerContentGenerators.clear();
 
     // Vertex and Genai have incompatible encryption and sending history with
     // thoughtSignature from Genai to Vertex will fail, we need to strip them
@@ -894,6 +974,7 @@ export class Config {
     const newContentGeneratorConfig = await createContentGeneratorConfig(
       this,
       authMethod,
+      providerId,
     );
     this.contentGenerator = await createContentGenerator(
       newContentGeneratorConfig,
@@ -1097,6 +1178,24 @@ export class Config {
     return this.maxSessionTurns;
   }
 
+  getMaxSessionCostUsd(): number {
+    return this.maxSessionCostUsd;
+  }
+
+  /**
+   * The ordered `provider:model` entries to switch to when a model fails.
+   */
+  getFallbackChain(): string[] {
+    return this.fallbackChain;
+  }
+
+  /**
+   * The models the cost-aware routing picks from for auto model requests.
+   */
+  getRoutingCandidates(): RoutingCandidate[] {
+    return this.routingCandidates;
+  }
+
   setQuotaErrorOccurred(value: boolean): void {
     this.quotaErrorOccurred = value;
   }
@@ -1402,6 +1501,46 @@ export class Config {
     );
   }
 
+  /**
+   * Whether the session runs in Megawork mode, where the main agent is the
+   * Sisyphus orchestrator.
+   */
+  isMegaworkMode(): boolean {
+    return this.megawork;
+  }
+
+  /**
+   * Turns Megawork mode on or off. Swaps the system prompt of the main agent,
+   * registers or removes the Sisyphus tools and hooks, and records the mode in
+   * the session so that it is restored on resume.
+   */
+  async setMegaworkMode(enabled: boolean): Promise<void> {
+    if (this.megawork === enabled) {
+      return;
+    }
+    this.megawork = enabled;
+
+    if (this.toolRegistry) {
+      if (enabled) {
+        this.registerSisyphusTools(this.toolRegistry);
+      } else {
+        for (const name of this.sisyphusToolNames) {
+          this.toolRegistry.unregisterTool(name);
+        }
+        this.sisyphusToolNames = [];
+      }
+    }
+    await this.hookSystem?.initialize();
+
+    const client = this.getGeminiClient();
+    if (client?.isInitialized()) {
+      await client.setTools();
+      await client.updateSystemInstruction();
+      client.getChatRecordingService()?.saveMegaworkMode(enabled);
+    }
+    coreEvents.emitMegaworkModeChanged(enabled);
+  }
+
   isYoloModeDisabled(): boolean {
     return this.disableYoloMode || !this.isTrustedFolder();
   }
@@ -1845,7 +1984,8 @@ export class Config {
     return Math.min(
       // Estimate remaining context window in characters (1 token ~= 4 chars).
       4 *
-        (tokenLimit(this.model) - uiTelemetryService.getLastPromptTokenCount()),
+        (tokenLimit(this.model, this) -
+          uiTelemetryService.getLastPromptTokenCount()),
       this.truncateToolOutputThreshold,
     );
   }
@@ -1912,22 +2052,8 @@ export class Config {
     const registerCoreTool = (ToolClass: any, ...args: unknown[]) => {
       const className = ToolClass.name;
       const toolName = ToolClass.Name || className;
-      const coreTools = this.getCoreTools();
-      // On some platforms, the className can be minified to _ClassName.
-      const normalizedClassName = className.replace(/^_+/, '');
-
-      let isEnabled = true; // Enabled by default if coreTools is not set.
-      if (coreTools) {
-        isEnabled = coreTools.some(
-          (tool) =>
-            tool === toolName ||
-            tool === normalizedClassName ||
-            tool.startsWith(`${toolName}(`) ||
-            tool.startsWith(`${normalizedClassName}(`),
-        );
-      }
 
-      if (isEnabled) {
+      if (this.isCoreToolEnabled(toolName, className)) {
         // Pass message bus to tools (required for policy engine integration)
         const toolArgs = [...args, this.getMessageBus()];
 
@@ -1973,11 +2099,57 @@ export class Config {
     // Register DelegateToAgentTool if agents are enabled
     this.registerDelegateToAgentTool(registry);
 
+    if (this.megawork) {
+      this.registerSisyphusTools(registry);
+    }
+
     await registry.discoverAllTools();
     registry.sortTools();
     return registry;
   }
 
+  /**
+   * Whether a core tool is allowed by the `coreTools` setting, which may name
+   * it by tool name or class name.
+   */
+  private isCoreToolEnabled(toolName: string, className: string): boolean {
+    const coreTools = this.getCoreTools();
+    if (!coreTools) {
+      return true; // Enabled by default if coreTools is not set.
+    }
+    // On some platforms, the className can be minified to _ClassName.
+    const normalizedClassName = className.replace(/^_+/, '');
+    return coreTools.some(
+      (tool) =>
+        tool === toolName ||
+        tool === normalizedClassName ||
+        tool.startsWith(`${toolName}(`) ||
+        tool.startsWith(`${normalizedClassName}(`),
+    );
+  }
+
+  /**
+   * Registers the Sisyphus orchestration tools, which are only available in
+   * Megawork mode.
+   */
+  private registerSisyphusTools(registry: ToolRegistry): void {
+    const messageBus = this.getMessageBus();
+    const tools: AnyDeclarativeTool[] = [
+      new DelegateTaskTool(this.agentRegistry, this, messageBus),
+      new ParallelTasksTool(this.agentRegistry, this, messageBus),
+      new BackgroundTaskTool(this, messageBus),
+      new BackgroundOutputTool(messageBus),
+      new BackgroundCancelTool(messageBus),
+    ];
+    this.sisyphusToolNames = [];
+    for (const tool of tools) {
+      if (this.isCoreToolEnabled(tool.name, tool.constructor.name)) {
+        registry.registerTool(tool);
+        this.sisyphusToolNames.push(tool.name);
+      }
+    }
+  }
+
   /**
    * Registers the DelegateToAgentTool if agents or related features are enabled.
    */
@@ -2095,6 +2267,10 @@ export class Config {
   private onAgentsRefreshed = async () => {
     if (this.toolRegistry) {
       this.registerDelegateToAgentTool(this.toolRegistry);
+      // Rebuilds the delegate_task schema from the reloaded agents.
+      if (this.megawork) {
+        this.registerSisyphusTools(this.toolRegistry);
+      }
     }
     // Propagate updates to the active chat session
     const client = this.getGeminiClient();
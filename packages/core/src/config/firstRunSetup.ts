@@ -23,6 +23,7 @@ import * as fs from 'node:fs';
 import * as path from 'node:path';
 import * as os from 'node:os';
 import * as readline from 'node:readline';
+import type { OpenAICompatibleProviderSettings } from '../openai-compatible/types.js';
 
 const PLATFORM = os.platform();
 const HOME_DIR = os.homedir();
@@ -59,6 +60,10 @@ export interface DevoraSettings {
   model?: {
     name?: string;
   };
+  /** Provider used by the `openai-compatible` auth type (defaults to `zai`) */
+  activeProvider?: string;
+  /** OpenAI-compatible providers, keyed by id (presets can be overridden) */
+  providers?: Record<string, OpenAICompatibleProviderSettings>;
   mcpServers?: Record<string, MCPServerConfig>;
   mcp?: {
     allowed?: string[];
@@ -16,6 +16,7 @@ import {
   DEFAULT_GEMINI_FLASH_MODEL,
   DEFAULT_GEMINI_FLASH_LITE_MODEL,
   supportsMultimodalFunctionResponse,
+  getMaxThinkingBudget,
   GEMINI_MODEL_ALIAS_PRO,
   GEMINI_MODEL_ALIAS_FLASH,
   GEMINI_MODEL_ALIAS_FLASH_LITE,
@@ -78,6 +79,22 @@ describe('supportsMultimodalFunctionResponse', () => {
   });
 });
 
+describe('getMaxThinkingBudget', () => {
+  it('should return the maximum of gemini-2.5 flash models', () => {
+    expect(getMaxThinkingBudget(DEFAULT_GEMINI_FLASH_MODEL)).toBe(24576);
+    expect(getMaxThinkingBudget(DEFAULT_GEMINI_FLASH_LITE_MODEL)).toBe(24576);
+  });
+
+  it('should return the maximum of gemini-2.5-pro', () => {
+    expect(getMaxThinkingBudget(DEFAULT_GEMINI_MODEL)).toBe(32768);
+  });
+
+  it('should return undefined for other models', () => {
+    expect(getMaxThinkingBudget(PREVIEW_GEMINI_MODEL)).toBeUndefined();
+    expect(getMaxThinkingBudget('glm-4.6')).toBeUndefined();
+  });
+});
+
 describe('resolveModel', () => {
   describe('delegation logic', () => {
     it('should return the Preview Pro model when auto-gemini-3 is requested', () => {
@@ -171,3 +171,19 @@ export function isAutoModel(model: string): boolean {
 export function supportsMultimodalFunctionResponse(model: string): boolean {
   return model.startsWith('gemini-3-');
 }
+
+/**
+ * Returns the largest thinking budget the model accepts.
+ *
+ * @param model The model name to check.
+ * @returns The maximum thinking budget, or undefined when the model has no known limit.
+ */
+export function getMaxThinkingBudget(model: string): number | undefined {
+  if (model.startsWith('gemini-2.5-flash')) {
+    return 24576;
+  }
+  if (model.startsWith('gemini-2.5-pro')) {
+    return 32768;
+  }
+  return undefined;
+}
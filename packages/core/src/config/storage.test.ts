@@ -17,7 +17,7 @@ vi.mock('fs', async (importOriginal) => {
 });
 
 import { Storage } from './storage.js';
-import { GEMINI_DIR } from '../utils/paths.js';
+import { DEVORA_DIR, GEMINI_DIR } from '../utils/paths.js';
 
 describe('Storage – getGlobalSettingsPath', () => {
   it('returns path to ~/.gemini/settings.json', () => {
@@ -65,6 +65,11 @@ describe('Storage – additional helpers', () => {
     expect(storage.getProjectAgentsDir()).toBe(expected);
   });
 
+  it('getProjectDevoraAgentsDir returns project/.devora/agents', () => {
+    const expected = path.join(projectRoot, DEVORA_DIR, 'agents');
+    expect(storage.getProjectDevoraAgentsDir()).toBe(expected);
+  });
+
   it('getMcpOAuthTokensPath returns ~/.gemini/mcp-oauth-tokens.json', () => {
     const expected = path.join(
       os.homedir(),
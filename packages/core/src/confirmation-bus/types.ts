@@ -22,6 +22,9 @@ export enum MessageBusType {
   HOOK_EXECUTION_RESPONSE = 'hook-execution-response',
   HOOK_POLICY_DECISION = 'hook-policy-decision',
   TOOL_CALLS_UPDATE = 'tool-calls-update',
+  MCP_SAMPLING_REQUEST = 'mcp-sampling-request',
+  MCP_SAMPLING_RESPONSE = 'mcp-sampling-response',
+  MCP_SAMPLING_CANCELLED = 'mcp-sampling-cancelled',
 }
 
 export interface ToolCallsUpdateMessage {
@@ -141,6 +144,37 @@ export interface HookPolicyDecision {
   reason?: string;
 }
 
+/**
+ * Asks the user to approve a `sampling/createMessage` request of an MCP
+ * server before it is sent to the model.
+ */
+export interface McpSamplingRequest {
+  type: MessageBusType.MCP_SAMPLING_REQUEST;
+  correlationId: string;
+  serverName: string;
+  /** The model the request will be sent to. */
+  model: string;
+  systemPrompt?: string;
+  /** The messages of the request, with non-text content as placeholders. */
+  messages: Array<{ role: 'user' | 'assistant'; text: string }>;
+  maxTokens: number;
+}
+
+export interface McpSamplingResponse {
+  type: MessageBusType.MCP_SAMPLING_RESPONSE;
+  correlationId: string;
+  confirmed: boolean;
+}
+
+/**
+ * Withdraws a sampling request that timed out or was cancelled by the MCP
+ * server before the user answered it.
+ */
+export interface McpSamplingCancelled {
+  type: MessageBusType.MCP_SAMPLING_CANCELLED;
+  correlationId: string;
+}
+
 export type Message =
   | ToolConfirmationRequest
   | ToolConfirmationResponse
@@ -151,4 +185,7 @@ export type Message =
   | HookExecutionRequest
   | HookExecutionResponse
   | HookPolicyDecision
-  | ToolCallsUpdateMessage;
+  | ToolCallsUpdateMessage
+  | McpSamplingRequest
+  | McpSamplingResponse
+  | McpSamplingCancelled;
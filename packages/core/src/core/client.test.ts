@@ -36,7 +36,10 @@ import { setSimulate429 } from '../utils/testUtils.js';
 import { tokenLimit } from './tokenLimits.js';
 import { ideContextStore } from '../ide/ideContext.js';
 import type { ModelRouterService } from '../routing/modelRouterService.js';
-import { uiTelemetryService } from '../telemetry/uiTelemetry.js';
+import {
+  getSessionCostUsd,
+  uiTelemetryService,
+} from '../telemetry/uiTelemetry.js';
 import { ChatCompressionService } from '../services/chatCompressionService.js';
 import type { ChatRecordingService } from '../services/chatRecordingService.js';
 import { createAvailabilityServiceMock } from '../availability/testUtils.js';
@@ -132,7 +135,9 @@ vi.mock('../telemetry/uiTelemetry.js', () => ({
   uiTelemetryService: {
     setLastPromptTokenCount: vi.fn(),
     getLastPromptTokenCount: vi.fn(),
+    getMetrics: vi.fn(),
   },
+  getSessionCostUsd: vi.fn().mockReturnValue(0),
 }));
 vi.mock('../hooks/hookSystem.js');
 const mockHookSystem = {
@@ -213,12 +218,16 @@ describe('Gemini Client (client.ts)', () => {
       getGlobalMemory: vi.fn().mockReturnValue(''),
       getEnvironmentMemory: vi.fn().mockReturnValue(''),
       isJitContextEnabled: vi.fn().mockReturnValue(false),
+      isMegaworkMode: vi.fn().mockReturnValue(false),
+      setMegaworkMode: vi.fn(),
+      getAgentsSettings: vi.fn().mockReturnValue({}),
 
       getSessionId: vi.fn().mockReturnValue('test-session-id'),
       getProxy: vi.fn().mockReturnValue(undefined),
       getWorkingDir: vi.fn().mockReturnValue('/test/dir'),
       getFileService: vi.fn().mockReturnValue(fileService),
       getMaxSessionTurns: vi.fn().mockReturnValue(0),
+      getMaxSessionCostUsd: vi.fn().mockReturnValue(-1),
       getQuotaErrorOccurred: vi.fn().mockReturnValue(false),
       setQuotaErrorOccurred: vi.fn(),
       getNoBrowser: vi.fn().mockReturnValue(false),
@@ -323,6 +332,37 @@ describe('Gemini Client (client.ts)', () => {
 
       expect(uiTelemetryService.setLastPromptTokenCount).toHaveBeenCalled();
     });
+
+    it('should restore the Megawork mode of the resumed session', async () => {
+      await client.resumeChat([], {
+        conversation: {
+          sessionId: 'resumed-session-id',
+          projectHash: 'test-project-hash',
+          startTime: '2025-01-01T00:00:00.000Z',
+          lastUpdated: '2025-01-01T00:00:00.000Z',
+          messages: [],
+          megawork: true,
+        },
+        filePath: '/test/dir/chats/session.json',
+      });
+
+      expect(mockConfig.setMegaworkMode).toHaveBeenCalledExactlyOnceWith(true);
+    });
+
+    it('should leave Megawork mode when the resumed session did not use it', async () => {
+      await client.resumeChat([], {
+        conversation: {
+          sessionId: 'resumed-session-id',
+          projectHash: 'test-project-hash',
+          startTime: '2025-01-01T00:00:00.000Z',
+          lastUpdated: '2025-01-01T00:00:00.000Z',
+          messages: [],
+        },
+        filePath: '/test/dir/chats/session.json',
+      });
+
+      expect(mockConfig.setMegaworkMode).toHaveBeenCalledExactlyOnceWith(false);
+    });
   });
 
   describe('resetChat', () => {
@@ -1265,6 +1305,227 @@ ${JSON.stringify(
       expect(mockTurnRunFn).toHaveBeenCalledTimes(MAX_SESSION_TURNS);
     });
 
+    it('should pause once the session cost reaches its budget until the limit is raised', async () => {
+      vi.spyOn(client['config'], 'getMaxSessionCostUsd').mockReturnValue(1);
+      vi.mocked(getSessionCostUsd).mockReturnValue(1.5);
+
+      mockTurnRunFn.mockReturnValue(
+        (async function* () {
+          yield { type: 'content', value: 'Hello' };
+        })(),
+      );
+
+      const mockChat: Partial<GeminiChat> = {
+        addHistory: vi.fn(),
+        getHistory: vi.fn().mockReturnValue([]),
+        getLastPromptTokenCount: vi.fn(),
+      };
+      client['chat'] = mockChat as GeminiChat;
+
+      const events = [];
+      for await (const event of client.sendMessageStream(
+        [{ text: 'Hi' }],
+        new AbortController().signal,
+        'prompt-id-cost',
+      )) {
+        events.push(event);
+      }
+
+      expect(events).toEqual([
+        {
+          type: GeminiEventType.SessionCostLimitExceeded,
+          value: { costUsd: 1.5, maxCostUsd: 1 },
+        },
+      ]);
+      expect(mockTurnRunFn).not.toHaveBeenCalled();
+
+      client.raiseSessionCostLimit();
+      expect(client.getSessionCostLimitUsd()).toBe(2);
+
+      for await (const _event of client.sendMessageStream(
+        [{ text: 'Hi' }],
+        new AbortController().signal,
+        'prompt-id-cost',
+      )) {
+        // consume stream
+      }
+      expect(mockTurnRunFn).toHaveBeenCalledTimes(1);
+
+      vi.mocked(getSessionCostUsd).mockReturnValue(0);
+    });
+
+    describe('todo continuation', () => {
+      const todosHistory: Content[] = [
+        { role: 'user', parts: [{ text: 'Refactor the auth module' }] },
+        {
+          role: 'model',
+          parts: [
+            {
+              functionCall: {
+                name: 'write_todos',
+                args: {
+                  todos: [
+                    {
+                      description: 'Extract the token store',
+                      status: 'completed',
+                    },
+                    {
+                      description: 'Update the callers',
+                      status: 'in_progress',
+                    },
+                    { description: 'Run the tests', status: 'pending' },
+                  ],
+                },
+              },
+            },
+          ],
+        },
+      ];
+
+      const sendAndCollect = async (signal = new AbortController().signal) => {
+        const events = [];
+        for await (const event of client.sendMessageStream(
+          [{ text: 'Hi' }],
+          signal,
+          'prompt-id-todos',
+        )) {
+          events.push(event);
+        }
+        return events;
+      };
+
+      beforeEach(() => {
+        mockTurnRunFn.mockImplementation(() =>
+          (async function* () {
+            yield { type: 'content', value: 'Done for now.' };
+          })(),
+        );
+        const mockChat: Partial<GeminiChat> = {
+          addHistory: vi.fn(),
+          getHistory: vi.fn().mockReturnValue(todosHistory),
+          getLastPromptTokenCount: vi.fn(),
+        };
+        client['chat'] = mockChat as GeminiChat;
+        vi.mocked(mockConfig.isMegaworkMode).mockReturnValue(true);
+      });
+
+      it('should re-prompt the model while todos are incomplete, up to maxTurns', async () => {
+        vi.mocked(mockConfig.getAgentsSettings).mockReturnValue({
+          sisyphus: { maxTurns: 2 },
+        });
+
+        const events = await sendAndCollect();
+
+        expect(
+          events.filter(
+            (event) => event.type === GeminiEventType.TodoContinuation,
+          ),
+        ).toEqual([
+          {
+            type: GeminiEventType.TodoContinuation,
+            value: {
+              continuation: 1,
+              maxContinuations: 2,
+              incompleteTodoCount: 2,
+            },
+          },
+          {
+            type: GeminiEventType.TodoContinuation,
+            value: {
+              continuation: 2,
+              maxContinuations: 2,
+              incompleteTodoCount: 2,
+            },
+          },
+        ]);
+        expect(mockTurnRunFn).toHaveBeenCalledTimes(3);
+        const continuationRequest = mockTurnRunFn.mock.calls[1][1];
+        expect(partToString(continuationRequest)).toContain(
+          'You have 2 incomplete todo(s)',
+        );
+        expect(partToString(continuationRequest)).toContain(
+          'Continue working on: Update the callers',
+        );
+      });
+
+      it('should send the configured continuation message', async () => {
+        vi.mocked(mockConfig.getAgentsSettings).mockReturnValue({
+          sisyphus: { maxTurns: 1, todoContinuationMessage: 'Keep going.' },
+        });
+
+        await sendAndCollect();
+
+        expect(mockTurnRunFn.mock.calls[1][1]).toEqual([
+          { text: 'Keep going.' },
+        ]);
+      });
+
+      it('should stop once the prompt ran out of time', async () => {
+        vi.mocked(mockConfig.getAgentsSettings).mockReturnValue({
+          sisyphus: { maxTimeMinutes: 0 },
+        });
+
+        await sendAndCollect();
+
+        expect(mockTurnRunFn).toHaveBeenCalledTimes(1);
+      });
+
+      it('should not continue once the user cancelled', async () => {
+        const abortController = new AbortController();
+        mockTurnRunFn.mockImplementation(() =>
+          (async function* () {
+            yield { type: 'content', value: 'Done for now.' };
+            abortController.abort();
+          })(),
+        );
+
+        const events = await sendAndCollect(abortController.signal);
+
+        expect(mockTurnRunFn).toHaveBeenCalledTimes(1);
+        expect(events.map((event) => event.type)).not.toContain(
+          GeminiEventType.TodoContinuation,
+        );
+      });
+
+      it('should not continue outside Megawork mode or when disabled', async () => {
+        vi.mocked(mockConfig.isMegaworkMode).mockReturnValue(false);
+        await sendAndCollect();
+
+        vi.mocked(mockConfig.isMegaworkMode).mockReturnValue(true);
+        vi.mocked(mockConfig.getAgentsSettings).mockReturnValue({
+          sisyphus: { enableTodoContinuation: false },
+        });
+        await sendAndCollect();
+
+        expect(mockTurnRunFn).toHaveBeenCalledTimes(2);
+      });
+
+      it('should not continue when all todos are completed', async () => {
+        vi.mocked(client['chat']!.getHistory).mockReturnValue([
+          {
+            role: 'model',
+            parts: [
+              {
+                functionCall: {
+                  name: 'write_todos',
+                  args: {
+                    todos: [
+                      { description: 'Run the tests', status: 'completed' },
+                      { description: 'Deploy', status: 'cancelled' },
+                    ],
+                  },
+                },
+              },
+            ],
+          },
+        ]);
+
+        await sendAndCollect();
+
+        expect(mockTurnRunFn).toHaveBeenCalledTimes(1);
+      });
+    });
+
     it('should respect MAX_TURNS limit even when turns parameter is set to a large value', async () => {
       // This test verifies that the infinite loop protection works even when
       // someone tries to bypass it by calling with a very large turns value
@@ -1443,7 +1704,7 @@ ${JSON.stringify(
           remainingTokenCount,
         },
       });
-      expect(tokenLimit).toHaveBeenCalledWith(STICKY_MODEL);
+      expect(tokenLimit).toHaveBeenCalledWith(STICKY_MODEL, expect.anything());
       expect(mockTurnRunFn).not.toHaveBeenCalled();
     });
 
@@ -1830,6 +2091,45 @@ ${JSON.stringify(
           expect.any(AbortSignal),
         );
       });
+
+      it('should switch the chat to the provider of the routed model until the next routing', async () => {
+        const providerGenerator = {} as ContentGenerator;
+        mockConfig.getProviderContentGenerator = vi
+          .fn()
+          .mockResolvedValue(providerGenerator);
+        const setContentGenerator = vi.fn();
+        client['chat']!.setContentGenerator = setContentGenerator;
+        mockRouterService.route.mockResolvedValueOnce({
+          model: 'glm-4.5-air',
+          providerId: 'zai',
+          reason: 'test',
+        });
+
+        await fromAsync(
+          client.sendMessageStream(
+            [{ text: 'Hi' }],
+            new AbortController().signal,
+            'prompt-1',
+          ),
+        );
+
+        expect(mockConfig.getProviderContentGenerator).toHaveBeenCalledWith(
+          'zai',
+        );
+        expect(setContentGenerator).toHaveBeenCalledExactlyOnceWith(
+          providerGenerator,
+        );
+
+        await fromAsync(
+          client.sendMessageStream(
+            [{ text: 'Hi' }],
+            new AbortController().signal,
+            'prompt-2',
+          ),
+        );
+
+        expect(setContentGenerator).toHaveBeenLastCalledWith(undefined);
+      });
     });
 
     it('should use getGlobalMemory for system instruction when JIT is enabled', async () => {
@@ -39,19 +39,30 @@ import { ideContextStore } from '../ide/ideContext.js';
 import {
   logContentRetryFailure,
   logNextSpeakerCheck,
+  logTodoContinuation,
 } from '../telemetry/loggers.js';
 import type { DefaultHookOutput } from '../hooks/types.js';
 import {
   ContentRetryFailureEvent,
   NextSpeakerCheckEvent,
+  TodoContinuationEvent,
 } from '../telemetry/types.js';
-import { uiTelemetryService } from '../telemetry/uiTelemetry.js';
+import {
+  createTodoContinuationReminder,
+  getTodosFromHistory,
+} from '../hooks/sisyphus/todo-continuation.js';
+import { SISYPHUS_DEFAULTS } from '../agents/sisyphus/types.js';
+import {
+  getSessionCostUsd,
+  uiTelemetryService,
+} from '../telemetry/uiTelemetry.js';
 import type { IdeContext, File } from '../ide/types.js';
 import { handleFallback } from '../fallback/handler.js';
 import type { RoutingContext } from '../routing/routingStrategy.js';
 import { debugLogger } from '../utils/debugLogger.js';
 import type { ModelConfigKey } from '../services/modelConfigService.js';
 import { calculateRequestTokenCount } from '../utils/tokenCalculation.js';
+import { getSessionServedModel } from '../openai-compatible/providers.js';
 import {
   applyModelSelection,
   createAvailabilityContextProvider,
@@ -78,11 +89,18 @@ type BeforeAgentHookReturn =
 export class GeminiClient {
   private chat?: GeminiChat;
   private sessionTurnCount = 0;
+  /** How many times the user let the session exceed its cost budget. */
+  private sessionCostLimitRaises = 0;
 
   private readonly loopDetector: LoopDetectionService;
   private readonly compressionService: ChatCompressionService;
   private lastPromptId: string;
   private currentSequenceModel: string | null = null;
+  /** The provider routing switched the chat to, if any */
+  private routedProviderId?: string;
+  /** Forced todo continuations of the current prompt, and when it started */
+  private todoContinuationCount = 0;
+  private promptStartTime = Date.now();
   private lastSentIdeContext: IdeContext | undefined;
   private forceFullIdeContext = true;
 
@@ -257,6 +275,25 @@ export class GeminiClient {
     this.getChat().setTools(tools);
   }
 
+  /**
+   * Returns the cost in USD past which the session pauses, or -1 when it is
+   * unlimited.
+   */
+  getSessionCostLimitUsd(): number {
+    const maxSessionCostUsd = this.config.getMaxSessionCostUsd();
+    return maxSessionCostUsd > 0
+      ? maxSessionCostUsd * (this.sessionCostLimitRaises + 1)
+      : maxSessionCostUsd;
+  }
+
+  /**
+   * Lets the session spend another `maxSessionCostUsd` once the user chose to
+   * continue past the budget.
+   */
+  raiseSessionCostLimit(): void {
+    this.sessionCostLimitRaises++;
+  }
+
   async resetChat(): Promise<void> {
     this.chat = await this.startChat();
     this.updateTelemetryTokenCount();
@@ -272,6 +309,11 @@ export class GeminiClient {
   ): Promise<void> {
     this.chat = await this.startChat(history, resumedSessionData);
     this.updateTelemetryTokenCount();
+    if (resumedSessionData) {
+      await this.config.setMegaworkMode(
+        !!resumedSessionData.conversation.megawork,
+      );
+    }
   }
 
   getChatRecordingService(): ChatRecordingService | undefined {
@@ -542,6 +584,18 @@ export class GeminiClient {
       return turn;
     }
 
+    const maxCostUsd = this.getSessionCostLimitUsd();
+    if (maxCostUsd > 0) {
+      const costUsd = getSessionCostUsd(uiTelemetryService.getMetrics());
+      if (costUsd >= maxCostUsd) {
+        yield {
+          type: GeminiEventType.SessionCostLimitExceeded,
+          value: { costUsd, maxCostUsd },
+        };
+        return turn;
+      }
+    }
+
     if (!boundedTurns) {
       return turn;
     }
@@ -556,14 +610,15 @@ export class GeminiClient {
     }
 
     const remainingTokenCount =
-      tokenLimit(modelForLimitCheck) - this.getChat().getLastPromptTokenCount();
+      tokenLimit(modelForLimitCheck, this.config) -
+      this.getChat().getLastPromptTokenCount();
 
     // Estimate tokens. For text-only requests, we estimate based on character length.
     // For requests with non-text parts (like images, tools), we use the countTokens API.
     const estimatedRequestTokenCount = await calculateRequestTokenCount(
       request,
       this.getContentGeneratorOrFail(),
-      modelForLimitCheck,
+      getSessionServedModel(this.config, modelForLimitCheck),
     );
 
     if (estimatedRequestTokenCount > remainingTokenCount) {
@@ -629,6 +684,15 @@ export class GeminiClient {
       const router = this.config.getModelRouterService();
       const decision = await router.route(routingContext);
       modelToUse = decision.model;
+      // The chat keeps the provider of the decision until the next routing.
+      if (decision.providerId || this.routedProviderId) {
+        this.getChat().setContentGenerator(
+          decision.providerId
+            ? await this.config.getProviderContentGenerator(decision.providerId)
+            : undefined,
+        );
+        this.routedProviderId = decision.providerId;
+      }
     }
 
     // availability logic
@@ -711,6 +775,34 @@ export class GeminiClient {
     }
 
     if (!turn.pendingToolCalls.length && signal && !signal.aborted) {
+      const todoContinuation = this.getTodoContinuation();
+      if (todoContinuation) {
+        this.todoContinuationCount++;
+        logTodoContinuation(
+          this.config,
+          new TodoContinuationEvent(
+            prompt_id,
+            this.todoContinuationCount,
+            todoContinuation.incompleteTodoCount,
+          ),
+        );
+        yield {
+          type: GeminiEventType.TodoContinuation,
+          value: {
+            continuation: this.todoContinuationCount,
+            maxContinuations: todoContinuation.maxContinuations,
+            incompleteTodoCount: todoContinuation.incompleteTodoCount,
+          },
+        };
+        turn = yield* this.sendMessageStream(
+          [{ text: todoContinuation.message }],
+          signal,
+          prompt_id,
+          boundedTurns - 1,
+        );
+        return turn;
+      }
+
       if (
         !this.config.getQuotaErrorOccurred() &&
         !this.config.getSkipNextSpeakerCheck()
@@ -745,6 +837,50 @@ export class GeminiClient {
     return turn;
   }
 
+  /**
+   * In Megawork mode, returns the message that makes the model keep working
+   * when it ended its turn with incomplete todos. Returns undefined once the
+   * todos are done or the prompt used its continuations or time.
+   */
+  private getTodoContinuation():
+    | { message: string; incompleteTodoCount: number; maxContinuations: number }
+    | undefined {
+    const sisyphus = this.config.getAgentsSettings().sisyphus ?? {};
+    if (
+      !this.config.isMegaworkMode() ||
+      sisyphus.enableTodoContinuation === false ||
+      this.config.getQuotaErrorOccurred()
+    ) {
+      return undefined;
+    }
+
+    const maxContinuations = sisyphus.maxTurns ?? SISYPHUS_DEFAULTS.MAX_TURNS;
+    const maxTimeMs =
+      (sisyphus.maxTimeMinutes ?? SISYPHUS_DEFAULTS.MAX_TIME_MINUTES) * 60_000;
+    if (
+      this.todoContinuationCount >= maxContinuations ||
+      Date.now() - this.promptStartTime >= maxTimeMs
+    ) {
+      return undefined;
+    }
+
+    const todos = getTodosFromHistory(this.getHistory());
+    const incompleteTodoCount = todos.filter(
+      (todo) => todo.status !== 'completed',
+    ).length;
+    if (incompleteTodoCount === 0) {
+      return undefined;
+    }
+
+    return {
+      message:
+        sisyphus.todoContinuationMessage ||
+        createTodoContinuationReminder(todos),
+      incompleteTodoCount,
+      maxContinuations,
+    };
+  }
+
   async *sendMessageStream(
     request: PartListUnion,
     signal: AbortSignal,
@@ -764,6 +900,8 @@ export class GeminiClient {
       this.hookStateMap.delete(this.lastPromptId);
       this.lastPromptId = prompt_id;
       this.currentSequenceModel = null;
+      this.todoContinuationCount = 0;
+      this.promptStartTime = Date.now();
     }
 
     if (hooksEnabled && messageBus) {
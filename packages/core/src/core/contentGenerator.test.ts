@@ -18,6 +18,8 @@ import { LoggingContentGenerator } from './loggingContentGenerator.js';
 import { loadApiKey } from './apiKeyCredentialStorage.js';
 import { FakeContentGenerator } from './fakeContentGenerator.js';
 import { RecordingContentGenerator } from './recordingContentGenerator.js';
+import { loadDevoraSettings } from '../config/firstRunSetup.js';
+import { OpenAICompatibleContentGenerator } from '../openai-compatible/OpenAICompatibleContentGenerator.js';
 
 vi.mock('../code_assist/codeAssist.js');
 vi.mock('@google/genai');
@@ -26,6 +28,9 @@ vi.mock('./apiKeyCredentialStorage.js', () => ({
 }));
 
 vi.mock('./fakeContentGenerator.js');
+vi.mock('../config/firstRunSetup.js', () => ({
+  loadDevoraSettings: vi.fn().mockReturnValue({}),
+}));
 
 const mockConfig = {
   getModel: vi.fn().mockReturnValue('gemini-pro'),
@@ -340,6 +345,47 @@ describe('createContentGenerator', () => {
   });
 });
 
+describe('createContentGenerator for OpenAI-compatible providers', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should create an OpenAICompatibleContentGenerator for the active provider', async () => {
+    vi.mocked(loadDevoraSettings).mockReturnValue({
+      activeProvider: 'local',
+      providers: {
+        local: {
+          baseUrl: 'http://localhost:8000/v1',
+          model: 'qwen2.5-coder',
+        },
+      },
+    });
+
+    const generator = await createContentGenerator(
+      { authType: AuthType.OPENAI_COMPATIBLE },
+      mockConfig,
+    );
+
+    expect(generator).toBeInstanceOf(LoggingContentGenerator);
+    expect((generator as LoggingContentGenerator).getWrapped()).toBeInstanceOf(
+      OpenAICompatibleContentGenerator,
+    );
+  });
+
+  it('should throw for an unknown provider', async () => {
+    vi.mocked(loadDevoraSettings).mockReturnValue({
+      activeProvider: 'missing',
+    });
+
+    await expect(
+      createContentGenerator(
+        { authType: AuthType.OPENAI_COMPATIBLE },
+        mockConfig,
+      ),
+    ).rejects.toThrow('Unknown OpenAI-compatible provider: missing');
+  });
+});
+
 describe('createContentGeneratorConfig', () => {
   const mockConfig = {
     getModel: vi.fn().mockReturnValue('gemini-pro'),
@@ -422,4 +468,48 @@ describe('createContentGeneratorConfig', () => {
     expect(config.apiKey).toBeUndefined();
     expect(config.vertexai).toBeUndefined();
   });
+
+  it('should configure an OpenAI-compatible provider using its apiKeyEnv', async () => {
+    vi.mocked(loadDevoraSettings).mockReturnValue({
+      activeProvider: 'gateway',
+      providers: {
+        gateway: {
+          baseUrl: 'https://llm.internal/v1',
+          apiKeyEnv: 'GATEWAY_KEY',
+          model: 'llama-3.3-70b',
+        },
+      },
+    });
+    vi.stubEnv('GATEWAY_KEY', 'gateway-key');
+    const config = await createContentGeneratorConfig(
+      mockConfig,
+      AuthType.OPENAI_COMPATIBLE,
+    );
+    expect(config.apiKey).toBe('gateway-key');
+    expect(config.vertexai).toBe(false);
+  });
+
+  it('should configure the requested OpenAI-compatible provider', async () => {
+    vi.mocked(loadDevoraSettings).mockReturnValue({
+      activeProvider: 'zai',
+      openrouterApiKey: 'openrouter-key',
+    });
+    const config = await createContentGeneratorConfig(
+      mockConfig,
+      AuthType.OPENAI_COMPATIBLE,
+      'openrouter',
+    );
+    expect(config.providerId).toBe('openrouter');
+    expect(config.apiKey).toBe('openrouter-key');
+  });
+
+  it('should configure Zai using ZAI_API_KEY', async () => {
+    vi.mocked(loadDevoraSettings).mockReturnValue({});
+    vi.stubEnv('ZAI_API_KEY', 'zai-key');
+    const config = await createContentGeneratorConfig(
+      mockConfig,
+      AuthType.ZAI_GLM,
+    );
+    expect(config.apiKey).toBe('zai-key');
+  });
 });
@@ -24,8 +24,13 @@ import { FakeContentGenerator } from './fakeContentGenerator.js';
 import { parseCustomHeaders } from '../utils/customHeaderUtils.js';
 import { RecordingContentGenerator } from './recordingContentGenerator.js';
 import { getVersion, resolveModel } from '../../index.js';
-import { ZaiContentGenerator } from '../zai/ZaiContentGenerator.js';
-import { OpenRouterContentGenerator } from '../openrouter/OpenRouterContentGenerator.js';
+import { OpenAICompatibleContentGenerator } from '../openai-compatible/OpenAICompatibleContentGenerator.js';
+import {
+  OPENROUTER_PROVIDER_ID,
+  ZAI_PROVIDER_ID,
+  getActiveProviderId,
+  resolveOpenAICompatibleProvider,
+} from '../openai-compatible/providers.js';
 import { loadDevoraSettings } from '../config/firstRunSetup.js';
 
 /**
@@ -57,6 +62,25 @@ export enum AuthType {
   COMPUTE_ADC = 'compute-default-credentials',
   ZAI_GLM = 'zai-glm',
   OPENROUTER = 'openrouter',
+  OPENAI_COMPATIBLE = 'openai-compatible',
+}
+
+/**
+ * Returns the OpenAI-compatible provider backing an auth type, if any.
+ */
+export function getOpenAICompatibleProviderId(
+  authType: AuthType | undefined,
+): string | undefined {
+  switch (authType) {
+    case AuthType.ZAI_GLM:
+      return ZAI_PROVIDER_ID;
+    case AuthType.OPENROUTER:
+      return OPENROUTER_PROVIDER_ID;
+    case AuthType.OPENAI_COMPATIBLE:
+      return getActiveProviderId(loadDevoraSettings());
+    default:
+      return undefined;
+  }
 }
 
 export type ContentGeneratorConfig = {
@@ -64,29 +88,28 @@ export type ContentGeneratorConfig = {
   vertexai?: boolean;
   authType?: AuthType;
   proxy?: string;
+  /** The OpenAI-compatible provider serving the requests */
+  providerId?: string;
 };
 
+/**
+ * @param providerId The OpenAI-compatible provider to use instead of the
+ *     active one, for the session only.
+ */
 export async function createContentGeneratorConfig(
   config: Config,
   authType: AuthType | undefined,
+  providerId?: string,
 ): Promise<ContentGeneratorConfig> {
   const geminiApiKey =
     process.env['GEMINI_API_KEY'] || (await loadApiKey()) || undefined;
   const googleApiKey = process.env['GOOGLE_API_KEY'] || undefined;
-  const zaiApiKey = process.env['ZAI_API_KEY'] || undefined;
   const googleCloudProject =
     process.env['GOOGLE_CLOUD_PROJECT'] ||
     process.env['GOOGLE_CLOUD_PROJECT_ID'] ||
     undefined;
   const googleCloudLocation = process.env['GOOGLE_CLOUD_LOCATION'] || undefined;
 
-  // Load OpenRouter API key from env or settings
-  let openrouterApiKey = process.env['OPENROUTER_API_KEY'] || undefined;
-  if (!openrouterApiKey && authType === AuthType.OPENROUTER) {
-    const settings = loadDevoraSettings();
-    openrouterApiKey = settings.openrouterApiKey;
-  }
-
   const contentGeneratorConfig: ContentGeneratorConfig = {
     authType,
     proxy: config?.getProxy(),
@@ -117,16 +140,18 @@ export async function createContentGeneratorConfig(
     return contentGeneratorConfig;
   }
 
-  if (authType === AuthType.ZAI_GLM && zaiApiKey) {
-    contentGeneratorConfig.apiKey = zaiApiKey;
-    contentGeneratorConfig.vertexai = false;
-
-    return contentGeneratorConfig;
-  }
-
-  if (authType === AuthType.OPENROUTER && openrouterApiKey) {
-    contentGeneratorConfig.apiKey = openrouterApiKey;
+  const openAICompatibleProviderId =
+    authType === AuthType.OPENAI_COMPATIBLE && providerId
+      ? providerId
+      : getOpenAICompatibleProviderId(authType);
+  if (openAICompatibleProviderId) {
+    const provider = resolveOpenAICompatibleProvider(
+      loadDevoraSettings(),
+      openAICompatibleProviderId,
+    );
+    contentGeneratorConfig.apiKey = provider?.apiKey;
     contentGeneratorConfig.vertexai = false;
+    contentGeneratorConfig.providerId = openAICompatibleProviderId;
 
     return contentGeneratorConfig;
   }
@@ -210,19 +235,24 @@ export async function createContentGenerator(
       return new LoggingContentGenerator(googleGenAI.models, gcConfig);
     }
 
-    if (config.authType === AuthType.ZAI_GLM) {
-      return new LoggingContentGenerator(
-        new ZaiContentGenerator(config.apiKey!, gcConfig, sessionId),
-        gcConfig,
+    const providerId =
+      config.providerId ?? getOpenAICompatibleProviderId(config.authType);
+    if (providerId) {
+      const provider = resolveOpenAICompatibleProvider(
+        loadDevoraSettings(),
+        providerId,
       );
-    }
-
-    if (config.authType === AuthType.OPENROUTER) {
-      // Load settings to get the model if specified
-      const settings = loadDevoraSettings();
-      const model = settings.model?.name;
+      if (!provider) {
+        throw new Error(
+          `Error creating contentGenerator: Unknown OpenAI-compatible provider: ${providerId}`,
+        );
+      }
       return new LoggingContentGenerator(
-        new OpenRouterContentGenerator(config.apiKey!, gcConfig, sessionId, model),
+        new OpenAICompatibleContentGenerator(
+          { ...provider, apiKey: config.apiKey ?? provider.apiKey },
+          gcConfig,
+          sessionId,
+        ),
         gcConfig,
       );
     }
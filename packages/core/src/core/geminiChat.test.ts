@@ -17,7 +17,10 @@ import {
 } from './geminiChat.js';
 import type { Config } from '../config/config.js';
 import { setSimulate429 } from '../utils/testUtils.js';
-import { DEFAULT_THINKING_MODE } from '../config/models.js';
+import {
+  DEFAULT_GEMINI_FLASH_MODEL,
+  DEFAULT_THINKING_MODE,
+} from '../config/models.js';
 import { AuthType } from './contentGenerator.js';
 import { TerminalQuotaError } from '../utils/googleQuotaErrors.js';
 import { type RetryOptions } from '../utils/retry.js';
@@ -28,6 +31,7 @@ import type { ModelAvailabilityService } from '../availability/modelAvailability
 import * as policyHelpers from '../availability/policyHelpers.js';
 import { makeResolvedModelConfig } from '../services/modelConfigServiceTestUtils.js';
 import type { HookSystem } from '../hooks/hookSystem.js';
+import { SisyphusAgent } from '../agents/sisyphus/sisyphus.js';
 
 // Mock fs module to prevent actual file system operations during tests
 const mockFileSystem = new Map<string, string>();
@@ -131,6 +135,7 @@ describe('GeminiChat', () => {
       getUsageStatisticsEnabled: () => true,
       getDebugMode: () => false,
       getPreviewFeatures: () => false,
+      isMegaworkMode: () => false,
       getContentGeneratorConfig: vi.fn().mockImplementation(() => ({
         authType: 'oauth-personal',
         model: currentModel,
@@ -213,6 +218,20 @@ describe('GeminiChat', () => {
       expect(chatWithHistory.getLastPromptTokenCount()).toBe(3);
     });
 
+    it('should count the history with the tokenizer of the provider model', () => {
+      vi.mocked(mockConfig.getContentGeneratorConfig).mockReturnValue({
+        authType: AuthType.OPENAI_COMPATIBLE,
+        providerId: 'zai',
+      });
+      const history: Content[] = [
+        { role: 'user', parts: [{ text: 'Hello, world!' }] },
+      ];
+      const chatWithHistory = new GeminiChat(mockConfig, '', [], history);
+      // The Zai session serves gemini-pro with glm-4.7, whose tokenizer
+      // splits "Hello" "," " world" "!"; the heuristic counts 3.
+      expect(chatWithHistory.getLastPromptTokenCount()).toBe(4);
+    });
+
     it('should initialize lastPromptTokenCount for empty history', () => {
       const chatEmpty = new GeminiChat(mockConfig);
       expect(chatEmpty.getLastPromptTokenCount()).toBe(0);
@@ -1012,6 +1031,53 @@ describe('GeminiChat', () => {
         'prompt-id-thinking-budget',
       );
     });
+
+    it('should lower a thinking budget above the maximum of the model', async () => {
+      vi.mocked(
+        mockConfig.modelConfigService.getResolvedConfig,
+      ).mockReturnValue(
+        makeResolvedModelConfig(
+          DEFAULT_GEMINI_FLASH_MODEL,
+          SisyphusAgent.modelConfig.generateContentConfig,
+        ),
+      );
+      const response = (async function* () {
+        yield {
+          candidates: [
+            {
+              content: { parts: [{ text: 'response' }], role: 'model' },
+              finishReason: 'STOP',
+            },
+          ],
+        } as unknown as GenerateContentResponse;
+      })();
+      vi.mocked(mockContentGenerator.generateContentStream).mockResolvedValue(
+        response,
+      );
+
+      const stream = await chat.sendMessageStream(
+        { model: 'sisyphus-config' },
+        'hello',
+        'prompt-id-thinking-clamp',
+        new AbortController().signal,
+      );
+      for await (const _ of stream) {
+        // consume stream
+      }
+
+      expect(mockContentGenerator.generateContentStream).toHaveBeenCalledWith(
+        expect.objectContaining({
+          model: DEFAULT_GEMINI_FLASH_MODEL,
+          config: expect.objectContaining({
+            thinkingConfig: {
+              includeThoughts: true,
+              thinkingBudget: 24576,
+            },
+          }),
+        }),
+        'prompt-id-thinking-clamp',
+      );
+    });
   });
 
   describe('addHistory', () => {
@@ -1449,6 +1515,48 @@ describe('GeminiChat', () => {
         ).toHaveBeenCalledTimes(2);
       });
 
+      it('should record request retries in telemetry', async () => {
+        const rateLimitError = Object.assign(new Error('Rate limited'), {
+          status: 429,
+        });
+        vi.mocked(mockContentGenerator.generateContentStream).mockResolvedValue(
+          (async function* () {
+            yield {
+              candidates: [
+                {
+                  content: { parts: [{ text: 'Success' }] },
+                  finishReason: 'STOP',
+                },
+              ],
+            } as unknown as GenerateContentResponse;
+          })(),
+        );
+        mockRetryWithBackoff.mockImplementation(async (apiCall, options) => {
+          options?.onRetry?.(1, rateLimitError, 5000);
+          return apiCall();
+        });
+
+        const stream = await chat.sendMessageStream(
+          { model: 'test-model' },
+          'test message',
+          'prompt-id-retry-telemetry',
+          new AbortController().signal,
+        );
+        for await (const _ of stream) {
+          // consume stream
+        }
+
+        expect(mockLogContentRetry).toHaveBeenCalledWith(
+          mockConfig,
+          expect.objectContaining({
+            attempt_number: 1,
+            error_type: 'RATE_LIMIT',
+            retry_delay_ms: 5000,
+            model: 'test-model',
+          }),
+        );
+      });
+
       it('should retry on specific fetch errors when configured', async () => {
         vi.mocked(mockConfig.getRetryFetchErrors).mockReturnValue(true);
 
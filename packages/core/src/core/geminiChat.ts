@@ -19,12 +19,18 @@ import type {
 import { toParts } from '../code_assist/converter.js';
 import { createUserContent, FinishReason } from '@google/genai';
 import { retryWithBackoff, isRetryableError } from '../utils/retry.js';
-import type { ValidationRequiredError } from '../utils/googleQuotaErrors.js';
+import {
+  RetryableQuotaError,
+  type ValidationRequiredError,
+} from '../utils/googleQuotaErrors.js';
+import { getErrorStatus } from '../utils/httpErrors.js';
 import type { Config } from '../config/config.js';
+import type { ContentGenerator } from './contentGenerator.js';
 import {
   resolveModel,
   isGemini2Model,
   isPreviewModel,
+  getMaxThinkingBudget,
 } from '../config/models.js';
 import { hasCycleInSchema } from '../tools/tools.js';
 import type { StructuredError } from './turn.js';
@@ -46,6 +52,7 @@ import { isFunctionResponse } from '../utils/messageInspectors.js';
 import { partListUnionToString } from './geminiRequest.js';
 import type { ModelConfigKey } from '../services/modelConfigService.js';
 import { estimateTokenCountSync } from '../utils/tokenCalculation.js';
+import { getSessionServedModel } from '../openai-compatible/providers.js';
 import {
   applyModelSelection,
   createAvailabilityContextProvider,
@@ -87,6 +94,40 @@ const INVALID_CONTENT_RETRY_OPTIONS: ContentRetryOptions = {
 
 export const SYNTHETIC_THOUGHT_SIGNATURE = 'skip_thought_signature_validator';
 
+/**
+ * Returns the retry type recorded in telemetry for a failed request.
+ */
+function getRequestRetryType(error: unknown): string {
+  const status = getErrorStatus(error);
+  if (error instanceof RetryableQuotaError || status === 429) {
+    return 'RATE_LIMIT';
+  }
+  if (status !== undefined && status >= 500) {
+    return 'SERVER_ERROR';
+  }
+  return 'NETWORK_ERROR';
+}
+
+/**
+ * Lowers the thinking budget of a request to the maximum of its model, so
+ * that configs written for one model, like those of agents inheriting the
+ * main model, are not rejected by another.
+ */
+function clampThinkingBudget(
+  model: string,
+  config: GenerateContentConfig,
+): GenerateContentConfig {
+  const budget = config.thinkingConfig?.thinkingBudget;
+  const maxBudget = getMaxThinkingBudget(model);
+  if (budget === undefined || maxBudget === undefined || budget <= maxBudget) {
+    return config;
+  }
+  return {
+    ...config,
+    thinkingConfig: { ...config.thinkingConfig, thinkingBudget: maxBudget },
+  };
+}
+
 /**
  * Returns true if the response is valid, false otherwise.
  */
@@ -236,6 +277,7 @@ export class GeminiChat {
   private sendPromise: Promise<void> = Promise.resolve();
   private readonly chatRecordingService: ChatRecordingService;
   private lastPromptTokenCount: number;
+  private contentGenerator?: ContentGenerator;
 
   constructor(
     private readonly config: Config,
@@ -249,6 +291,7 @@ export class GeminiChat {
     this.chatRecordingService.initialize(resumedSessionData);
     this.lastPromptTokenCount = estimateTokenCountSync(
       this.history.flatMap((c) => c.parts || []),
+      getSessionServedModel(this.config, this.config.getModel()),
     );
   }
 
@@ -491,7 +534,7 @@ export class GeminiChat {
 
       lastModelToUse = modelToUse;
       const config: GenerateContentConfig = {
-        ...currentGenerateContentConfig,
+        ...clampThinkingBudget(modelToUse, currentGenerateContentConfig),
         // TODO(12622): Ensure we don't overrwrite these when they are
         // passed via config.
         systemInstruction: this.systemInstruction,
@@ -565,7 +608,9 @@ export class GeminiChat {
       lastConfig = config;
       lastContentsToUse = contentsToUse;
 
-      return this.config.getContentGenerator().generateContentStream(
+      const contentGenerator =
+        this.contentGenerator ?? this.config.getContentGenerator();
+      return contentGenerator.generateContentStream(
         {
           model: modelToUse,
           contents: contentsToUse,
@@ -578,7 +623,12 @@ export class GeminiChat {
     const onPersistent429Callback = async (
       authType?: string,
       error?: unknown,
-    ) => handleFallback(this.config, lastModelToUse, authType, error);
+    ) =>
+      // Failures of another provider than the session's do not switch the
+      // session's model.
+      this.contentGenerator
+        ? null
+        : handleFallback(this.config, lastModelToUse, authType, error);
 
     const onValidationRequiredCallback = async (
       validationError: ValidationRequiredError,
@@ -604,6 +654,15 @@ export class GeminiChat {
       maxAttempts: availabilityMaxAttempts,
       getAvailabilityContext,
       onRetry: (attempt, error, delayMs) => {
+        logContentRetry(
+          this.config,
+          new ContentRetryEvent(
+            attempt,
+            getRequestRetryType(error),
+            delayMs,
+            lastModelToUse,
+          ),
+        );
         coreEvents.emitRetryAttempt({
           attempt,
           maxAttempts: availabilityMaxAttempts ?? 10,
@@ -678,6 +737,7 @@ export class GeminiChat {
     this.history = history;
     this.lastPromptTokenCount = estimateTokenCountSync(
       this.history.flatMap((c) => c.parts || []),
+      getSessionServedModel(this.config, this.config.getModel()),
     );
   }
 
@@ -751,6 +811,14 @@ export class GeminiChat {
     this.tools = tools;
   }
 
+  /**
+   * Sends the requests of the chat to another provider than the session's,
+   * or back to the session's when undefined.
+   */
+  setContentGenerator(contentGenerator: ContentGenerator | undefined): void {
+    this.contentGenerator = contentGenerator;
+  }
+
   async maybeIncludeSchemaDepthContext(error: StructuredError): Promise<void> {
     // Check for potentially problematic cyclic tools with cyclic schemas
     // and include a recommendation to remove potentially problematic tools.
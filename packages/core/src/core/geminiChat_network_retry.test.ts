@@ -74,6 +74,7 @@ describe('GeminiChat Network Retries', () => {
       getUsageStatisticsEnabled: () => true,
       getDebugMode: () => false,
       getPreviewFeatures: () => false,
+      isMegaworkMode: () => false,
       getContentGeneratorConfig: vi.fn().mockReturnValue({
         authType: 'oauth-personal',
         model: 'test-model',
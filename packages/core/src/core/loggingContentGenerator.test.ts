@@ -31,13 +31,16 @@ import type { ContentGenerator } from './contentGenerator.js';
 import { LoggingContentGenerator } from './loggingContentGenerator.js';
 import type { Config } from '../config/config.js';
 import { ApiRequestEvent } from '../telemetry/types.js';
+import { ModelAvailabilityService } from '../availability/modelAvailabilityService.js';
 
 describe('LoggingContentGenerator', () => {
   let wrapped: ContentGenerator;
   let config: Config;
   let loggingContentGenerator: LoggingContentGenerator;
+  let availabilityService: ModelAvailabilityService;
 
   beforeEach(() => {
+    availabilityService = new ModelAvailabilityService();
     wrapped = {
       generateContent: vi.fn(),
       generateContentStream: vi.fn(),
@@ -50,6 +53,7 @@ describe('LoggingContentGenerator', () => {
       getContentGeneratorConfig: vi.fn().mockReturnValue({
         authType: 'API_KEY',
       }),
+      getModelAvailabilityService: () => availabilityService,
     } as unknown as Config;
     loggingContentGenerator = new LoggingContentGenerator(wrapped, config);
     vi.useFakeTimers();
@@ -100,6 +104,11 @@ describe('LoggingContentGenerator', () => {
       );
       const responseEvent = vi.mocked(logApiResponse).mock.calls[0][1];
       expect(responseEvent.duration_ms).toBe(1000);
+      expect(availabilityService.getPerformanceStats('gemini-pro')).toEqual({
+        requests: 1,
+        errorRate: 0,
+        averageLatencyMs: 1000,
+      });
     });
 
     it('should log error on failure', async () => {
@@ -128,6 +137,9 @@ describe('LoggingContentGenerator', () => {
       );
       const errorEvent = vi.mocked(logApiError).mock.calls[0][1];
       expect(errorEvent.duration_ms).toBe(1000);
+      expect(
+        availabilityService.getPerformanceStats('gemini-pro')?.errorRate,
+      ).toBe(1);
     });
   });
 
@@ -141,6 +141,24 @@ export class LoggingContentGenerator implements ContentGenerator {
     );
   }
 
+  /**
+   * Records the latency and outcome of a request, which the routing of later
+   * requests weighs. Requests cancelled by the user are not failures of the
+   * model.
+   */
+  private recordRequest(
+    req: GenerateContentParameters,
+    durationMs: number,
+    failed: boolean,
+  ): void {
+    if (failed && req.config?.abortSignal?.aborted) {
+      return;
+    }
+    this.config
+      .getModelAvailabilityService()
+      .recordRequest(req.model, durationMs, failed);
+  }
+
   private _logApiError(
     durationMs: number,
     error: unknown,
@@ -206,6 +224,7 @@ export class LoggingContentGenerator implements ContentGenerator {
             usageMetadata: response.usageMetadata,
           };
           const durationMs = Date.now() - startTime;
+          this.recordRequest(req, durationMs, false);
           this._logApiResponse(
             contents,
             durationMs,
@@ -227,6 +246,7 @@ export class LoggingContentGenerator implements ContentGenerator {
           return response;
         } catch (error) {
           const durationMs = Date.now() - startTime;
+          this.recordRequest(req, durationMs, true);
           this._logApiError(
             durationMs,
             error,
@@ -278,6 +298,7 @@ export class LoggingContentGenerator implements ContentGenerator {
           stream = await this.wrapped.generateContentStream(req, userPromptId);
         } catch (error) {
           const durationMs = Date.now() - startTime;
+          this.recordRequest(req, durationMs, true);
           this._logApiError(
             durationMs,
             error,
@@ -325,6 +346,7 @@ export class LoggingContentGenerator implements ContentGenerator {
       }
       // Only log successful API response if no error occurred
       const durationMs = Date.now() - startTime;
+      this.recordRequest(req, durationMs, false);
       this._logApiResponse(
         requestContents,
         durationMs,
@@ -355,6 +377,7 @@ export class LoggingContentGenerator implements ContentGenerator {
     } catch (error) {
       spanMetadata.error = error;
       const durationMs = Date.now() - startTime;
+      this.recordRequest(req, durationMs, true);
       this._logApiError(
         durationMs,
         error,
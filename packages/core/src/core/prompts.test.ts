@@ -69,6 +69,7 @@ describe('Core System Prompt (prompts.ts)', () => {
       isInteractive: vi.fn().mockReturnValue(true),
       isInteractiveShellEnabled: vi.fn().mockReturnValue(true),
       isAgentsEnabled: vi.fn().mockReturnValue(false),
+      isMegaworkMode: vi.fn().mockReturnValue(false),
       getModel: vi.fn().mockReturnValue(DEFAULT_GEMINI_MODEL_AUTO),
       getActiveModel: vi.fn().mockReturnValue(DEFAULT_GEMINI_MODEL),
       getPreviewFeatures: vi.fn().mockReturnValue(false),
@@ -219,6 +220,7 @@ describe('Core System Prompt (prompts.ts)', () => {
         isInteractive: vi.fn().mockReturnValue(false),
         isInteractiveShellEnabled: vi.fn().mockReturnValue(false),
         isAgentsEnabled: vi.fn().mockReturnValue(false),
+        isMegaworkMode: vi.fn().mockReturnValue(false),
         getModel: vi.fn().mockReturnValue('auto'),
         getActiveModel: vi.fn().mockReturnValue(DEFAULT_GEMINI_MODEL),
         getPreviewFeatures: vi.fn().mockReturnValue(false),
@@ -251,6 +253,15 @@ describe('Core System Prompt (prompts.ts)', () => {
     },
   );
 
+  it('should use the Sisyphus orchestrator prompt in Megawork mode', () => {
+    vi.mocked(mockConfig.isMegaworkMode).mockReturnValue(true);
+
+    const prompt = getCoreSystemPrompt(mockConfig);
+
+    expect(prompt).toContain('You are "Sisyphus"');
+    expect(prompt).not.toContain('Mock Agent Directory');
+  });
+
   describe('ApprovalMode in System Prompt', () => {
     it('should include PLAN mode instructions', () => {
       vi.mocked(mockConfig.getApprovalMode).mockReturnValue(ApprovalMode.PLAN);
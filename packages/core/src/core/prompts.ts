@@ -21,6 +21,7 @@ import {
 import process from 'node:process';
 import { isGitRepository } from '../utils/gitUtils.js';
 import { CodebaseInvestigatorAgent } from '../agents/codebase-investigator.js';
+import { buildSisyphusSystemPrompt } from '../agents/sisyphus/sisyphus.js';
 import type { Config } from '../config/config.js';
 import { GEMINI_DIR, homedir } from '../utils/paths.js';
 import { debugLogger } from '../utils/debugLogger.js';
@@ -151,6 +152,9 @@ export function getCoreSystemPrompt(
   if (systemMdEnabled) {
     basePrompt = fs.readFileSync(systemMdPath, 'utf8');
     basePrompt = applySubstitutions(basePrompt, config, skillsPrompt);
+  } else if (config.isMegaworkMode()) {
+    // In Megawork mode the main agent is the Sisyphus orchestrator.
+    basePrompt = `${buildSisyphusSystemPrompt()}\n${skillsPrompt}`;
   } else {
     const promptConfig = {
       preamble: `You are ${interactiveMode ? 'an interactive ' : 'a non-interactive '}CLI agent specializing in software engineering tasks. Your primary goal is to help users safely and efficiently, adhering strictly to the following instructions and utilizing your available tools.`,
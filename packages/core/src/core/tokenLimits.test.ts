@@ -4,15 +4,28 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { tokenLimit, DEFAULT_TOKEN_LIMIT } from './tokenLimits.js';
+import { getCachedContextLength } from '../openai-compatible/catalogCache.js';
 import {
   DEFAULT_GEMINI_FLASH_LITE_MODEL,
   DEFAULT_GEMINI_FLASH_MODEL,
   DEFAULT_GEMINI_MODEL,
+  DEFAULT_GEMINI_MODEL_AUTO,
   PREVIEW_GEMINI_FLASH_MODEL,
   PREVIEW_GEMINI_MODEL,
 } from '../config/models.js';
+import type { Config } from '../config/config.js';
+
+vi.mock('../openai-compatible/catalogCache.js', () => ({
+  getCachedContextLength: vi.fn(),
+}));
+
+vi.mock('../config/firstRunSetup.js', () => ({
+  loadDevoraSettings: () => ({
+    providers: { vllm: { baseUrl: 'http://localhost:8000/v1', model: 'qwen' } },
+  }),
+}));
 
 describe('tokenLimit', () => {
   it('should return the correct token limit for default models', () => {
@@ -30,6 +43,39 @@ describe('tokenLimit', () => {
     expect(tokenLimit('unknown-model')).toBe(DEFAULT_TOKEN_LIMIT);
   });
 
+  it('should return the context length cached for provider models', () => {
+    vi.mocked(getCachedContextLength).mockReturnValueOnce(200_000);
+    expect(tokenLimit('glm-4.7')).toBe(200_000);
+    expect(getCachedContextLength).toHaveBeenCalledWith('glm-4.7');
+  });
+
+  describe('in OpenAI-compatible provider sessions', () => {
+    const sessionOf = (providerId: string) =>
+      ({
+        getContentGeneratorConfig: () => ({ providerId }),
+      }) as unknown as Config;
+
+    it('should measure Gemini model names against the model the provider serves', () => {
+      vi.mocked(getCachedContextLength).mockReturnValueOnce(32_768);
+
+      expect(tokenLimit(DEFAULT_GEMINI_MODEL, sessionOf('vllm'))).toBe(32_768);
+      expect(getCachedContextLength).toHaveBeenCalledWith('qwen');
+    });
+
+    it('should use the context length of providers without a catalog', () => {
+      vi.mocked(getCachedContextLength).mockReturnValue(undefined);
+
+      expect(tokenLimit(DEFAULT_GEMINI_MODEL, sessionOf('zai'))).toBe(200_000);
+      expect(tokenLimit(DEFAULT_GEMINI_MODEL_AUTO, sessionOf('zai'))).toBe(
+        200_000,
+      );
+      expect(getCachedContextLength).toHaveBeenCalledWith('glm-4.7');
+      expect(tokenLimit(DEFAULT_GEMINI_MODEL, sessionOf('vllm'))).toBe(
+        DEFAULT_TOKEN_LIMIT,
+      );
+    });
+  });
+
   it('should return the default token limit if no model is provided', () => {
     // @ts-expect-error testing invalid input
     expect(tokenLimit(undefined)).toBe(DEFAULT_TOKEN_LIMIT);
@@ -11,13 +11,33 @@ import {
   PREVIEW_GEMINI_FLASH_MODEL,
   PREVIEW_GEMINI_MODEL,
 } from '../config/models.js';
+import type { Config } from '../config/config.js';
+import { getCachedContextLength } from '../openai-compatible/catalogCache.js';
+import {
+  getServedModel,
+  getSessionProvider,
+} from '../openai-compatible/providers.js';
 
 type Model = string;
 type TokenCount = number;
 
 export const DEFAULT_TOKEN_LIMIT = 1_048_576;
 
-export function tokenLimit(model: Model): TokenCount {
+/**
+ * Returns the context window of a model. When given the config, requests of
+ * OpenAI-compatible provider sessions are measured against the model the
+ * provider serves them with, which Gemini model names stand in for.
+ */
+export function tokenLimit(model: Model, config?: Config): TokenCount {
+  const provider = config && getSessionProvider(config);
+  if (provider) {
+    return (
+      getCachedContextLength(getServedModel(provider, model)) ??
+      provider.contextLength ??
+      DEFAULT_TOKEN_LIMIT
+    );
+  }
+
   // Add other models as they become relevant or if specified by config
   // Pulled from https://ai.google.dev/gemini-api/docs/models
   switch (model) {
@@ -28,6 +48,7 @@ export function tokenLimit(model: Model): TokenCount {
     case DEFAULT_GEMINI_FLASH_LITE_MODEL:
       return 1_048_576;
     default:
-      return DEFAULT_TOKEN_LIMIT;
+      // Other providers describe their models in their `/models` catalog.
+      return getCachedContextLength(model) ?? DEFAULT_TOKEN_LIMIT;
   }
 }
@@ -59,6 +59,8 @@ export enum GeminiEventType {
   ChatCompressed = 'chat_compressed',
   Thought = 'thought',
   MaxSessionTurns = 'max_session_turns',
+  SessionCostLimitExceeded = 'session_cost_limit_exceeded',
+  TodoContinuation = 'todo_continuation',
   Finished = 'finished',
   LoopDetected = 'loop_detected',
   Citation = 'citation',
@@ -194,6 +196,24 @@ export type ServerGeminiMaxSessionTurnsEvent = {
   type: GeminiEventType.MaxSessionTurns;
 };
 
+export type ServerGeminiSessionCostLimitExceededEvent = {
+  type: GeminiEventType.SessionCostLimitExceeded;
+  value: {
+    costUsd: number;
+    maxCostUsd: number;
+  };
+};
+
+export type ServerGeminiTodoContinuationEvent = {
+  type: GeminiEventType.TodoContinuation;
+  value: {
+    /** Number of this forced continuation within the prompt */
+    continuation: number;
+    maxContinuations: number;
+    incompleteTodoCount: number;
+  };
+};
+
 export type ServerGeminiFinishedEvent = {
   type: GeminiEventType.Finished;
   value: GeminiFinishedEventValue;
@@ -217,6 +237,8 @@ export type ServerGeminiStreamEvent =
   | ServerGeminiFinishedEvent
   | ServerGeminiLoopDetectedEvent
   | ServerGeminiMaxSessionTurnsEvent
+  | ServerGeminiSessionCostLimitExceededEvent
+  | ServerGeminiTodoContinuationEvent
   | ServerGeminiThoughtEvent
   | ServerGeminiToolCallConfirmationEvent
   | ServerGeminiToolCallRequestEvent
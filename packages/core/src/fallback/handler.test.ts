@@ -15,6 +15,7 @@ import {
   afterEach,
 } from 'vitest';
 import { handleFallback } from './handler.js';
+import { handleFallbackChain } from './providerFallback.js';
 import type { Config } from '../config/config.js';
 import type { ModelAvailabilityService } from '../availability/modelAvailabilityService.js';
 import { createAvailabilityServiceMock } from '../availability/testUtils.js';
@@ -45,6 +46,13 @@ vi.mock('../telemetry/index.js', () => ({
 vi.mock('../utils/secure-browser-launcher.js', () => ({
   openBrowserSecurely: vi.fn(),
 }));
+vi.mock('./providerFallback.js', () => ({
+  getFallbackChainEntry: vi.fn((_config, model) => ({
+    providerId: 'zai',
+    model: model.startsWith('gemini-') ? 'glm-4.7' : model,
+  })),
+  handleFallbackChain: vi.fn(),
+}));
 
 // Mock debugLogger to prevent console pollution and allow spying
 vi.mock('../utils/debugLogger.js', () => ({
@@ -75,6 +83,7 @@ const createMockConfig = (overrides: Partial<Config> = {}): Config =>
     ),
     getActiveModel: vi.fn(() => MOCK_PRO_MODEL),
     getModel: vi.fn(() => MOCK_PRO_MODEL),
+    getContentGeneratorConfig: vi.fn(() => ({ authType: AUTH_OAUTH })),
     getPreviewFeatures: vi.fn(() => false),
     getUserTier: vi.fn(() => undefined),
     isInteractive: vi.fn(() => false),
@@ -88,6 +97,7 @@ describe('handleFallback', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(handleFallbackChain).mockResolvedValue(null);
     mockHandler = vi.fn();
     // Default setup: OAuth user, Pro model failed, handler injected
     mockConfig = createMockConfig({
@@ -106,6 +116,111 @@ describe('handleFallback', () => {
     consoleErrorSpy.mockRestore();
   });
 
+  describe('fallback chain', () => {
+    it('should retry without the Gemini policies when the chain switched models', async () => {
+      vi.mocked(handleFallbackChain).mockResolvedValue(true);
+      const error = new TerminalQuotaError('quota', {
+        code: 429,
+        message: 'quota',
+        details: [],
+      });
+
+      const result = await handleFallback(
+        mockConfig,
+        'glm-4.7',
+        AuthType.OPENAI_COMPATIBLE,
+        error,
+      );
+
+      expect(result).toBe(true);
+      expect(handleFallbackChain).toHaveBeenCalledWith(
+        mockConfig,
+        'glm-4.7',
+        error,
+      );
+      expect(mockHandler).not.toHaveBeenCalled();
+    });
+
+    it('should use the Gemini policies when the chain has no model left', async () => {
+      mockHandler.mockResolvedValue('retry_always');
+      vi.mocked(mockConfig.getFallbackModelHandler).mockReturnValue(
+        mockHandler,
+      );
+
+      const result = await handleFallback(
+        mockConfig,
+        MOCK_PRO_MODEL,
+        AUTH_OAUTH,
+      );
+
+      expect(result).toBe(true);
+      expect(mockHandler).toHaveBeenCalled();
+    });
+  });
+
+  describe('OpenAI-compatible providers', () => {
+    let providerConfig: Config;
+
+    beforeEach(() => {
+      providerConfig = createMockConfig({
+        getContentGeneratorConfig: vi.fn(() => ({
+          authType: AuthType.OPENAI_COMPATIBLE,
+          providerId: 'zai',
+        })),
+      });
+      vi.mocked(providerConfig.getFallbackModelHandler).mockReturnValue(
+        mockHandler,
+      );
+    });
+
+    it('should let the user keep trying the provider model', async () => {
+      mockHandler.mockResolvedValue('retry_once');
+      const error = new RetryableQuotaError('Rate limited', {
+        code: 429,
+        message: 'Rate limited',
+        details: [],
+      });
+
+      const result = await handleFallback(
+        providerConfig,
+        DEFAULT_GEMINI_MODEL,
+        AuthType.OPENAI_COMPATIBLE,
+        error,
+      );
+
+      expect(result).toBe(true);
+      expect(mockHandler).toHaveBeenCalledWith('glm-4.7', 'glm-4.7', error);
+      expect(providerConfig.getModelAvailabilityService).not.toHaveBeenCalled();
+    });
+
+    it('should stop when the user chooses to', async () => {
+      mockHandler.mockResolvedValue('retry_later');
+
+      const result = await handleFallback(
+        providerConfig,
+        'glm-4.7',
+        AuthType.OPENAI_COMPATIBLE,
+      );
+
+      expect(result).toBe(false);
+      expect(providerConfig.activateFallbackMode).not.toHaveBeenCalled();
+    });
+
+    it('should return null without a UI handler', async () => {
+      vi.mocked(providerConfig.getFallbackModelHandler).mockReturnValue(
+        undefined,
+      );
+
+      expect(
+        await handleFallback(
+          providerConfig,
+          'glm-4.7',
+          AuthType.OPENAI_COMPATIBLE,
+        ),
+      ).toBeNull();
+    });
+  });
+
   describe('policy-driven flow', () => {
     let policyConfig: Config;
     let availability: ModelAvailabilityService;
@@ -17,6 +17,10 @@ import {
   resolvePolicyAction,
   applyAvailabilityTransition,
 } from '../availability/policyHelpers.js';
+import {
+  getFallbackChainEntry,
+  handleFallbackChain,
+} from './providerFallback.js';
 
 const UPGRADE_URL_PAGE = 'https://goo.gle/set-up-gemini-code-assist';
 
@@ -26,6 +30,17 @@ export async function handleFallback(
   authType?: string,
   error?: unknown,
 ): Promise<string | boolean | null> {
+  // A configured fallback chain takes precedence over the Gemini model
+  // policies, and also applies to the other providers.
+  const switched = await handleFallbackChain(config, failedModel, error);
+  if (switched !== null) {
+    return switched;
+  }
+
+  if (config.getContentGeneratorConfig()?.providerId) {
+    return handleProviderFailure(config, failedModel, error);
+  }
+
   if (authType !== AuthType.LOGIN_WITH_GOOGLE) {
     return null;
   }
@@ -111,6 +126,30 @@ export async function handleFallback(
   }
 }
 
+/**
+ * Lets the user keep trying or stop when a model of an OpenAI-compatible
+ * provider keeps failing, as these models have no fallback policies.
+ */
+async function handleProviderFailure(
+  config: Config,
+  failedModel: string,
+  error?: unknown,
+): Promise<boolean | null> {
+  const handler = config.getFallbackModelHandler();
+  if (typeof handler !== 'function') {
+    return null;
+  }
+
+  const { model } = getFallbackChainEntry(config, failedModel);
+  try {
+    const intent = await handler(model, model, error);
+    return await processIntent(config, intent, model);
+  } catch (handlerError) {
+    debugLogger.error('Fallback handler failed:', handlerError);
+    return null;
+  }
+}
+
 async function handleUpgrade() {
   try {
     await openBrowserSecurely(UPGRADE_URL_PAGE);
@@ -0,0 +1,208 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  handleFallbackChain,
+  parseFallbackChainEntry,
+} from './providerFallback.js';
+import type { Config } from '../config/config.js';
+import type { DevoraSettings } from '../config/firstRunSetup.js';
+import { loadDevoraSettings } from '../config/firstRunSetup.js';
+import { AuthType } from '../core/contentGenerator.js';
+import {
+  DEFAULT_GEMINI_MODEL,
+  DEFAULT_GEMINI_MODEL_AUTO,
+} from '../config/models.js';
+import { coreEvents } from '../utils/events.js';
+
+vi.mock('../config/firstRunSetup.js', () => ({
+  loadDevoraSettings: vi.fn(),
+}));
+
+const settings: DevoraSettings = {
+  zaiApiKey: 'zai-key',
+  openrouterApiKey: 'openrouter-key',
+};
+
+const createMockConfig = ({
+  chain,
+  providerId,
+}: {
+  chain: string[];
+  providerId?: string;
+}): Config =>
+  ({
+    getFallbackChain: vi.fn(() => chain),
+    getContentGeneratorConfig: vi.fn(() => ({
+      authType: providerId
+        ? AuthType.OPENAI_COMPATIBLE
+        : AuthType.LOGIN_WITH_GOOGLE,
+      providerId,
+    })),
+    getActiveModel: vi.fn(() => DEFAULT_GEMINI_MODEL_AUTO),
+    getPreviewFeatures: vi.fn(() => false),
+    refreshAuth: vi.fn(),
+    activateFallbackMode: vi.fn(),
+  }) as unknown as Config;
+
+describe('parseFallbackChainEntry', () => {
+  it('should split the provider from the model at the first colon', () => {
+    expect(
+      parseFallbackChainEntry('openrouter:anthropic/claude-sonnet-4'),
+    ).toEqual({
+      providerId: 'openrouter',
+      model: 'anthropic/claude-sonnet-4',
+    });
+    expect(parseFallbackChainEntry('ollama:qwen3:8b')).toEqual({
+      providerId: 'ollama',
+      model: 'qwen3:8b',
+    });
+  });
+
+  it('should read entries without a provider as Gemini models', () => {
+    expect(parseFallbackChainEntry('gemini-2.5-pro')).toEqual({
+      providerId: 'gemini',
+      model: 'gemini-2.5-pro',
+    });
+  });
+});
+
+describe('handleFallbackChain', () => {
+  let feedbackSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.stubEnv('ZAI_API_KEY', '');
+    vi.stubEnv('OPENROUTER_API_KEY', '');
+    vi.stubEnv('GEMINI_API_KEY', 'gemini-key');
+    vi.stubEnv('GOOGLE_GENAI_USE_VERTEXAI', '');
+    vi.mocked(loadDevoraSettings).mockReturnValue(settings);
+    feedbackSpy = vi.spyOn(coreEvents, 'emitFeedback');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('should do nothing without a fallback chain', async () => {
+    const config = createMockConfig({ chain: [], providerId: 'zai' });
+
+    expect(await handleFallbackChain(config, 'glm-4.7')).toBeNull();
+    expect(config.refreshAuth).not.toHaveBeenCalled();
+  });
+
+  it('should switch to the next provider of the chain', async () => {
+    const config = createMockConfig({
+      chain: ['zai:glm-4.7', 'openrouter:anthropic/claude-sonnet-4'],
+      providerId: 'zai',
+    });
+
+    const result = await handleFallbackChain(
+      config,
+      'glm-4.7',
+      new Error('Rate limited'),
+    );
+
+    expect(result).toBe(true);
+    expect(config.refreshAuth).toHaveBeenCalledWith(
+      AuthType.OPENAI_COMPATIBLE,
+      'openrouter',
+    );
+    expect(config.activateFallbackMode).toHaveBeenCalledWith(
+      'anthropic/claude-sonnet-4',
+    );
+    expect(feedbackSpy).toHaveBeenCalledWith(
+      'warning',
+      expect.stringContaining(
+        'Zai GLM glm-4.7 failed (Rate limited). Switched to OpenRouter anthropic/claude-sonnet-4',
+      ),
+    );
+  });
+
+  it('should match the provider model when the session uses a Gemini alias', async () => {
+    const config = createMockConfig({
+      chain: ['zai:glm-4.7', 'gemini-2.5-pro'],
+      providerId: 'zai',
+    });
+
+    expect(await handleFallbackChain(config, DEFAULT_GEMINI_MODEL)).toBe(true);
+    expect(config.refreshAuth).toHaveBeenCalledWith(AuthType.USE_GEMINI);
+    expect(config.activateFallbackMode).toHaveBeenCalledWith('gemini-2.5-pro');
+  });
+
+  it('should keep the auth when switching models of the same provider', async () => {
+    const config = createMockConfig({
+      chain: ['zai:glm-4.7', 'zai:glm-4.5-air'],
+      providerId: 'zai',
+    });
+
+    expect(await handleFallbackChain(config, 'glm-4.7')).toBe(true);
+    expect(config.refreshAuth).not.toHaveBeenCalled();
+    expect(config.activateFallbackMode).toHaveBeenCalledWith('glm-4.5-air');
+  });
+
+  it('should skip the providers that are not configured', async () => {
+    vi.mocked(loadDevoraSettings).mockReturnValue({ zaiApiKey: 'zai-key' });
+    const config = createMockConfig({
+      chain: ['zai:glm-4.7', 'openrouter:openai/gpt-4o', 'gemini-2.5-pro'],
+      providerId: 'zai',
+    });
+
+    expect(await handleFallbackChain(config, 'glm-4.7')).toBe(true);
+    expect(config.activateFallbackMode).toHaveBeenCalledWith('gemini-2.5-pro');
+  });
+
+  it('should try the next entry when switching fails', async () => {
+    const config = createMockConfig({
+      chain: ['zai:glm-4.7', 'openrouter:openai/gpt-4o', 'gemini-2.5-pro'],
+      providerId: 'zai',
+    });
+    vi.mocked(config.refreshAuth).mockRejectedValueOnce(
+      new Error('Invalid API key'),
+    );
+
+    expect(await handleFallbackChain(config, 'glm-4.7')).toBe(true);
+    expect(config.activateFallbackMode).toHaveBeenCalledExactlyOnceWith(
+      'gemini-2.5-pro',
+    );
+  });
+
+  it('should return null at the end of the chain', async () => {
+    const config = createMockConfig({
+      chain: ['openrouter:openai/gpt-4o', 'zai:glm-4.7'],
+      providerId: 'zai',
+    });
+
+    expect(await handleFallbackChain(config, 'glm-4.7')).toBeNull();
+    expect(config.activateFallbackMode).not.toHaveBeenCalled();
+  });
+
+  it('should start at the head of the chain for models outside of it', async () => {
+    const config = createMockConfig({
+      chain: ['openrouter:openai/gpt-4o'],
+      providerId: 'zai',
+    });
+
+    expect(await handleFallbackChain(config, 'glm-4.7')).toBe(true);
+    expect(config.activateFallbackMode).toHaveBeenCalledWith('openai/gpt-4o');
+  });
+
+  it('should ignore failures of Gemini utility models', async () => {
+    const config = createMockConfig({
+      chain: ['zai:glm-4.7'],
+    });
+
+    expect(
+      await handleFallbackChain(config, 'gemini-2.5-flash-lite'),
+    ).toBeNull();
+    expect(await handleFallbackChain(config, DEFAULT_GEMINI_MODEL)).toBe(true);
+    expect(config.refreshAuth).toHaveBeenCalledWith(
+      AuthType.OPENAI_COMPATIBLE,
+      'zai',
+    );
+  });
+});
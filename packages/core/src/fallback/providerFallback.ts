@@ -0,0 +1,168 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Config } from '../config/config.js';
+import { resolveModel } from '../config/models.js';
+import type { DevoraSettings } from '../config/firstRunSetup.js';
+import { loadDevoraSettings } from '../config/firstRunSetup.js';
+import { AuthType } from '../core/contentGenerator.js';
+import { getConfiguredProviders } from '../openai-compatible/modelCatalog.js';
+import {
+  getServedModel,
+  resolveOpenAICompatibleProvider,
+} from '../openai-compatible/providers.js';
+import { debugLogger } from '../utils/debugLogger.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { coreEvents } from '../utils/events.js';
+
+/** The provider of the fallback chain entries served by Gemini */
+export const GEMINI_PROVIDER_ID = 'gemini';
+
+/**
+ * A model of the fallback chain, written `provider:model` in settings, e.g.
+ * `openrouter:anthropic/claude-sonnet-4`. Entries without a provider are
+ * Gemini models.
+ */
+export interface FallbackChainEntry {
+  providerId: string;
+  model: string;
+}
+
+export function parseFallbackChainEntry(entry: string): FallbackChainEntry {
+  const separator = entry.indexOf(':');
+  if (separator === -1) {
+    return { providerId: GEMINI_PROVIDER_ID, model: entry.trim() };
+  }
+  return {
+    providerId: entry.slice(0, separator).trim(),
+    model: entry.slice(separator + 1).trim(),
+  };
+}
+
+function describeEntry(
+  settings: DevoraSettings,
+  { providerId, model }: FallbackChainEntry,
+): string {
+  const providerName =
+    providerId === GEMINI_PROVIDER_ID
+      ? 'Gemini'
+      : (resolveOpenAICompatibleProvider(settings, providerId)?.displayName ??
+        providerId);
+  return `${providerName} ${model}`;
+}
+
+function isSameEntry(a: FallbackChainEntry, b: FallbackChainEntry): boolean {
+  return a.providerId === b.providerId && a.model === b.model;
+}
+
+/**
+ * Returns the entry a request for a model is sent to. OpenAI-compatible
+ * providers serve their own model in place of Gemini model names.
+ */
+export function getFallbackChainEntry(
+  config: Config,
+  model: string,
+  settings: DevoraSettings = loadDevoraSettings(),
+): FallbackChainEntry {
+  const providerId = config.getContentGeneratorConfig()?.providerId;
+  if (!providerId) {
+    return { providerId: GEMINI_PROVIDER_ID, model };
+  }
+  const provider = resolveOpenAICompatibleProvider(settings, providerId);
+  return {
+    providerId,
+    model: provider ? getServedModel(provider, model) : model,
+  };
+}
+
+/**
+ * Returns the auth type of Gemini requests, from the environment.
+ */
+export function getGeminiAuthType(): AuthType {
+  if (process.env['GOOGLE_GENAI_USE_VERTEXAI'] === 'true') {
+    return AuthType.USE_VERTEX_AI;
+  }
+  if (process.env['GEMINI_API_KEY']) {
+    return AuthType.USE_GEMINI;
+  }
+  return AuthType.LOGIN_WITH_GOOGLE;
+}
+
+async function switchToEntry(
+  config: Config,
+  failed: FallbackChainEntry,
+  entry: FallbackChainEntry,
+): Promise<void> {
+  if (entry.providerId === GEMINI_PROVIDER_ID) {
+    if (failed.providerId !== GEMINI_PROVIDER_ID) {
+      await config.refreshAuth(getGeminiAuthType());
+    }
+  } else if (entry.providerId !== failed.providerId) {
+    await config.refreshAuth(AuthType.OPENAI_COMPATIBLE, entry.providerId);
+  }
+  // The chat keeps its history, so the conversation continues on the new
+  // model.
+  config.activateFallbackMode(entry.model);
+}
+
+/**
+ * Switches the session to the entry of the configured fallback chain
+ * following the failed model, skipping the providers that are not
+ * configured. Returns true when the request should be retried, or null when
+ * there is no chain or no entry left in it.
+ */
+export async function handleFallbackChain(
+  config: Config,
+  failedModel: string,
+  error?: unknown,
+): Promise<boolean | null> {
+  const chain = config.getFallbackChain().map(parseFallbackChainEntry);
+  if (chain.length === 0) {
+    return null;
+  }
+
+  const settings = loadDevoraSettings();
+  const failed = getFallbackChainEntry(config, failedModel, settings);
+  // Gemini requests for other models than the session's are utility calls,
+  // such as summaries, which do not move the session.
+  if (
+    failed.providerId === GEMINI_PROVIDER_ID &&
+    failedModel !==
+      resolveModel(config.getActiveModel(), config.getPreviewFeatures())
+  ) {
+    return null;
+  }
+
+  const configuredProviders = new Set(
+    getConfiguredProviders(settings).map((provider) => provider.id),
+  );
+  const candidates = chain
+    .slice(chain.findIndex((entry) => isSameEntry(entry, failed)) + 1)
+    .filter(
+      (entry) =>
+        !isSameEntry(entry, failed) &&
+        (entry.providerId === GEMINI_PROVIDER_ID ||
+          configuredProviders.has(entry.providerId)),
+    );
+
+  for (const candidate of candidates) {
+    try {
+      await switchToEntry(config, failed, candidate);
+    } catch (switchError) {
+      debugLogger.warn(
+        `Could not switch to ${describeEntry(settings, candidate)}:`,
+        switchError,
+      );
+      continue;
+    }
+    coreEvents.emitFeedback(
+      'warning',
+      `${describeEntry(settings, failed)} failed (${getErrorMessage(error)}). Switched to ${describeEntry(settings, candidate)} for the rest of the session.`,
+    );
+    return true;
+  }
+  return null;
+}
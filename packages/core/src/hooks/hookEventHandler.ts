@@ -9,7 +9,7 @@ import type { Config } from '../config/config.js';
 import type { HookPlanner, HookEventContext } from './hookPlanner.js';
 import type { HookRunner } from './hookRunner.js';
 import type { HookAggregator, AggregatedHookResult } from './hookAggregator.js';
-import { HookEventName } from './types.js';
+import { HookEventName, getHookTarget } from './types.js';
 import type {
   HookConfig,
   HookInput,
@@ -713,7 +713,7 @@ export class HookEventHandler {
    * Get hook name from config for display or telemetry
    */
   private getHookName(config: HookConfig): string {
-    return config.name || config.command || 'unknown-command';
+    return config.name || getHookTarget(config) || 'unknown-command';
   }
 
   /**
@@ -726,7 +726,9 @@ export class HookEventHandler {
   /**
    * Get hook type from execution result for telemetry
    */
-  private getHookTypeFromResult(result: HookExecutionResult): 'command' {
+  private getHookTypeFromResult(
+    result: HookExecutionResult,
+  ): 'command' | 'function' | 'http' {
     return result.hookConfig.type;
   }
 
@@ -7,7 +7,12 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { HookPlanner } from './hookPlanner.js';
 import type { HookRegistry, HookRegistryEntry } from './hookRegistry.js';
-import { ConfigSource, HookEventName, HookType } from './types.js';
+import {
+  ConfigSource,
+  HookEventName,
+  HookType,
+  getHookTarget,
+} from './types.js';
 
 // Mock debugLogger using vi.hoisted
 const mockDebugLogger = vi.hoisted(() => ({
@@ -69,8 +74,8 @@ describe('HookPlanner', () => {
 
       expect(plan).not.toBeNull();
       expect(plan!.hookConfigs).toHaveLength(2);
-      expect(plan!.hookConfigs[0].command).toBe('./hook1.sh');
-      expect(plan!.hookConfigs[1].command).toBe('./test-hook.sh');
+      expect(getHookTarget(plan!.hookConfigs[0])).toBe('./hook1.sh');
+      expect(getHookTarget(plan!.hookConfigs[1])).toBe('./test-hook.sh');
     });
 
     it('should filter hooks by tool name matcher', () => {
@@ -128,7 +133,7 @@ describe('HookPlanner', () => {
       );
       expect(editPlan).not.toBeNull();
       expect(editPlan!.hookConfigs).toHaveLength(1);
-      expect(editPlan!.hookConfigs[0].command).toBe('./edit_hook.sh');
+      expect(getHookTarget(editPlan!.hookConfigs[0])).toBe('./edit_hook.sh');
 
       // Test with WriteTool - should match first hook
       const writePlan = hookPlanner.createExecutionPlan(
@@ -137,7 +142,7 @@ describe('HookPlanner', () => {
       );
       expect(writePlan).not.toBeNull();
       expect(writePlan!.hookConfigs).toHaveLength(1);
-      expect(writePlan!.hookConfigs[0].command).toBe('./edit_hook.sh');
+      expect(getHookTarget(writePlan!.hookConfigs[0])).toBe('./edit_hook.sh');
 
       // Test with ReadTool - should match second hook
       const readPlan = hookPlanner.createExecutionPlan(
@@ -146,7 +151,7 @@ describe('HookPlanner', () => {
       );
       expect(readPlan).not.toBeNull();
       expect(readPlan!.hookConfigs).toHaveLength(1);
-      expect(readPlan!.hookConfigs[0].command).toBe('./read_hook.sh');
+      expect(getHookTarget(readPlan!.hookConfigs[0])).toBe('./read_hook.sh');
 
       // Test with unmatched tool - should match no hooks
       const otherPlan = hookPlanner.createExecutionPlan(
@@ -373,7 +378,9 @@ describe('HookPlanner', () => {
       );
       expect(startupPlan).not.toBeNull();
       expect(startupPlan!.hookConfigs).toHaveLength(1);
-      expect(startupPlan!.hookConfigs[0].command).toBe('./startup_hook.sh');
+      expect(getHookTarget(startupPlan!.hookConfigs[0])).toBe(
+        './startup_hook.sh',
+      );
 
       // Test resume trigger
       const resumePlan = hookPlanner.createExecutionPlan(
@@ -382,7 +389,9 @@ describe('HookPlanner', () => {
       );
       expect(resumePlan).not.toBeNull();
       expect(resumePlan!.hookConfigs).toHaveLength(1);
-      expect(resumePlan!.hookConfigs[0].command).toBe('./resume_hook.sh');
+      expect(getHookTarget(resumePlan!.hookConfigs[0])).toBe(
+        './resume_hook.sh',
+      );
     });
   });
 });
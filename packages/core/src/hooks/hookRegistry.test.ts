@@ -13,6 +13,7 @@ import {
   HookEventName,
   HookType,
   HOOKS_CONFIG_FIELDS,
+  getHookTarget,
 } from './types.js';
 import type { Config } from '../config/config.js';
 import type { HookDefinition } from './types.js';
@@ -74,6 +75,7 @@ describe('HookRegistry', () => {
       getDisabledHooks: vi.fn().mockReturnValue([]),
       isTrustedFolder: vi.fn().mockReturnValue(true),
       getProjectRoot: vi.fn().mockReturnValue('/project'),
+      isMegaworkMode: vi.fn().mockReturnValue(false),
     } as unknown as Config;
 
     hookRegistry = new HookRegistry(mockConfig);
@@ -95,6 +97,28 @@ describe('HookRegistry', () => {
       );
     });
 
+    it('should load the Sisyphus hooks in Megawork mode', async () => {
+      vi.mocked(mockConfig.isMegaworkMode).mockReturnValue(true);
+
+      await hookRegistry.initialize();
+
+      const hooks = hookRegistry.getAllHooks();
+      expect(
+        hooks.map((hook) => [hook.eventName, hook.source, hook.config.name]),
+      ).toEqual([
+        [
+          HookEventName.BeforeAgent,
+          ConfigSource.Builtin,
+          'megawork-keyword-detector',
+        ],
+        [
+          HookEventName.SessionEnd,
+          ConfigSource.Builtin,
+          'sisyphus-todo-continuation',
+        ],
+      ]);
+    });
+
     it('should not load hooks if folder is not trusted', async () => {
       vi.mocked(mockConfig.isTrustedFolder).mockReturnValue(false);
       const mockHooksConfig = {
@@ -153,7 +177,7 @@ describe('HookRegistry', () => {
       expect(hooks).toHaveLength(1);
       expect(hooks[0].eventName).toBe(HookEventName.BeforeTool);
       expect(hooks[0].config.type).toBe(HookType.Command);
-      expect(hooks[0].config.command).toBe('./hooks/check_style.sh');
+      expect(getHookTarget(hooks[0].config)).toBe('./hooks/check_style.sh');
       expect(hooks[0].matcher).toBe('EditTool');
       expect(hooks[0].source).toBe(ConfigSource.Project);
     });
@@ -186,7 +210,71 @@ describe('HookRegistry', () => {
       expect(hooks).toHaveLength(1);
       expect(hooks[0].eventName).toBe(HookEventName.AfterTool);
       expect(hooks[0].config.type).toBe(HookType.Command);
-      expect(hooks[0].config.command).toBe('./hooks/after-tool.sh');
+      expect(getHookTarget(hooks[0].config)).toBe('./hooks/after-tool.sh');
+    });
+
+    it('should load function hooks and skip those without a module', async () => {
+      const mockHooksConfig = {
+        BeforeAgent: [
+          {
+            hooks: [
+              {
+                type: 'function',
+                module: './hooks/before-agent.mjs',
+                export: 'check',
+              },
+              { type: 'function', name: 'no-module' },
+            ],
+          },
+        ],
+      };
+
+      vi.mocked(mockConfig.getHooks).mockReturnValue(
+        mockHooksConfig as unknown as {
+          [K in HookEventName]?: HookDefinition[];
+        },
+      );
+
+      await hookRegistry.initialize();
+
+      const hooks = hookRegistry.getAllHooks();
+      expect(hooks).toHaveLength(1);
+      expect(hooks[0].config.type).toBe(HookType.Function);
+      expect(getHookTarget(hooks[0].config)).toBe('./hooks/before-agent.mjs');
+      expect(mockDebugLogger.warn).toHaveBeenCalledWith(
+        expect.stringContaining('missing module field'),
+      );
+    });
+
+    it('should load http hooks and skip those without a url', async () => {
+      const mockHooksConfig = {
+        AfterTool: [
+          {
+            hooks: [
+              { type: 'http', url: 'https://audit.example.com/hooks' },
+              { type: 'http', name: 'no-url' },
+            ],
+          },
+        ],
+      };
+
+      vi.mocked(mockConfig.getHooks).mockReturnValue(
+        mockHooksConfig as unknown as {
+          [K in HookEventName]?: HookDefinition[];
+        },
+      );
+
+      await hookRegistry.initialize();
+
+      const hooks = hookRegistry.getAllHooks();
+      expect(hooks).toHaveLength(1);
+      expect(hooks[0].config.type).toBe(HookType.Http);
+      expect(getHookTarget(hooks[0].config)).toBe(
+        'https://audit.example.com/hooks',
+      );
+      expect(mockDebugLogger.warn).toHaveBeenCalledWith(
+        expect.stringContaining('missing url field'),
+      );
     });
 
     it('should handle invalid configuration gracefully', async () => {
@@ -632,7 +720,7 @@ describe('HookRegistry', () => {
       // Should only load the valid hook
       const hooks = hookRegistry.getAllHooks();
       expect(hooks).toHaveLength(1);
-      expect(hooks[0].config.command).toBe('./valid-hook.sh');
+      expect(getHookTarget(hooks[0].config)).toBe('./valid-hook.sh');
 
       // Verify the warnings for invalid configurations
       // 1st warning: non-object hookConfig ('invalid-string')
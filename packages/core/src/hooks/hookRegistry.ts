@@ -6,10 +6,16 @@
 
 import type { Config } from '../config/config.js';
 import type { HookDefinition, HookConfig } from './types.js';
-import { HookEventName, ConfigSource, HOOKS_CONFIG_FIELDS } from './types.js';
+import {
+  HookEventName,
+  ConfigSource,
+  HOOKS_CONFIG_FIELDS,
+  getHookTarget,
+} from './types.js';
 import { debugLogger } from '../utils/debugLogger.js';
 import { TrustedHooksManager } from './trustedHooks.js';
 import { coreEvents } from '../utils/events.js';
+import { getSisyphusHooksConfig } from './sisyphus/index.js';
 
 /**
  * Hook registry entry with source information
@@ -93,7 +99,9 @@ export class HookRegistry {
   private getHookName(
     entry: HookRegistryEntry | { config: HookConfig },
   ): string {
-    return entry.config.name || entry.config.command || 'unknown-command';
+    return (
+      entry.config.name || getHookTarget(entry.config) || 'unknown-command'
+    );
   }
 
   /**
@@ -159,6 +167,14 @@ please review the project settings (.gemini/settings.json) and remove them.`;
         );
       }
     }
+
+    // The Sisyphus hooks run in Megawork sessions only
+    if (this.config.isMegaworkMode()) {
+      this.processHooksConfiguration(
+        getSisyphusHooksConfig(),
+        ConfigSource.Builtin,
+      );
+    }
   }
 
   /**
@@ -260,7 +276,10 @@ please review the project settings (.gemini/settings.json) and remove them.`;
     eventName: HookEventName,
     source: ConfigSource,
   ): boolean {
-    if (!config.type || !['command', 'plugin'].includes(config.type)) {
+    if (
+      !config.type ||
+      !['command', 'function', 'http', 'plugin'].includes(config.type)
+    ) {
       debugLogger.warn(
         `Invalid hook ${eventName} from ${source} type: ${config.type}`,
       );
@@ -274,6 +293,20 @@ please review the project settings (.gemini/settings.json) and remove them.`;
       return false;
     }
 
+    if (config.type === 'function' && !config.module && !config.handler) {
+      debugLogger.warn(
+        `Function hook ${eventName} from ${source} missing module field`,
+      );
+      return false;
+    }
+
+    if (config.type === 'http' && !config.url) {
+      debugLogger.warn(
+        `HTTP hook ${eventName} from ${source} missing url field`,
+      );
+      return false;
+    }
+
     return true;
   }
 
@@ -298,6 +331,8 @@ please review the project settings (.gemini/settings.json) and remove them.`;
         return 3;
       case ConfigSource.Extensions:
         return 4;
+      case ConfigSource.Builtin:
+        return 5;
       default:
         return 999;
     }
@@ -6,6 +6,11 @@
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { spawn, type ChildProcessWithoutNullStreams } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import * as os from 'node:os';
+import * as path from 'node:path';
 import { HookRunner } from './hookRunner.js';
 import { HookEventName, HookType, ConfigSource } from './types.js';
 import type { HookConfig } from './types.js';
@@ -405,6 +410,252 @@ describe('HookRunner', () => {
         );
       });
     });
+
+    describe('function hooks', () => {
+      let tempDir: string;
+
+      beforeEach(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hook-runner-'));
+      });
+
+      afterEach(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      });
+
+      it('should run the handler in-process', async () => {
+        const handler = vi.fn().mockResolvedValue({ decision: 'deny' });
+        const config: HookConfig = { type: HookType.Function, handler };
+
+        const result = await hookRunner.executeHook(
+          config,
+          HookEventName.BeforeTool,
+          mockInput,
+        );
+
+        expect(result.success).toBe(true);
+        expect(result.output).toEqual({ decision: 'deny' });
+        expect(handler).toHaveBeenCalledWith(mockInput, {
+          eventName: HookEventName.BeforeTool,
+          signal: expect.any(AbortSignal),
+        });
+        expect(spawn).not.toHaveBeenCalled();
+      });
+
+      it('should load the handler from a module relative to the project', async () => {
+        fs.writeFileSync(
+          path.join(tempDir, 'hook.mjs'),
+          'export function check(input) { return { systemMessage: input.cwd }; }',
+        );
+        const config: HookConfig = {
+          type: HookType.Function,
+          module: './hook.mjs',
+          export: 'check',
+        };
+
+        const result = await hookRunner.executeHook(
+          config,
+          HookEventName.BeforeTool,
+          { ...mockInput, cwd: tempDir },
+        );
+
+        expect(result.success).toBe(true);
+        expect(result.output).toEqual({ systemMessage: tempDir });
+      });
+
+      it('should fail when the module does not export a function', async () => {
+        fs.writeFileSync(path.join(tempDir, 'hook.mjs'), 'export default 42;');
+        const config: HookConfig = {
+          type: HookType.Function,
+          module: '$GEMINI_PROJECT_DIR/hook.mjs',
+        };
+
+        const result = await hookRunner.executeHook(
+          config,
+          HookEventName.BeforeTool,
+          { ...mockInput, cwd: tempDir },
+        );
+
+        expect(result.success).toBe(false);
+        expect(result.error?.message).toContain(
+          "does not export a function named 'default'",
+        );
+      });
+
+      it('should time out and abort slow handlers', async () => {
+        let signal: AbortSignal | undefined;
+        const config: HookConfig = {
+          type: HookType.Function,
+          timeout: 10,
+          handler: (_input, context) => {
+            signal = context.signal;
+            return new Promise(() => {});
+          },
+        };
+
+        const result = await hookRunner.executeHook(
+          config,
+          HookEventName.BeforeTool,
+          mockInput,
+        );
+
+        expect(result.success).toBe(false);
+        expect(result.error?.message).toBe('Hook timed out after 10ms');
+        expect(signal?.aborted).toBe(true);
+      });
+
+      it('should time out modules that take too long to load', async () => {
+        fs.writeFileSync(
+          path.join(tempDir, 'hook.mjs'),
+          'await new Promise(() => {});\nexport default () => ({});',
+        );
+        const config: HookConfig = {
+          type: HookType.Function,
+          module: './hook.mjs',
+          timeout: 10,
+        };
+
+        const result = await hookRunner.executeHook(
+          config,
+          HookEventName.BeforeTool,
+          { ...mockInput, cwd: tempDir },
+        );
+
+        expect(result.success).toBe(false);
+        expect(result.error?.message).toBe('Hook timed out after 10ms');
+      });
+
+      it('should report errors thrown by the handler', async () => {
+        const config: HookConfig = {
+          type: HookType.Function,
+          handler: () => {
+            throw new Error('boom');
+          },
+        };
+
+        const result = await hookRunner.executeHook(
+          config,
+          HookEventName.BeforeTool,
+          mockInput,
+        );
+
+        expect(result.success).toBe(false);
+        expect(result.error?.message).toBe('boom');
+      });
+    });
+
+    describe('http hooks', () => {
+      let server: http.Server;
+      let url: string;
+      let requests: Array<{ headers: http.IncomingHttpHeaders; body: string }>;
+      let responses: Array<{ status: number; body: string }>;
+
+      beforeEach(async () => {
+        requests = [];
+        responses = [];
+        server = http.createServer((req, res) => {
+          let body = '';
+          req.on('data', (chunk) => (body += chunk));
+          req.on('end', () => {
+            requests.push({ headers: req.headers, body });
+            const response = responses.shift();
+            if (!response) {
+              return; // Never answer, to exercise timeouts
+            }
+            res.writeHead(response.status).end(response.body);
+          });
+        });
+        await new Promise<void>((resolve) =>
+          server.listen(0, '127.0.0.1', resolve),
+        );
+        const { port } = server.address() as AddressInfo;
+        url = `http://127.0.0.1:${port}/hook`;
+      });
+
+      afterEach(async () => {
+        vi.unstubAllEnvs();
+        server.closeAllConnections();
+        await new Promise((resolve) => server.close(resolve));
+      });
+
+      it('should POST the input and parse the output', async () => {
+        vi.stubEnv('AUDIT_TOKEN', 'secret');
+        responses.push({
+          status: 200,
+          body: JSON.stringify({ decision: 'deny', reason: 'Not allowed' }),
+        });
+        const config: HookConfig = {
+          type: HookType.Http,
+          url,
+          headers: { Authorization: 'Bearer ${AUDIT_TOKEN}' },
+        };
+
+        const result = await hookRunner.executeHook(
+          config,
+          HookEventName.BeforeTool,
+          mockInput,
+        );
+
+        expect(result.success).toBe(true);
+        expect(result.output).toEqual({
+          decision: 'deny',
+          reason: 'Not allowed',
+        });
+        expect(JSON.parse(requests[0].body)).toEqual(mockInput);
+        expect(requests[0].headers['authorization']).toBe('Bearer secret');
+        expect(requests[0].headers['content-type']).toBe('application/json');
+      });
+
+      it('should retry transient failures', async () => {
+        responses.push(
+          { status: 503, body: 'unavailable' },
+          { status: 200, body: '' },
+        );
+        const config: HookConfig = { type: HookType.Http, url, retries: 1 };
+
+        const result = await hookRunner.executeHook(
+          config,
+          HookEventName.BeforeTool,
+          mockInput,
+        );
+
+        expect(result.success).toBe(true);
+        expect(result.output).toBeUndefined();
+        expect(requests).toHaveLength(2);
+      });
+
+      it('should not retry client errors', async () => {
+        responses.push(
+          { status: 401, body: 'unauthorized' },
+          { status: 200, body: '' },
+        );
+        const config: HookConfig = { type: HookType.Http, url, retries: 2 };
+
+        const result = await hookRunner.executeHook(
+          config,
+          HookEventName.BeforeTool,
+          mockInput,
+        );
+
+        expect(result.success).toBe(false);
+        expect(result.error?.message).toBe(
+          'HTTP hook returned status 401: unauthorized',
+        );
+        expect(requests).toHaveLength(1);
+      });
+
+      it('should time out', async () => {
+        const config: HookConfig = { type: HookType.Http, url, timeout: 50 };
+
+        const result = await hookRunner.executeHook(
+          config,
+          HookEventName.BeforeTool,
+          mockInput,
+        );
+
+        expect(result.success).toBe(false);
+        expect(result.error?.message).toBe('Hook timed out after 50ms');
+      });
+    });
   });
 
   describe('executeHooksParallel', () => {
@@ -5,8 +5,21 @@
  */
 
 import { spawn } from 'node:child_process';
-import type { HookConfig } from './types.js';
-import { HookEventName, ConfigSource } from './types.js';
+import * as path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type {
+  CommandHookConfig,
+  FunctionHookConfig,
+  HookConfig,
+  HookFunction,
+  HttpHookConfig,
+} from './types.js';
+import {
+  HookEventName,
+  HookType,
+  ConfigSource,
+  getHookTarget,
+} from './types.js';
 import type { Config } from '../config/config.js';
 import type {
   HookInput,
@@ -20,6 +33,8 @@ import type {
 import type { LLMRequest } from './hookTranslator.js';
 import { debugLogger } from '../utils/debugLogger.js';
 import { sanitizeEnvironment } from '../services/environmentSanitization.js';
+import { delay } from '../utils/delay.js';
+import { isRetryableError } from '../utils/retry.js';
 import {
   escapeShellArg,
   getShellConfiguration,
@@ -39,10 +54,32 @@ const EXIT_CODE_BLOCKING_ERROR = 2;
 const EXIT_CODE_NON_BLOCKING_ERROR = 1;
 
 /**
- * Hook runner that executes command hooks
+ * Delay before the first retry of an HTTP hook, doubled for each further retry
+ */
+const HTTP_HOOK_RETRY_DELAY_MS = 500;
+
+/**
+ * Error for an HTTP hook request answered with a non-2xx status
+ */
+class HttpHookStatusError extends Error {
+  constructor(
+    readonly status: number,
+    body: string,
+  ) {
+    super(`HTTP hook returned status ${status}${body ? `: ${body}` : ''}`);
+    this.name = 'HttpHookStatusError';
+  }
+}
+
+/**
+ * Hook runner that executes command, function and HTTP hooks
  */
 export class HookRunner {
   private readonly config: Config;
+  private readonly loadedHookFunctions = new Map<
+    string,
+    Promise<HookFunction>
+  >();
 
   constructor(config: Config) {
     this.config = config;
@@ -76,6 +113,22 @@ export class HookRunner {
     }
 
     try {
+      if (hookConfig.type === HookType.Function) {
+        return await this.executeFunctionHook(
+          hookConfig,
+          eventName,
+          input,
+          startTime,
+        );
+      }
+      if (hookConfig.type === HookType.Http) {
+        return await this.executeHttpHook(
+          hookConfig,
+          eventName,
+          input,
+          startTime,
+        );
+      }
       return await this.executeCommandHook(
         hookConfig,
         eventName,
@@ -84,7 +137,7 @@ export class HookRunner {
       );
     } catch (error) {
       const duration = Date.now() - startTime;
-      const hookId = hookConfig.name || hookConfig.command || 'unknown';
+      const hookId = hookConfig.name || getHookTarget(hookConfig) || 'unknown';
       const errorMessage = `Hook execution failed for event '${eventName}' (hook: ${hookId}): ${error}`;
       debugLogger.warn(`Hook execution error (non-fatal): ${errorMessage}`);
 
@@ -224,11 +277,240 @@ export class HookRunner {
     return modifiedInput;
   }
 
+  /**
+   * Execute a function hook in-process
+   */
+  private async executeFunctionHook(
+    hookConfig: FunctionHookConfig,
+    eventName: HookEventName,
+    input: HookInput,
+    startTime: number,
+  ): Promise<HookExecutionResult> {
+    const timeout = hookConfig.timeout ?? DEFAULT_HOOK_TIMEOUT;
+    const abortController = new AbortController();
+    let timeoutHandle: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<never>((_, reject) => {
+      timeoutHandle = setTimeout(() => {
+        abortController.abort();
+        reject(new Error(`Hook timed out after ${timeout}ms`));
+      }, timeout);
+    });
+
+    try {
+      // Loading the module counts against the timeout of the hook.
+      const output = await Promise.race([
+        this.resolveHookFunction(hookConfig, input).then((handler) =>
+          abortController.signal.aborted
+            ? undefined
+            : handler(input, { eventName, signal: abortController.signal }),
+        ),
+        timedOut,
+      ]);
+      return {
+        hookConfig,
+        eventName,
+        success: true,
+        output: output || undefined,
+        duration: Date.now() - startTime,
+      };
+    } catch (error) {
+      return {
+        hookConfig,
+        eventName,
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+        duration: Date.now() - startTime,
+      };
+    } finally {
+      clearTimeout(timeoutHandle);
+    }
+  }
+
+  /**
+   * Resolve the handler of a function hook, importing its module once
+   */
+  private resolveHookFunction(
+    hookConfig: FunctionHookConfig,
+    input: HookInput,
+  ): Promise<HookFunction> {
+    if (hookConfig.handler) {
+      return Promise.resolve(hookConfig.handler);
+    }
+    if (!hookConfig.module) {
+      throw new Error('Function hook missing module or handler');
+    }
+
+    const modulePath = hookConfig.module
+      .replace(/\$GEMINI_PROJECT_DIR/g, () => input.cwd)
+      .replace(/\$CLAUDE_PROJECT_DIR/g, () => input.cwd); // For compatibility
+    // Paths are resolved from the project directory, package specifiers are
+    // left to the module resolution.
+    const specifier =
+      path.isAbsolute(modulePath) || modulePath.startsWith('.')
+        ? pathToFileURL(path.resolve(input.cwd, modulePath)).href
+        : modulePath;
+    const exportName = hookConfig.export ?? 'default';
+    const key = `${specifier}#${exportName}`;
+
+    let loaded = this.loadedHookFunctions.get(key);
+    if (!loaded) {
+      loaded = import(specifier).then((module: Record<string, unknown>) => {
+        const handler = module[exportName];
+        if (typeof handler !== 'function') {
+          throw new Error(
+            `Hook module ${hookConfig.module} does not export a function named '${exportName}'`,
+          );
+        }
+        return handler as HookFunction;
+      });
+      // Failed imports are retried the next time the hook runs
+      loaded.catch(() => this.loadedHookFunctions.delete(key));
+      this.loadedHookFunctions.set(key, loaded);
+    }
+    return loaded;
+  }
+
+  /**
+   * Execute an HTTP hook by POSTing the input to its URL
+   */
+  private async executeHttpHook(
+    hookConfig: HttpHookConfig,
+    eventName: HookEventName,
+    input: HookInput,
+    startTime: number,
+  ): Promise<HookExecutionResult> {
+    if (!hookConfig.url) {
+      throw new Error('HTTP hook missing url');
+    }
+
+    const timeout = hookConfig.timeout ?? DEFAULT_HOOK_TIMEOUT;
+    const retries = hookConfig.retries ?? 0;
+    const abortController = new AbortController();
+    const timeoutHandle = setTimeout(() => abortController.abort(), timeout);
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+    for (const [name, value] of Object.entries(hookConfig.headers ?? {})) {
+      headers[name] = this.expandEnvironmentVariables(value);
+    }
+
+    try {
+      let body: string;
+      for (let attempt = 0; ; attempt++) {
+        try {
+          body = await this.postHookInput(
+            hookConfig.url,
+            headers,
+            input,
+            abortController.signal,
+          );
+          break;
+        } catch (error) {
+          if (
+            attempt >= retries ||
+            abortController.signal.aborted ||
+            !isRetryableError(error, true)
+          ) {
+            throw error;
+          }
+          debugLogger.debug(
+            `HTTP hook ${hookConfig.url} failed, retrying: ${error}`,
+          );
+          await delay(
+            HTTP_HOOK_RETRY_DELAY_MS * 2 ** attempt,
+            abortController.signal,
+          );
+        }
+      }
+
+      // Parse output
+      let output: HookOutput | undefined;
+      if (body.trim()) {
+        try {
+          output = JSON.parse(body.trim()) as HookOutput;
+        } catch {
+          // Not JSON, convert plain text to structured output
+          output = this.convertPlainTextToHookOutput(
+            body.trim(),
+            EXIT_CODE_SUCCESS,
+          );
+        }
+      }
+
+      return {
+        hookConfig,
+        eventName,
+        success: true,
+        output,
+        stdout: body,
+        duration: Date.now() - startTime,
+      };
+    } catch (error) {
+      return {
+        hookConfig,
+        eventName,
+        success: false,
+        error: abortController.signal.aborted
+          ? new Error(`Hook timed out after ${timeout}ms`)
+          : error instanceof Error
+            ? error
+            : new Error(String(error)),
+        duration: Date.now() - startTime,
+      };
+    } finally {
+      clearTimeout(timeoutHandle);
+    }
+  }
+
+  /**
+   * POST the hook input and return the response body
+   *
+   * @throws {HttpHookStatusError} If the response status is not 2xx.
+   */
+  private async postHookInput(
+    url: string,
+    headers: Record<string, string>,
+    input: HookInput,
+    signal: AbortSignal,
+  ): Promise<string> {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(input),
+      signal,
+    });
+    const body = await response.text();
+    if (!response.ok) {
+      throw new HttpHookStatusError(response.status, body.trim());
+    }
+    return body;
+  }
+
+  /**
+   * Expand `$VAR` and `${VAR}` references from the environment
+   */
+  private expandEnvironmentVariables(value: string): string {
+    return value.replace(
+      /\$\{(\w+)\}|\$(\w+)/g,
+      (_match, braced: string | undefined, bare: string | undefined) => {
+        const name = (braced ?? bare)!;
+        const expanded = process.env[name];
+        if (expanded === undefined) {
+          debugLogger.warn(
+            `HTTP hook header references unset variable ${name}`,
+          );
+        }
+        return expanded ?? '';
+      },
+    );
+  }
+
   /**
    * Execute a command hook
    */
   private async executeCommandHook(
-    hookConfig: HookConfig,
+    hookConfig: CommandHookConfig,
     eventName: HookEventName,
     input: HookInput,
     startTime: number,
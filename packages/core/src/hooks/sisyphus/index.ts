@@ -4,6 +4,11 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import type { HookDefinition } from '../types.js';
+import { HookEventName } from '../types.js';
+import { createMegaworkKeywordDetectorHook } from './keyword-detector.js';
+import { createTodoContinuationHook } from './todo-continuation.js';
+
 /**
  * Sisyphus Hooks - Multi-agent orchestration hooks for Devora CLI
  *
@@ -23,6 +28,8 @@ export {
   createTodoContinuationHook,
   createTodoContinuationReminder,
   hasIncompleteTodos,
+  readTodosFromTranscript,
+  getTodosFromHistory,
   getNextTodo,
   validateTodosComplete,
 } from './todo-continuation.js';
@@ -37,6 +44,18 @@ export const SISYPHUS_HOOKS = [
 
 export type SisyphusHookName = (typeof SISYPHUS_HOOKS)[number];
 
+/**
+ * The Sisyphus hooks by event, registered while Megawork mode is active
+ */
+export function getSisyphusHooksConfig(): {
+  [K in HookEventName]?: HookDefinition[];
+} {
+  return {
+    [HookEventName.BeforeAgent]: [createMegaworkKeywordDetectorHook()],
+    [HookEventName.SessionEnd]: [createTodoContinuationHook()],
+  };
+}
+
 /**
  * Hook descriptions for display/help
  */
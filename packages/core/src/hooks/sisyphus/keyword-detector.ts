@@ -5,7 +5,7 @@
  */
 
 import type { HookDefinition } from '../types.js';
-import { HookType } from '../types.js';
+import { HookEventName, HookType, defineHookFunction } from '../types.js';
 import {
   MEGAWORK_KEYWORDS,
   MEGAWORK_SYSTEM_MESSAGE,
@@ -23,15 +23,11 @@ import {
  * - "mega work"
  * - "/megawork"
  *
- * When detected, the MEGAWORK_SYSTEM_MESSAGE is injected as a system message.
+ * When detected, the MEGAWORK_SYSTEM_MESSAGE is added to the prompt as
+ * additional context. The hook runs in-process on BeforeAgent.
  *
- * Usage: Load this hook in the hook system
- * ```typescript
- * import { createMegaworkKeywordDetectorHook } from './hooks/sisyphus/index.js';
- *
- * const hookDefinition = createMegaworkKeywordDetectorHook();
- * // Register hook with hookRegistry
- * ```
+ * The hook registry registers it while Megawork mode is active, see
+ * `getSisyphusHooksConfig`.
  */
 export function createMegaworkKeywordDetectorHook(): HookDefinition {
   return {
@@ -39,88 +35,33 @@ export function createMegaworkKeywordDetectorHook(): HookDefinition {
     sequential: false,
     hooks: [
       {
-        type: HookType.Command,
+        type: HookType.Function,
         name: 'megawork-keyword-detector',
         description: 'Detects Megawork keywords and activates Sisyphus mode',
-        command: 'node --eval "' + generateDetectionScript() + '"',
+        handler: megaworkKeywordDetector,
         timeout: 5000,
       },
     ],
   };
 }
 
-/**
- * Generates the detection script for the hook command
- * This script checks for megawork keywords in the user prompt
- */
-function generateDetectionScript(): string {
-  return `
-const fs = require('fs');
-const path = require('path');
-
-// Read command line arguments
-const args = process.argv.slice(2);
-if (args.length < 1) {
-  console.error(JSON.stringify({ error: 'Missing transcript path argument' }));
-  process.exit(1);
-}
-
-const transcriptPath = args[0];
-
-// Read transcript to get last user message
-try {
-  if (!fs.existsSync(transcriptPath)) {
-    console.error(JSON.stringify({ error: 'Transcript file not found' }));
-    process.exit(1);
-  }
-
-  const transcriptContent = fs.readFileSync(transcriptPath, 'utf-8');
-  const messages = JSON.parse(transcriptContent);
-
-  // Get last user message
-  const lastUserMessage = messages
-    .filter((m: { role: string }) => m.role === 'user')
-    .pop();
-
-  if (!lastUserMessage) {
-    console.error(JSON.stringify({ continue: true }));
-    process.exit(0);
-  }
-
-  const userPrompt = typeof lastUserMessage.content === 'string'
-    ? lastUserMessage.content
-    : JSON.stringify(lastUserMessage.content);
-
-  const promptLower = userPrompt.toLowerCase();
-
-  // Check for megawork keywords
-  const keywords = ${JSON.stringify(MEGAWORK_KEYWORDS)};
-  const detected = keywords.some((keyword: string) =>
-    promptLower.includes(keyword.toLowerCase())
-  );
-
-  if (detected) {
-    // Inject megawork system message
-    const systemMessage = ${JSON.stringify(MEGAWORK_SYSTEM_MESSAGE)};
-    console.error(JSON.stringify({
-      continue: true,
-      systemMessage: systemMessage
-    }));
-  } else {
-    console.error(JSON.stringify({ continue: true }));
-  }
-} catch (error) {
-  console.error(JSON.stringify({
-    error: error instanceof Error ? error.message : String(error),
-    continue: true
-  }));
-}
-  `.replace(/\n/g, ' ');
-}
+const megaworkKeywordDetector = defineHookFunction(
+  HookEventName.BeforeAgent,
+  (input) => {
+    if (!detectMegaworkKeywords(input.prompt)) {
+      return undefined;
+    }
+    return {
+      hookSpecificOutput: {
+        hookEventName: 'BeforeAgent',
+        additionalContext: getMegaworkSystemMessage(),
+      },
+    };
+  },
+);
 
 /**
- * Alternative: Simple regex-based keyword detection
- * Can be used directly in code without spawning a process
+ * Simple keyword detection, also used by the keyword detector hook
  */
 export function detectMegaworkKeywords(userPrompt: string): boolean {
   const promptLower = userPrompt.toLowerCase();
@@ -137,8 +78,7 @@ export function getMegaworkSystemMessage(): string {
 }
 
 /**
- * Creates a simple keyword detector that can be called programmatically
- * This is a simpler version that doesn't require spawning a subprocess
+ * Creates a simple keyword detector result that can be used programmatically
  *
  * @param userPrompt The user's input prompt
  * @returns Hook output with system message if keywords detected, or continue=true
@@ -0,0 +1,141 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { ConversationRecord } from '../../services/chatRecordingService.js';
+import type { FunctionHookConfig, SessionEndInput } from '../types.js';
+import { HookEventName, SessionEndReason } from '../types.js';
+import {
+  createTodoContinuationHook,
+  getTodosFromHistory,
+  readTodosFromTranscript,
+} from './todo-continuation.js';
+
+const timestamp = '2025-01-01T00:00:00.000Z';
+
+function writeTodosCall(todos: Array<{ description: string; status: string }>) {
+  return {
+    id: 'call',
+    name: 'write_todos',
+    args: { todos },
+    status: 'success' as const,
+    timestamp,
+  };
+}
+
+describe('todo continuation hook', () => {
+  let tempDir: string;
+  let transcriptPath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'todo-continuation-'));
+    transcriptPath = path.join(tempDir, 'session.json');
+    const conversation: ConversationRecord = {
+      sessionId: 'session',
+      projectHash: 'hash',
+      startTime: timestamp,
+      lastUpdated: timestamp,
+      messages: [
+        {
+          id: '1',
+          timestamp,
+          type: 'gemini',
+          content: '',
+          toolCalls: [
+            writeTodosCall([{ description: 'Old plan', status: 'pending' }]),
+          ],
+        },
+        {
+          id: '2',
+          timestamp,
+          type: 'gemini',
+          content: '',
+          toolCalls: [
+            writeTodosCall([
+              { description: 'Write the parser', status: 'completed' },
+              { description: 'Add tests', status: 'in_progress' },
+              { description: 'Drop the cache', status: 'cancelled' },
+            ]),
+          ],
+        },
+      ],
+    };
+    fs.writeFileSync(transcriptPath, JSON.stringify(conversation));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should read the last todo list written in the transcript', async () => {
+    expect(await readTodosFromTranscript(transcriptPath)).toEqual([
+      {
+        content: 'Write the parser',
+        status: 'completed',
+        activeForm: 'Write the parser',
+      },
+      { content: 'Add tests', status: 'in_progress', activeForm: 'Add tests' },
+    ]);
+  });
+
+  it('should return no todos when the transcript cannot be read', async () => {
+    expect(
+      await readTodosFromTranscript(path.join(tempDir, 'missing.json')),
+    ).toEqual([]);
+  });
+
+  it('should read the last todo list written in a chat history', () => {
+    const writeTodos = (
+      todos: Array<{ description: string; status: string }>,
+    ) => ({
+      role: 'model',
+      parts: [
+        { text: 'Planning' },
+        { functionCall: { name: 'write_todos', args: { todos } } },
+      ],
+    });
+
+    expect(
+      getTodosFromHistory([
+        writeTodos([{ description: 'Old plan', status: 'pending' }]),
+        { role: 'user', parts: [{ text: 'Go on' }] },
+        writeTodos([
+          { description: 'Add tests', status: 'in_progress' },
+          { description: 'Drop the cache', status: 'cancelled' },
+        ]),
+        {
+          role: 'model',
+          parts: [{ functionCall: { name: 'read_file', args: {} } }],
+        },
+      ]),
+    ).toEqual([
+      { content: 'Add tests', status: 'in_progress', activeForm: 'Add tests' },
+    ]);
+    expect(getTodosFromHistory([])).toEqual([]);
+  });
+
+  it('should remind the agent of incomplete todos in-process', async () => {
+    const hook = createTodoContinuationHook().hooks[0] as FunctionHookConfig;
+    const input: SessionEndInput = {
+      session_id: 'session',
+      transcript_path: transcriptPath,
+      cwd: tempDir,
+      hook_event_name: HookEventName.SessionEnd,
+      timestamp,
+      reason: SessionEndReason.Exit,
+    };
+
+    const output = await hook.handler!(input, {
+      eventName: HookEventName.SessionEnd,
+      signal: new AbortController().signal,
+    });
+
+    expect(output?.systemMessage).toContain('→ [ ] Add tests');
+  });
+});
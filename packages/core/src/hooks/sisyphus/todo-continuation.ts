@@ -4,9 +4,14 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import * as fs from 'node:fs/promises';
+import type { Content } from '@google/genai';
 import type { HookDefinition } from '../types.js';
-import { HookType } from '../types.js';
+import { HookEventName, HookType, defineHookFunction } from '../types.js';
 import type { SisyphusTodo } from '../../agents/sisyphus/types.js';
+import type { ConversationRecord } from '../../services/chatRecordingService.js';
+import type { Todo } from '../../tools/tools.js';
+import { WRITE_TODOS_TOOL_NAME } from '../../tools/tool-names.js';
 
 /**
  * Creates a hook definition for todo continuation enforcement
@@ -15,76 +20,93 @@ import type { SisyphusTodo } from '../../agents/sisyphus/types.js';
  * finishing a session. If incomplete todos exist, it injects a
  * reminder message.
  *
- * The hook fires on SessionEnd and checks the todo status.
- *
- * Usage: Load this hook in the hook system
- * ```typescript
- * import { createTodoContinuationHook } from './hooks/sisyphus/index.js';
- *
- * const hookDefinition = createTodoContinuationHook();
- * // Register hook with hookRegistry
- * ```
+ * The hook fires on SessionEnd and reads the latest todo list written by
+ * the `write_todos` tool from the session transcript. It runs in-process,
+ * registered while Megawork mode is active, see `getSisyphusHooksConfig`.
+ * The model itself is re-prompted by `GeminiClient` whenever it ends a turn
+ * with incomplete todos.
  */
 export function createTodoContinuationHook(): HookDefinition {
   return {
-    matcher: 'sisyphus.*', // Only match Sisyphus sessions
+    // Registered in Megawork sessions only, so every session end matches
+    matcher: '*',
     sequential: false,
     hooks: [
       {
-        type: HookType.Command,
+        type: HookType.Function,
         name: 'sisyphus-todo-continuation',
         description: 'Enforces todo completion before session end',
-        command: 'node --eval "' + generateTodoContinuationScript() + '"',
+        handler: todoContinuation,
         timeout: 5000,
       },
     ],
   };
 }
 
+const todoContinuation = defineHookFunction(
+  HookEventName.SessionEnd,
+  async (input) => {
+    const todos = await readTodosFromTranscript(input.transcript_path);
+    if (!hasIncompleteTodos(todos)) {
+      return undefined;
+    }
+    return { systemMessage: createTodoContinuationReminder(todos) };
+  },
+);
+
 /**
- * Generates the todo continuation script for the hook command
- * This script checks for incomplete todos at session end
+ * Reads the todo list last written by the `write_todos` tool in a session
+ * transcript. Cancelled todos are left out.
+ *
+ * @param transcriptPath Path of the recorded conversation
+ * @returns The todos, or an empty list if none can be read
  */
-function generateTodoContinuationScript(): string {
-  return `
-const fs = require('fs');
-const path = require('path');
+export async function readTodosFromTranscript(
+  transcriptPath: string,
+): Promise<SisyphusTodo[]> {
+  let conversation: ConversationRecord;
+  try {
+    conversation = JSON.parse(await fs.readFile(transcriptPath, 'utf-8'));
+  } catch {
+    return [];
+  }
 
-const args = process.argv.slice(2);
-if (args.length < 1) {
-  console.error(JSON.stringify({ continue: true }));
-  process.exit(0);
+  const toolCalls = (conversation.messages ?? []).flatMap((message) =>
+    message.type === 'gemini' ? (message.toolCalls ?? []) : [],
+  );
+  const lastWrite = toolCalls
+    .filter((toolCall) => toolCall.name === WRITE_TODOS_TOOL_NAME)
+    .at(-1);
+  return toSisyphusTodos(lastWrite?.args['todos']);
 }
 
-const transcriptPath = args[0];
+/**
+ * Reads the todo list last written by the `write_todos` tool in a chat
+ * history. Cancelled todos are left out.
+ *
+ * @param history The chat history
+ * @returns The todos, or an empty list if none were written
+ */
+export function getTodosFromHistory(history: Content[]): SisyphusTodo[] {
+  const lastWrite = history
+    .flatMap((content) => (content.role === 'model' ? content.parts : []))
+    .filter((part) => part?.functionCall?.name === WRITE_TODOS_TOOL_NAME)
+    .at(-1);
+  return toSisyphusTodos(lastWrite?.functionCall?.args?.['todos']);
+}
 
-try {
-  if (!fs.existsSync(transcriptPath)) {
-    console.error(JSON.stringify({ continue: true }));
-    process.exit(0);
+function toSisyphusTodos(todos: unknown): SisyphusTodo[] {
+  if (!Array.isArray(todos)) {
+    return [];
   }
 
-  const transcriptContent = fs.readFileSync(transcriptPath, 'utf-8');
-  const messages = JSON.parse(transcriptContent);
-
-  // Look for todo write messages
-  const todoMessages = messages.filter((m: { role: string }) => m.role === 'user');
-
-  // Try to extract todos from the last message
-  // This is a simplified approach - actual implementation would need
-  // to parse structured todo data from the agent context
-
-  // For now, we'll output a reminder that will be injected
-  // if incomplete todos are detected elsewhere in the system
-
-  console.error(JSON.stringify({
-    continue: true,
-    // System message will be injected by the agent system if todos are incomplete
-  }));
-} catch (error) {
-  console.error(JSON.stringify({ continue: true }));
-}
-  `.replace(/\n/g, ' ');
+  return (todos as Todo[])
+    .filter((todo) => todo.status !== 'cancelled')
+    .map((todo) => ({
+      content: todo.description,
+      status: todo.status as SisyphusTodo['status'],
+      activeForm: todo.description,
+    }));
 }
 
 /**
@@ -9,6 +9,7 @@ import * as path from 'node:path';
 import { Storage } from '../config/storage.js';
 import {
   getHookKey,
+  getHookTarget,
   type HookDefinition,
   type HookEventName,
 } from './types.js';
@@ -80,7 +81,7 @@ export class TrustedHooksManager {
           const key = getHookKey(hook);
           if (!trustedKeys.has(key)) {
             // Return friendly name or command
-            untrusted.push(hook.name || hook.command || 'unknown-hook');
+            untrusted.push(hook.name || getHookTarget(hook) || 'unknown-hook');
           }
         }
       }
@@ -25,6 +25,8 @@ export enum ConfigSource {
   User = 'user',
   System = 'system',
   Extensions = 'extensions',
+  /** Hooks registered by the CLI itself, e.g. the ones of Megawork mode */
+  Builtin = 'builtin',
 }
 
 /**
@@ -61,7 +63,49 @@ export interface CommandHookConfig {
   source?: ConfigSource;
 }
 
-export type HookConfig = CommandHookConfig;
+/**
+ * In-process hook configuration. The handler is either given directly, for
+ * hooks registered in code, or exported by an ES module.
+ */
+export interface FunctionHookConfig {
+  type: HookType.Function;
+  /**
+   * Path of the module exporting the handler, relative to the project
+   * directory, or a package specifier
+   */
+  module?: string;
+  /** Name of the exported handler, `default` if omitted */
+  export?: string;
+  /** Handler to call, taking precedence over `module` */
+  handler?: HookFunction;
+  name?: string;
+  description?: string;
+  timeout?: number;
+  source?: ConfigSource;
+}
+
+/**
+ * Webhook configuration. The hook input is POSTed to the URL and the response
+ * body is parsed as the hook output.
+ */
+export interface HttpHookConfig {
+  type: HookType.Http;
+  /** URL the hook input is POSTed to */
+  url?: string;
+  /** Request headers, with `$VAR` and `${VAR}` expanded from the environment */
+  headers?: Record<string, string>;
+  /** Retries of requests failing with a network error, 429 or 5xx */
+  retries?: number;
+  name?: string;
+  description?: string;
+  timeout?: number;
+  source?: ConfigSource;
+}
+
+export type HookConfig =
+  | CommandHookConfig
+  | FunctionHookConfig
+  | HttpHookConfig;
 
 /**
  * Hook definition with matcher
@@ -77,6 +121,23 @@ export interface HookDefinition {
  */
 export enum HookType {
   Command = 'command',
+  Function = 'function',
+  Http = 'http',
+}
+
+/**
+ * Returns what a hook runs: the command of a command hook, the module of a
+ * function hook or the URL of an HTTP hook.
+ */
+export function getHookTarget(hook: HookConfig): string | undefined {
+  switch (hook.type) {
+    case HookType.Function:
+      return hook.module;
+    case HookType.Http:
+      return hook.url;
+    default:
+      return hook.command;
+  }
 }
 
 /**
@@ -84,8 +145,8 @@ export enum HookType {
  */
 export function getHookKey(hook: HookConfig): string {
   const name = hook.name || '';
-  const command = hook.command || '';
-  return `${name}:${command}`;
+  const target = getHookTarget(hook) || '';
+  return `${name}:${target}`;
 }
 
 /**
@@ -600,6 +661,90 @@ export interface BeforeToolSelectionOutput extends HookOutput {
   };
 }
 
+/**
+ * Input of each hook event
+ */
+export interface HookEventInputs {
+  [HookEventName.BeforeTool]: BeforeToolInput;
+  [HookEventName.AfterTool]: AfterToolInput;
+  [HookEventName.BeforeAgent]: BeforeAgentInput;
+  [HookEventName.Notification]: NotificationInput;
+  [HookEventName.AfterAgent]: AfterAgentInput;
+  [HookEventName.SessionStart]: SessionStartInput;
+  [HookEventName.SessionEnd]: SessionEndInput;
+  [HookEventName.PreCompress]: PreCompressInput;
+  [HookEventName.BeforeModel]: BeforeModelInput;
+  [HookEventName.AfterModel]: AfterModelInput;
+  [HookEventName.BeforeToolSelection]: BeforeToolSelectionInput;
+}
+
+/**
+ * Output of each hook event
+ */
+export interface HookEventOutputs {
+  [HookEventName.BeforeTool]: BeforeToolOutput;
+  [HookEventName.AfterTool]: AfterToolOutput;
+  [HookEventName.BeforeAgent]: BeforeAgentOutput;
+  [HookEventName.Notification]: NotificationOutput;
+  [HookEventName.AfterAgent]: HookOutput;
+  [HookEventName.SessionStart]: SessionStartOutput;
+  [HookEventName.SessionEnd]: HookOutput;
+  [HookEventName.PreCompress]: PreCompressOutput;
+  [HookEventName.BeforeModel]: BeforeModelOutput;
+  [HookEventName.AfterModel]: AfterModelOutput;
+  [HookEventName.BeforeToolSelection]: BeforeToolSelectionOutput;
+}
+
+/**
+ * Context passed to function hooks
+ */
+export interface HookFunctionContext {
+  eventName: HookEventName;
+  /** Aborted once the hook times out */
+  signal: AbortSignal;
+}
+
+/**
+ * Handler of a function hook. Returning nothing lets the event proceed
+ * unchanged.
+ */
+export type HookFunction = (
+  input: HookInput,
+  context: HookFunctionContext,
+) => HookOutput | void | Promise<HookOutput | void>;
+
+/**
+ * Handler of a function hook for a single event, with the input and output
+ * types of that event
+ */
+export type TypedHookFunction<E extends HookEventName> = (
+  input: HookEventInputs[E],
+  context: HookFunctionContext,
+) => HookEventOutputs[E] | void | Promise<HookEventOutputs[E] | void>;
+
+/**
+ * Defines the handler of a function hook for the given event.
+ *
+ * @example
+ * ```ts
+ * export default defineHookFunction(HookEventName.BeforeTool, (input) =>
+ *   input.tool_name === 'run_shell_command'
+ *     ? { decision: 'ask', reason: 'Shell commands need a review' }
+ *     : undefined,
+ * );
+ * ```
+ */
+export function defineHookFunction<E extends HookEventName>(
+  _eventName: E,
+  handler: TypedHookFunction<E>,
+): HookFunction {
+  return (input, context) =>
+    handler(input as HookEventInputs[E], context) as
+      | HookOutput
+      | void
+      | Promise<HookOutput | void>;
+}
+
 /**
  * Hook execution result
  */
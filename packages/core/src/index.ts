@@ -41,9 +41,14 @@ export * from './scheduler/scheduler.js';
 export * from './scheduler/types.js';
 export * from './scheduler/tool-executor.js';
 export * from './core/nonInteractiveToolExecutor.js';
+export * from './core/fakeContentGenerator.js';
 export * from './core/recordingContentGenerator.js';
 
 export * from './fallback/types.js';
+export type {
+  ModelCapabilityTag,
+  RoutingCandidate,
+} from './routing/strategies/costAwareStrategy.js';
 
 export * from './code_assist/codeAssist.js';
 export * from './code_assist/oauth2.js';
@@ -173,6 +178,8 @@ export { Storage } from './config/storage.js';
 // Export AI provider integrations
 export * from './zai/index.js';
 export * from './openrouter/index.js';
+export * from './openai-compatible/index.js';
+export * from './tokenizer/index.js';
 
 // Export Sisyphus multi-agent orchestration system
 export * from './tools/sisyphus/index.js';
@@ -0,0 +1,104 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import OpenAI, { APIError } from 'openai';
+import { OpenAICompatibleClient } from './OpenAICompatibleClient.js';
+import type { OpenAIChatChunk, OpenAIChatResponse } from './types.js';
+import { RetryableQuotaError } from '../utils/googleQuotaErrors.js';
+
+const chatResponse: OpenAIChatResponse = {
+  id: 'chatcmpl-1',
+  object: 'chat.completion',
+  created: 0,
+  model: 'glm-4.7',
+  choices: [
+    {
+      index: 0,
+      message: { role: 'assistant', content: 'Hello' },
+      finish_reason: 'stop',
+    },
+  ],
+};
+
+const request = {
+  model: 'glm-4.7',
+  messages: [{ role: 'user' as const, content: 'Hi' }],
+};
+
+const rateLimitError = () =>
+  new APIError(429, undefined, 'Rate limited', { 'retry-after-ms': '10' });
+
+describe('OpenAICompatibleClient', () => {
+  let create: ReturnType<typeof vi.fn>;
+  let client: OpenAICompatibleClient;
+
+  beforeEach(() => {
+    create = vi.fn();
+    vi.spyOn(OpenAI.Chat.Completions.prototype, 'create').mockImplementation(
+      create,
+    );
+    client = new OpenAICompatibleClient({
+      baseUrl: 'http://localhost:8000/v1/',
+      retryOptions: { initialDelayMs: 1, maxDelayMs: 1 },
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should retry rate limited requests after their Retry-After delay', async () => {
+    create
+      .mockRejectedValueOnce(rateLimitError())
+      .mockResolvedValueOnce(chatResponse);
+
+    expect(await client.chat(request)).toEqual(chatResponse);
+    expect(create).toHaveBeenCalledTimes(2);
+  });
+
+  it('should retry server errors', async () => {
+    create
+      .mockRejectedValueOnce(new APIError(503, undefined, 'Overloaded', {}))
+      .mockResolvedValueOnce(chatResponse);
+
+    expect(await client.chat(request)).toEqual(chatResponse);
+  });
+
+  it('should not retry client errors', async () => {
+    create.mockRejectedValue(new APIError(400, undefined, 'Bad request', {}));
+
+    await expect(client.chat(request)).rejects.toThrow('Bad request');
+    expect(create).toHaveBeenCalledOnce();
+  });
+
+  it('should apply the retry options of a request', async () => {
+    create.mockRejectedValue(rateLimitError());
+
+    await expect(
+      client.chat(request, { maxAttempts: 1 }),
+    ).rejects.toBeInstanceOf(RetryableQuotaError);
+    expect(create).toHaveBeenCalledOnce();
+  });
+
+  it('should open streams before returning them', async () => {
+    const chunk = { id: 'chunk-1', choices: [] } as unknown as OpenAIChatChunk;
+    create.mockRejectedValueOnce(rateLimitError()).mockResolvedValueOnce(
+      (async function* () {
+        yield chunk;
+      })(),
+    );
+
+    const stream = await client.streamChat(request);
+
+    expect(create).toHaveBeenCalledTimes(2);
+    const chunks = [];
+    for await (const streamChunk of stream) {
+      chunks.push(streamChunk);
+    }
+    expect(chunks).toEqual([chunk]);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import OpenAI from 'openai';
+import type { RetryOptions } from '../utils/retry.js';
+import { retryWithBackoff } from '../utils/retry.js';
+import type {
+  OpenAIChatChunk,
+  OpenAIChatRequest,
+  OpenAIChatResponse,
+  OpenAIModelInfo,
+  OpenAIReasoningParameters,
+} from './types.js';
+
+export interface OpenAICompatibleClientOptions {
+  baseUrl: string;
+  apiKey?: string;
+  headers?: Record<string, string>;
+  /** Retry policy of the requests, `retryWithBackoff`'s by default */
+  retryOptions?: Partial<RetryOptions>;
+}
+
+/**
+ * Client for any provider exposing an OpenAI-compatible chat completions API
+ * (vLLM, llama.cpp, LiteLLM, Zai, OpenRouter, ...), using the OpenAI SDK with
+ * a custom base URL. Rate limits and server errors are retried with
+ * `retryWithBackoff`, like Gemini requests.
+ */
+export class OpenAICompatibleClient {
+  protected readonly client: OpenAI;
+  protected readonly baseUrl: string;
+  private readonly retryOptions?: Partial<RetryOptions>;
+
+  constructor(options: OpenAICompatibleClientOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.retryOptions = options.retryOptions;
+    this.client = new OpenAI({
+      // Local gateways often run without authentication, but the SDK
+      // refuses to start without a key.
+      apiKey: options.apiKey || 'not-needed',
+      baseURL: this.baseUrl,
+      defaultHeaders: options.headers,
+      // Retries are left to retryWithBackoff.
+      maxRetries: 0,
+    });
+  }
+
+  protected request<T>(
+    fn: () => Promise<T>,
+    retryOptions?: Partial<RetryOptions>,
+  ): Promise<T> {
+    return retryWithBackoff(fn, { ...this.retryOptions, ...retryOptions });
+  }
+
+  /**
+   * Send a chat completion request
+   */
+  async chat(
+    request: OpenAIChatRequest,
+    retryOptions?: Partial<RetryOptions>,
+  ): Promise<OpenAIChatResponse> {
+    const response = await this.request(
+      () =>
+        this.client.chat.completions.create({
+          model: request.model,
+          messages: request.messages,
+          temperature: request.temperature ?? 0.7,
+          max_tokens: request.max_tokens ?? 4096,
+          top_p: request.top_p,
+          tools: request.tools,
+          ...getReasoningParameters(request),
+          stream: false,
+        }),
+      retryOptions,
+    );
+
+    return response as OpenAIChatResponse;
+  }
+
+  /**
+   * Send a streaming chat completion request. The request is sent, and its
+   * errors thrown, before the stream is returned.
+   */
+  async streamChat(
+    request: OpenAIChatRequest,
+    retryOptions?: Partial<RetryOptions>,
+  ): Promise<AsyncGenerator<OpenAIChatChunk>> {
+    const stream = await this.request(
+      () =>
+        this.client.chat.completions.create({
+          model: request.model,
+          messages: request.messages,
+          temperature: request.temperature ?? 0.7,
+          max_tokens: request.max_tokens ?? 4096,
+          top_p: request.top_p,
+          tools: request.tools,
+          ...getReasoningParameters(request),
+          stream: true,
+          stream_options: { include_usage: true },
+        }),
+      retryOptions,
+    );
+
+    return (async function* () {
+      for await (const chunk of stream) {
+        yield chunk as OpenAIChatChunk;
+      }
+    })();
+  }
+
+  /**
+   * List the models served by the provider
+   */
+  async listModels(): Promise<OpenAIModelInfo[]> {
+    const page = await this.request(() => this.client.models.list());
+    return page.data as OpenAIModelInfo[];
+  }
+
+  /**
+   * Generate embeddings
+   * Note: Not all providers support embeddings
+   */
+  async embeddings(text: string, model: string): Promise<number[]> {
+    const response = await this.request(() =>
+      this.client.embeddings.create({
+        model,
+        input: text,
+      }),
+    );
+
+    return response.data[0].embedding;
+  }
+}
+
+/**
+ * The reasoning parameters of a request. `reasoning` and `thinking` are
+ * provider extensions that the SDK passes through untyped.
+ */
+function getReasoningParameters({
+  reasoning,
+  thinking,
+  reasoning_effort,
+}: OpenAIChatRequest): OpenAIReasoningParameters {
+  return { reasoning, thinking, reasoning_effort };
+}
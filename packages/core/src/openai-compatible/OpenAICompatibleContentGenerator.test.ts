@@ -0,0 +1,257 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { GenerateContentParameters } from '@google/genai';
+import type { Config } from '../config/config.js';
+import { OpenAICompatibleContentGenerator } from './OpenAICompatibleContentGenerator.js';
+import { OpenAICompatibleClient } from './OpenAICompatibleClient.js';
+import { UnsupportedInputModalityError } from './modalities.js';
+import type {
+  OpenAIChatResponse,
+  ResolvedOpenAICompatibleProvider,
+} from './types.js';
+import type { UsageMetadataWithCost } from '../telemetry/types.js';
+
+vi.mock('./catalogCache.js', () => ({
+  getModelCatalog: (_providerId: string, listModels: () => Promise<unknown>) =>
+    listModels(),
+}));
+
+const provider: ResolvedOpenAICompatibleProvider = {
+  id: 'test',
+  displayName: 'Test',
+  baseUrl: 'http://localhost:8000/v1',
+  model: 'default-model',
+  modelInputModalities: { 'local-vision': ['text', 'image'] },
+};
+
+const chatResponse: OpenAIChatResponse = {
+  id: 'chatcmpl-1',
+  object: 'chat.completion',
+  created: 0,
+  model: 'vision-model',
+  choices: [
+    {
+      index: 0,
+      message: { role: 'assistant', content: 'A cat.' },
+      finish_reason: 'stop',
+    },
+  ],
+};
+
+function imageRequest(model: string): GenerateContentParameters {
+  return {
+    model,
+    contents: [
+      {
+        role: 'user',
+        parts: [
+          { text: 'Describe this' },
+          { inlineData: { mimeType: 'image/png', data: 'iVBORw0K' } },
+        ],
+      },
+    ],
+  };
+}
+
+describe('OpenAICompatibleContentGenerator', () => {
+  let generator: OpenAICompatibleContentGenerator;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.spyOn(OpenAICompatibleClient.prototype, 'listModels').mockResolvedValue([
+      {
+        id: 'vision-model',
+        architecture: { input_modalities: ['text', 'image'] },
+      },
+      {
+        id: 'text-model',
+        architecture: { input_modalities: ['text'] },
+        pricing: { prompt: '0.000001', completion: '0.000002' },
+      },
+    ]);
+    vi.spyOn(OpenAICompatibleClient.prototype, 'chat').mockResolvedValue(
+      chatResponse,
+    );
+    generator = new OpenAICompatibleContentGenerator(provider, {} as Config);
+  });
+
+  it('should send images to models that accept them', async () => {
+    const response = await generator.generateContent(
+      imageRequest('vision-model'),
+      'prompt-id',
+    );
+
+    expect(response.text).toBe('A cat.');
+    expect(OpenAICompatibleClient.prototype.chat).toHaveBeenCalledWith(
+      expect.objectContaining({
+        model: 'vision-model',
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: 'Describe this' },
+              {
+                type: 'image_url',
+                image_url: { url: 'data:image/png;base64,iVBORw0K' },
+              },
+            ],
+          },
+        ],
+      }),
+      { maxAttempts: 1 },
+    );
+  });
+
+  it('should reject images for text-only models', async () => {
+    await expect(
+      generator.generateContent(imageRequest('text-model'), 'prompt-id'),
+    ).rejects.toThrow(UnsupportedInputModalityError);
+    await expect(
+      generator.generateContentStream(imageRequest('text-model'), 'prompt-id'),
+    ).rejects.toThrow(
+      'Model "text-model" does not accept image input (it accepts: text).',
+    );
+    expect(OpenAICompatibleClient.prototype.chat).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to the modalities declared in the provider settings', async () => {
+    vi.mocked(OpenAICompatibleClient.prototype.listModels).mockRejectedValue(
+      new Error('404 Not Found'),
+    );
+
+    await generator.generateContent(imageRequest('local-vision'), 'prompt-id');
+
+    expect(OpenAICompatibleClient.prototype.chat).toHaveBeenCalled();
+  });
+
+  it('should not list models for text-only requests', async () => {
+    await generator.generateContent(
+      { model: 'text-model', contents: 'hello' },
+      'prompt-id',
+    );
+
+    expect(OpenAICompatibleClient.prototype.listModels).not.toHaveBeenCalled();
+  });
+
+  it('should forward the thinking budget as the reasoning parameter of the provider', async () => {
+    generator = new OpenAICompatibleContentGenerator(
+      { ...provider, reasoningParameter: 'reasoning' },
+      {} as Config,
+    );
+
+    await generator.generateContent(
+      {
+        model: 'text-model',
+        contents: 'hello',
+        config: { thinkingConfig: { thinkingBudget: 4096 } },
+      },
+      'prompt-id',
+    );
+
+    expect(OpenAICompatibleClient.prototype.chat).toHaveBeenCalledWith(
+      expect.objectContaining({ reasoning: { max_tokens: 4096 } }),
+      { maxAttempts: 1 },
+    );
+  });
+
+  it('should price responses from the model pricing', async () => {
+    vi.mocked(OpenAICompatibleClient.prototype.chat).mockResolvedValue({
+      ...chatResponse,
+      usage: {
+        prompt_tokens: 1000,
+        completion_tokens: 500,
+        total_tokens: 1500,
+      },
+    });
+
+    const response = await generator.generateContent(
+      { model: 'text-model', contents: 'hello' },
+      'prompt-id',
+    );
+
+    expect(
+      (response.usageMetadata as UsageMetadataWithCost).costUsd,
+    ).toBeCloseTo(0.002);
+  });
+
+  it('should prefer the cost reported by the provider', async () => {
+    vi.mocked(OpenAICompatibleClient.prototype.chat).mockResolvedValue({
+      ...chatResponse,
+      usage: {
+        prompt_tokens: 1000,
+        completion_tokens: 500,
+        total_tokens: 1500,
+        cost: 0.5,
+      },
+    });
+
+    const response = await generator.generateContent(
+      { model: 'text-model', contents: 'hello' },
+      'prompt-id',
+    );
+
+    expect((response.usageMetadata as UsageMetadataWithCost).costUsd).toBe(0.5);
+    expect(OpenAICompatibleClient.prototype.listModels).not.toHaveBeenCalled();
+  });
+
+  it('should leave the cost of unpriced models unknown', async () => {
+    vi.mocked(OpenAICompatibleClient.prototype.chat).mockResolvedValue({
+      ...chatResponse,
+      usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+    });
+
+    const response = await generator.generateContent(
+      { model: 'vision-model', contents: 'hello' },
+      'prompt-id',
+    );
+
+    expect(
+      (response.usageMetadata as UsageMetadataWithCost).costUsd,
+    ).toBeUndefined();
+  });
+
+  it('should count tokens with the tokenizer of the model', async () => {
+    const request = {
+      model: 'glm-4.7',
+      contents: [{ role: 'user', parts: [{ text: 'Hello, world!' }] }],
+    };
+
+    expect(await generator.countTokens(request)).toEqual({ totalTokens: 4 });
+    expect(
+      await generator.countTokens({ ...request, model: 'mistral-large' }),
+    ).toEqual({ totalTokens: 3 });
+  });
+
+  it('should count the tokens of every turn and function part', async () => {
+    const textOnly = await generator.countTokens({
+      model: 'glm-4.7',
+      contents: [{ role: 'user', parts: [{ text: 'Hello, world!' }] }],
+    });
+    const fullHistory = await generator.countTokens({
+      model: 'glm-4.7',
+      contents: [
+        { role: 'user', parts: [{ text: 'Hello, world!' }] },
+        {
+          role: 'model',
+          parts: [{ functionCall: { name: 'ls', args: { path: '.' } } }],
+        },
+        {
+          role: 'user',
+          parts: [
+            {
+              functionResponse: { name: 'ls', response: { output: 'a.ts' } },
+            },
+          ],
+        },
+        { role: 'model', parts: [{ text: 'There is one file.' }] },
+      ],
+    });
+
+    expect(fullHistory.totalTokens).toBeGreaterThan(textOnly.totalTokens! + 10);
+  });
+});
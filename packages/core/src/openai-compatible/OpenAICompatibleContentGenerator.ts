@@ -0,0 +1,246 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  Part,
+  CountTokensResponse,
+  GenerateContentResponse,
+  GenerateContentParameters,
+  CountTokensParameters,
+  EmbedContentResponse,
+  EmbedContentParameters,
+} from '@google/genai';
+import type { Config } from '../config/config.js';
+import type { ContentGenerator } from '../core/contentGenerator.js';
+import { getServedModel } from './providers.js';
+import { OpenAICompatibleClient } from './OpenAICompatibleClient.js';
+import {
+  fromOpenAIResponse,
+  getRequestInputModalities,
+  getRequestParts,
+  getTextFromParts,
+  toOpenAIMessages,
+  toOpenAITools,
+  toReasoningParameters,
+} from './converter.js';
+import { UnsupportedInputModalityError } from './modalities.js';
+import { calculateCost, getModelPricing } from './pricing.js';
+import { adaptOpenAIStream } from './streamAdapter.js';
+import type {
+  OpenAIChatRequest,
+  OpenAIModelInfo,
+  ResolvedOpenAICompatibleProvider,
+} from './types.js';
+import type { UsageMetadataWithCost } from '../telemetry/types.js';
+import { debugLogger } from '../utils/debugLogger.js';
+import { getModelCatalog } from './catalogCache.js';
+import { estimateTokenCountSync } from '../utils/tokenCalculation.js';
+
+/**
+ * GeminiChat and BaseLlmClient already retry the generator's requests, with
+ * the model fallbacks, so the client does not retry them again.
+ */
+const CHAT_RETRY_OPTIONS = { maxAttempts: 1 };
+
+/**
+ * Content generator for any OpenAI-compatible provider.
+ * Adapts the chat completions API to Gemini's request and response format.
+ */
+export class OpenAICompatibleContentGenerator implements ContentGenerator {
+  protected readonly client: OpenAICompatibleClient;
+  private modelCatalog?: Promise<OpenAIModelInfo[]>;
+
+  constructor(
+    protected readonly provider: ResolvedOpenAICompatibleProvider,
+    _gcConfig: Config,
+    _sessionId?: string,
+  ) {
+    this.client = new OpenAICompatibleClient({
+      baseUrl: provider.baseUrl,
+      apiKey: provider.apiKey,
+      headers: provider.headers,
+    });
+  }
+
+  /**
+   * Get the model to use for requests. Gemini model names (which the rest of
+   * the CLI may still pass along) are replaced by the provider's model.
+   */
+  protected getModel(request: GenerateContentParameters): string {
+    return getServedModel(this.provider, request.model);
+  }
+
+  /**
+   * Get the `/models` metadata of a model. The catalog is read once, from the
+   * cache on disk while it is fresh.
+   */
+  protected async getModelInfo(
+    model: string,
+  ): Promise<OpenAIModelInfo | undefined> {
+    this.modelCatalog ??= getModelCatalog(this.provider.id, () =>
+      this.client.listModels(),
+    ).catch((error) => {
+      debugLogger.debug(
+        `Could not list the models of ${this.provider.displayName}:`,
+        error,
+      );
+      return [];
+    });
+    return (await this.modelCatalog).find((entry) => entry.id === model);
+  }
+
+  /**
+   * Get the input modalities declared for a model, from the provider's
+   * `/models` metadata when it has some, else from the provider settings.
+   * Returns undefined when they are unknown.
+   */
+  protected async getInputModalities(
+    model: string,
+  ): Promise<string[] | undefined> {
+    const info = await this.getModelInfo(model);
+    return (
+      info?.architecture?.input_modalities ??
+      this.provider.modelInputModalities?.[model]
+    );
+  }
+
+  /**
+   * Build the chat completion request for a Gemini request. Throws an
+   * `UnsupportedInputModalityError` when the request carries media the model
+   * is known not to accept.
+   */
+  protected async buildRequest(
+    request: GenerateContentParameters,
+  ): Promise<OpenAIChatRequest> {
+    const model = this.getModel(request);
+    const required = getRequestInputModalities(request);
+    if (required.length > 0) {
+      const supported = await this.getInputModalities(model);
+      const unsupported = required.filter(
+        (modality) => supported && !supported.includes(modality),
+      );
+      if (supported && unsupported.length > 0) {
+        throw new UnsupportedInputModalityError(model, unsupported, supported);
+      }
+    }
+
+    return {
+      model,
+      messages: toOpenAIMessages(request),
+      temperature: request.config?.temperature ?? 0.7,
+      max_tokens:
+        request.config?.maxOutputTokens ??
+        this.provider.maxOutputTokens ??
+        4096,
+      top_p: request.config?.topP,
+      tools: toOpenAITools(request.config?.tools),
+      ...toReasoningParameters(
+        request.config?.thinkingConfig,
+        this.provider.reasoningParameter,
+      ),
+    };
+  }
+
+  /**
+   * Set the cost of a response from the pricing of the model, unless the
+   * provider reported it. The cost stays unknown for unpriced models, and
+   * chunks without usage are left alone so that they do not list the models.
+   */
+  protected async addCost(
+    response: GenerateContentResponse,
+    model: string,
+  ): Promise<void> {
+    const usage = response.usageMetadata as UsageMetadataWithCost | undefined;
+    if (!usage?.totalTokenCount || usage.costUsd !== undefined) {
+      return;
+    }
+    const pricing = getModelPricing(await this.getModelInfo(model));
+    if (pricing) {
+      usage.costUsd = calculateCost(usage, pricing);
+    }
+  }
+
+  private async *addStreamCost(
+    stream: AsyncGenerator<GenerateContentResponse>,
+    model: string,
+  ): AsyncGenerator<GenerateContentResponse> {
+    for await (const chunk of stream) {
+      await this.addCost(chunk, model);
+      yield chunk;
+    }
+  }
+
+  async generateContent(
+    request: GenerateContentParameters,
+    _userPromptId: string,
+  ): Promise<GenerateContentResponse> {
+    const openAIRequest = await this.buildRequest(request);
+    const response = fromOpenAIResponse(
+      await this.client.chat(openAIRequest, CHAT_RETRY_OPTIONS),
+    );
+
+    await this.addCost(response, openAIRequest.model);
+    return response;
+  }
+
+  async generateContentStream(
+    request: GenerateContentParameters,
+    _userPromptId: string,
+  ): Promise<AsyncGenerator<GenerateContentResponse>> {
+    const openAIRequest = await this.buildRequest(request);
+    const stream = await this.client.streamChat(
+      openAIRequest,
+      CHAT_RETRY_OPTIONS,
+    );
+
+    return this.addStreamCost(adaptOpenAIStream(stream), openAIRequest.model);
+  }
+
+  /**
+   * Count tokens locally, as OpenAI-compatible APIs have no counting
+   * endpoint. Models of an unknown family get a heuristic estimate.
+   */
+  async countTokens(
+    request: CountTokensParameters,
+  ): Promise<CountTokensResponse> {
+    return {
+      totalTokens: estimateTokenCountSync(
+        this.extractPartsFromRequest(request),
+        this.getModel(request),
+      ),
+    };
+  }
+
+  async embedContent(
+    request: EmbedContentParameters,
+  ): Promise<EmbedContentResponse> {
+    if (!this.provider.embeddingModel) {
+      throw new Error(
+        `Provider '${this.provider.displayName}' has no embedding model configured.`,
+      );
+    }
+    const content = getTextFromParts(this.extractPartsFromRequest(request));
+    const embedding = await this.client.embeddings(
+      content,
+      this.provider.embeddingModel,
+    );
+
+    return {
+      embedding: {
+        values: embedding,
+      },
+    } as EmbedContentResponse;
+  }
+
+  /**
+   * Extract the parts of all turns of a request
+   */
+  private extractPartsFromRequest(
+    request: CountTokensParameters | EmbedContentParameters,
+  ): Part[] {
+    return request.contents ? getRequestParts(request.contents) : [];
+  }
+}
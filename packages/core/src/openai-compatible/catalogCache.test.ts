@@ -0,0 +1,121 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  getCachedContextLength,
+  getModelCatalog,
+  MODEL_CATALOG_TTL_MS,
+  readModelCatalogSnapshot,
+  resetModelCatalogCacheForTesting,
+} from './catalogCache.js';
+import type { OpenAIModelInfo } from './types.js';
+
+const mockSettingsDir = vi.hoisted(() => ({ path: '' }));
+
+vi.mock('../config/firstRunSetup.js', () => ({
+  getDevoraSettingsDir: () => mockSettingsDir.path,
+}));
+
+const models: OpenAIModelInfo[] = [
+  { id: 'openai/gpt-4o', context_length: 128000 },
+  { id: 'anthropic/claude-sonnet-4', context_length: 200000 },
+];
+
+describe('model catalog cache', () => {
+  beforeEach(() => {
+    mockSettingsDir.path = fs.mkdtempSync(
+      path.join(os.tmpdir(), 'model-catalogs-'),
+    );
+    resetModelCatalogCacheForTesting();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    fs.rmSync(mockSettingsDir.path, { recursive: true, force: true });
+  });
+
+  it('should list the catalog once and save it on disk', async () => {
+    const listModels = vi.fn().mockResolvedValue(models);
+
+    expect(await getModelCatalog('openrouter', listModels)).toEqual(models);
+    expect(await getModelCatalog('openrouter', listModels)).toEqual(models);
+
+    expect(listModels).toHaveBeenCalledOnce();
+    const snapshot = JSON.parse(
+      fs.readFileSync(
+        path.join(mockSettingsDir.path, 'model-catalogs', 'openrouter.json'),
+        'utf-8',
+      ),
+    );
+    expect(snapshot.models).toEqual(models);
+  });
+
+  it('should reuse the snapshot of a previous session', async () => {
+    await getModelCatalog('openrouter', vi.fn().mockResolvedValue(models));
+    resetModelCatalogCacheForTesting();
+    const listModels = vi.fn();
+
+    expect(await getModelCatalog('openrouter', listModels)).toEqual(models);
+    expect(listModels).not.toHaveBeenCalled();
+  });
+
+  it('should list the catalog again once the TTL expires', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    await getModelCatalog('openrouter', vi.fn().mockResolvedValue(models));
+    vi.setSystemTime(Date.now() + MODEL_CATALOG_TTL_MS);
+    const listModels = vi.fn().mockResolvedValue(models.slice(0, 1));
+
+    expect(await getModelCatalog('openrouter', listModels)).toEqual(
+      models.slice(0, 1),
+    );
+    expect(listModels).toHaveBeenCalledOnce();
+  });
+
+  it('should list the catalog again when a refresh is requested', async () => {
+    await getModelCatalog('openrouter', vi.fn().mockResolvedValue(models));
+    const listModels = vi.fn().mockResolvedValue(models.slice(0, 1));
+
+    expect(
+      await getModelCatalog('openrouter', listModels, { refresh: true }),
+    ).toEqual(models.slice(0, 1));
+    expect(readModelCatalogSnapshot('openrouter')?.models).toEqual(
+      models.slice(0, 1),
+    );
+  });
+
+  it('should fall back to the last snapshot when offline', async () => {
+    await getModelCatalog('openrouter', vi.fn().mockResolvedValue(models));
+
+    expect(
+      await getModelCatalog(
+        'openrouter',
+        vi.fn().mockRejectedValue(new Error('fetch failed')),
+        { refresh: true },
+      ),
+    ).toEqual(models);
+  });
+
+  it('should throw when offline without a snapshot', async () => {
+    await expect(
+      getModelCatalog(
+        'openrouter',
+        vi.fn().mockRejectedValue(new Error('fetch failed')),
+      ),
+    ).rejects.toThrow('fetch failed');
+  });
+
+  it('should find context lengths in the snapshots on disk', async () => {
+    await getModelCatalog('openrouter', vi.fn().mockResolvedValue(models));
+    resetModelCatalogCacheForTesting();
+
+    expect(getCachedContextLength('anthropic/claude-sonnet-4')).toBe(200000);
+    expect(getCachedContextLength('unknown-model')).toBeUndefined();
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { getDevoraSettingsDir } from '../config/firstRunSetup.js';
+import { debugLogger } from '../utils/debugLogger.js';
+import type { OpenAIModelInfo } from './types.js';
+
+/** How long a provider's `/models` catalog is reused before listing it again */
+export const MODEL_CATALOG_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A provider's `/models` catalog as last listed
+ */
+export interface ModelCatalogSnapshot {
+  /** When the catalog was listed, in milliseconds since the epoch */
+  fetchedAt: number;
+  models: OpenAIModelInfo[];
+}
+
+export interface ModelCatalogOptions {
+  /** List the catalog again even when the snapshot is fresh */
+  refresh?: boolean;
+  ttlMs?: number;
+}
+
+// Snapshots read or written by this process, by provider id.
+const snapshots = new Map<string, ModelCatalogSnapshot>();
+const pendingListings = new Map<string, Promise<OpenAIModelInfo[]>>();
+let allSnapshotsLoaded = false;
+
+function getModelCatalogDir(): string {
+  return path.join(getDevoraSettingsDir(), 'model-catalogs');
+}
+
+function getModelCatalogPath(providerId: string): string {
+  return path.join(
+    getModelCatalogDir(),
+    `${providerId.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`,
+  );
+}
+
+function readSnapshotFile(filePath: string): ModelCatalogSnapshot | undefined {
+  try {
+    const snapshot = JSON.parse(
+      fs.readFileSync(filePath, 'utf-8'),
+    ) as ModelCatalogSnapshot;
+    return typeof snapshot.fetchedAt === 'number' &&
+      Array.isArray(snapshot.models)
+      ? snapshot
+      : undefined;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      debugLogger.debug(`Could not read the model catalog ${filePath}:`, error);
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Returns the last snapshot of a provider's catalog, or undefined when it was
+ * never listed.
+ */
+export function readModelCatalogSnapshot(
+  providerId: string,
+): ModelCatalogSnapshot | undefined {
+  if (!snapshots.has(providerId)) {
+    const snapshot = readSnapshotFile(getModelCatalogPath(providerId));
+    if (snapshot) {
+      snapshots.set(providerId, snapshot);
+    }
+  }
+  return snapshots.get(providerId);
+}
+
+function writeModelCatalogSnapshot(
+  providerId: string,
+  snapshot: ModelCatalogSnapshot,
+): void {
+  snapshots.set(providerId, snapshot);
+  try {
+    fs.mkdirSync(getModelCatalogDir(), { recursive: true });
+    fs.writeFileSync(
+      getModelCatalogPath(providerId),
+      JSON.stringify(snapshot),
+      'utf-8',
+    );
+  } catch (error) {
+    debugLogger.debug(
+      `Could not save the model catalog of ${providerId}:`,
+      error,
+    );
+  }
+}
+
+async function listAndCache(
+  providerId: string,
+  listModels: () => Promise<OpenAIModelInfo[]>,
+): Promise<OpenAIModelInfo[]> {
+  try {
+    const models = await listModels();
+    if (models.length > 0) {
+      writeModelCatalogSnapshot(providerId, { fetchedAt: Date.now(), models });
+    }
+    return models;
+  } catch (error) {
+    const snapshot = readModelCatalogSnapshot(providerId);
+    if (!snapshot) {
+      throw error;
+    }
+    debugLogger.warn(
+      `Could not list the models of ${providerId}, using the catalog from ${new Date(
+        snapshot.fetchedAt,
+      ).toISOString()}:`,
+      error,
+    );
+    return snapshot.models;
+  }
+}
+
+/**
+ * Returns a provider's `/models` catalog, listing it with `listModels` only
+ * when the snapshot on disk is older than the TTL or a refresh is requested.
+ * When listing fails, the last snapshot is used if there is one.
+ */
+export async function getModelCatalog(
+  providerId: string,
+  listModels: () => Promise<OpenAIModelInfo[]>,
+  { refresh = false, ttlMs = MODEL_CATALOG_TTL_MS }: ModelCatalogOptions = {},
+): Promise<OpenAIModelInfo[]> {
+  const snapshot = readModelCatalogSnapshot(providerId);
+  if (!refresh && snapshot && Date.now() - snapshot.fetchedAt < ttlMs) {
+    return snapshot.models;
+  }
+
+  let listing = pendingListings.get(providerId);
+  if (!listing) {
+    listing = listAndCache(providerId, listModels).finally(() =>
+      pendingListings.delete(providerId),
+    );
+    pendingListings.set(providerId, listing);
+  }
+  return listing;
+}
+
+/**
+ * Returns the context window of a model from the cached catalogs, or
+ * undefined when no provider describes it.
+ */
+export function getCachedContextLength(model: string): number | undefined {
+  if (!allSnapshotsLoaded) {
+    allSnapshotsLoaded = true;
+    let files: string[] = [];
+    try {
+      files = fs.readdirSync(getModelCatalogDir());
+    } catch {
+      // Nothing was cached yet.
+    }
+    for (const file of files) {
+      const providerId = path.basename(file, '.json');
+      if (file.endsWith('.json') && !snapshots.has(providerId)) {
+        const snapshot = readSnapshotFile(
+          path.join(getModelCatalogDir(), file),
+        );
+        if (snapshot) {
+          snapshots.set(providerId, snapshot);
+        }
+      }
+    }
+  }
+
+  for (const snapshot of snapshots.values()) {
+    const contextLength = snapshot.models.find(
+      (info) => info.id === model,
+    )?.context_length;
+    if (contextLength) {
+      return contextLength;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Forgets the snapshots read by this process.
+ */
+export function resetModelCatalogCacheForTesting(): void {
+  snapshots.clear();
+  pendingListings.clear();
+  allSnapshotsLoaded = false;
+}
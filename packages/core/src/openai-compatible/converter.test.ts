@@ -0,0 +1,490 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { FinishReason, ThinkingLevel, Type } from '@google/genai';
+import {
+  fromOpenAIResponse,
+  getRequestInputModalities,
+  toFinishReason,
+  toFunctionCallParts,
+  toOpenAIMessages,
+  toOpenAITools,
+  toReasoningParameters,
+} from './converter.js';
+import type { OpenAIChatResponse } from './types.js';
+
+describe('toOpenAITools', () => {
+  it('should return undefined when there are no function declarations', () => {
+    expect(toOpenAITools(undefined)).toBeUndefined();
+    expect(toOpenAITools([{ functionDeclarations: [] }])).toBeUndefined();
+  });
+
+  it('should prefer parametersJsonSchema', () => {
+    const schema = {
+      type: 'object',
+      properties: { file_path: { type: 'string' } },
+      required: ['file_path'],
+    };
+    expect(
+      toOpenAITools([
+        {
+          functionDeclarations: [
+            {
+              name: 'read_file',
+              description: 'Reads a file',
+              parametersJsonSchema: schema,
+            },
+          ],
+        },
+      ]),
+    ).toEqual([
+      {
+        type: 'function',
+        function: {
+          name: 'read_file',
+          description: 'Reads a file',
+          parameters: schema,
+        },
+      },
+    ]);
+  });
+
+  it('should lower-case Gemini schema types', () => {
+    const tools = toOpenAITools([
+      {
+        functionDeclarations: [
+          {
+            name: 'write_todos',
+            parameters: {
+              type: Type.OBJECT,
+              properties: {
+                todos: { type: Type.ARRAY, items: { type: Type.STRING } },
+              },
+            },
+          },
+        ],
+      },
+    ]);
+    expect(tools?.[0].function.parameters).toEqual({
+      type: 'object',
+      properties: {
+        todos: { type: 'array', items: { type: 'string' } },
+      },
+    });
+  });
+});
+
+describe('toReasoningParameters', () => {
+  it('should leave reasoning to the provider without a budget or level', () => {
+    expect(
+      toReasoningParameters({ includeThoughts: true }, 'reasoning'),
+    ).toEqual({});
+    expect(toReasoningParameters({ thinkingBudget: 1024 }, undefined)).toEqual(
+      {},
+    );
+  });
+
+  it('should send budgets as OpenRouter reasoning settings', () => {
+    expect(
+      toReasoningParameters({ thinkingBudget: 8192 }, 'reasoning'),
+    ).toEqual({ reasoning: { max_tokens: 8192 } });
+    expect(toReasoningParameters({ thinkingBudget: 0 }, 'reasoning')).toEqual({
+      reasoning: { enabled: false },
+    });
+    expect(toReasoningParameters({ thinkingBudget: -1 }, 'reasoning')).toEqual({
+      reasoning: { enabled: true },
+    });
+    expect(
+      toReasoningParameters({ thinkingLevel: ThinkingLevel.HIGH }, 'reasoning'),
+    ).toEqual({ reasoning: { effort: 'high' } });
+  });
+
+  it('should switch Zai thinking on and off', () => {
+    expect(
+      toReasoningParameters({ thinkingBudget: 32000 }, 'thinking'),
+    ).toEqual({ thinking: { type: 'enabled' } });
+    expect(toReasoningParameters({ thinkingBudget: 0 }, 'thinking')).toEqual({
+      thinking: { type: 'disabled' },
+    });
+  });
+
+  it.each([
+    [512, 'low'],
+    [8192, 'medium'],
+    [32000, 'high'],
+    [-1, 'medium'],
+  ])('should map a budget of %s to a %s reasoning effort', (budget, effort) => {
+    expect(
+      toReasoningParameters({ thinkingBudget: budget }, 'reasoning_effort'),
+    ).toEqual({ reasoning_effort: effort });
+  });
+});
+
+describe('toOpenAIMessages', () => {
+  it('should convert the system instruction and text contents', () => {
+    expect(
+      toOpenAIMessages({
+        model: 'test-model',
+        config: { systemInstruction: 'You are helpful.' },
+        contents: [
+          { role: 'user', parts: [{ text: 'Hello' }] },
+          {
+            role: 'model',
+            parts: [{ text: 'thinking...', thought: true }, { text: 'Hi!' }],
+          },
+        ],
+      }),
+    ).toEqual([
+      { role: 'system', content: 'You are helpful.' },
+      { role: 'user', content: 'Hello' },
+      { role: 'assistant', content: 'Hi!' },
+    ]);
+  });
+
+  it('should map function calls and responses to tool calls and tool messages', () => {
+    const messages = toOpenAIMessages({
+      model: 'test-model',
+      contents: [
+        { role: 'user', parts: [{ text: 'Read a.txt' }] },
+        {
+          role: 'model',
+          parts: [
+            {
+              functionCall: {
+                id: 'call_abc',
+                name: 'read_file',
+                args: { file_path: 'a.txt' },
+              },
+            },
+          ],
+        },
+        {
+          role: 'user',
+          parts: [
+            {
+              functionResponse: {
+                id: 'call_abc',
+                name: 'read_file',
+                response: { output: 'file contents' },
+              },
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(messages).toEqual([
+      { role: 'user', content: 'Read a.txt' },
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: [
+          {
+            id: 'call_abc',
+            type: 'function',
+            function: {
+              name: 'read_file',
+              arguments: '{"file_path":"a.txt"}',
+            },
+          },
+        ],
+      },
+      { role: 'tool', tool_call_id: 'call_abc', content: 'file contents' },
+    ]);
+  });
+
+  it('should pair calls and responses without ids by name', () => {
+    const messages = toOpenAIMessages({
+      model: 'test-model',
+      contents: [
+        {
+          role: 'model',
+          parts: [{ functionCall: { name: 'ls', args: {} } }],
+        },
+        {
+          role: 'user',
+          parts: [
+            {
+              functionResponse: {
+                name: 'ls',
+                response: { error: 'not found' },
+              },
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(messages[0]).toMatchObject({
+      tool_calls: [{ id: 'call_0' }],
+    });
+    expect(messages[1]).toEqual({
+      role: 'tool',
+      tool_call_id: 'call_0',
+      content: '{"error":"not found"}',
+    });
+  });
+
+  it('should send images and PDFs as content parts', () => {
+    const messages = toOpenAIMessages({
+      model: 'test-model',
+      contents: [
+        {
+          role: 'user',
+          parts: [
+            { text: 'What is in these files?' },
+            { inlineData: { mimeType: 'image/png', data: 'iVBORw0K' } },
+            {
+              inlineData: {
+                mimeType: 'application/pdf',
+                data: 'JVBERi0x',
+                displayName: 'spec.pdf',
+              },
+            },
+            {
+              fileData: {
+                mimeType: 'image/jpeg',
+                fileUri: 'https://example.com/cat.jpg',
+              },
+            },
+            { inlineData: { mimeType: 'audio/mpeg', data: 'SUQz' } },
+          ],
+        },
+      ],
+    });
+
+    expect(messages).toEqual([
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'What is in these files?' },
+          {
+            type: 'image_url',
+            image_url: { url: 'data:image/png;base64,iVBORw0K' },
+          },
+          {
+            type: 'file',
+            file: {
+              filename: 'spec.pdf',
+              file_data: 'data:application/pdf;base64,JVBERi0x',
+            },
+          },
+          {
+            type: 'image_url',
+            image_url: { url: 'https://example.com/cat.jpg' },
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('should move images returned by tools into the user message', () => {
+    const messages = toOpenAIMessages({
+      model: 'test-model',
+      contents: [
+        {
+          role: 'model',
+          parts: [
+            {
+              functionCall: {
+                id: 'call_1',
+                name: 'read_file',
+                args: { file_path: 'a.png' },
+              },
+            },
+          ],
+        },
+        {
+          role: 'user',
+          parts: [
+            {
+              functionResponse: {
+                id: 'call_1',
+                name: 'read_file',
+                response: { output: 'Binary content provided (1 item(s)).' },
+              },
+            },
+            { inlineData: { mimeType: 'image/png', data: 'iVBORw0K' } },
+          ],
+        },
+      ],
+    });
+
+    expect(messages.slice(1)).toEqual([
+      {
+        role: 'tool',
+        tool_call_id: 'call_1',
+        content: 'Binary content provided (1 item(s)).',
+      },
+      {
+        role: 'user',
+        content: [
+          {
+            type: 'image_url',
+            image_url: { url: 'data:image/png;base64,iVBORw0K' },
+          },
+        ],
+      },
+    ]);
+  });
+});
+
+describe('getRequestInputModalities', () => {
+  it('should list the modalities of media parts, including nested ones', () => {
+    expect(
+      getRequestInputModalities({
+        model: 'test-model',
+        contents: [
+          {
+            role: 'user',
+            parts: [
+              { text: 'hello' },
+              {
+                functionResponse: {
+                  name: 'read_file',
+                  response: {},
+                  parts: [
+                    {
+                      inlineData: {
+                        mimeType: 'application/pdf',
+                        data: 'JVBERi0x',
+                      },
+                    },
+                  ],
+                },
+              },
+              { inlineData: { mimeType: 'image/webp', data: 'UklGR' } },
+            ],
+          },
+        ],
+      }),
+    ).toEqual(['file', 'image']);
+  });
+
+  it('should return an empty list for text-only requests', () => {
+    expect(
+      getRequestInputModalities({ model: 'test-model', contents: 'hello' }),
+    ).toEqual([]);
+  });
+});
+
+describe('toFunctionCallParts', () => {
+  it('should parse tool call arguments', () => {
+    expect(
+      toFunctionCallParts([
+        {
+          id: 'call_1',
+          type: 'function',
+          function: { name: 'glob', arguments: '{"pattern":"*.ts"}' },
+        },
+        {
+          id: 'call_2',
+          type: 'function',
+          function: { name: 'ls', arguments: 'not json' },
+        },
+      ]),
+    ).toEqual([
+      {
+        functionCall: { id: 'call_1', name: 'glob', args: { pattern: '*.ts' } },
+      },
+      { functionCall: { id: 'call_2', name: 'ls', args: {} } },
+    ]);
+  });
+});
+
+describe('toFinishReason', () => {
+  it.each([
+    [undefined, FinishReason.STOP],
+    ['stop', FinishReason.STOP],
+    ['tool_calls', FinishReason.STOP],
+    ['length', FinishReason.MAX_TOKENS],
+    ['content_filter', FinishReason.SAFETY],
+    ['error', FinishReason.OTHER],
+  ])('should map %s to %s', (finishReason, expected) => {
+    expect(toFinishReason(finishReason)).toBe(expected);
+  });
+});
+
+describe('fromOpenAIResponse', () => {
+  it('should convert text and tool calls into a Gemini response', () => {
+    const response = fromOpenAIResponse({
+      id: 'gen-1',
+      object: 'chat.completion',
+      created: 0,
+      model: 'anthropic/claude-3.5-sonnet',
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: 'assistant',
+            content: 'Let me look.',
+            tool_calls: [
+              {
+                id: 'call_1',
+                type: 'function',
+                function: { name: 'ls', arguments: '{"path":"."}' },
+              },
+            ],
+          },
+          finish_reason: 'tool_calls',
+        },
+      ],
+      usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+    } as OpenAIChatResponse);
+
+    expect(response.text).toBe('Let me look.');
+    expect(response.functionCalls).toEqual([
+      { id: 'call_1', name: 'ls', args: { path: '.' } },
+    ]);
+    expect(response.candidates?.[0].finishReason).toBe(FinishReason.STOP);
+    expect(response.usageMetadata?.totalTokenCount).toBe(15);
+  });
+
+  it('should map a truncated response to MAX_TOKENS', () => {
+    const response = fromOpenAIResponse({
+      id: 'gen-2',
+      object: 'chat.completion',
+      created: 0,
+      model: 'glm-4.7',
+      choices: [
+        {
+          index: 0,
+          message: { role: 'assistant', content: 'Partial' },
+          finish_reason: 'length',
+        },
+      ],
+    });
+
+    expect(response.candidates?.[0].finishReason).toBe(FinishReason.MAX_TOKENS);
+  });
+
+  it('should return reasoning as a thought part', () => {
+    const response = fromOpenAIResponse({
+      id: 'gen-3',
+      object: 'chat.completion',
+      created: 0,
+      model: 'glm-4.7',
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: 'assistant',
+            content: 'Done.',
+            reasoning_content: 'The user wants a summary.',
+          },
+          finish_reason: 'stop',
+        },
+      ],
+    });
+
+    expect(response.candidates?.[0].content?.parts).toEqual([
+      { text: 'The user wants a summary.', thought: true },
+      { text: 'Done.' },
+    ]);
+    expect(response.text).toBe('Done.');
+  });
+});
@@ -0,0 +1,526 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  Content,
+  ContentListUnion,
+  ContentUnion,
+  FunctionCall,
+  FunctionDeclaration,
+  GenerateContentParameters,
+  Part,
+  PartUnion,
+  Schema,
+  ThinkingConfig,
+  ToolListUnion,
+} from '@google/genai';
+import {
+  FinishReason,
+  GenerateContentResponse,
+  ThinkingLevel,
+} from '@google/genai';
+import type { MediaInputModality } from './modalities.js';
+import { getInputModality } from './modalities.js';
+import type {
+  OpenAIChatResponse,
+  OpenAIContentPart,
+  OpenAIMessage,
+  OpenAIReasoningContent,
+  OpenAIReasoningEffort,
+  OpenAIReasoningParameters,
+  OpenAITool,
+  OpenAIToolCall,
+  OpenAIUsage,
+} from './types.js';
+import type { UsageMetadataWithCost } from '../telemetry/types.js';
+
+/**
+ * Converts the function declarations of a Gemini request into OpenAI-style
+ * `tools`. Returns undefined when the request declares no functions.
+ */
+export function toOpenAITools(
+  tools: ToolListUnion | undefined,
+): OpenAITool[] | undefined {
+  if (!tools) {
+    return undefined;
+  }
+
+  const result: OpenAITool[] = [];
+  for (const tool of tools) {
+    const declarations =
+      'functionDeclarations' in tool ? tool.functionDeclarations : undefined;
+    for (const declaration of declarations ?? []) {
+      result.push(toOpenAITool(declaration));
+    }
+  }
+
+  return result.length > 0 ? result : undefined;
+}
+
+function toOpenAITool(declaration: FunctionDeclaration): OpenAITool {
+  const parameters =
+    declaration.parametersJsonSchema ??
+    (declaration.parameters
+      ? toJsonSchema(declaration.parameters)
+      : { type: 'object', properties: {} });
+
+  return {
+    type: 'function',
+    function: {
+      name: declaration.name ?? '',
+      description: declaration.description,
+      parameters: parameters as Record<string, unknown>,
+    },
+  };
+}
+
+/**
+ * Gemini `Schema` objects use upper-case type names (e.g. `OBJECT`), while
+ * JSON Schema expects lower-case ones.
+ */
+function toJsonSchema(schema: Schema): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (value === undefined) {
+      continue;
+    }
+    if (key === 'type' && typeof value === 'string') {
+      result[key] = value.toLowerCase();
+    } else if (key === 'properties' && value && typeof value === 'object') {
+      result[key] = Object.fromEntries(
+        Object.entries(value as Record<string, Schema>).map(([name, prop]) => [
+          name,
+          toJsonSchema(prop),
+        ]),
+      );
+    } else if (key === 'items' && value && typeof value === 'object') {
+      result[key] = toJsonSchema(value as Schema);
+    } else if (key === 'anyOf' && Array.isArray(value)) {
+      result[key] = (value as Schema[]).map(toJsonSchema);
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Converts the thinking config of a Gemini request into the reasoning
+ * parameter of a provider. A budget of 0 turns reasoning off where the
+ * provider allows it and -1 lets the model decide. Returns no parameters when
+ * the request sets neither a budget nor a level, leaving the provider's
+ * defaults in place.
+ */
+export function toReasoningParameters(
+  thinkingConfig: ThinkingConfig | undefined,
+  reasoningParameter: keyof OpenAIReasoningParameters | undefined,
+): OpenAIReasoningParameters {
+  const budget = thinkingConfig?.thinkingBudget;
+  const effort = toReasoningEffort(thinkingConfig);
+  if (!reasoningParameter || (budget === undefined && !effort)) {
+    return {};
+  }
+
+  switch (reasoningParameter) {
+    case 'thinking':
+      return { thinking: { type: budget === 0 ? 'disabled' : 'enabled' } };
+    case 'reasoning':
+      if (budget === 0) {
+        return { reasoning: { enabled: false } };
+      }
+      if (budget !== undefined && budget > 0) {
+        return { reasoning: { max_tokens: budget } };
+      }
+      return { reasoning: effort ? { effort } : { enabled: true } };
+    case 'reasoning_effort':
+      return { reasoning_effort: effort ?? 'medium' };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Buckets a thinking budget or level into an OpenAI reasoning effort.
+ */
+function toReasoningEffort(
+  thinkingConfig: ThinkingConfig | undefined,
+): OpenAIReasoningEffort | undefined {
+  const budget = thinkingConfig?.thinkingBudget;
+  if (budget !== undefined && budget >= 0) {
+    if (budget <= 2048) {
+      return 'low';
+    }
+    return budget <= 16384 ? 'medium' : 'high';
+  }
+  switch (thinkingConfig?.thinkingLevel) {
+    case ThinkingLevel.LOW:
+      return 'low';
+    case ThinkingLevel.HIGH:
+      return 'high';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Converts the system instruction and contents of a Gemini request into
+ * OpenAI-style chat messages.
+ *
+ * `functionCall` parts become assistant `tool_calls` and `functionResponse`
+ * parts become `tool` messages. Gemini calls without an id are given a
+ * synthetic one so that the responses that follow can be paired with them.
+ * Image and PDF parts, including the ones nested in function responses, are
+ * sent as content parts of the user message.
+ */
+export function toOpenAIMessages(
+  request: GenerateContentParameters,
+): OpenAIMessage[] {
+  const messages: OpenAIMessage[] = [];
+
+  const systemText = getSystemInstructionText(
+    request.config?.systemInstruction,
+  );
+  if (systemText) {
+    messages.push({ role: 'system', content: systemText });
+  }
+
+  const pendingCallIds = new Map<string, string[]>();
+  let syntheticIdCounter = 0;
+
+  const contents = request.contents ? toContents(request.contents) : [];
+  for (const content of contents) {
+    const parts = content.parts ?? [];
+
+    if (content.role === 'model') {
+      const text = getTextFromParts(parts);
+      const toolCalls: OpenAIToolCall[] = [];
+      for (const part of parts) {
+        if (!part.functionCall) {
+          continue;
+        }
+        const name = part.functionCall.name ?? '';
+        const id = part.functionCall.id ?? `call_${syntheticIdCounter++}`;
+        pendingCallIds.set(name, [...(pendingCallIds.get(name) ?? []), id]);
+        toolCalls.push({
+          id,
+          type: 'function',
+          function: {
+            name,
+            arguments: JSON.stringify(part.functionCall.args ?? {}),
+          },
+        });
+      }
+
+      if (toolCalls.length > 0) {
+        messages.push({
+          role: 'assistant',
+          content: text || null,
+          tool_calls: toolCalls,
+        });
+      } else if (text) {
+        messages.push({ role: 'assistant', content: text });
+      }
+      continue;
+    }
+
+    for (const part of parts) {
+      if (!part.functionResponse) {
+        continue;
+      }
+      const name = part.functionResponse.name ?? '';
+      const queue = pendingCallIds.get(name) ?? [];
+      const queuedId = queue.shift();
+      messages.push({
+        role: 'tool',
+        tool_call_id: part.functionResponse.id ?? queuedId ?? name,
+        content: functionResponseToText(part.functionResponse.response),
+      });
+    }
+
+    const userContent = toUserContent(parts);
+    if (userContent) {
+      messages.push({ role: 'user', content: userContent });
+    }
+  }
+
+  return messages;
+}
+
+/**
+ * Returns the media input modalities needed to read the parts of a request.
+ */
+export function getRequestInputModalities(
+  request: GenerateContentParameters,
+): MediaInputModality[] {
+  const modalities = new Set<MediaInputModality>();
+  const contents = request.contents ? toContents(request.contents) : [];
+  for (const content of contents) {
+    for (const part of (content.parts ?? []).flatMap(getMediaParts)) {
+      const modality = getInputModality(
+        (part.inlineData ?? part.fileData)?.mimeType,
+      );
+      if (modality) {
+        modalities.add(modality);
+      }
+    }
+  }
+  return Array.from(modalities);
+}
+
+/**
+ * Returns the parts of every turn of the given contents, in order.
+ */
+export function getRequestParts(contents: ContentListUnion): Part[] {
+  return toContents(contents).flatMap((content) => content.parts ?? []);
+}
+
+/**
+ * Text-only content is sent as a plain string, for the benefit of providers
+ * that do not accept content parts.
+ */
+function toUserContent(
+  parts: Part[],
+): string | OpenAIContentPart[] | undefined {
+  const contentParts: OpenAIContentPart[] = [];
+  for (const part of parts) {
+    if (part.text && !part.thought) {
+      contentParts.push({ type: 'text', text: part.text });
+      continue;
+    }
+    for (const mediaPart of getMediaParts(part)) {
+      const contentPart = toMediaContentPart(mediaPart);
+      if (contentPart) {
+        contentParts.push(contentPart);
+      }
+    }
+  }
+
+  if (contentParts.some((part) => part.type !== 'text')) {
+    return contentParts;
+  }
+  const text = getTextFromParts(parts);
+  return text || undefined;
+}
+
+/**
+ * Returns the `inlineData` and `fileData` parts held by a part, looking into
+ * the nested parts of multimodal function responses.
+ */
+function getMediaParts(part: Part): Part[] {
+  if (part.inlineData || part.fileData) {
+    return [part];
+  }
+  return (part.functionResponse?.parts ?? []).filter(
+    (nested) => nested.inlineData || nested.fileData,
+  );
+}
+
+function toMediaContentPart(part: Part): OpenAIContentPart | undefined {
+  const mimeType = (part.inlineData ?? part.fileData)?.mimeType;
+  const url = part.inlineData
+    ? `data:${mimeType};base64,${part.inlineData.data ?? ''}`
+    : part.fileData?.fileUri;
+  if (!url) {
+    return undefined;
+  }
+
+  switch (getInputModality(mimeType)) {
+    case 'image':
+      return { type: 'image_url', image_url: { url } };
+    case 'file':
+      return {
+        type: 'file',
+        file: {
+          filename:
+            (part.inlineData ?? part.fileData)?.displayName ?? 'document.pdf',
+          file_data: url,
+        },
+      };
+    default:
+      return undefined;
+  }
+}
+
+function toContents(contents: ContentListUnion): Content[] {
+  if (typeof contents === 'string') {
+    return [{ role: 'user', parts: [{ text: contents }] }];
+  }
+  if (!Array.isArray(contents)) {
+    return [toContent(contents)];
+  }
+  if (contents.every((item) => typeof item === 'object' && 'parts' in item)) {
+    return contents as Content[];
+  }
+  return [toContent(contents as PartUnion[])];
+}
+
+function toContent(content: ContentUnion): Content {
+  if (typeof content === 'object' && 'parts' in content) {
+    return content;
+  }
+  const parts = Array.isArray(content) ? content : [content];
+  return {
+    role: 'user',
+    parts: parts.map((part) =>
+      typeof part === 'string' ? { text: part } : (part as Part),
+    ),
+  };
+}
+
+function getSystemInstructionText(
+  systemInstruction: ContentUnion | undefined,
+): string {
+  if (!systemInstruction) {
+    return '';
+  }
+  if (typeof systemInstruction === 'string') {
+    return systemInstruction;
+  }
+  return toContents(systemInstruction)
+    .map((content) => getTextFromParts(content.parts ?? []))
+    .filter((text) => text)
+    .join('\n');
+}
+
+/**
+ * Joins the text of the given parts, skipping thoughts since they are not
+ * meant to be sent back to the model.
+ */
+export function getTextFromParts(parts: Part[]): string {
+  return parts
+    .filter((part) => !part.thought && part.text)
+    .map((part) => part.text)
+    .join('\n');
+}
+
+function functionResponseToText(
+  response: Record<string, unknown> | undefined,
+): string {
+  if (!response) {
+    return '';
+  }
+  const output = response['output'];
+  if (typeof output === 'string' && Object.keys(response).length === 1) {
+    return output;
+  }
+  return JSON.stringify(response);
+}
+
+/**
+ * Converts OpenAI-style tool calls returned by the model into Gemini
+ * `functionCall` parts.
+ */
+export function toFunctionCallParts(
+  toolCalls: OpenAIToolCall[] | undefined,
+): Part[] {
+  return (toolCalls ?? []).map((toolCall) => ({
+    functionCall: toFunctionCall(toolCall),
+  }));
+}
+
+function toFunctionCall(toolCall: OpenAIToolCall): FunctionCall {
+  return {
+    id: toolCall.id,
+    name: toolCall.function.name,
+    args: parseToolArguments(toolCall.function.arguments),
+  };
+}
+
+function parseToolArguments(args: string | undefined): Record<string, unknown> {
+  if (!args) {
+    return {};
+  }
+  try {
+    const parsed: unknown = JSON.parse(args);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Maps an OpenAI `finish_reason` to the equivalent Gemini `FinishReason`.
+ * A missing reason is treated as a normal stop.
+ */
+export function toFinishReason(
+  finishReason: string | null | undefined,
+): FinishReason {
+  switch (finishReason) {
+    case undefined:
+    case null:
+    case 'stop':
+    case 'tool_calls':
+    case 'function_call':
+      return FinishReason.STOP;
+    case 'length':
+      return FinishReason.MAX_TOKENS;
+    case 'content_filter':
+      return FinishReason.SAFETY;
+    default:
+      return FinishReason.OTHER;
+  }
+}
+
+/**
+ * Converts OpenAI token usage into Gemini usage metadata, keeping the cost
+ * when the provider reports it.
+ */
+export function toUsageMetadata(
+  usage: OpenAIUsage | null | undefined,
+): UsageMetadataWithCost {
+  return {
+    promptTokenCount: usage?.prompt_tokens || 0,
+    candidatesTokenCount: usage?.completion_tokens || 0,
+    totalTokenCount: usage?.total_tokens || 0,
+    cachedContentTokenCount: usage?.prompt_tokens_details?.cached_tokens,
+    thoughtsTokenCount: usage?.completion_tokens_details?.reasoning_tokens,
+    costUsd: usage?.cost,
+  };
+}
+
+/**
+ * Returns the reasoning text of a message or stream delta, which providers
+ * send either as `reasoning_content` or as `reasoning`.
+ */
+export function getReasoningText(
+  content: OpenAIReasoningContent,
+): string | undefined {
+  return content.reasoning_content || content.reasoning || undefined;
+}
+
+/**
+ * Converts a non-streaming chat completion into a Gemini response. Reasoning
+ * is returned as a thought part ahead of the answer.
+ */
+export function fromOpenAIResponse(
+  response: OpenAIChatResponse,
+): GenerateContentResponse {
+  const choice = response.choices[0];
+  const parts: Part[] = [];
+  const reasoning = choice?.message && getReasoningText(choice.message);
+  if (reasoning) {
+    parts.push({ text: reasoning, thought: true });
+  }
+  if (choice?.message?.content) {
+    parts.push({ text: choice.message.content });
+  }
+  parts.push(...toFunctionCallParts(choice?.message?.tool_calls));
+
+  const out = new GenerateContentResponse();
+  out.responseId = response.id;
+  out.modelVersion = response.model;
+  out.candidates = [
+    {
+      content: { role: 'model', parts },
+      finishReason: toFinishReason(choice?.finish_reason),
+      index: 0,
+    },
+  ];
+  out.usageMetadata = toUsageMetadata(response.usage);
+  return out;
+}
@@ -0,0 +1,16 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export * from './OpenAICompatibleClient.js';
+export * from './OpenAICompatibleContentGenerator.js';
+export * from './catalogCache.js';
+export * from './converter.js';
+export * from './modalities.js';
+export * from './modelCatalog.js';
+export * from './pricing.js';
+export * from './providers.js';
+export * from './streamAdapter.js';
+export * from './types.js';
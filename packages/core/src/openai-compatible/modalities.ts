@@ -0,0 +1,49 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Input modalities that media parts are translated to, named after the
+ * `architecture.input_modalities` values of OpenRouter's `/models` metadata.
+ */
+export type MediaInputModality = 'image' | 'file';
+
+/**
+ * Returns the input modality a model needs to accept a part of the given MIME
+ * type, or undefined when the MIME type cannot be sent to OpenAI-compatible
+ * APIs.
+ */
+export function getInputModality(
+  mimeType: string | undefined,
+): MediaInputModality | undefined {
+  if (!mimeType) {
+    return undefined;
+  }
+  if (mimeType.startsWith('image/')) {
+    return 'image';
+  }
+  if (mimeType === 'application/pdf') {
+    return 'file';
+  }
+  return undefined;
+}
+
+/**
+ * Error thrown when a request carries media the selected model cannot read.
+ */
+export class UnsupportedInputModalityError extends Error {
+  constructor(
+    public model: string,
+    public unsupported: MediaInputModality[],
+    public supported: string[],
+  ) {
+    super(
+      `Model "${model}" does not accept ${unsupported.join(' or ')} input ` +
+        `(it accepts: ${supported.join(', ') || 'none'}). ` +
+        'Switch to a model that supports it, or remove the attachment.',
+    );
+    this.name = 'UnsupportedInputModalityError';
+  }
+}
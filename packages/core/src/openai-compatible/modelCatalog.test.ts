@@ -0,0 +1,118 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { OpenAICompatibleClient } from './OpenAICompatibleClient.js';
+import {
+  getConfiguredProviders,
+  listConfiguredProviderModels,
+  listProviderModels,
+  selectProviderModel,
+} from './modelCatalog.js';
+import { resolveOpenAICompatibleProvider } from './providers.js';
+
+vi.mock('./catalogCache.js', () => ({
+  getModelCatalog: (_providerId: string, listModels: () => Promise<unknown>) =>
+    listModels(),
+}));
+
+describe('OpenAI-compatible model catalog', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    vi.stubEnv('ZAI_API_KEY', '');
+    vi.stubEnv('OPENROUTER_API_KEY', '');
+  });
+
+  it('should describe models from the provider metadata', async () => {
+    vi.spyOn(OpenAICompatibleClient.prototype, 'listModels').mockResolvedValue([
+      {
+        id: 'openai/gpt-4o',
+        name: 'OpenAI: GPT-4o',
+        context_length: 128000,
+        architecture: { input_modalities: ['text', 'image'] },
+        pricing: { prompt: '0.0000025', completion: '0.00001' },
+        supported_parameters: ['tools', 'temperature'],
+      },
+    ]);
+    const provider = resolveOpenAICompatibleProvider(
+      { openrouterApiKey: 'key' },
+      'openrouter',
+    )!;
+
+    expect(await listProviderModels(provider)).toEqual([
+      {
+        providerId: 'openrouter',
+        providerName: 'OpenRouter',
+        id: 'openai/gpt-4o',
+        name: 'OpenAI: GPT-4o',
+        contextLength: 128000,
+        pricing: { prompt: 0.0000025, completion: 0.00001 },
+        supportsTools: true,
+        supportsVision: true,
+      },
+    ]);
+  });
+
+  it('should fall back to the models named in the settings without a catalog', async () => {
+    vi.spyOn(OpenAICompatibleClient.prototype, 'listModels').mockRejectedValue(
+      new Error('404 Not Found'),
+    );
+    const provider = resolveOpenAICompatibleProvider({}, 'zai')!;
+
+    const models = await listProviderModels(provider);
+
+    expect(models.map((model) => model.id)).toEqual([
+      'glm-4.7',
+      'glm-4.6',
+      'glm-4.5',
+      'glm-4.5-air',
+      'glm-4.5v',
+      'glm-4.6v',
+    ]);
+    expect(models.find((model) => model.id === 'glm-4.6v')).toMatchObject({
+      supportsVision: true,
+      supportsTools: undefined,
+    });
+  });
+
+  it('should only use providers with a key or declared in settings', async () => {
+    vi.spyOn(OpenAICompatibleClient.prototype, 'listModels').mockResolvedValue([
+      { id: 'model' },
+    ]);
+    const settings = {
+      zaiApiKey: 'key',
+      providers: {
+        vllm: { baseUrl: 'http://localhost:8000/v1', model: 'qwen' },
+      },
+    };
+
+    expect(getConfiguredProviders(settings).map((p) => p.id)).toEqual([
+      'zai',
+      'vllm',
+    ]);
+    expect(
+      (await listConfiguredProviderModels(settings)).map(
+        (model) => `${model.providerId}/${model.id}`,
+      ),
+    ).toEqual(['zai/model', 'vllm/model']);
+  });
+
+  it('should make the selected provider active with its model', () => {
+    expect(
+      selectProviderModel(
+        { providers: { openrouter: { maxOutputTokens: 8192 } } },
+        'openrouter',
+        'openai/gpt-4o',
+      ),
+    ).toEqual({
+      activeProvider: 'openrouter',
+      providers: {
+        openrouter: { maxOutputTokens: 8192, model: 'openai/gpt-4o' },
+      },
+    });
+  });
+});
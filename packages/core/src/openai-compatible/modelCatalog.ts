@@ -0,0 +1,151 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { DevoraSettings } from '../config/firstRunSetup.js';
+import { debugLogger } from '../utils/debugLogger.js';
+import type { ModelCatalogOptions } from './catalogCache.js';
+import { getModelCatalog, readModelCatalogSnapshot } from './catalogCache.js';
+import { OpenAICompatibleClient } from './OpenAICompatibleClient.js';
+import type { ModelPricing } from './pricing.js';
+import { getModelPricing } from './pricing.js';
+import {
+  getOpenAICompatibleProviderIds,
+  resolveOpenAICompatibleProvider,
+} from './providers.js';
+import type {
+  OpenAIModelInfo,
+  ResolvedOpenAICompatibleProvider,
+} from './types.js';
+
+/**
+ * A model offered by an OpenAI-compatible provider, with the capabilities its
+ * metadata declares. Capabilities are undefined when the provider does not
+ * describe them.
+ */
+export interface ProviderModel {
+  providerId: string;
+  providerName: string;
+  id: string;
+  name?: string;
+  contextLength?: number;
+  pricing?: ModelPricing;
+  supportsTools?: boolean;
+  supportsVision?: boolean;
+}
+
+function toProviderModel(
+  provider: ResolvedOpenAICompatibleProvider,
+  info: OpenAIModelInfo,
+): ProviderModel {
+  const inputModalities =
+    info.architecture?.input_modalities ??
+    provider.modelInputModalities?.[info.id];
+  return {
+    providerId: provider.id,
+    providerName: provider.displayName,
+    id: info.id,
+    name: info.name,
+    contextLength: info.context_length,
+    pricing: getModelPricing(info),
+    supportsTools: info.supported_parameters?.includes('tools'),
+    supportsVision: inputModalities?.includes('image'),
+  };
+}
+
+/**
+ * Lists the models of a provider from its cached `/models` catalog. Providers
+ * without a catalog fall back to the models named in their settings.
+ */
+export async function listProviderModels(
+  provider: ResolvedOpenAICompatibleProvider,
+  options?: ModelCatalogOptions,
+): Promise<ProviderModel[]> {
+  let catalog: OpenAIModelInfo[] = [];
+  try {
+    const client = new OpenAICompatibleClient(provider);
+    catalog = await getModelCatalog(
+      provider.id,
+      () => client.listModels(),
+      options,
+    );
+  } catch (error) {
+    debugLogger.debug(
+      `Could not list the models of ${provider.displayName}:`,
+      error,
+    );
+  }
+  if (catalog.length === 0) {
+    const ids = new Set([
+      provider.model,
+      ...Object.keys(provider.modelInputModalities ?? {}),
+    ]);
+    catalog = Array.from(ids, (id) => ({ id }));
+  }
+  return catalog.map((info) => toProviderModel(provider, info));
+}
+
+/**
+ * Returns a model of a provider from the last snapshot of its catalog,
+ * without listing it, or undefined when the snapshot does not describe it.
+ */
+export function getCachedProviderModel(
+  provider: ResolvedOpenAICompatibleProvider,
+  model: string,
+): ProviderModel | undefined {
+  const info = readModelCatalogSnapshot(provider.id)?.models.find(
+    (candidate) => candidate.id === model,
+  );
+  return info ? toProviderModel(provider, info) : undefined;
+}
+
+/**
+ * Returns the providers that can be used: the ones with an API key, and the
+ * ones declared in settings, which may be local gateways without
+ * authentication.
+ */
+export function getConfiguredProviders(
+  settings: DevoraSettings,
+): ResolvedOpenAICompatibleProvider[] {
+  return getOpenAICompatibleProviderIds(settings)
+    .map((id) => resolveOpenAICompatibleProvider(settings, id))
+    .filter(
+      (provider): provider is ResolvedOpenAICompatibleProvider =>
+        !!provider &&
+        (!!provider.apiKey || !!settings.providers?.[provider.id]),
+    );
+}
+
+/**
+ * Lists the models of every configured provider.
+ */
+export async function listConfiguredProviderModels(
+  settings: DevoraSettings,
+  options?: ModelCatalogOptions,
+): Promise<ProviderModel[]> {
+  const models = await Promise.all(
+    getConfiguredProviders(settings).map((provider) =>
+      listProviderModels(provider, options),
+    ),
+  );
+  return models.flat();
+}
+
+/**
+ * Makes a provider active with the given model, which it keeps using in
+ * later sessions.
+ */
+export function selectProviderModel(
+  settings: DevoraSettings,
+  providerId: string,
+  model: string,
+): DevoraSettings {
+  settings.activeProvider = providerId;
+  settings.providers = {
+    ...settings.providers,
+    [providerId]: { ...settings.providers?.[providerId], model },
+  };
+  return settings;
+}
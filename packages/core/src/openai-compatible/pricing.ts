@@ -0,0 +1,55 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { GenerateContentResponseUsageMetadata } from '@google/genai';
+import type { OpenAIModelInfo } from './types.js';
+
+/**
+ * Prices of a model in USD per token
+ */
+export interface ModelPricing {
+  prompt: number;
+  completion: number;
+}
+
+function parsePrice(price: string | number | undefined): number | undefined {
+  if (price === undefined) {
+    return undefined;
+  }
+  const value = Number(price);
+  // OpenRouter uses negative prices for routers whose price is not known in
+  // advance.
+  return Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+/**
+ * Returns the pricing from a model's `/models` metadata, or undefined when the
+ * provider does not publish it.
+ */
+export function getModelPricing(
+  info: OpenAIModelInfo | undefined,
+): ModelPricing | undefined {
+  const prompt = parsePrice(info?.pricing?.prompt);
+  const completion = parsePrice(info?.pricing?.completion);
+  if (prompt === undefined || completion === undefined) {
+    return undefined;
+  }
+  return { prompt, completion };
+}
+
+/**
+ * Computes the cost of a request in USD. The completion tokens of
+ * OpenAI-compatible APIs include the reasoning tokens.
+ */
+export function calculateCost(
+  usage: GenerateContentResponseUsageMetadata,
+  pricing: ModelPricing,
+): number {
+  return (
+    (usage.promptTokenCount ?? 0) * pricing.prompt +
+    (usage.candidatesTokenCount ?? 0) * pricing.completion
+  );
+}
@@ -0,0 +1,115 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  getActiveProviderId,
+  getOpenAICompatibleProviderIds,
+  resolveOpenAICompatibleProvider,
+} from './providers.js';
+
+describe('OpenAI-compatible providers', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should default the active provider to zai', () => {
+    expect(getActiveProviderId({})).toBe('zai');
+    expect(getActiveProviderId({ activeProvider: 'openrouter' })).toBe(
+      'openrouter',
+    );
+  });
+
+  it('should list presets followed by providers declared in settings', () => {
+    expect(
+      getOpenAICompatibleProviderIds({
+        providers: { vllm: { baseUrl: 'http://localhost:8000/v1' } },
+      }),
+    ).toEqual(['zai', 'openrouter', 'vllm']);
+  });
+
+  it('should resolve a preset with its API key from the environment', () => {
+    vi.stubEnv('ZAI_API_KEY', 'zai-env-key');
+    expect(resolveOpenAICompatibleProvider({}, 'zai')).toMatchObject({
+      id: 'zai',
+      baseUrl: 'https://api.z.ai/api/coding/paas/v4',
+      model: 'glm-4.7',
+      apiKey: 'zai-env-key',
+    });
+  });
+
+  it('should fall back to the legacy API key and model settings', () => {
+    vi.stubEnv('OPENROUTER_API_KEY', '');
+    expect(
+      resolveOpenAICompatibleProvider(
+        {
+          openrouterApiKey: 'sk-or-v1-legacy',
+          model: { name: 'openai/gpt-4o' },
+        },
+        'openrouter',
+      ),
+    ).toMatchObject({
+      apiKey: 'sk-or-v1-legacy',
+      model: 'openai/gpt-4o',
+    });
+  });
+
+  it('should merge preset overrides and custom headers', () => {
+    const provider = resolveOpenAICompatibleProvider(
+      {
+        providers: {
+          openrouter: {
+            model: 'deepseek/deepseek-chat',
+            headers: { 'X-Team': 'platform' },
+          },
+        },
+      },
+      'openrouter',
+    );
+    expect(provider?.model).toBe('deepseek/deepseek-chat');
+    expect(provider?.headers).toMatchObject({
+      'X-Title': 'Devora CLI',
+      'X-Team': 'platform',
+    });
+  });
+
+  it('should resolve a custom provider declared in settings', () => {
+    vi.stubEnv('LITELLM_KEY', 'litellm-key');
+    expect(
+      resolveOpenAICompatibleProvider({
+        activeProvider: 'litellm',
+        providers: {
+          litellm: {
+            baseUrl: 'https://litellm.internal/v1',
+            apiKeyEnv: 'LITELLM_KEY',
+            model: 'llama-3.3-70b',
+          },
+        },
+      }),
+    ).toEqual({
+      id: 'litellm',
+      displayName: 'litellm',
+      baseUrl: 'https://litellm.internal/v1',
+      apiKeyEnv: 'LITELLM_KEY',
+      apiKey: 'litellm-key',
+      model: 'llama-3.3-70b',
+      headers: {},
+      maxOutputTokens: undefined,
+      embeddingModel: undefined,
+      modelInputModalities: {},
+    });
+  });
+
+  it('should return undefined for unknown or incomplete providers', () => {
+    expect(resolveOpenAICompatibleProvider({}, 'missing')).toBeUndefined();
+    expect(
+      resolveOpenAICompatibleProvider(
+        { providers: { partial: { model: 'x' } } },
+        'partial',
+      ),
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Config } from '../config/config.js';
+import type { DevoraSettings } from '../config/firstRunSetup.js';
+import { loadDevoraSettings } from '../config/firstRunSetup.js';
+import { isAutoModel } from '../config/models.js';
+import type {
+  OpenAICompatibleProviderConfig,
+  ResolvedOpenAICompatibleProvider,
+} from './types.js';
+
+export const ZAI_PROVIDER_ID = 'zai';
+export const OPENROUTER_PROVIDER_ID = 'openrouter';
+
+/**
+ * Built-in provider presets. Users can override any field, or declare new
+ * providers, under `providers` in the Devora settings file.
+ */
+export const OPENAI_COMPATIBLE_PRESETS: Record<
+  string,
+  OpenAICompatibleProviderConfig
+> = {
+  [ZAI_PROVIDER_ID]: {
+    displayName: 'Zai GLM',
+    baseUrl: 'https://api.z.ai/api/coding/paas/v4',
+    apiKeyEnv: 'ZAI_API_KEY',
+    model: 'glm-4.7',
+    maxOutputTokens: 128000,
+    // The coding endpoint has no model catalog describing context windows.
+    contextLength: 200_000,
+    embeddingModel: 'embedding-2',
+    reasoningParameter: 'thinking',
+    // The coding endpoint has no model catalog describing modalities.
+    modelInputModalities: {
+      'glm-4.7': ['text'],
+      'glm-4.6': ['text'],
+      'glm-4.5': ['text'],
+      'glm-4.5-air': ['text'],
+      'glm-4.5v': ['text', 'image'],
+      'glm-4.6v': ['text', 'image'],
+    },
+  },
+  [OPENROUTER_PROVIDER_ID]: {
+    displayName: 'OpenRouter',
+    baseUrl: 'https://openrouter.ai/api/v1',
+    apiKeyEnv: 'OPENROUTER_API_KEY',
+    model: 'anthropic/claude-3.5-sonnet',
+    headers: {
+      'HTTP-Referer': 'https://github.com/uglyswap/devora-cli',
+      'X-Title': 'Devora CLI',
+    },
+    maxOutputTokens: 4096,
+    embeddingModel: 'openai/text-embedding-ada-002',
+    reasoningParameter: 'reasoning',
+  },
+};
+
+/**
+ * Returns the ids of every known provider: presets first, then the ones only
+ * declared in settings.
+ */
+export function getOpenAICompatibleProviderIds(
+  settings: DevoraSettings,
+): string[] {
+  const ids = new Set(Object.keys(OPENAI_COMPATIBLE_PRESETS));
+  for (const id of Object.keys(settings.providers ?? {})) {
+    ids.add(id);
+  }
+  return Array.from(ids);
+}
+
+/**
+ * Returns the id of the provider used by the `openai-compatible` auth type.
+ */
+export function getActiveProviderId(settings: DevoraSettings): string {
+  return settings.activeProvider ?? ZAI_PROVIDER_ID;
+}
+
+/**
+ * Merges a provider's preset with its settings and looks up its API key.
+ *
+ * The key is read from the provider's `apiKeyEnv` variable, then from its
+ * `apiKey` setting, then from the legacy `zaiApiKey`/`openrouterApiKey`
+ * settings. Returns undefined when the provider is unknown or incomplete.
+ */
+export function resolveOpenAICompatibleProvider(
+  settings: DevoraSettings,
+  id: string = getActiveProviderId(settings),
+): ResolvedOpenAICompatibleProvider | undefined {
+  const preset = OPENAI_COMPATIBLE_PRESETS[id];
+  const overrides = settings.providers?.[id];
+  if (!preset && !overrides) {
+    return undefined;
+  }
+
+  const baseUrl = overrides?.baseUrl ?? preset?.baseUrl;
+  const model =
+    overrides?.model ?? getLegacyModel(settings, id) ?? preset?.model;
+  if (!baseUrl || !model) {
+    return undefined;
+  }
+
+  const apiKeyEnv = overrides?.apiKeyEnv ?? preset?.apiKeyEnv;
+  const apiKey =
+    (apiKeyEnv ? process.env[apiKeyEnv] : undefined) ||
+    overrides?.apiKey ||
+    getLegacyApiKey(settings, id);
+
+  return {
+    id,
+    displayName: overrides?.displayName ?? preset?.displayName ?? id,
+    baseUrl,
+    apiKeyEnv,
+    apiKey,
+    model,
+    headers: { ...preset?.headers, ...overrides?.headers },
+    maxOutputTokens: overrides?.maxOutputTokens ?? preset?.maxOutputTokens,
+    contextLength: overrides?.contextLength ?? preset?.contextLength,
+    embeddingModel: overrides?.embeddingModel ?? preset?.embeddingModel,
+    reasoningParameter:
+      overrides?.reasoningParameter ?? preset?.reasoningParameter,
+    modelInputModalities: {
+      ...preset?.modelInputModalities,
+      ...overrides?.modelInputModalities,
+    },
+  };
+}
+
+function getLegacyApiKey(
+  settings: DevoraSettings,
+  id: string,
+): string | undefined {
+  switch (id) {
+    case ZAI_PROVIDER_ID:
+      return settings.zaiApiKey;
+    case OPENROUTER_PROVIDER_ID:
+      return settings.openrouterApiKey;
+    default:
+      return undefined;
+  }
+}
+
+function getLegacyModel(
+  settings: DevoraSettings,
+  id: string,
+): string | undefined {
+  // `/openrouter model` stores the selected model in `model.name`.
+  return id === OPENROUTER_PROVIDER_ID ? settings.model?.name : undefined;
+}
+
+/**
+ * Returns the model a provider serves a request for `model` with. Gemini
+ * model names, which the rest of the CLI may still pass along, are replaced
+ * by the provider's model.
+ */
+export function getServedModel(
+  provider: ResolvedOpenAICompatibleProvider,
+  model: string | undefined,
+): string {
+  if (!model || model.startsWith('gemini-') || isAutoModel(model)) {
+    return provider.model;
+  }
+  return model;
+}
+
+/**
+ * Returns the OpenAI-compatible provider serving the session, or undefined
+ * when Gemini does.
+ */
+export function getSessionProvider(
+  config: Config,
+): ResolvedOpenAICompatibleProvider | undefined {
+  const providerId = config.getContentGeneratorConfig()?.providerId;
+  return providerId
+    ? resolveOpenAICompatibleProvider(loadDevoraSettings(), providerId)
+    : undefined;
+}
+
+/**
+ * Returns the model the session serves a request for `model` with.
+ */
+export function getSessionServedModel(config: Config, model: string): string {
+  const provider = getSessionProvider(config);
+  return provider ? getServedModel(provider, model) : model;
+}
@@ -0,0 +1,186 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { FinishReason } from '@google/genai';
+import type { GenerateContentResponse } from '@google/genai';
+import { adaptOpenAIStream } from './streamAdapter.js';
+import type { OpenAIChatChunk } from './types.js';
+
+async function* toStream(
+  chunks: Array<Partial<OpenAIChatChunk>>,
+): AsyncGenerator<OpenAIChatChunk> {
+  for (const chunk of chunks) {
+    yield { id: 'chunk', model: 'test-model', choices: [], ...chunk };
+  }
+}
+
+async function collect(
+  stream: AsyncGenerator<GenerateContentResponse>,
+): Promise<GenerateContentResponse[]> {
+  const responses: GenerateContentResponse[] = [];
+  for await (const response of stream) {
+    responses.push(response);
+  }
+  return responses;
+}
+
+describe('adaptOpenAIStream', () => {
+  it('should yield text deltas and a final chunk with finish reason and usage', async () => {
+    const responses = await collect(
+      adaptOpenAIStream(
+        toStream([
+          {
+            choices: [
+              { index: 0, delta: { content: 'Hello' }, finish_reason: null },
+            ],
+          },
+          {
+            choices: [
+              { index: 0, delta: { content: ' world' }, finish_reason: 'stop' },
+            ],
+          },
+          {
+            usage: {
+              prompt_tokens: 12,
+              completion_tokens: 3,
+              total_tokens: 15,
+              completion_tokens_details: { reasoning_tokens: 1 },
+            },
+          },
+        ]),
+      ),
+    );
+
+    expect(responses.map((r) => r.text ?? '')).toEqual(['Hello', ' world', '']);
+    const last = responses[responses.length - 1];
+    expect(last.candidates?.[0].finishReason).toBe(FinishReason.STOP);
+    expect(last.usageMetadata).toMatchObject({
+      promptTokenCount: 12,
+      candidatesTokenCount: 3,
+      totalTokenCount: 15,
+      thoughtsTokenCount: 1,
+    });
+    expect(responses[0].candidates?.[0].finishReason).toBeUndefined();
+  });
+
+  it('should assemble tool call argument fragments by index', async () => {
+    const responses = await collect(
+      adaptOpenAIStream(
+        toStream([
+          {
+            choices: [
+              {
+                index: 0,
+                delta: {
+                  tool_calls: [
+                    {
+                      index: 0,
+                      id: 'call_a',
+                      type: 'function',
+                      function: { name: 'read_file', arguments: '{"file_' },
+                    },
+                    {
+                      index: 1,
+                      id: 'call_b',
+                      type: 'function',
+                      function: { name: 'ls', arguments: '' },
+                    },
+                  ],
+                },
+                finish_reason: null,
+              },
+            ],
+          },
+          {
+            choices: [
+              {
+                index: 0,
+                delta: {
+                  tool_calls: [
+                    { index: 0, function: { arguments: 'path":"a.txt"}' } },
+                    { index: 1, function: { arguments: '{"path":"."}' } },
+                  ],
+                },
+                finish_reason: 'tool_calls',
+              },
+            ],
+          },
+        ]),
+      ),
+    );
+
+    expect(responses).toHaveLength(1);
+    expect(responses[0].functionCalls).toEqual([
+      { id: 'call_a', name: 'read_file', args: { file_path: 'a.txt' } },
+      { id: 'call_b', name: 'ls', args: { path: '.' } },
+    ]);
+    expect(responses[0].candidates?.[0].finishReason).toBe(FinishReason.STOP);
+  });
+
+  it('should map a length finish reason to MAX_TOKENS', async () => {
+    const responses = await collect(
+      adaptOpenAIStream(
+        toStream([
+          {
+            choices: [
+              {
+                index: 0,
+                delta: { content: 'Trunc' },
+                finish_reason: 'length',
+              },
+            ],
+          },
+        ]),
+      ),
+    );
+
+    expect(responses[responses.length - 1].candidates?.[0].finishReason).toBe(
+      FinishReason.MAX_TOKENS,
+    );
+  });
+
+  it('should yield reasoning lines as thoughts before the answer', async () => {
+    const responses = await collect(
+      adaptOpenAIStream(
+        toStream([
+          {
+            choices: [
+              {
+                index: 0,
+                delta: { reasoning: '**Planning**\nRead the' },
+                finish_reason: null,
+              },
+            ],
+          },
+          {
+            choices: [
+              {
+                index: 0,
+                delta: { reasoning_content: ' file first.' },
+                finish_reason: null,
+              },
+            ],
+          },
+          {
+            choices: [
+              { index: 0, delta: { content: 'Done' }, finish_reason: 'stop' },
+            ],
+          },
+        ]),
+      ),
+    );
+
+    expect(
+      responses.map((response) => response.candidates?.[0].content?.parts),
+    ).toEqual([
+      [{ text: '**Planning**', thought: true }],
+      [{ text: 'Read the file first.', thought: true }],
+      [{ text: 'Done' }],
+      [],
+    ]);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GenerateContentResponse } from '@google/genai';
+import type { FinishReason, Part } from '@google/genai';
+import {
+  getReasoningText,
+  toFinishReason,
+  toFunctionCallParts,
+  toUsageMetadata,
+} from './converter.js';
+import type { OpenAIChatChunk, OpenAIToolCall, OpenAIUsage } from './types.js';
+
+/**
+ * Adapts an OpenAI-compatible chat completion stream into a stream of Gemini
+ * responses.
+ *
+ * Text deltas are yielded as they arrive. Reasoning deltas are buffered
+ * into lines and yielded as thought parts, since each thought replaces the
+ * previous one in the thinking indicator. Tool call arguments arrive as
+ * fragments spread over several chunks, so they are accumulated by index and
+ * emitted as `functionCall` parts in a final chunk that also carries the
+ * finish reason and the usage metadata, mirroring what the Gemini API sends.
+ */
+export async function* adaptOpenAIStream(
+  stream: AsyncIterable<OpenAIChatChunk>,
+): AsyncGenerator<GenerateContentResponse> {
+  const toolCalls: OpenAIToolCall[] = [];
+  let finishReason: string | null | undefined;
+  let usage: OpenAIUsage | null | undefined;
+  let responseId: string | undefined;
+  let modelVersion: string | undefined;
+  let reasoning = '';
+
+  for await (const chunk of stream) {
+    responseId ??= chunk.id;
+    modelVersion ??= chunk.model;
+    usage = chunk.usage ?? usage;
+
+    const choice = chunk.choices?.[0];
+    if (!choice) {
+      continue;
+    }
+    finishReason = choice.finish_reason ?? finishReason;
+
+    const reasoningDelta = choice.delta && getReasoningText(choice.delta);
+    if (reasoningDelta) {
+      const lines = (reasoning + reasoningDelta).split('\n');
+      reasoning = lines.pop() ?? '';
+      for (const line of lines) {
+        if (line.trim()) {
+          yield createThoughtChunk(responseId, modelVersion, line);
+        }
+      }
+    }
+
+    for (const toolCallDelta of choice.delta?.tool_calls ?? []) {
+      const toolCall = (toolCalls[toolCallDelta.index ?? 0] ??= {
+        id: '',
+        type: 'function',
+        function: { name: '', arguments: '' },
+      });
+      toolCall.id = toolCallDelta.id || toolCall.id;
+      toolCall.function.name += toolCallDelta.function?.name ?? '';
+      toolCall.function.arguments += toolCallDelta.function?.arguments ?? '';
+    }
+
+    const content = choice.delta?.content;
+    if (content) {
+      if (reasoning.trim()) {
+        yield createThoughtChunk(responseId, modelVersion, reasoning);
+      }
+      reasoning = '';
+      yield createChunk(responseId, modelVersion, [{ text: content }]);
+    }
+  }
+
+  if (reasoning.trim()) {
+    yield createThoughtChunk(responseId, modelVersion, reasoning);
+  }
+
+  const finalChunk = createChunk(
+    responseId,
+    modelVersion,
+    toFunctionCallParts(toolCalls.filter(Boolean)),
+    toFinishReason(finishReason),
+  );
+  finalChunk.usageMetadata = toUsageMetadata(usage);
+  yield finalChunk;
+}
+
+function createChunk(
+  responseId: string | undefined,
+  modelVersion: string | undefined,
+  parts: Part[],
+  finishReason?: FinishReason,
+): GenerateContentResponse {
+  const response = new GenerateContentResponse();
+  response.responseId = responseId;
+  response.modelVersion = modelVersion;
+  response.candidates = [
+    {
+      content: { role: 'model', parts },
+      finishReason,
+      index: 0,
+    },
+  ];
+  return response;
+}
+
+function createThoughtChunk(
+  responseId: string | undefined,
+  modelVersion: string | undefined,
+  text: string,
+): GenerateContentResponse {
+  return createChunk(responseId, modelVersion, [
+    { text: text.trim(), thought: true },
+  ]);
+}
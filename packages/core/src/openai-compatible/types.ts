@@ -0,0 +1,232 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Types shared by providers exposing an OpenAI-compatible chat completions API
+ */
+
+export interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+export interface OpenAITool {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters?: Record<string, unknown>;
+  };
+}
+
+export type OpenAIContentPart =
+  | {
+      type: 'text';
+      text: string;
+    }
+  | {
+      type: 'image_url';
+      image_url: { url: string };
+    }
+  | {
+      type: 'file';
+      file: { filename?: string; file_data: string };
+    };
+
+export type OpenAIMessage =
+  | {
+      role: 'system';
+      content: string;
+    }
+  | {
+      role: 'user';
+      content: string | OpenAIContentPart[];
+    }
+  | {
+      role: 'assistant';
+      content: string | null;
+      tool_calls?: OpenAIToolCall[];
+    }
+  | {
+      role: 'tool';
+      content: string;
+      tool_call_id: string;
+    };
+
+export type OpenAIReasoningEffort = 'low' | 'medium' | 'high';
+
+/**
+ * Request parameters controlling the reasoning of a model
+ */
+export interface OpenAIReasoningParameters {
+  /** OpenAI's reasoning level */
+  reasoning_effort?: OpenAIReasoningEffort;
+  /** OpenRouter's reasoning settings */
+  reasoning?: {
+    enabled?: boolean;
+    effort?: OpenAIReasoningEffort;
+    max_tokens?: number;
+  };
+  /** Zai's thinking switch */
+  thinking?: { type: 'enabled' | 'disabled' };
+}
+
+export interface OpenAIChatRequest extends OpenAIReasoningParameters {
+  model: string;
+  messages: OpenAIMessage[];
+  temperature?: number;
+  max_tokens?: number;
+  top_p?: number;
+  stream?: boolean;
+  tools?: OpenAITool[];
+}
+
+/**
+ * Reasoning text of a message or delta: `reasoning_content` for Zai and
+ * DeepSeek, `reasoning` for OpenRouter
+ */
+export interface OpenAIReasoningContent {
+  reasoning?: string | null;
+  reasoning_content?: string | null;
+}
+
+export interface OpenAIUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  prompt_tokens_details?: {
+    cached_tokens?: number;
+  };
+  completion_tokens_details?: {
+    reasoning_tokens?: number;
+  };
+  /** Cost of the request in USD, an OpenRouter extension */
+  cost?: number;
+}
+
+export interface OpenAIChatResponse {
+  id: string;
+  object: string;
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    message: OpenAIReasoningContent & {
+      role: string;
+      content: string | null;
+      tool_calls?: OpenAIToolCall[];
+    };
+    finish_reason: string | null;
+  }>;
+  usage?: OpenAIUsage;
+}
+
+export interface OpenAIToolCallDelta {
+  index: number;
+  id?: string;
+  type?: 'function';
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
+}
+
+export interface OpenAIChatChunk {
+  id: string;
+  model: string;
+  choices: Array<{
+    index: number;
+    delta: OpenAIReasoningContent & {
+      role?: string;
+      content?: string | null;
+      tool_calls?: OpenAIToolCallDelta[];
+    };
+    finish_reason: string | null;
+  }>;
+  usage?: OpenAIUsage | null;
+}
+
+/**
+ * Model entry returned by a provider's `/models` endpoint. `architecture` and
+ * `pricing` are OpenRouter extensions.
+ */
+export interface OpenAIModelInfo {
+  id: string;
+  /** Human readable name, an OpenRouter extension */
+  name?: string;
+  /** Context window in tokens, an OpenRouter extension */
+  context_length?: number;
+  /** Request parameters the model accepts, e.g. `tools`, an OpenRouter extension */
+  supported_parameters?: string[];
+  architecture?: {
+    input_modalities?: string[];
+    output_modalities?: string[];
+  };
+  /** Prices in USD per token, sent as decimal strings */
+  pricing?: {
+    prompt?: string | number;
+    completion?: string | number;
+  };
+}
+
+/**
+ * Connection settings for an OpenAI-compatible provider
+ */
+export interface OpenAICompatibleProviderConfig {
+  /** Human readable name shown in the UI */
+  displayName: string;
+  /** Base URL of the chat completions API, e.g. `http://localhost:8000/v1` */
+  baseUrl: string;
+  /** Environment variable holding the API key */
+  apiKeyEnv?: string;
+  /** Model used when the request does not name a provider model */
+  model: string;
+  /** Extra headers sent with every request */
+  headers?: Record<string, string>;
+  /** Default `max_tokens` when the request does not set one */
+  maxOutputTokens?: number;
+  /**
+   * Context window, in tokens, of the models that the provider's `/models`
+   * endpoint does not describe
+   */
+  contextLength?: number;
+  /** Model used by `embedContent` */
+  embeddingModel?: string;
+  /**
+   * Request parameter the thinking budget is sent as: OpenRouter's
+   * `reasoning`, Zai's `thinking` or OpenAI's `reasoning_effort`. Requests
+   * leave reasoning to the model's defaults when unset.
+   */
+  reasoningParameter?: keyof OpenAIReasoningParameters;
+  /**
+   * Input modalities (`text`, `image`, `file`) of models that the provider's
+   * `/models` endpoint does not describe, keyed by model id
+   */
+  modelInputModalities?: Record<string, string[]>;
+}
+
+/**
+ * Provider entry as written in the Devora settings file. Any field left out
+ * falls back to the preset of the same name, if there is one.
+ */
+export type OpenAICompatibleProviderSettings =
+  Partial<OpenAICompatibleProviderConfig> & {
+    /** API key stored in settings, used when the `apiKeyEnv` variable is unset */
+    apiKey?: string;
+  };
+
+/**
+ * A fully resolved provider, ready to be used by a content generator
+ */
+export interface ResolvedOpenAICompatibleProvider
+  extends OpenAICompatibleProviderConfig {
+  id: string;
+  apiKey?: string;
+}
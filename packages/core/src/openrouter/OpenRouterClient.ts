@@ -4,91 +4,74 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import OpenAI from 'openai';
-import type {
-  OpenRouterChatRequest,
-  OpenRouterChatResponse,
-  OpenRouterModelsResponse,
-} from './types.js';
+import type { OpenRouterModel, OpenRouterModelsResponse } from './types.js';
+import type { ModelCatalogOptions } from '../openai-compatible/catalogCache.js';
+import { getModelCatalog } from '../openai-compatible/catalogCache.js';
+import { OpenAICompatibleClient } from '../openai-compatible/OpenAICompatibleClient.js';
+import {
+  OPENAI_COMPATIBLE_PRESETS,
+  OPENROUTER_PROVIDER_ID,
+} from '../openai-compatible/providers.js';
+import type { HttpError } from '../utils/httpErrors.js';
 
 /**
- * OpenRouter API client wrapper using OpenAI SDK with custom base URL
+ * OpenRouter API client, an OpenAI-compatible client preconfigured for
+ * OpenRouter
  * Documentation: https://openrouter.ai/docs
  */
-export class OpenRouterClient {
-  private client: OpenAI;
-
-  constructor(apiKey: string) {
-    this.client = new OpenAI({
-      apiKey,
-      baseURL: 'https://openrouter.ai/api/v1',
-    });
-  }
-
+export class OpenRouterClient extends OpenAICompatibleClient {
   /**
-   * Get list of available models from OpenRouter
+   * @param baseUrl The API of OpenRouter, e.g. the `baseUrl` of its provider
+   *   settings. Defaults to the official one.
    */
-  async getModels(): Promise<OpenRouterModelsResponse> {
-    const response = await fetch('https://openrouter.ai/api/v1/models', {
-      headers: {
-        Authorization: `Bearer ${this.client.apiKey}`,
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`OpenRouter API error: ${response.statusText}`);
-    }
-
-    return (await response.json()) as OpenRouterModelsResponse;
+  constructor(
+    apiKey: string,
+    baseUrl: string = OPENAI_COMPATIBLE_PRESETS[OPENROUTER_PROVIDER_ID].baseUrl,
+  ) {
+    const preset = OPENAI_COMPATIBLE_PRESETS[OPENROUTER_PROVIDER_ID];
+    super({ apiKey, baseUrl, headers: preset.headers });
   }
 
   /**
-   * Send a chat completion request to OpenRouter
+   * Get list of available models from OpenRouter, cached on disk
    */
-  async chat(request: OpenRouterChatRequest): Promise<OpenRouterChatResponse> {
-    const response = await this.client.chat.completions.create({
-      model: request.model,
-      messages: request.messages,
-      temperature: request.temperature ?? 0.7,
-      max_tokens: request.max_tokens ?? 4096,
-      top_p: request.top_p,
-      stream: false,
-    });
+  async getModels(
+    options?: ModelCatalogOptions,
+  ): Promise<OpenRouterModelsResponse> {
+    const models = await getModelCatalog(
+      OPENROUTER_PROVIDER_ID,
+      () =>
+        this.request(async () => {
+          const response = await fetch(`${this.baseUrl}/models`, {
+            headers: {
+              Authorization: `Bearer ${this.client.apiKey}`,
+            },
+          });
 
-    return response as OpenRouterChatResponse;
-  }
+          if (!response.ok) {
+            const error = new Error(
+              `OpenRouter API error: ${response.statusText}`,
+            );
+            (error as HttpError).status = response.status;
+            throw error;
+          }
 
-  /**
-   * Send a streaming chat completion request to OpenRouter
-   */
-  async *streamChat(request: OpenRouterChatRequest): AsyncGenerator<unknown> {
-    const stream = await this.client.chat.completions.create({
-      model: request.model,
-      messages: request.messages,
-      temperature: request.temperature ?? 0.7,
-      max_tokens: request.max_tokens ?? 4096,
-      top_p: request.top_p,
-      stream: true,
-    });
-
-    for await (const chunk of stream) {
-      yield chunk;
-    }
+          return ((await response.json()) as OpenRouterModelsResponse).data;
+        }),
+      options,
+    );
+    return { data: models as OpenRouterModel[] };
   }
 
   /**
    * Generate embeddings using OpenRouter
    * Note: Not all models support embeddings
    */
-  async embeddings(
+  override async embeddings(
     text: string,
-    model: string = 'openai/text-embedding-ada-002',
+    model: string = OPENAI_COMPATIBLE_PRESETS[OPENROUTER_PROVIDER_ID]
+      .embeddingModel!,
   ): Promise<number[]> {
-    const response = await this.client.embeddings.create({
-      model,
-      input: text,
-    });
-
-    return response.data[0].embedding;
+    return super.embeddings(text, model);
   }
 }
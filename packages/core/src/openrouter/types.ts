@@ -4,43 +4,27 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import type {
+  OpenAIChatRequest,
+  OpenAIChatResponse,
+  OpenAIMessage,
+  OpenAITool,
+  OpenAIToolCall,
+} from '../openai-compatible/types.js';
+
 /**
  * Types specific to OpenRouter integration
  */
 
-export interface OpenRouterMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
-}
+export type OpenRouterToolCall = OpenAIToolCall;
 
-export interface OpenRouterChatRequest {
-  model: string;
-  messages: OpenRouterMessage[];
-  temperature?: number;
-  max_tokens?: number;
-  top_p?: number;
-  stream?: boolean;
-}
+export type OpenRouterTool = OpenAITool;
 
-export interface OpenRouterChatResponse {
-  id: string;
-  object: string;
-  created: number;
-  model: string;
-  choices: Array<{
-    index: number;
-    message: {
-      role: string;
-      content: string;
-    };
-    finish_reason: string;
-  }>;
-  usage: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
-}
+export type OpenRouterMessage = OpenAIMessage;
+
+export type OpenRouterChatRequest = OpenAIChatRequest;
+
+export type OpenRouterChatResponse = OpenAIChatResponse;
 
 export interface OpenRouterModel {
   id: string;
@@ -51,6 +35,10 @@ export interface OpenRouterModel {
     prompt: number;
     completion: number;
   };
+  architecture?: {
+    input_modalities?: string[];
+    output_modalities?: string[];
+  };
 }
 
 export interface OpenRouterModelsResponse {
@@ -127,6 +127,8 @@ describe('JsonFormatter', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      subagents: {},
+      routing: { totalDecisions: 0, bySource: {} },
     };
     const formatted = formatter.format(undefined, response, stats);
     const expected = {
@@ -241,6 +243,8 @@ describe('JsonFormatter', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      subagents: {},
+      routing: { totalDecisions: 0, bySource: {} },
     };
     const error: JsonError = {
       type: 'ApiError',
@@ -270,6 +270,8 @@ describe('StreamJsonFormatter', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      subagents: {},
+      routing: { totalDecisions: 0, bySource: {} },
     });
 
     it('should aggregate token counts from single model', () => {
@@ -436,6 +438,8 @@ describe('StreamJsonFormatter', () => {
           totalLinesAdded: 0,
           totalLinesRemoved: 0,
         },
+        subagents: {},
+        routing: { totalDecisions: 0, bySource: {} },
       };
 
       const result = formatter.convertToStreamStats(metrics, 1000);
@@ -463,6 +467,8 @@ describe('StreamJsonFormatter', () => {
           totalLinesAdded: 0,
           totalLinesRemoved: 0,
         },
+        subagents: {},
+        routing: { totalDecisions: 0, bySource: {} },
       };
 
       const result = formatter.convertToStreamStats(metrics, 5000);
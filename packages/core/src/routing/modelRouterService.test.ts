@@ -10,16 +10,20 @@ import { Config } from '../config/config.js';
 
 import type { BaseLlmClient } from '../core/baseLlmClient.js';
 import type { RoutingContext, RoutingDecision } from './routingStrategy.js';
+import { CategoryStrategy } from './strategies/categoryStrategy.js';
 import { DefaultStrategy } from './strategies/defaultStrategy.js';
 import { CompositeStrategy } from './strategies/compositeStrategy.js';
 import { FallbackStrategy } from './strategies/fallbackStrategy.js';
 import { OverrideStrategy } from './strategies/overrideStrategy.js';
 import { ClassifierStrategy } from './strategies/classifierStrategy.js';
+import { CostAwareStrategy } from './strategies/costAwareStrategy.js';
 import { logModelRouting } from '../telemetry/loggers.js';
 import { ModelRoutingEvent } from '../telemetry/types.js';
 
 vi.mock('../config/config.js');
 vi.mock('../core/baseLlmClient.js');
+vi.mock('./strategies/categoryStrategy.js');
+vi.mock('./strategies/costAwareStrategy.js');
 vi.mock('./strategies/defaultStrategy.js');
 vi.mock('./strategies/compositeStrategy.js');
 vi.mock('./strategies/fallbackStrategy.js');
@@ -44,8 +48,10 @@ describe('ModelRouterService', () => {
 
     mockCompositeStrategy = new CompositeStrategy(
       [
+        new CategoryStrategy(),
         new FallbackStrategy(),
         new OverrideStrategy(),
+        new CostAwareStrategy(),
         new ClassifierStrategy(),
         new DefaultStrategy(),
       ],
@@ -74,11 +80,13 @@ describe('ModelRouterService', () => {
     const compositeStrategyArgs = vi.mocked(CompositeStrategy).mock.calls[0];
     const childStrategies = compositeStrategyArgs[0];
 
-    expect(childStrategies.length).toBe(4);
-    expect(childStrategies[0]).toBeInstanceOf(FallbackStrategy);
-    expect(childStrategies[1]).toBeInstanceOf(OverrideStrategy);
-    expect(childStrategies[2]).toBeInstanceOf(ClassifierStrategy);
-    expect(childStrategies[3]).toBeInstanceOf(DefaultStrategy);
+    expect(childStrategies.length).toBe(6);
+    expect(childStrategies[0]).toBeInstanceOf(CategoryStrategy);
+    expect(childStrategies[1]).toBeInstanceOf(FallbackStrategy);
+    expect(childStrategies[2]).toBeInstanceOf(OverrideStrategy);
+    expect(childStrategies[3]).toBeInstanceOf(CostAwareStrategy);
+    expect(childStrategies[4]).toBeInstanceOf(ClassifierStrategy);
+    expect(childStrategies[5]).toBeInstanceOf(DefaultStrategy);
     expect(compositeStrategyArgs[1]).toBe('agent-router');
   });
 
@@ -10,9 +10,11 @@ import type {
   RoutingDecision,
   TerminalStrategy,
 } from './routingStrategy.js';
+import { CategoryStrategy } from './strategies/categoryStrategy.js';
 import { DefaultStrategy } from './strategies/defaultStrategy.js';
 import { ClassifierStrategy } from './strategies/classifierStrategy.js';
 import { CompositeStrategy } from './strategies/compositeStrategy.js';
+import { CostAwareStrategy } from './strategies/costAwareStrategy.js';
 import { FallbackStrategy } from './strategies/fallbackStrategy.js';
 import { OverrideStrategy } from './strategies/overrideStrategy.js';
 
@@ -36,8 +38,10 @@ export class ModelRouterService {
     // The strategies are ordered in order of highest priority.
     return new CompositeStrategy(
       [
+        new CategoryStrategy(),
         new FallbackStrategy(),
         new OverrideStrategy(),
+        new CostAwareStrategy(),
         new ClassifierStrategy(),
         new DefaultStrategy(),
       ],
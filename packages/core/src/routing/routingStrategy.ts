@@ -14,6 +14,11 @@ import type { Config } from '../config/config.js';
 export interface RoutingDecision {
   /** The model identifier string to use for the next API call (e.g., 'gemini-2.5-pro'). */
   model: string;
+  /**
+   * The provider serving the model, when it is not the session's: the id of
+   * an OpenAI-compatible provider, or `gemini`.
+   */
+  providerId?: string;
   /**
    * Metadata about the routing decision for logging purposes.
    */
@@ -37,6 +42,8 @@ export interface RoutingContext {
   signal: AbortSignal;
   /** The model string requested for this turn, if any. */
   requestedModel?: string;
+  /** The delegation category of the subagent making the request, if any. */
+  category?: string;
 }
 
 /**
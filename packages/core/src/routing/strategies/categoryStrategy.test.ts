@@ -0,0 +1,94 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { CategoryStrategy } from './categoryStrategy.js';
+import type { RoutingContext } from '../routingStrategy.js';
+import type { BaseLlmClient } from '../../core/baseLlmClient.js';
+import type { Config } from '../../config/config.js';
+import type { CategoryConfig } from '../../agents/sisyphus/types.js';
+import {
+  DEFAULT_GEMINI_MODEL,
+  DEFAULT_GEMINI_MODEL_AUTO,
+} from '../../config/models.js';
+
+describe('CategoryStrategy', () => {
+  const strategy = new CategoryStrategy();
+  const mockClient = {} as BaseLlmClient;
+
+  const createMockConfig = (categories: Record<string, CategoryConfig>) =>
+    ({
+      getAgentsSettings: () => ({ categories }),
+      getModel: () => DEFAULT_GEMINI_MODEL_AUTO,
+      getPreviewFeatures: () => false,
+    }) as unknown as Config;
+
+  it('should return null for requests outside of a category', async () => {
+    const config = createMockConfig({ quick: { model: 'glm-4.5-air' } });
+
+    const decision = await strategy.route(
+      {} as RoutingContext,
+      config,
+      mockClient,
+    );
+
+    expect(decision).toBeNull();
+  });
+
+  it('should route to the provider and model of the category', async () => {
+    const config = createMockConfig({
+      'visual-engineering': {
+        provider: 'openrouter',
+        model: 'google/gemini-2.5-flash-image',
+      },
+    });
+
+    const decision = await strategy.route(
+      { category: 'visual-engineering' } as RoutingContext,
+      config,
+      mockClient,
+    );
+
+    expect(decision).toEqual({
+      model: 'google/gemini-2.5-flash-image',
+      providerId: 'openrouter',
+      metadata: {
+        source: 'category',
+        latencyMs: 0,
+        reasoning:
+          "Category 'visual-engineering' routes to openrouter:google/gemini-2.5-flash-image",
+      },
+    });
+  });
+
+  it('should keep the requested model when the category only sets a provider', async () => {
+    const config = createMockConfig({ quick: { provider: 'zai' } });
+
+    const decision = await strategy.route(
+      {
+        category: 'quick',
+        requestedModel: DEFAULT_GEMINI_MODEL_AUTO,
+      } as RoutingContext,
+      config,
+      mockClient,
+    );
+
+    expect(decision?.model).toBe(DEFAULT_GEMINI_MODEL);
+    expect(decision?.providerId).toBe('zai');
+  });
+
+  it('should return null for categories without a model', async () => {
+    const config = createMockConfig({});
+
+    const decision = await strategy.route(
+      { category: 'writing' } as RoutingContext,
+      config,
+      mockClient,
+    );
+
+    expect(decision).toBeNull();
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Config } from '../../config/config.js';
+import { resolveModel } from '../../config/models.js';
+import type { BaseLlmClient } from '../../core/baseLlmClient.js';
+import { getDelegationCategories } from '../../agents/sisyphus/categories.js';
+import type {
+  RoutingContext,
+  RoutingDecision,
+  RoutingStrategy,
+} from '../routingStrategy.js';
+
+/**
+ * Routes the requests of subagents delegated with a category to the provider
+ * and model of the category.
+ */
+export class CategoryStrategy implements RoutingStrategy {
+  readonly name = 'category';
+
+  async route(
+    context: RoutingContext,
+    config: Config,
+    _baseLlmClient: BaseLlmClient,
+  ): Promise<RoutingDecision | null> {
+    if (!context.category) {
+      return null;
+    }
+    const category = getDelegationCategories(config)[context.category];
+    if (!category?.model && !category?.provider) {
+      return null;
+    }
+
+    const model =
+      category.model ??
+      resolveModel(
+        context.requestedModel ?? config.getModel(),
+        config.getPreviewFeatures(),
+      );
+    return {
+      model,
+      providerId: category.provider,
+      metadata: {
+        source: this.name,
+        latencyMs: 0,
+        reasoning: `Category '${context.category}' routes to ${category.provider ? `${category.provider}:` : ''}${model}`,
+      },
+    };
+  }
+}
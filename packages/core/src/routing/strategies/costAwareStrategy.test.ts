@@ -0,0 +1,186 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { RoutingCandidate } from './costAwareStrategy.js';
+import { CostAwareStrategy } from './costAwareStrategy.js';
+import type { RoutingContext } from '../routingStrategy.js';
+import type { BaseLlmClient } from '../../core/baseLlmClient.js';
+import type { Config } from '../../config/config.js';
+import { loadDevoraSettings } from '../../config/firstRunSetup.js';
+import { ModelAvailabilityService } from '../../availability/modelAvailabilityService.js';
+import { readModelCatalogSnapshot } from '../../openai-compatible/catalogCache.js';
+import type { OpenAIModelInfo } from '../../openai-compatible/types.js';
+
+vi.mock('../../config/firstRunSetup.js', () => ({
+  loadDevoraSettings: vi.fn(),
+}));
+
+vi.mock('../../openai-compatible/catalogCache.js', () => ({
+  readModelCatalogSnapshot: vi.fn(),
+}));
+
+const catalogs: Record<string, OpenAIModelInfo[]> = {
+  zai: [
+    {
+      id: 'glm-4.5-air',
+      context_length: 128000,
+      pricing: { prompt: '0.0000002', completion: '0.0000011' },
+    },
+  ],
+  openrouter: [
+    {
+      id: 'openai/gpt-4o',
+      context_length: 128000,
+      architecture: { input_modalities: ['text', 'image'] },
+      pricing: { prompt: '0.0000025', completion: '0.00001' },
+      supported_parameters: ['tools'],
+    },
+  ],
+};
+
+describe('CostAwareStrategy', () => {
+  const strategy = new CostAwareStrategy();
+  const mockClient = {} as BaseLlmClient;
+  let availability: ModelAvailabilityService;
+
+  const textContext = {
+    history: [],
+    request: [{ text: 'Rename the variable' }],
+    signal: new AbortController().signal,
+  } as RoutingContext;
+
+  const imageContext = {
+    ...textContext,
+    request: [
+      { text: 'Build this screen' },
+      { inlineData: { mimeType: 'image/png', data: 'iVBORw0KGgo=' } },
+    ],
+  } as RoutingContext;
+
+  const createMockConfig = (candidates: RoutingCandidate[]) =>
+    ({
+      getRoutingCandidates: () => candidates,
+      getModelAvailabilityService: () => availability,
+    }) as unknown as Config;
+
+  const candidates: RoutingCandidate[] = [
+    { model: 'openrouter:openai/gpt-4o' },
+    { model: 'zai:glm-4.5-air' },
+  ];
+
+  beforeEach(() => {
+    vi.stubEnv('ZAI_API_KEY', '');
+    vi.stubEnv('OPENROUTER_API_KEY', '');
+    vi.mocked(loadDevoraSettings).mockReturnValue({
+      zaiApiKey: 'zai-key',
+      openrouterApiKey: 'openrouter-key',
+    });
+    vi.mocked(readModelCatalogSnapshot).mockImplementation((providerId) => ({
+      fetchedAt: Date.now(),
+      models: catalogs[providerId] ?? [],
+    }));
+    availability = new ModelAvailabilityService();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should return null without routing candidates', async () => {
+    const decision = await strategy.route(
+      textContext,
+      createMockConfig([]),
+      mockClient,
+    );
+
+    expect(decision).toBeNull();
+  });
+
+  it('should route to the cheapest candidate', async () => {
+    const decision = await strategy.route(
+      textContext,
+      createMockConfig(candidates),
+      mockClient,
+    );
+
+    expect(decision).toEqual({
+      model: 'glm-4.5-air',
+      providerId: 'zai',
+      metadata: {
+        source: 'cost-aware',
+        latencyMs: expect.any(Number),
+        reasoning:
+          'Picked zai:glm-4.5-air ($0.65/M tokens, no latency yet, 0% errors) among 2 of 2 candidates supporting tools',
+      },
+    });
+  });
+
+  it('should route requests with images to a vision model', async () => {
+    const decision = await strategy.route(
+      imageContext,
+      createMockConfig(candidates),
+      mockClient,
+    );
+
+    expect(decision?.model).toBe('openai/gpt-4o');
+    expect(decision?.metadata.reasoning).toContain('supporting tools, vision');
+  });
+
+  it('should prefer the capability tags of the settings', async () => {
+    const decision = await strategy.route(
+      imageContext,
+      createMockConfig([
+        { model: 'openrouter:openai/gpt-4o' },
+        { model: 'zai:glm-4.5-air', tags: ['tools', 'vision'] },
+      ]),
+      mockClient,
+    );
+
+    expect(decision?.model).toBe('glm-4.5-air');
+  });
+
+  it('should avoid models whose recent requests fail', async () => {
+    availability.recordRequest('glm-4.5-air', 30000, true);
+    availability.recordRequest('glm-4.5-air', 30000, true);
+    availability.recordRequest('openai/gpt-4o', 2000, false);
+
+    const decision = await strategy.route(
+      textContext,
+      createMockConfig(candidates),
+      mockClient,
+    );
+
+    expect(decision?.model).toBe('openai/gpt-4o');
+  });
+
+  it('should skip unavailable models and unconfigured providers', async () => {
+    availability.markTerminal('glm-4.5-air', 'quota');
+
+    const decision = await strategy.route(
+      textContext,
+      createMockConfig([
+        { model: 'ollama:qwen3:8b' },
+        ...candidates,
+        { model: 'gemini-2.5-flash' },
+      ]),
+      mockClient,
+    );
+
+    expect(decision?.model).toBe('openai/gpt-4o');
+    expect(decision?.metadata.reasoning).toContain('among 2 of 4 candidates');
+  });
+
+  it('should return null when no candidate has the needed capabilities', async () => {
+    const decision = await strategy.route(
+      imageContext,
+      createMockConfig([{ model: 'zai:glm-4.5-air' }]),
+      mockClient,
+    );
+
+    expect(decision).toBeNull();
+  });
+});
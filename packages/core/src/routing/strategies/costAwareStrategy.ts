@@ -0,0 +1,260 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Content, Part } from '@google/genai';
+import type { Config } from '../../config/config.js';
+import type { DevoraSettings } from '../../config/firstRunSetup.js';
+import { loadDevoraSettings } from '../../config/firstRunSetup.js';
+import type { BaseLlmClient } from '../../core/baseLlmClient.js';
+import {
+  GEMINI_PROVIDER_ID,
+  parseFallbackChainEntry,
+} from '../../fallback/providerFallback.js';
+import {
+  getCachedProviderModel,
+  getConfiguredProviders,
+} from '../../openai-compatible/modelCatalog.js';
+import type { ModelPricing } from '../../openai-compatible/pricing.js';
+import { estimateTokenCountSync } from '../../utils/tokenCalculation.js';
+import type {
+  RoutingContext,
+  RoutingDecision,
+  RoutingStrategy,
+} from '../routingStrategy.js';
+
+/**
+ * A capability a request may need from its model
+ */
+export type ModelCapabilityTag = 'tools' | 'vision' | 'long-context';
+
+/**
+ * A model the cost-aware strategy may route requests to
+ */
+export interface RoutingCandidate {
+  /**
+   * The model, written `provider:model`, e.g. `zai:glm-4.5-air`, or as a
+   * plain Gemini model name.
+   */
+  model: string;
+  /**
+   * The capabilities of the model. Defaults to the ones the catalog of its
+   * provider describes.
+   */
+  tags?: ModelCapabilityTag[];
+}
+
+// Requests whose history is estimated above this many tokens need a long
+// context model.
+const LONG_CONTEXT_REQUEST_TOKENS = 100_000;
+// Models of a catalog with at least this context window have a long context.
+const LONG_CONTEXT_MODEL_TOKENS = 200_000;
+// How much the error rate of a model weighs against its cost and latency.
+const ERROR_RATE_WEIGHT = 2;
+
+interface CandidateProfile {
+  providerId: string;
+  model: string;
+  capabilities: Set<ModelCapabilityTag>;
+  /** Average price of a prompt and a completion token, in USD */
+  tokenPrice?: number;
+  averageLatencyMs?: number;
+  errorRate: number;
+}
+
+function getCatalogCapabilities(
+  supportsTools: boolean | undefined,
+  supportsVision: boolean | undefined,
+  contextLength: number | undefined,
+): Set<ModelCapabilityTag> {
+  const capabilities = new Set<ModelCapabilityTag>();
+  // Catalogs rarely describe tool support, so it is assumed unless denied.
+  if (supportsTools !== false) {
+    capabilities.add('tools');
+  }
+  if (supportsVision) {
+    capabilities.add('vision');
+  }
+  if (contextLength && contextLength >= LONG_CONTEXT_MODEL_TOKENS) {
+    capabilities.add('long-context');
+  }
+  return capabilities;
+}
+
+function getTokenPrice(pricing: ModelPricing | undefined): number | undefined {
+  return pricing ? (pricing.prompt + pricing.completion) / 2 : undefined;
+}
+
+/**
+ * Describes a candidate, or returns undefined when its provider is not
+ * configured.
+ */
+function profileCandidate(
+  candidate: RoutingCandidate,
+  config: Config,
+  settings: DevoraSettings,
+): CandidateProfile | undefined {
+  const { providerId, model } = parseFallbackChainEntry(candidate.model);
+  let capabilities: Set<ModelCapabilityTag>;
+  let tokenPrice: number | undefined;
+  if (providerId === GEMINI_PROVIDER_ID) {
+    capabilities = new Set(['tools', 'vision', 'long-context']);
+  } else {
+    const provider = getConfiguredProviders(settings).find(
+      (configured) => configured.id === providerId,
+    );
+    if (!provider) {
+      return undefined;
+    }
+    const catalogModel = getCachedProviderModel(provider, model);
+    capabilities = getCatalogCapabilities(
+      catalogModel?.supportsTools,
+      catalogModel?.supportsVision,
+      catalogModel?.contextLength,
+    );
+    tokenPrice = getTokenPrice(catalogModel?.pricing);
+  }
+  const stats = config.getModelAvailabilityService().getPerformanceStats(model);
+  return {
+    providerId,
+    model,
+    capabilities: candidate.tags ? new Set(candidate.tags) : capabilities,
+    tokenPrice,
+    averageLatencyMs: stats?.averageLatencyMs,
+    errorRate: stats?.errorRate ?? 0,
+  };
+}
+
+function isImagePart(part: Part): boolean {
+  const mimeType = part.inlineData?.mimeType ?? part.fileData?.mimeType;
+  return !!mimeType?.startsWith('image/');
+}
+
+/**
+ * Returns the capabilities the model of a request needs. Requests of the
+ * session always declare tools.
+ */
+function getRequiredCapabilities(
+  context: RoutingContext,
+): ModelCapabilityTag[] {
+  const requestParts: Part[] = (
+    Array.isArray(context.request) ? context.request : [context.request]
+  ).map((part) => (typeof part === 'string' ? { text: part } : part));
+  const parts = [
+    ...context.history.flatMap((content: Content) => content.parts ?? []),
+    ...requestParts,
+  ];
+
+  const required: ModelCapabilityTag[] = ['tools'];
+  if (parts.some(isImagePart)) {
+    required.push('vision');
+  }
+  if (estimateTokenCountSync(parts) > LONG_CONTEXT_REQUEST_TOKENS) {
+    required.push('long-context');
+  }
+  return required;
+}
+
+/**
+ * Scores a candidate against the others, lower being better. Price and
+ * latency are relative to the most expensive and slowest candidates, and
+ * count as average when unknown.
+ */
+function scoreCandidate(
+  profile: CandidateProfile,
+  maxTokenPrice: number,
+  maxLatencyMs: number,
+): number {
+  const costScore =
+    profile.tokenPrice === undefined
+      ? 1
+      : maxTokenPrice > 0
+        ? profile.tokenPrice / maxTokenPrice
+        : 0;
+  const latencyScore =
+    profile.averageLatencyMs === undefined
+      ? 0.5
+      : maxLatencyMs > 0
+        ? profile.averageLatencyMs / maxLatencyMs
+        : 0;
+  return costScore + latencyScore + ERROR_RATE_WEIGHT * profile.errorRate;
+}
+
+function describeProfile(profile: CandidateProfile): string {
+  const details = [
+    profile.tokenPrice === undefined
+      ? 'unknown price'
+      : `$${(profile.tokenPrice * 1_000_000).toFixed(2)}/M tokens`,
+    profile.averageLatencyMs === undefined
+      ? 'no latency yet'
+      : `${(profile.averageLatencyMs / 1000).toFixed(1)}s average latency`,
+    `${Math.round(profile.errorRate * 100)}% errors`,
+  ];
+  const model =
+    profile.providerId === GEMINI_PROVIDER_ID
+      ? profile.model
+      : `${profile.providerId}:${profile.model}`;
+  return `${model} (${details.join(', ')})`;
+}
+
+/**
+ * Routes auto model requests to the cheapest and fastest of the routing
+ * candidates of the settings having the capabilities the request needs,
+ * weighing the latency and errors of their recent requests.
+ */
+export class CostAwareStrategy implements RoutingStrategy {
+  readonly name = 'cost-aware';
+
+  async route(
+    context: RoutingContext,
+    config: Config,
+    _baseLlmClient: BaseLlmClient,
+  ): Promise<RoutingDecision | null> {
+    const candidates = config.getRoutingCandidates();
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const startTime = Date.now();
+    const settings = loadDevoraSettings();
+    const required = getRequiredCapabilities(context);
+    const availability = config.getModelAvailabilityService();
+    const eligible = candidates
+      .map((candidate) => profileCandidate(candidate, config, settings))
+      .filter(
+        (profile): profile is CandidateProfile =>
+          !!profile &&
+          required.every((tag) => profile.capabilities.has(tag)) &&
+          availability.snapshot(profile.model).available,
+      );
+    if (eligible.length === 0) {
+      return null;
+    }
+
+    const maxTokenPrice = Math.max(
+      ...eligible.map((profile) => profile.tokenPrice ?? 0),
+    );
+    const maxLatencyMs = Math.max(
+      ...eligible.map((profile) => profile.averageLatencyMs ?? 0),
+    );
+    // The first of the best candidates wins, in the order of the settings.
+    const best = eligible.reduce((selected, profile) =>
+      scoreCandidate(profile, maxTokenPrice, maxLatencyMs) <
+      scoreCandidate(selected, maxTokenPrice, maxLatencyMs)
+        ? profile
+        : selected,
+    );
+
+    return {
+      model: best.model,
+      providerId: best.providerId,
+      metadata: {
+        source: this.name,
+        latencyMs: Date.now() - startTime,
+        reasoning: `Picked ${describeProfile(best)} among ${eligible.length} of ${candidates.length} candidates supporting ${required.join(', ')}`,
+      },
+    };
+  }
+}
@@ -178,6 +178,7 @@ describe('ChatCompressionService', () => {
       getContentGenerator: vi.fn().mockReturnValue({
         countTokens: vi.fn().mockResolvedValue({ totalTokens: 100 }),
       }),
+      getContentGeneratorConfig: vi.fn().mockReturnValue({}),
       getEnableHooks: vi.fn().mockReturnValue(false),
       getMessageBus: vi.fn().mockReturnValue(undefined),
       getHookSystem: () => undefined,
@@ -9,6 +9,7 @@ import type { Config } from '../config/config.js';
 import type { GeminiChat } from '../core/geminiChat.js';
 import { type ChatCompressionInfo, CompressionStatus } from '../core/turn.js';
 import { tokenLimit } from '../core/tokenLimits.js';
+import { getSessionServedModel } from '../openai-compatible/providers.js';
 import { getCompressionPrompt } from '../core/prompts.js';
 import { getResponseText } from '../utils/partUtils.js';
 import { logChatCompression } from '../telemetry/loggers.js';
@@ -135,6 +136,7 @@ export function modelStringToModelConfigAlias(model: string): string {
 async function truncateHistoryToBudget(
   history: Content[],
   config: Config,
+  model: string,
 ): Promise<Content[]> {
   let functionResponseTokenCounter = 0;
   const truncatedHistory: Content[] = [];
@@ -174,7 +176,7 @@ async function truncateHistoryToBudget(
             contentStr = JSON.stringify(responseObj, null, 2);
           }
 
-          const tokens = estimateTokenCountSync([{ text: contentStr }]);
+          const tokens = estimateTokenCountSync([{ text: contentStr }], model);
 
           if (
             functionResponseTokenCounter + tokens >
@@ -204,9 +206,10 @@ async function truncateHistoryToBudget(
               });
 
               // Count the small truncated placeholder towards the budget.
-              functionResponseTokenCounter += estimateTokenCountSync([
-                { text: truncatedMessage },
-              ]);
+              functionResponseTokenCounter += estimateTokenCountSync(
+                [{ text: truncatedMessage }],
+                model,
+              );
             } catch (error) {
               // Fallback: if truncation fails, keep the original part to avoid data loss in the chat.
               debugLogger.debug('Failed to truncate history to budget:', error);
@@ -271,7 +274,7 @@ export class ChatCompressionService {
       const threshold =
         (await config.getCompressionThreshold()) ??
         DEFAULT_COMPRESSION_TOKEN_THRESHOLD;
-      if (originalTokenCount < threshold * tokenLimit(model)) {
+      if (originalTokenCount < threshold * tokenLimit(model, config)) {
         return {
           newHistory: null,
           info: {
@@ -283,11 +286,15 @@ export class ChatCompressionService {
       }
     }
 
+    // Tokens are counted with the tokenizer of the model serving the session.
+    const servedModel = getSessionServedModel(config, model);
+
     // Apply token-based truncation to the entire history before splitting.
     // This ensures that even the "to compress" portion is within safe limits for the summarization model.
     const truncatedHistory = await truncateHistoryToBudget(
       curatedHistory,
       config,
+      servedModel,
     );
 
     const splitPoint = findCompressSplitPoint(
@@ -313,10 +320,11 @@ export class ChatCompressionService {
     const originalHistoryToCompress = curatedHistory.slice(0, splitPoint);
     const originalToCompressTokenCount = estimateTokenCountSync(
       originalHistoryToCompress.flatMap((c) => c.parts || []),
+      servedModel,
     );
 
     const historyForSummarizer =
-      originalToCompressTokenCount < tokenLimit(model)
+      originalToCompressTokenCount < tokenLimit(model, config)
         ? originalHistoryToCompress
         : historyToCompressTruncated;
 
@@ -414,7 +422,7 @@ export class ChatCompressionService {
     const newTokenCount = await calculateRequestTokenCount(
       fullNewHistory.flatMap((c) => c.parts || []),
       config.getContentGenerator(),
-      model,
+      servedModel,
     );
 
     logChatCompression(
@@ -47,6 +47,7 @@ describe('ChatRecordingService', () => {
       },
       getModel: vi.fn().mockReturnValue('gemini-pro'),
       getDebugMode: vi.fn().mockReturnValue(false),
+      isMegaworkMode: vi.fn().mockReturnValue(false),
       getToolRegistry: vi.fn().mockReturnValue({
         getTool: vi.fn().mockReturnValue({
           displayName: 'Test Tool',
@@ -390,6 +391,53 @@ describe('ChatRecordingService', () => {
     });
   });
 
+  describe('saveMegaworkMode', () => {
+    it('should record the Megawork mode in the conversation', () => {
+      chatRecordingService.initialize();
+      vi.spyOn(fs, 'readFileSync').mockReturnValue(
+        JSON.stringify({
+          sessionId: 'test-session-id',
+          projectHash: 'test-project-hash',
+          messages: [
+            {
+              id: '1',
+              type: 'user',
+              content: 'Hello',
+              timestamp: new Date().toISOString(),
+            },
+          ],
+        }),
+      );
+
+      chatRecordingService.saveMegaworkMode(true);
+
+      const conversation = JSON.parse(
+        writeFileSyncSpy.mock.calls[0][1] as string,
+      ) as ConversationRecord;
+      expect(conversation.megawork).toBe(true);
+    });
+
+    it('should mark a new Megawork session on its first message', () => {
+      vi.mocked(mockConfig.isMegaworkMode).mockReturnValue(true);
+      chatRecordingService.initialize();
+      vi.spyOn(fs, 'readFileSync').mockImplementation(() => {
+        throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
+      });
+
+      chatRecordingService.recordMessage({
+        type: 'user',
+        content: 'Hello',
+        model: 'gemini-pro',
+      });
+
+      const conversation = JSON.parse(
+        writeFileSyncSpy.mock.calls[0][1] as string,
+      ) as ConversationRecord;
+      expect(conversation.megawork).toBe(true);
+      expect(conversation.messages).toHaveLength(1);
+    });
+  });
+
   describe('deleteSession', () => {
     it('should delete the session file', () => {
       const unlinkSyncSpy = vi
@@ -88,6 +88,10 @@ export interface ConversationRecord {
   lastUpdated: string;
   messages: MessageRecord[];
   summary?: string;
+  /** Whether the session runs in Megawork mode. */
+  megawork?: boolean;
+  /** The agent that recorded the session, for subagent sessions. */
+  agentName?: string;
 }
 
 /**
@@ -401,6 +405,7 @@ export class ChatRecordingService {
         startTime: new Date().toISOString(),
         lastUpdated: new Date().toISOString(),
         messages: [],
+        ...(this.config.isMegaworkMode() && { megawork: true }),
       };
     }
   }
@@ -458,6 +463,22 @@ export class ChatRecordingService {
     }
   }
 
+  /**
+   * Records whether the session runs in Megawork mode, so that resuming it
+   * restores the mode.
+   */
+  saveMegaworkMode(enabled: boolean): void {
+    if (!this.conversationFile) return;
+
+    try {
+      this.updateConversation((conversation) => {
+        conversation.megawork = enabled;
+      });
+    } catch (error) {
+      debugLogger.error('Error saving Megawork mode to chat history.', error);
+    }
+  }
+
   /**
    * Gets the current conversation data (for summary generation).
    */
@@ -41,6 +41,7 @@ import type {
   WebFetchFallbackAttemptEvent,
   ExtensionUpdateEvent,
   LlmLoopCheckEvent,
+  TodoContinuationEvent,
   HookCallEvent,
   ApprovalModeSwitchEvent,
   ApprovalModeDurationEvent,
@@ -101,6 +102,7 @@ export enum EventNames {
   RECOVERY_ATTEMPT = 'recovery_attempt',
   WEB_FETCH_FALLBACK_ATTEMPT = 'web_fetch_fallback_attempt',
   LLM_LOOP_CHECK = 'llm_loop_check',
+  TODO_CONTINUATION = 'todo_continuation',
   HOOK_CALL = 'hook_call',
   APPROVAL_MODE_SWITCH = 'approval_mode_switch',
   APPROVAL_MODE_DURATION = 'approval_mode_duration',
@@ -1444,6 +1446,29 @@ export class ClearcutLogger {
     this.flushIfNeeded();
   }
 
+  logTodoContinuationEvent(event: TodoContinuationEvent): void {
+    const data: EventValue[] = [
+      {
+        gemini_cli_key: EventMetadataKey.GEMINI_CLI_PROMPT_ID,
+        value: event.prompt_id,
+      },
+      {
+        gemini_cli_key: EventMetadataKey.GEMINI_CLI_TODO_CONTINUATION_COUNT,
+        value: event.continuation.toString(),
+      },
+      {
+        gemini_cli_key:
+          EventMetadataKey.GEMINI_CLI_TODO_CONTINUATION_INCOMPLETE_TODOS,
+        value: event.incomplete_todo_count.toString(),
+      },
+    ];
+
+    this.enqueueLogEvent(
+      this.createLogEvent(EventNames.TODO_CONTINUATION, data),
+    );
+    this.flushIfNeeded();
+  }
+
   logHookCallEvent(event: HookCallEvent): void {
     const data: EventValue[] = [
       {
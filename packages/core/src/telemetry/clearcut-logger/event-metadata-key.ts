@@ -542,4 +542,14 @@ export enum EventMetadataKey {
 
   // Logs the duration spent in an approval mode in milliseconds.
   GEMINI_CLI_APPROVAL_MODE_DURATION_MS = 143,
+
+  // ==========================================================================
+  // Todo Continuation Event Keys
+  // ==========================================================================
+
+  // Logs the number of the forced continuation within the prompt.
+  GEMINI_CLI_TODO_CONTINUATION_COUNT = 144,
+
+  // Logs the number of incomplete todos when the model was continued.
+  GEMINI_CLI_TODO_CONTINUATION_INCOMPLETE_TODOS = 145,
 }
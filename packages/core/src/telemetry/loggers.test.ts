@@ -1732,6 +1732,12 @@ describe('loggers', () => {
         mockConfig,
         event,
       );
+
+      expect(mockUiEvent.addEvent).toHaveBeenCalledWith({
+        ...event,
+        'event.name': EVENT_MODEL_ROUTING,
+        'event.timestamp': expect.any(String),
+      });
     });
 
     it('should only log to Clearcut if OTEL SDK is not initialized', () => {
@@ -11,6 +11,7 @@ import { SERVICE_NAME } from './constants.js';
 import {
   EVENT_API_ERROR,
   EVENT_API_RESPONSE,
+  EVENT_MODEL_ROUTING,
   EVENT_TOOL_CALL,
 } from './types.js';
 import type {
@@ -53,6 +54,7 @@ import type {
   HookCallEvent,
   StartupStatsEvent,
   LlmLoopCheckEvent,
+  TodoContinuationEvent,
 } from './types.js';
 import {
   recordApiErrorMetrics,
@@ -467,6 +469,12 @@ export function logModelRouting(
   config: Config,
   event: ModelRoutingEvent,
 ): void {
+  const uiEvent = {
+    ...event,
+    'event.name': EVENT_MODEL_ROUTING,
+    'event.timestamp': new Date().toISOString(),
+  } as UiEvent;
+  uiTelemetryService.addEvent(uiEvent);
   ClearcutLogger.getInstance(config)?.logModelRoutingEvent(event);
   bufferTelemetryEvent(() => {
     const logger = logs.getLogger(SERVICE_NAME);
@@ -673,6 +681,21 @@ export function logLlmLoopCheck(
   });
 }
 
+export function logTodoContinuation(
+  config: Config,
+  event: TodoContinuationEvent,
+): void {
+  ClearcutLogger.getInstance(config)?.logTodoContinuationEvent(event);
+  bufferTelemetryEvent(() => {
+    const logger = logs.getLogger(SERVICE_NAME);
+    const logRecord: LogRecord = {
+      body: event.toLogBody(),
+      attributes: event.toOpenTelemetryAttributes(config),
+    };
+    logger.emit(logRecord);
+  });
+}
+
 export function logApprovalModeSwitch(
   config: Config,
   event: ApprovalModeSwitchEvent,
@@ -541,8 +541,17 @@ export interface GenAIUsageDetails {
   thoughts_token_count: number;
   tool_token_count: number;
   total_token_count: number;
+  cost_usd?: number;
 }
 
+/**
+ * Usage metadata of a response, with the cost of the request in USD when the
+ * provider reports it or publishes the pricing of the model
+ */
+export type UsageMetadataWithCost = GenerateContentResponseUsageMetadata & {
+  costUsd?: number;
+};
+
 export const EVENT_API_RESPONSE = 'gemini_cli.api_response';
 export const EVENT_GEN_AI_OPERATION_DETAILS =
   'gen_ai.client.inference.operation.details';
@@ -590,7 +599,7 @@ export class ApiResponseEvent implements BaseTelemetryEvent {
     prompt_details: GenAIPromptDetails,
     response_details: GenAIResponseDetails,
     auth_type?: string,
-    usage_data?: GenerateContentResponseUsageMetadata,
+    usage_data?: UsageMetadataWithCost,
     response_text?: string,
   ) {
     this['event.name'] = 'api_response';
@@ -610,6 +619,7 @@ export class ApiResponseEvent implements BaseTelemetryEvent {
       thoughts_token_count: usage_data?.thoughtsTokenCount ?? 0,
       tool_token_count: usage_data?.toolUsePromptTokenCount ?? 0,
       total_token_count: usage_data?.totalTokenCount ?? 0,
+      cost_usd: usage_data?.costUsd,
     };
     this.finish_reasons = toFinishReasons(this.response.candidates);
   }
@@ -632,6 +642,9 @@ export class ApiResponseEvent implements BaseTelemetryEvent {
       status_code: this.status_code,
       finish_reasons: this.finish_reasons,
     };
+    if (this.usage.cost_usd !== undefined) {
+      attributes['cost_usd'] = this.usage.cost_usd;
+    }
     if (this.response_text) {
       attributes['response_text'] = this.response_text;
     }
@@ -1522,6 +1535,42 @@ export class LlmLoopCheckEvent implements BaseTelemetryEvent {
   }
 }
 
+export const EVENT_TODO_CONTINUATION = 'gemini_cli.todo_continuation';
+export class TodoContinuationEvent implements BaseTelemetryEvent {
+  'event.name': 'todo_continuation';
+  'event.timestamp': string;
+  prompt_id: string;
+  continuation: number;
+  incomplete_todo_count: number;
+
+  constructor(
+    prompt_id: string,
+    continuation: number,
+    incomplete_todo_count: number,
+  ) {
+    this['event.name'] = 'todo_continuation';
+    this['event.timestamp'] = new Date().toISOString();
+    this.prompt_id = prompt_id;
+    this.continuation = continuation;
+    this.incomplete_todo_count = incomplete_todo_count;
+  }
+
+  toOpenTelemetryAttributes(config: Config): LogAttributes {
+    return {
+      ...getCommonAttributes(config),
+      'event.name': EVENT_TODO_CONTINUATION,
+      'event.timestamp': this['event.timestamp'],
+      prompt_id: this.prompt_id,
+      continuation: this.continuation,
+      incomplete_todo_count: this.incomplete_todo_count,
+    };
+  }
+
+  toLogBody(): string {
+    return `Todo continuation ${this.continuation} with ${this.incomplete_todo_count} incomplete todo(s).`;
+  }
+}
+
 export type TelemetryEvent =
   | StartSessionEvent
   | EndSessionEvent
@@ -1552,6 +1601,7 @@ export type TelemetryEvent =
   | AgentFinishEvent
   | RecoveryAttemptEvent
   | LlmLoopCheckEvent
+  | TodoContinuationEvent
   | StartupStatsEvent
   | WebFetchFallbackAttemptEvent
   | EditStrategyEvent
@@ -1901,7 +1951,7 @@ export class HookCallEvent implements BaseTelemetryEvent {
   'event.name': string;
   'event.timestamp': string;
   hook_event_name: string;
-  hook_type: 'command';
+  hook_type: 'command' | 'function' | 'http';
   hook_name: string;
   hook_input: Record<string, unknown>;
   hook_output?: Record<string, unknown>;
@@ -1914,7 +1964,7 @@ export class HookCallEvent implements BaseTelemetryEvent {
 
   constructor(
     hookEventName: string,
-    hookType: 'command',
+    hookType: 'command' | 'function' | 'http',
     hookName: string,
     hookInput: Record<string, unknown>,
     durationMs: number,
@@ -5,13 +5,14 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { UiTelemetryService } from './uiTelemetry.js';
+import { UiTelemetryService, getSessionCostUsd } from './uiTelemetry.js';
 import { ToolCallDecision } from './tool-call-decision.js';
 import type { ApiErrorEvent, ApiResponseEvent } from './types.js';
-import { ToolCallEvent } from './types.js';
+import { ModelRoutingEvent, ToolCallEvent } from './types.js';
 import {
   EVENT_API_ERROR,
   EVENT_API_RESPONSE,
+  EVENT_MODEL_ROUTING,
   EVENT_TOOL_CALL,
 } from './types.js';
 import type {
@@ -117,6 +118,11 @@ describe('UiTelemetryService', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      subagents: {},
+      routing: {
+        totalDecisions: 0,
+        bySource: {},
+      },
     });
     expect(service.getLastPromptTokenCount()).toBe(0);
   });
@@ -282,6 +288,63 @@ describe('UiTelemetryService', () => {
       expect(metrics.models['gemini-2.5-flash'].api.totalRequests).toBe(1);
       expect(service.getLastPromptTokenCount()).toBe(0);
     });
+
+    it('should aggregate costs per model and per subagent', () => {
+      const createEvent = (promptId: string, costUsd?: number) =>
+        ({
+          'event.name': EVENT_API_RESPONSE,
+          model: 'openai/gpt-4o',
+          duration_ms: 100,
+          prompt: { prompt_id: promptId },
+          usage: {
+            input_token_count: 10,
+            output_token_count: 20,
+            total_token_count: 30,
+            cached_content_token_count: 0,
+            thoughts_token_count: 0,
+            tool_token_count: 0,
+            cost_usd: costUsd,
+          },
+        }) as ApiResponseEvent & { 'event.name': typeof EVENT_API_RESPONSE };
+
+      service.addEvent(createEvent('session########1', 0.01));
+      service.addEvent(
+        createEvent('session########1-codebase_investigator-a1b2c3#1', 0.02),
+      );
+      service.addEvent(
+        createEvent('session########1-codebase_investigator-a1b2c3#2'),
+      );
+
+      const metrics = service.getMetrics();
+      expect(metrics.models['openai/gpt-4o'].costUsd).toBeCloseTo(0.03);
+      expect(getSessionCostUsd(metrics)).toBeCloseTo(0.03);
+      expect(Object.keys(metrics.subagents)).toEqual(['codebase_investigator']);
+      expect(metrics.subagents['codebase_investigator'].totalRequests).toBe(2);
+      expect(metrics.subagents['codebase_investigator'].totalTokens).toBe(60);
+      expect(metrics.subagents['codebase_investigator'].costUsd).toBeCloseTo(
+        0.02,
+      );
+    });
+
+    it('should leave the cost unknown when no response is priced', () => {
+      service.addEvent({
+        'event.name': EVENT_API_RESPONSE,
+        model: 'gemini-2.5-pro',
+        duration_ms: 100,
+        usage: {
+          input_token_count: 10,
+          output_token_count: 20,
+          total_token_count: 30,
+          cached_content_token_count: 0,
+          thoughts_token_count: 0,
+          tool_token_count: 0,
+        },
+      } as ApiResponseEvent & { 'event.name': typeof EVENT_API_RESPONSE });
+
+      const metrics = service.getMetrics();
+      expect(metrics.models['gemini-2.5-pro'].costUsd).toBeUndefined();
+      expect(getSessionCostUsd(metrics)).toBe(0);
+    });
   });
 
   describe('API Error Event Processing', () => {
@@ -360,6 +423,43 @@ describe('UiTelemetryService', () => {
     });
   });
 
+  describe('Model Routing Event Processing', () => {
+    it('should count the decisions by source and keep the last one', () => {
+      const routingEvent = (model: string, source: string, reasoning: string) =>
+        ({
+          ...new ModelRoutingEvent(
+            model,
+            source,
+            0,
+            reasoning,
+            false,
+            undefined,
+          ),
+          'event.name': EVENT_MODEL_ROUTING,
+        }) as ModelRoutingEvent & { 'event.name': typeof EVENT_MODEL_ROUTING };
+
+      service.addEvent(
+        routingEvent('gemini-2.5-pro', 'classifier', 'Complex task'),
+      );
+      service.addEvent(
+        routingEvent('glm-4.5-air', 'cost-aware', 'Picked zai:glm-4.5-air'),
+      );
+      service.addEvent(
+        routingEvent('glm-4.5-air', 'cost-aware', 'Picked zai:glm-4.5-air'),
+      );
+
+      expect(service.getMetrics().routing).toEqual({
+        totalDecisions: 3,
+        bySource: { classifier: 1, 'cost-aware': 2 },
+        lastDecision: {
+          model: 'glm-4.5-air',
+          source: 'cost-aware',
+          reasoning: 'Picked zai:glm-4.5-air',
+        },
+      });
+    });
+  });
+
   describe('Tool Call Event Processing', () => {
     it('should process a single successful ToolCallEvent', () => {
       const toolCall = createFakeCompletedToolCall(
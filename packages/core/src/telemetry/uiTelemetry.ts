@@ -8,6 +8,7 @@ import { EventEmitter } from 'node:events';
 import {
   EVENT_API_ERROR,
   EVENT_API_RESPONSE,
+  EVENT_MODEL_ROUTING,
   EVENT_TOOL_CALL,
 } from './types.js';
 
@@ -15,13 +16,15 @@ import { ToolCallDecision } from './tool-call-decision.js';
 import type {
   ApiErrorEvent,
   ApiResponseEvent,
+  ModelRoutingEvent,
   ToolCallEvent,
 } from './types.js';
 
 export type UiEvent =
   | (ApiResponseEvent & { 'event.name': typeof EVENT_API_RESPONSE })
   | (ApiErrorEvent & { 'event.name': typeof EVENT_API_ERROR })
-  | (ToolCallEvent & { 'event.name': typeof EVENT_TOOL_CALL });
+  | (ToolCallEvent & { 'event.name': typeof EVENT_TOOL_CALL })
+  | (ModelRoutingEvent & { 'event.name': typeof EVENT_MODEL_ROUTING });
 
 export interface ToolCallStats {
   count: number;
@@ -51,6 +54,27 @@ export interface ModelMetrics {
     thoughts: number;
     tool: number;
   };
+  /** Cost in USD, undefined until a response of known cost arrives */
+  costUsd?: number;
+}
+
+export interface SubagentMetrics {
+  totalRequests: number;
+  totalTokens: number;
+  /** Cost in USD, undefined until a response of known cost arrives */
+  costUsd?: number;
+}
+
+export interface RoutingMetrics {
+  totalDecisions: number;
+  /** Decisions, counted by the routing strategy that made them */
+  bySource: Record<string, number>;
+  /** The last decision, with the reasoning of its strategy */
+  lastDecision?: {
+    model: string;
+    source: string;
+    reasoning?: string;
+  };
 }
 
 export interface SessionMetrics {
@@ -72,6 +96,9 @@ export interface SessionMetrics {
     totalLinesAdded: number;
     totalLinesRemoved: number;
   };
+  /** Requests made by subagents, keyed by agent name */
+  subagents: Record<string, SubagentMetrics>;
+  routing: RoutingMetrics;
 }
 
 const createInitialModelMetrics = (): ModelMetrics => ({
@@ -110,8 +137,34 @@ const createInitialMetrics = (): SessionMetrics => ({
     totalLinesAdded: 0,
     totalLinesRemoved: 0,
   },
+  subagents: {},
+  routing: {
+    totalDecisions: 0,
+    bySource: {},
+  },
 });
 
+/**
+ * Subagent prompt ids are built by `LocalAgentExecutor` as
+ * `[<parentPromptId>-]<agentName>-<random>#<turn>`.
+ */
+const SUBAGENT_PROMPT_ID_PATTERN = /(?:^|#\d+-)([^#]+)-[a-z0-9]+#\d+$/;
+
+function getSubagentName(promptId: string): string | undefined {
+  return SUBAGENT_PROMPT_ID_PATTERN.exec(promptId)?.[1];
+}
+
+/**
+ * Returns the cost of the session in USD, summed over the models whose cost
+ * is known.
+ */
+export function getSessionCostUsd(metrics: SessionMetrics): number {
+  return Object.values(metrics.models).reduce(
+    (total, model) => total + (model.costUsd ?? 0),
+    0,
+  );
+}
+
 export class UiTelemetryService extends EventEmitter {
   #metrics: SessionMetrics = createInitialMetrics();
   #lastPromptTokenCount = 0;
@@ -127,6 +180,9 @@ export class UiTelemetryService extends EventEmitter {
       case EVENT_TOOL_CALL:
         this.processToolCall(event);
         break;
+      case EVENT_MODEL_ROUTING:
+        this.processModelRouting(event);
+        break;
       default:
         // We should not emit update for any other event metric.
         return;
@@ -177,6 +233,25 @@ export class UiTelemetryService extends EventEmitter {
       0,
       modelMetrics.tokens.prompt - modelMetrics.tokens.cached,
     );
+
+    const costUsd = event.usage.cost_usd;
+    if (costUsd !== undefined) {
+      modelMetrics.costUsd = (modelMetrics.costUsd ?? 0) + costUsd;
+    }
+
+    const promptId = event.prompt?.prompt_id;
+    const subagentName = promptId ? getSubagentName(promptId) : undefined;
+    if (subagentName) {
+      const subagentMetrics = (this.#metrics.subagents[subagentName] ??= {
+        totalRequests: 0,
+        totalTokens: 0,
+      });
+      subagentMetrics.totalRequests++;
+      subagentMetrics.totalTokens += event.usage.total_token_count;
+      if (costUsd !== undefined) {
+        subagentMetrics.costUsd = (subagentMetrics.costUsd ?? 0) + costUsd;
+      }
+    }
   }
 
   private processApiError(event: ApiErrorEvent) {
@@ -186,6 +261,18 @@ export class UiTelemetryService extends EventEmitter {
     modelMetrics.api.totalLatencyMs += event.duration_ms;
   }
 
+  private processModelRouting(event: ModelRoutingEvent) {
+    const { routing } = this.#metrics;
+    routing.totalDecisions++;
+    routing.bySource[event.decision_source] =
+      (routing.bySource[event.decision_source] ?? 0) + 1;
+    routing.lastDecision = {
+      model: event.decision_model,
+      source: event.decision_source,
+      reasoning: event.reasoning,
+    };
+  }
+
   private processToolCall(event: ToolCallEvent) {
     const { tools, files } = this.#metrics;
     tools.totalCalls++;
@@ -0,0 +1,74 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  getTokenizer,
+  registerTokenizerFamily,
+  resetTokenizersForTesting,
+} from './tokenizer.js';
+
+describe('tokenizer', () => {
+  beforeEach(() => {
+    resetTokenizersForTesting();
+  });
+
+  it.each([
+    ['gpt-4o', 'o200k_base'],
+    ['openai/gpt-4.1-mini', 'o200k_base'],
+    ['o3-mini', 'o200k_base'],
+    ['gpt-4-turbo', 'cl100k_base'],
+    ['glm-4.7', 'o200k_base'],
+    ['z-ai/glm-4.6', 'o200k_base'],
+    ['qwen/qwen3-coder', 'o200k_base'],
+    ['anthropic/claude-sonnet-4', 'cl100k_base'],
+    ['meta-llama/llama-3.3-70b-instruct', 'cl100k_base'],
+  ])('should select the tokenizer of %s', (model, name) => {
+    expect(getTokenizer(model)?.name).toBe(name);
+  });
+
+  it('should have no tokenizer for unknown models', () => {
+    expect(getTokenizer('gemini-2.5-pro')).toBeUndefined();
+    expect(getTokenizer('mistralai/mistral-large')).toBeUndefined();
+    expect(getTokenizer(undefined)).toBeUndefined();
+  });
+
+  it('should count tokens with the BPE table', () => {
+    const tokenizer = getTokenizer('gpt-4o')!;
+    expect(tokenizer.countTokens('Hello, world!')).toBe(4);
+    expect(tokenizer.countTokens('')).toBe(0);
+  });
+
+  it('should count special tokens as text', () => {
+    expect(
+      getTokenizer('gpt-4o')!.countTokens('<|endoftext|>'),
+    ).toBeGreaterThan(1);
+  });
+
+  it('should reuse the tokenizer of a family', () => {
+    expect(getTokenizer('glm-4.7')).toBe(getTokenizer('glm-4.5-air'));
+  });
+
+  it('should prefer registered families', () => {
+    registerTokenizerFamily({
+      pattern: /^glm/,
+      createTokenizer: () => ({
+        name: 'glm',
+        countTokens: (text) => text.length,
+      }),
+    });
+    registerTokenizerFamily({
+      pattern: /^mistral/,
+      createTokenizer: () => ({
+        name: 'mistral',
+        countTokens: (text) => text.length,
+      }),
+    });
+
+    expect(getTokenizer('glm-4.7')?.name).toBe('glm');
+    expect(getTokenizer('mistralai/mistral-large')?.countTokens('abc')).toBe(3);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Tiktoken } from 'js-tiktoken/lite';
+import type { TiktokenBPE } from 'js-tiktoken/lite';
+import cl100kBase from 'js-tiktoken/ranks/cl100k_base';
+import o200kBase from 'js-tiktoken/ranks/o200k_base';
+
+/**
+ * Counts the tokens of a text the way a family of models does
+ */
+export interface Tokenizer {
+  readonly name: string;
+  countTokens(text: string): number;
+}
+
+/**
+ * A family of models sharing a tokenizer
+ */
+export interface TokenizerFamily {
+  /** Matches the model ids of the family, without their provider prefix */
+  pattern: RegExp;
+  createTokenizer: () => Tokenizer;
+}
+
+/**
+ * Creates a tokenizer from tiktoken BPE ranks. The ranks are only decoded on
+ * first use.
+ */
+export function createBpeTokenizer(
+  name: string,
+  ranks: TiktokenBPE,
+): Tokenizer {
+  let encoder: Tiktoken | undefined;
+  return {
+    name,
+    countTokens(text: string): number {
+      encoder ??= new Tiktoken(ranks);
+      // Special tokens in the text are counted as the plain text they are.
+      return encoder.encode(text, [], []).length;
+    },
+  };
+}
+
+const o200kTokenizer = () => createBpeTokenizer('o200k_base', o200kBase);
+const cl100kTokenizer = () => createBpeTokenizer('cl100k_base', cl100kBase);
+
+// Families whose tokenizer is not published use the closest bundled table:
+// GLM, Qwen and DeepSeek have vocabularies of the size of o200k_base, while
+// Claude and Llama are closer to cl100k_base.
+const BUILTIN_TOKENIZER_FAMILIES: readonly TokenizerFamily[] = [
+  {
+    pattern: /^(gpt-4o|chatgpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|o\d)/,
+    createTokenizer: o200kTokenizer,
+  },
+  {
+    pattern: /^(gpt-4|gpt-3\.5|text-embedding-3|text-embedding-ada)/,
+    createTokenizer: cl100kTokenizer,
+  },
+  {
+    pattern: /^(glm|chatglm|codegeex|qwen|qwq|deepseek)/,
+    createTokenizer: o200kTokenizer,
+  },
+  {
+    pattern: /^(claude|llama|meta-llama|codellama)/,
+    createTokenizer: cl100kTokenizer,
+  },
+];
+
+const customFamilies: TokenizerFamily[] = [];
+const tokenizers = new Map<TokenizerFamily, Tokenizer>();
+
+/**
+ * Registers a tokenizer for a family of models. Registered families take
+ * precedence over the bundled ones.
+ */
+export function registerTokenizerFamily(family: TokenizerFamily): void {
+  customFamilies.unshift(family);
+}
+
+/**
+ * Returns the tokenizer of a model, or undefined when its family is unknown.
+ * Provider prefixes such as `anthropic/` are ignored.
+ */
+export function getTokenizer(model: string | undefined): Tokenizer | undefined {
+  if (!model) {
+    return undefined;
+  }
+  const modelId = model.slice(model.lastIndexOf('/') + 1).toLowerCase();
+  const family = [...customFamilies, ...BUILTIN_TOKENIZER_FAMILIES].find(
+    ({ pattern }) => pattern.test(modelId),
+  );
+  if (!family) {
+    return undefined;
+  }
+  let tokenizer = tokenizers.get(family);
+  if (!tokenizer) {
+    tokenizer = family.createTokenizer();
+    tokenizers.set(family, tokenizer);
+  }
+  return tokenizer;
+}
+
+/**
+ * Forgets the registered families.
+ */
+export function resetTokenizersForTesting(): void {
+  customFamilies.length = 0;
+  tokenizers.clear();
+}
@@ -19,6 +19,7 @@ import { BaseDeclarativeTool, BaseToolInvocation, Kind } from './tools.js';
 import type { Config } from '../config/config.js';
 import { ACTIVATE_SKILL_TOOL_NAME } from './tool-names.js';
 import { ToolErrorType } from './tool-error.js';
+import type { SkillDefinition } from '../skills/skillManager.js';
 
 /**
  * Parameters for the ActivateSkill tool
@@ -30,6 +31,26 @@ export interface ActivateSkillToolParams {
   name: string;
 }
 
+/**
+ * Formats the instructions and bundled resources of a skill for the model.
+ *
+ * @param folderStructure The folder structure of the skill's directory.
+ */
+export function formatActivatedSkill(
+  skill: SkillDefinition,
+  folderStructure: string,
+): string {
+  return `<activated_skill name="${skill.name}">
+  <instructions>
+    ${skill.body}
+  </instructions>
+
+  <available_resources>
+    ${folderStructure}
+  </available_resources>
+</activated_skill>`;
+}
+
 class ActivateSkillToolInvocation extends BaseToolInvocation<
   ActivateSkillToolParams,
   ToolResult
@@ -137,15 +158,7 @@ ${folderStructure}`,
     );
 
     return {
-      llmContent: `<activated_skill name="${skillName}">
-  <instructions>
-    ${skill.body}
-  </instructions>
-
-  <available_resources>
-    ${folderStructure}
-  </available_resources>
-</activated_skill>`,
+      llmContent: formatActivatedSkill(skill, folderStructure),
       returnDisplay: `Skill **${skillName}** activated. Resources loaded from \`${path.dirname(skill.location)}\`:\n\n${folderStructure}`,
     };
   }
@@ -24,6 +24,7 @@ import type {
   Resource,
 } from '@modelcontextprotocol/sdk/types.js';
 import {
+  CreateMessageRequestSchema,
   ListResourcesResultSchema,
   ListRootsRequestSchema,
   ReadResourceResultSchema,
@@ -37,6 +38,7 @@ import { AuthProviderType } from '../config/config.js';
 import { GoogleCredentialProvider } from '../mcp/google-auth-provider.js';
 import { ServiceAccountImpersonationProvider } from '../mcp/sa-impersonation-provider.js';
 import { DiscoveredMCPTool } from './mcp-tool.js';
+import { createSamplingHandler } from './mcp-sampling.js';
 
 import type { CallableTool, FunctionCall, Part, Tool } from '@google/genai';
 import { basename } from 'node:path';
@@ -144,6 +146,7 @@ export class McpClient {
         this.debugMode,
         this.workspaceContext,
         this.cliConfig.sanitizationConfig,
+        this.cliConfig,
       );
 
       this.registerNotificationHandlers();
@@ -832,6 +835,7 @@ export async function connectAndDiscover(
       debugMode,
       workspaceContext,
       cliConfig.sanitizationConfig,
+      cliConfig,
     );
 
     mcpClient.onerror = (error) => {
@@ -1333,6 +1337,7 @@ async function retryWithOAuth(
  *
  * @param mcpServerName The name of the MCP server, used for logging and identification.
  * @param mcpServerConfig The configuration specifying how to connect to the server.
+ * @param cliConfig When given, the server may sample the model of the session.
  * @returns A promise that resolves to a connected MCP `Client` instance.
  * @throws An error if the connection fails or the configuration is invalid.
  */
@@ -1343,6 +1348,7 @@ export async function connectToMcpServer(
   debugMode: boolean,
   workspaceContext: WorkspaceContext,
   sanitizationConfig: EnvironmentSanitizationConfig,
+  cliConfig?: Config,
 ): Promise<Client> {
   const mcpClient = new Client(
     {
@@ -1374,6 +1380,19 @@ export async function connectToMcpServer(
     };
   });
 
+  if (cliConfig) {
+    mcpClient.registerCapabilities({ sampling: {} });
+    const handleSampling = createSamplingHandler(
+      mcpServerName,
+      mcpServerConfig,
+      cliConfig,
+      mcpServerConfig.timeout ?? MCP_DEFAULT_TIMEOUT_MSEC,
+    );
+    mcpClient.setRequestHandler(CreateMessageRequestSchema, (request, extra) =>
+      handleSampling(request, extra.signal),
+    );
+  }
+
   let unlistenDirectories: Unsubscribe | undefined =
     workspaceContext.onDirectoriesChanged(async () => {
       try {
@@ -0,0 +1,226 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { FinishReason, type GenerateContentResponse } from '@google/genai';
+import type { CreateMessageRequest } from '@modelcontextprotocol/sdk/types.js';
+import { createSamplingHandler } from './mcp-sampling.js';
+import type { Config, MCPServerConfig } from '../config/config.js';
+import { MessageBus } from '../confirmation-bus/message-bus.js';
+import {
+  MessageBusType,
+  type McpSamplingCancelled,
+  type McpSamplingRequest,
+} from '../confirmation-bus/types.js';
+import type { PolicyEngine } from '../policy/policy-engine.js';
+
+describe('createSamplingHandler', () => {
+  let messageBus: MessageBus;
+  let generateContent: ReturnType<typeof vi.fn>;
+  let config: Config;
+
+  const request = (
+    messages: CreateMessageRequest['params']['messages'] = [
+      { role: 'user', content: { type: 'text', text: 'Summarize the diff' } },
+    ],
+  ): CreateMessageRequest => ({
+    method: 'sampling/createMessage',
+    params: { messages, systemPrompt: 'Be brief.', maxTokens: 200 },
+  });
+
+  const handle = (
+    serverConfig: MCPServerConfig,
+    req = request(),
+    signal = new AbortController().signal,
+  ) =>
+    createSamplingHandler(
+      'summarizer',
+      serverConfig,
+      config,
+      1000,
+    )(req, signal);
+
+  beforeEach(() => {
+    messageBus = new MessageBus({} as PolicyEngine);
+    generateContent = vi.fn().mockResolvedValue({
+      modelVersion: 'glm-4.6',
+      candidates: [
+        {
+          content: { role: 'model', parts: [{ text: 'A short summary.' }] },
+          finishReason: FinishReason.MAX_TOKENS,
+        },
+      ],
+    } as GenerateContentResponse);
+    config = {
+      getActiveModel: () => 'glm-4.6',
+      getPreviewFeatures: () => false,
+      getMessageBus: () => messageBus,
+      getContentGenerator: () => ({ generateContent }),
+    } as unknown as Config;
+  });
+
+  it('should sample the session model for trusted servers', async () => {
+    const result = await handle({ trustSampling: true });
+
+    expect(generateContent).toHaveBeenCalledExactlyOnceWith(
+      {
+        model: 'glm-4.6',
+        contents: [{ role: 'user', parts: [{ text: 'Summarize the diff' }] }],
+        config: expect.objectContaining({
+          systemInstruction: 'Be brief.',
+          maxOutputTokens: 200,
+        }),
+      },
+      'mcp-sampling-summarizer',
+    );
+    expect(result).toEqual({
+      model: 'glm-4.6',
+      role: 'assistant',
+      content: { type: 'text', text: 'A short summary.' },
+      stopReason: 'maxTokens',
+    });
+  });
+
+  it('should ask the user to approve requests of other servers', async () => {
+    const requests: McpSamplingRequest[] = [];
+    messageBus.subscribe<McpSamplingRequest>(
+      MessageBusType.MCP_SAMPLING_REQUEST,
+      (message) => {
+        requests.push(message);
+        void messageBus.publish({
+          type: MessageBusType.MCP_SAMPLING_RESPONSE,
+          correlationId: message.correlationId,
+          confirmed: true,
+        });
+      },
+    );
+
+    const result = await handle(
+      {},
+      request([
+        { role: 'user', content: { type: 'text', text: 'Describe this' } },
+        {
+          role: 'assistant',
+          content: [{ type: 'image', data: 'aGk=', mimeType: 'image/png' }],
+        },
+      ]),
+    );
+
+    expect(requests).toEqual([
+      expect.objectContaining({
+        serverName: 'summarizer',
+        model: 'glm-4.6',
+        systemPrompt: 'Be brief.',
+        messages: [
+          { role: 'user', text: 'Describe this' },
+          { role: 'assistant', text: '[image]' },
+        ],
+        maxTokens: 200,
+      }),
+    ]);
+    expect(generateContent.mock.calls[0][0].contents[1]).toEqual({
+      role: 'model',
+      parts: [{ inlineData: { mimeType: 'image/png', data: 'aGk=' } }],
+    });
+    expect(result.content).toEqual({ type: 'text', text: 'A short summary.' });
+  });
+
+  it('should reject requests the user declines', async () => {
+    messageBus.subscribe<McpSamplingRequest>(
+      MessageBusType.MCP_SAMPLING_REQUEST,
+      (message) =>
+        void messageBus.publish({
+          type: MessageBusType.MCP_SAMPLING_RESPONSE,
+          correlationId: message.correlationId,
+          confirmed: false,
+        }),
+    );
+
+    await expect(handle({})).rejects.toThrow('User rejected sampling request');
+    expect(generateContent).not.toHaveBeenCalled();
+  });
+
+  it('should reject requests when no one can approve them', async () => {
+    await expect(handle({})).rejects.toThrow('User rejected sampling request');
+    expect(generateContent).not.toHaveBeenCalled();
+  });
+
+  it('should withdraw the approval prompt when the user does not answer in time', async () => {
+    vi.useFakeTimers();
+    try {
+      const requests: McpSamplingRequest[] = [];
+      const cancellations: McpSamplingCancelled[] = [];
+      messageBus.subscribe<McpSamplingRequest>(
+        MessageBusType.MCP_SAMPLING_REQUEST,
+        (message) => requests.push(message),
+      );
+      messageBus.subscribe<McpSamplingCancelled>(
+        MessageBusType.MCP_SAMPLING_CANCELLED,
+        (message) => cancellations.push(message),
+      );
+
+      const result = handle({}).catch((error: Error) => error);
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(await result).toEqual(
+        new Error(
+          'Timed out after 1000ms waiting for the user to approve the sampling request',
+        ),
+      );
+
+      expect(cancellations).toEqual([
+        {
+          type: MessageBusType.MCP_SAMPLING_CANCELLED,
+          correlationId: requests[0].correlationId,
+        },
+      ]);
+      expect(
+        messageBus.listenerCount(MessageBusType.MCP_SAMPLING_RESPONSE),
+      ).toBe(0);
+      expect(generateContent).not.toHaveBeenCalled();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should withdraw the approval prompt when the server cancels the request', async () => {
+    const controller = new AbortController();
+    const cancellations: McpSamplingCancelled[] = [];
+    messageBus.subscribe<McpSamplingRequest>(
+      MessageBusType.MCP_SAMPLING_REQUEST,
+      () => controller.abort(),
+    );
+    messageBus.subscribe<McpSamplingCancelled>(
+      MessageBusType.MCP_SAMPLING_CANCELLED,
+      (message) => cancellations.push(message),
+    );
+
+    await expect(handle({}, request(), controller.signal)).rejects.toThrow(
+      'Sampling request was cancelled by the server',
+    );
+    expect(cancellations).toHaveLength(1);
+    expect(generateContent).not.toHaveBeenCalled();
+  });
+
+  it('should reject tool use content', async () => {
+    await expect(
+      handle(
+        { trustSampling: true },
+        request([
+          {
+            role: 'assistant',
+            content: {
+              type: 'tool_use',
+              id: 'call-1',
+              name: 'search',
+              input: {},
+            },
+          },
+        ]),
+      ),
+    ).rejects.toThrow('Unsupported sampling content type: tool_use');
+  });
+});
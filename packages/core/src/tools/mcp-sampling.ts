@@ -0,0 +1,218 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { Content, Part } from '@google/genai';
+import { FinishReason } from '@google/genai';
+import type {
+  CreateMessageRequest,
+  CreateMessageResult,
+  SamplingMessage,
+} from '@modelcontextprotocol/sdk/types.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { Config, MCPServerConfig } from '../config/config.js';
+import { resolveModel } from '../config/models.js';
+import {
+  MessageBusType,
+  type McpSamplingRequest,
+  type McpSamplingResponse,
+} from '../confirmation-bus/types.js';
+import { getResponseText } from '../utils/partUtils.js';
+import { debugLogger } from '../utils/debugLogger.js';
+
+/** Error code of the MCP specification for sampling requests the user rejected. */
+const USER_REJECTED_ERROR_CODE = -1;
+
+type SamplingContent = SamplingMessage['content'];
+
+/**
+ * Creates the handler of the `sampling/createMessage` requests of an MCP
+ * server. The requests are sent to the model of the session through the
+ * active content generator, which also counts their tokens in the session
+ * stats, once the user approved them.
+ *
+ * @param approvalTimeoutMs How long to wait for the user to approve a request.
+ */
+export function createSamplingHandler(
+  mcpServerName: string,
+  mcpServerConfig: MCPServerConfig,
+  cliConfig: Config,
+  approvalTimeoutMs: number,
+): (
+  request: CreateMessageRequest,
+  signal: AbortSignal,
+) => Promise<CreateMessageResult> {
+  return async ({ params }, signal) => {
+    const contents: Content[] = params.messages.map((message) => ({
+      role: message.role === 'assistant' ? 'model' : 'user',
+      parts: toParts(message.content),
+    }));
+    const model = resolveModel(
+      cliConfig.getActiveModel(),
+      cliConfig.getPreviewFeatures(),
+    );
+
+    if (!mcpServerConfig.trustSampling) {
+      const approved = await requestApproval(
+        cliConfig,
+        approvalTimeoutMs,
+        signal,
+        {
+          serverName: mcpServerName,
+          model,
+          systemPrompt: params.systemPrompt,
+          messages: params.messages.map((message) => ({
+            role: message.role,
+            text: toText(message.content),
+          })),
+          maxTokens: params.maxTokens,
+        },
+      );
+      if (!approved) {
+        throw new McpError(
+          USER_REJECTED_ERROR_CODE,
+          'User rejected sampling request',
+        );
+      }
+    }
+
+    debugLogger.log(
+      `MCP server '${mcpServerName}' is sampling ${model} (up to ${params.maxTokens} tokens)`,
+    );
+    const response = await cliConfig.getContentGenerator().generateContent(
+      {
+        model,
+        contents,
+        config: {
+          systemInstruction: params.systemPrompt,
+          maxOutputTokens: params.maxTokens,
+          temperature: params.temperature,
+          stopSequences: params.stopSequences,
+          abortSignal: signal,
+        },
+      },
+      `mcp-sampling-${mcpServerName}`,
+    );
+
+    return {
+      model: response.modelVersion || model,
+      role: 'assistant',
+      content: { type: 'text', text: getResponseText(response) ?? '' },
+      stopReason: toStopReason(response.candidates?.[0]?.finishReason),
+    };
+  };
+}
+
+/**
+ * Asks the user to approve a request through the message bus. Requests are
+ * rejected when nothing listens for them, e.g. in non-interactive sessions,
+ * and withdrawn from the user when they time out or are cancelled.
+ */
+async function requestApproval(
+  cliConfig: Config,
+  timeoutMs: number,
+  signal: AbortSignal,
+  request: Omit<McpSamplingRequest, 'type' | 'correlationId'>,
+): Promise<boolean> {
+  const messageBus = cliConfig.getMessageBus();
+  if (messageBus.listenerCount(MessageBusType.MCP_SAMPLING_REQUEST) === 0) {
+    return false;
+  }
+  signal.throwIfAborted();
+  const correlationId = randomUUID();
+
+  return new Promise<boolean>((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timeoutId);
+      signal.removeEventListener('abort', onAbort);
+      messageBus.unsubscribe(
+        MessageBusType.MCP_SAMPLING_RESPONSE,
+        responseHandler,
+      );
+    };
+
+    const withdraw = (error: Error) => {
+      cleanup();
+      void messageBus.publish({
+        type: MessageBusType.MCP_SAMPLING_CANCELLED,
+        correlationId,
+      });
+      reject(error);
+    };
+
+    const timeoutId = setTimeout(
+      () =>
+        withdraw(
+          new Error(
+            `Timed out after ${timeoutMs}ms waiting for the user to approve the sampling request`,
+          ),
+        ),
+      timeoutMs,
+    );
+    const onAbort = () =>
+      withdraw(new Error('Sampling request was cancelled by the server'));
+
+    const responseHandler = (response: McpSamplingResponse) => {
+      if (response.correlationId === correlationId) {
+        cleanup();
+        resolve(response.confirmed);
+      }
+    };
+
+    signal.addEventListener('abort', onAbort, { once: true });
+    messageBus.subscribe<McpSamplingResponse>(
+      MessageBusType.MCP_SAMPLING_RESPONSE,
+      responseHandler,
+    );
+    void messageBus.publish({
+      type: MessageBusType.MCP_SAMPLING_REQUEST,
+      correlationId,
+      ...request,
+    });
+  });
+}
+
+function toBlocks(content: SamplingContent) {
+  return Array.isArray(content) ? content : [content];
+}
+
+function toParts(content: SamplingContent): Part[] {
+  return toBlocks(content).map((block) => {
+    switch (block.type) {
+      case 'text':
+        return { text: block.text };
+      case 'image':
+      case 'audio':
+        return { inlineData: { mimeType: block.mimeType, data: block.data } };
+      default:
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Unsupported sampling content type: ${block.type}`,
+        );
+    }
+  });
+}
+
+function toText(content: SamplingContent): string {
+  return toBlocks(content)
+    .map((block) => (block.type === 'text' ? block.text : `[${block.type}]`))
+    .join('\n');
+}
+
+function toStopReason(
+  finishReason: FinishReason | undefined,
+): CreateMessageResult['stopReason'] {
+  switch (finishReason) {
+    case undefined:
+      return undefined;
+    case FinishReason.STOP:
+      return 'endTurn';
+    case FinishReason.MAX_TOKENS:
+      return 'maxTokens';
+    default:
+      return finishReason;
+  }
+}
@@ -13,7 +13,7 @@ import {
 } from '../tools.js';
 import type { AnsiOutput } from '../../utils/terminalSerializer.js';
 import type { MessageBus } from '../../confirmation-bus/message-bus.js';
-import { BackgroundTaskManager } from './delegate-task.js';
+import { BackgroundTaskManager } from './background-task-manager.js';
 
 export interface BackgroundCancelParams {
   taskId?: string;
@@ -112,10 +112,10 @@ class BackgroundCancelInvocation extends BaseToolInvocation<
     const manager = BackgroundTaskManager.getInstance();
 
     if (this.params.all) {
-      manager.cancelAll();
+      const cancelled = manager.cancelAll();
       return {
-        llmContent: 'All background tasks have been cancelled.',
-        returnDisplay: 'All running background tasks have been cancelled.',
+        llmContent: `${cancelled} background task(s) have been cancelled.`,
+        returnDisplay: `${cancelled} running background task(s) have been cancelled.`,
       };
     }
 
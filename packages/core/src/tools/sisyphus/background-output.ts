@@ -14,7 +14,10 @@ import {
 import { ToolErrorType } from '../tool-error.js';
 import type { AnsiOutput } from '../../utils/terminalSerializer.js';
 import type { MessageBus } from '../../confirmation-bus/message-bus.js';
-import { BackgroundTaskManager } from './delegate-task.js';
+import type { BackgroundTask } from '../../agents/sisyphus/types.js';
+import { BackgroundTaskManager } from './background-task-manager.js';
+
+const DEFAULT_TIMEOUT_MS = 60000;
 
 export interface BackgroundOutputParams {
   task_id: string;
@@ -33,7 +36,7 @@ export class BackgroundOutputTool extends BaseDeclarativeTool<
     super(
       'background_output',
       'Background Output',
-      'Retrieves the result of a background task.\n\n**Parameters:**\n- **task_id**: The ID of the task to retrieve results from\n- **block**: Wait for completion (default: false)\n- **timeout**: Maximum wait time in ms (default: 60000)\n\n**Returns:** The task result if available, or status if still running.',
+      'Retrieves the result of a background task, or its progress while it is still running.\n\n**Parameters:**\n- **task_id**: The ID of the task to retrieve results from\n- **block**: Wait for completion (default: false)\n- **timeout**: Maximum wait time in ms (default: 60000)\n\n**Returns:** The task result if available, or status if still running.',
       Kind.Read,
       {
         type: 'object',
@@ -116,30 +119,72 @@ class BackgroundOutputInvocation extends BaseToolInvocation<
   }
 
   async execute(
-    _signal: AbortSignal,
+    signal: AbortSignal,
     _updateOutput?: (output: string | AnsiOutput) => void,
   ): Promise<ToolResult> {
     const manager = BackgroundTaskManager.getInstance();
-    const result = manager.getTaskResult(this.params.task_id);
+    const task = this.params.block
+      ? await manager.waitForTask(
+          this.params.task_id,
+          this.params.timeout ?? DEFAULT_TIMEOUT_MS,
+          signal,
+        )
+      : manager.getTask(this.params.task_id);
 
-    if (result instanceof Error) {
+    if (!task) {
+      const message = `Task ${this.params.task_id} not found`;
       return {
-        llmContent: `Error retrieving task ${this.params.task_id}: ${result.message}`,
-        returnDisplay: `Error: ${result.message}`,
+        llmContent: `Error retrieving task ${this.params.task_id}: ${message}`,
+        returnDisplay: `Error: ${message}`,
         error: {
-          message: result.message,
+          message,
           type: ToolErrorType.EXECUTION_FAILED,
         },
       };
     }
 
-    if (result === null) {
-      return {
-        llmContent: `Task ${this.params.task_id} is still running or not found.`,
-        returnDisplay: `Task \`${this.params.task_id}\` is still running. Use background_output again later to check status.`,
-      };
+    switch (task.status) {
+      case 'completed':
+        return {
+          llmContent: `Task ${task.id} (${task.agent}) completed.${task.agentSessionId ? `\nSession ID: ${task.agentSessionId}` : ''}\nResult:\n${task.result ?? ''}`,
+          returnDisplay: `Task "${task.description}" completed.\n\n${task.result ?? ''}`,
+        };
+      case 'error': {
+        const message = task.error ?? 'Unknown error';
+        return {
+          llmContent: `Task ${task.id} (${task.agent}) failed: ${message}${
+            task.result ? `\nPartial result:\n${task.result}` : ''
+          }`,
+          returnDisplay: `Task "${task.description}" failed: ${message}`,
+          error: {
+            message,
+            type: ToolErrorType.EXECUTION_FAILED,
+          },
+        };
+      }
+      case 'cancelled':
+        return {
+          llmContent: `Task ${task.id} was cancelled.`,
+          returnDisplay: `Task \`${task.id}\` was cancelled.`,
+        };
+      default: {
+        const progress = describeProgress(task);
+        return {
+          llmContent: `Task ${task.id} is still ${task.status}.${progress}`,
+          returnDisplay: `Task \`${task.id}\` is still ${task.status}.${progress}\n\nUse background_output again later to check status.`,
+        };
+      }
     }
+  }
+}
 
-    return result;
+function describeProgress(task: BackgroundTask): string {
+  const lines: string[] = [];
+  if (task.progress?.lastTool) {
+    lines.push(`Last tool: ${task.progress.lastTool}`);
+  }
+  if (task.progress?.lastMessage) {
+    lines.push(`Last message: ${task.progress.lastMessage}`);
   }
+  return lines.length > 0 ? `\n${lines.join('\n')}` : '';
 }
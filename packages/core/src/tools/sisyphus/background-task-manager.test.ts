@@ -0,0 +1,270 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { z } from 'zod';
+import { BackgroundTaskManager } from './background-task-manager.js';
+import { LocalAgentExecutor } from '../../agents/local-executor.js';
+import type { ActivityCallback } from '../../agents/local-executor.js';
+import type {
+  AgentInputs,
+  LocalAgentDefinition,
+  OutputObject,
+} from '../../agents/types.js';
+import { AgentTerminateMode } from '../../agents/types.js';
+import type { Config } from '../../config/config.js';
+
+vi.mock('../../agents/local-executor.js');
+
+const MockLocalAgentExecutor = vi.mocked(LocalAgentExecutor);
+
+const exploreDefinition: LocalAgentDefinition = {
+  kind: 'local',
+  name: 'explore',
+  description: 'Searches the codebase.',
+  inputConfig: {
+    inputSchema: {
+      type: 'object',
+      properties: { objective: { type: 'string' } },
+      required: ['objective'],
+    },
+  },
+  modelConfig: { model: 'test' },
+  runConfig: { maxTimeMinutes: 1 },
+  promptConfig: { systemPrompt: 'test' },
+};
+
+const mockConfig = {
+  getAgentRegistry: () => ({
+    getDefinition: (name: string) =>
+      name === exploreDefinition.name ? exploreDefinition : undefined,
+  }),
+  getSessionId: () => 'session-1',
+} as unknown as Config;
+
+interface RunningExecutor {
+  inputs: AgentInputs;
+  signal: AbortSignal;
+  onActivity?: ActivityCallback;
+  finish: (output: OutputObject) => void;
+}
+
+describe('BackgroundTaskManager', () => {
+  let manager: BackgroundTaskManager;
+  let executors: RunningExecutor[];
+
+  const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  const start = (prompt = 'Find the auth code') =>
+    manager.startBackgroundTask(mockConfig, {
+      description: 'Find auth',
+      agent: 'explore',
+      prompt,
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    executors = [];
+    manager = new BackgroundTaskManager({ maxConcurrentPerAgent: 2 });
+
+    MockLocalAgentExecutor.create.mockImplementation(
+      async (_definition, _config, onActivity) =>
+        ({
+          getSessionId: () => 'agent-session-1',
+          run: (inputs: AgentInputs, signal: AbortSignal) =>
+            new Promise<OutputObject>((resolve) => {
+              executors.push({ inputs, signal, onActivity, finish: resolve });
+              signal.addEventListener('abort', () =>
+                resolve({
+                  result: '',
+                  terminate_reason: AgentTerminateMode.ABORTED,
+                }),
+              );
+            }),
+        }) as unknown as LocalAgentExecutor<z.ZodTypeAny>,
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should run the agent and record its progress and result', async () => {
+    const taskId = start();
+    await flush();
+
+    expect(executors).toHaveLength(1);
+    expect(executors[0].inputs).toEqual({ objective: 'Find the auth code' });
+    expect(manager.getTask(taskId)).toMatchObject({
+      status: 'running',
+      agent: 'explore',
+      sessionID: 'session-1',
+    });
+
+    executors[0].onActivity?.({
+      isSubagentActivityEvent: true,
+      agentName: 'explore',
+      type: 'TOOL_CALL_START',
+      data: { name: 'grep', args: {} },
+    });
+    executors[0].onActivity?.({
+      isSubagentActivityEvent: true,
+      agentName: 'explore',
+      type: 'THOUGHT_CHUNK',
+      data: { text: 'Looking at src/auth' },
+    });
+    expect(manager.getTask(taskId)?.progress).toMatchObject({
+      lastTool: 'grep',
+      lastMessage: 'Looking at src/auth',
+    });
+
+    executors[0].finish({
+      result: 'Found in src/auth/login.ts',
+      terminate_reason: AgentTerminateMode.GOAL,
+    });
+    const task = await manager.waitForTask(taskId, 1000);
+
+    expect(task).toMatchObject({
+      status: 'completed',
+      result: 'Found in src/auth/login.ts',
+      agentSessionId: 'agent-session-1',
+    });
+    expect(task?.completedAt).toBeInstanceOf(Date);
+  });
+
+  it('should resume the requested agent session', async () => {
+    manager.startBackgroundTask(mockConfig, {
+      description: 'Follow up',
+      agent: 'explore',
+      prompt: 'Now check the tests',
+      resume: 'agent-session-1',
+    });
+    await flush();
+
+    expect(MockLocalAgentExecutor.create).toHaveBeenCalledWith(
+      exploreDefinition,
+      mockConfig,
+      expect.any(Function),
+      { resumeSessionId: 'agent-session-1' },
+    );
+  });
+
+  it('should queue tasks beyond the concurrency limit of the agent', async () => {
+    const taskIds = [start(), start(), start()];
+    await flush();
+
+    expect(executors).toHaveLength(2);
+    expect(manager.getTask(taskIds[2])?.status).toBe('pending');
+
+    executors[0].finish({
+      result: 'done',
+      terminate_reason: AgentTerminateMode.GOAL,
+    });
+    await flush();
+
+    expect(executors).toHaveLength(3);
+    expect(manager.getTask(taskIds[2])?.status).toBe('running');
+  });
+
+  it('should abort the executor when a running task is cancelled', async () => {
+    const taskId = start();
+    await flush();
+
+    expect(manager.cancelTask(taskId)).toBe(true);
+
+    expect(executors[0].signal.aborted).toBe(true);
+    expect(manager.getTask(taskId)?.status).toBe('cancelled');
+    expect(manager.cancelTask(taskId)).toBe(false);
+  });
+
+  it('should never start a cancelled pending task', async () => {
+    start();
+    start();
+    const queuedId = start();
+    await flush();
+    expect(manager.cancelTask(queuedId)).toBe(true);
+
+    executors[0].finish({
+      result: 'done',
+      terminate_reason: AgentTerminateMode.GOAL,
+    });
+    await flush();
+
+    expect(executors).toHaveLength(2);
+    expect(manager.getTask(queuedId)?.status).toBe('cancelled');
+  });
+
+  it('should report failures of the agent', async () => {
+    const taskId = start();
+    await flush();
+
+    executors[0].finish({
+      result: 'partial findings',
+      terminate_reason: AgentTerminateMode.MAX_TURNS,
+    });
+
+    expect(await manager.waitForTask(taskId, 1000)).toMatchObject({
+      status: 'error',
+      error: 'Agent stopped early (MAX_TURNS)',
+      result: 'partial findings',
+    });
+  });
+
+  it('should stop waiting once the timeout expires', async () => {
+    const taskId = start();
+
+    expect(await manager.waitForTask(taskId, 10)).toMatchObject({
+      status: 'running',
+    });
+  });
+
+  it('should emit an update each time a task changes', async () => {
+    const updates: string[] = [];
+    manager.on('update', (task) => updates.push(task.status));
+
+    const taskId = start();
+    await flush();
+    executors[0].finish({
+      result: 'done',
+      terminate_reason: AgentTerminateMode.GOAL,
+    });
+    await manager.waitForTask(taskId, 1000);
+
+    expect(updates).toEqual(['pending', 'running', 'completed']);
+  });
+
+  it('should forget tasks that stopped an hour before another one', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const oldTaskId = start();
+    const recentTaskId = start();
+    await flush();
+    executors[0].finish({
+      result: 'done',
+      terminate_reason: AgentTerminateMode.GOAL,
+    });
+    await manager.waitForTask(oldTaskId, 1000);
+
+    vi.setSystemTime(Date.now() + 2 * 60 * 60 * 1000);
+    executors[1].finish({
+      result: 'done',
+      terminate_reason: AgentTerminateMode.GOAL,
+    });
+    await manager.waitForTask(recentTaskId, 1000);
+
+    expect(manager.getTask(oldTaskId)).toBeUndefined();
+    expect(manager.listTasks().map((task) => task.id)).toEqual([recentTaskId]);
+  });
+
+  it('should reject unknown agents', () => {
+    expect(() =>
+      manager.startBackgroundTask(mockConfig, {
+        description: 'Nope',
+        agent: 'missing',
+        prompt: 'x',
+      }),
+    ).toThrow("Agent 'missing' not found in registry");
+  });
+});
@@ -0,0 +1,371 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { EventEmitter } from 'node:events';
+import type { Config } from '../../config/config.js';
+import { LocalAgentExecutor } from '../../agents/local-executor.js';
+import type {
+  AgentDefinition,
+  AgentInputs,
+  LocalAgentDefinition,
+  SubagentActivityEvent,
+} from '../../agents/types.js';
+import { AgentTerminateMode } from '../../agents/types.js';
+import type {
+  BackgroundTask,
+  BackgroundTaskStatus,
+} from '../../agents/sisyphus/types.js';
+import { SISYPHUS_DEFAULTS } from '../../agents/sisyphus/types.js';
+import { debugLogger } from '../../utils/debugLogger.js';
+import type { SkillDefinition } from '../../skills/skillManager.js';
+
+/**
+ * Parameters of a background task
+ */
+export interface BackgroundTaskRequest {
+  description: string;
+  agent: string;
+  prompt: string;
+  /** Id of a previous session of the agent to continue */
+  resume?: string;
+  /** Skills loaded into the agent */
+  skills?: SkillDefinition[];
+  /** Delegation category of the task */
+  category?: string;
+}
+
+export interface BackgroundTaskManagerOptions {
+  /** Maximum number of tasks running at once for a given agent */
+  maxConcurrentPerAgent?: number;
+}
+
+interface TaskEntry {
+  task: BackgroundTask;
+  definition: LocalAgentDefinition;
+  inputs: AgentInputs;
+  resumeSessionId?: string;
+  skills?: SkillDefinition[];
+  category?: string;
+  config: Config;
+  controller: AbortController;
+  /** Whether the executor is running, which may outlast a cancellation */
+  active: boolean;
+  done: Promise<void>;
+  markDone: () => void;
+}
+
+/**
+ * Returns true once a task has stopped for good.
+ */
+export function isTerminalTaskStatus(status: BackgroundTaskStatus): boolean {
+  return status === 'completed' || status === 'error' || status === 'cancelled';
+}
+
+/**
+ * Builds the inputs of an agent from a free-form prompt. The prompt is passed
+ * as the agent's first required input (`task`, `objective`, `question`, ...).
+ */
+export function buildAgentInputs(
+  definition: AgentDefinition,
+  prompt: string,
+): AgentInputs {
+  const schema = definition.inputConfig.inputSchema as {
+    required?: string[];
+    properties?: Record<string, unknown>;
+  };
+  const inputName =
+    schema.required?.[0] ?? Object.keys(schema.properties ?? {})[0] ?? 'task';
+  return { [inputName]: prompt };
+}
+
+/**
+ * Background task manager for Sisyphus
+ *
+ * Runs agents concurrently with the main conversation, queueing tasks once an
+ * agent reaches its concurrency limit, and keeps their progress and results
+ * until they are cleaned up. Emits `update` with a snapshot of the task each
+ * time one is queued, starts, makes progress or stops.
+ */
+export class BackgroundTaskManager extends EventEmitter {
+  private static instance: BackgroundTaskManager | null = null;
+  private readonly tasks = new Map<string, TaskEntry>();
+  private readonly maxConcurrentPerAgent: number;
+
+  constructor(options: BackgroundTaskManagerOptions = {}) {
+    super();
+    this.maxConcurrentPerAgent =
+      options.maxConcurrentPerAgent ?? SISYPHUS_DEFAULTS.PARALLEL_AGENTS;
+  }
+
+  static getInstance(): BackgroundTaskManager {
+    if (!BackgroundTaskManager.instance) {
+      BackgroundTaskManager.instance = new BackgroundTaskManager();
+    }
+    return BackgroundTaskManager.instance;
+  }
+
+  /**
+   * Queues a task and starts it as soon as its agent has a free slot.
+   *
+   * @returns The id of the task.
+   * @throws If the agent does not exist or cannot run locally.
+   */
+  startBackgroundTask(config: Config, request: BackgroundTaskRequest): string {
+    const definition = config.getAgentRegistry().getDefinition(request.agent);
+    if (!definition) {
+      throw new Error(`Agent '${request.agent}' not found in registry`);
+    }
+    if (definition.kind !== 'local') {
+      throw new Error(
+        `Agent '${request.agent}' is a remote agent and cannot run in the background`,
+      );
+    }
+
+    const taskId = `task_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+    let markDone!: () => void;
+    const done = new Promise<void>((resolve) => {
+      markDone = resolve;
+    });
+
+    this.tasks.set(taskId, {
+      task: {
+        id: taskId,
+        description: request.description,
+        agent: request.agent,
+        status: 'pending',
+        sessionID: config.getSessionId(),
+        queuedAt: new Date(),
+        progress: {},
+      },
+      definition,
+      inputs: buildAgentInputs(definition, request.prompt),
+      resumeSessionId: request.resume,
+      skills: request.skills,
+      category: request.category,
+      config,
+      controller: new AbortController(),
+      active: false,
+      done,
+      markDone,
+    });
+
+    debugLogger.log(
+      'INFO',
+      `Background task ${taskId} queued for ${request.agent}`,
+    );
+    this.emitUpdate(this.tasks.get(taskId)!.task);
+    this.startQueuedTasks(request.agent);
+
+    return taskId;
+  }
+
+  /**
+   * Returns a snapshot of a task, or undefined if it is unknown.
+   */
+  getTask(taskId: string): BackgroundTask | undefined {
+    const entry = this.tasks.get(taskId);
+    return entry ? snapshot(entry.task) : undefined;
+  }
+
+  /**
+   * Returns snapshots of all known tasks, oldest first.
+   */
+  listTasks(): BackgroundTask[] {
+    return Array.from(this.tasks.values(), (entry) => snapshot(entry.task));
+  }
+
+  /**
+   * Waits until a task stops, the timeout expires or the signal is aborted,
+   * whichever comes first.
+   *
+   * @returns A snapshot of the task, or undefined if it is unknown.
+   */
+  async waitForTask(
+    taskId: string,
+    timeoutMs: number,
+    signal?: AbortSignal,
+  ): Promise<BackgroundTask | undefined> {
+    const entry = this.tasks.get(taskId);
+    if (!entry) {
+      return undefined;
+    }
+
+    let timeoutId: NodeJS.Timeout | undefined;
+    let onAbort: (() => void) | undefined;
+    const stopWaiting = new Promise<void>((resolve) => {
+      timeoutId = setTimeout(resolve, timeoutMs);
+      onAbort = resolve;
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+    try {
+      await Promise.race([entry.done, stopWaiting]);
+    } finally {
+      clearTimeout(timeoutId);
+      if (onAbort) {
+        signal?.removeEventListener('abort', onAbort);
+      }
+    }
+    return snapshot(entry.task);
+  }
+
+  /**
+   * Cancel a background task
+   *
+   * @returns False if the task is unknown or already stopped.
+   */
+  cancelTask(taskId: string): boolean {
+    const entry = this.tasks.get(taskId);
+    if (!entry || isTerminalTaskStatus(entry.task.status)) {
+      return false;
+    }
+
+    // A running task keeps its slot until its executor has stopped.
+    this.finish(entry, 'cancelled');
+    entry.controller.abort();
+    return true;
+  }
+
+  /**
+   * Cancel all background tasks
+   *
+   * @returns The number of cancelled tasks.
+   */
+  cancelAll(): number {
+    let cancelled = 0;
+    for (const taskId of this.tasks.keys()) {
+      if (this.cancelTask(taskId)) {
+        cancelled++;
+      }
+    }
+    return cancelled;
+  }
+
+  /**
+   * Forget tasks that stopped more than `olderThanMs` ago. Runs each time a
+   * task stops, so that a long session does not keep every result.
+   */
+  cleanup(olderThanMs: number = 3600000): void {
+    const cutoff = Date.now() - olderThanMs;
+    for (const [taskId, entry] of this.tasks.entries()) {
+      const completedAt = entry.task.completedAt?.getTime();
+      if (completedAt !== undefined && completedAt < cutoff && !entry.active) {
+        this.tasks.delete(taskId);
+      }
+    }
+  }
+
+  private startQueuedTasks(agent: string): void {
+    const entries = Array.from(this.tasks.values()).filter(
+      (entry) => entry.task.agent === agent,
+    );
+    let running = entries.filter((entry) => entry.active).length;
+
+    for (const entry of entries) {
+      if (running >= this.maxConcurrentPerAgent) {
+        return;
+      }
+      if (entry.task.status === 'pending') {
+        running++;
+        entry.active = true;
+        void this.run(entry);
+      }
+    }
+  }
+
+  private async run(entry: TaskEntry): Promise<void> {
+    const { task } = entry;
+    task.status = 'running';
+    task.startedAt = new Date();
+    this.emitUpdate(task);
+
+    try {
+      const executor = await LocalAgentExecutor.create(
+        entry.definition,
+        entry.config,
+        (activity) => {
+          if (recordProgress(task, activity)) {
+            this.emitUpdate(task);
+          }
+        },
+        {
+          resumeSessionId: entry.resumeSessionId,
+          skills: entry.skills,
+          category: entry.category,
+        },
+      );
+      const output = await executor.run(entry.inputs, entry.controller.signal);
+      task.agentSessionId = executor.getSessionId();
+
+      if (output.terminate_reason === AgentTerminateMode.GOAL) {
+        task.result = output.result;
+        this.finish(entry, 'completed');
+      } else if (output.terminate_reason === AgentTerminateMode.ABORTED) {
+        this.finish(entry, 'cancelled');
+      } else {
+        task.result = output.result;
+        task.error = `Agent stopped early (${output.terminate_reason})`;
+        this.finish(entry, 'error');
+      }
+    } catch (error) {
+      if (entry.controller.signal.aborted) {
+        this.finish(entry, 'cancelled');
+      } else {
+        task.error = error instanceof Error ? error.message : String(error);
+        this.finish(entry, 'error');
+      }
+    } finally {
+      entry.active = false;
+      this.startQueuedTasks(task.agent);
+    }
+  }
+
+  private finish(entry: TaskEntry, status: BackgroundTaskStatus): void {
+    if (isTerminalTaskStatus(entry.task.status)) {
+      return;
+    }
+    entry.task.status = status;
+    entry.task.completedAt = new Date();
+    debugLogger.log('INFO', `Background task ${entry.task.id} ${status}`);
+    entry.markDone();
+    this.emitUpdate(entry.task);
+    this.cleanup();
+  }
+
+  private emitUpdate(task: BackgroundTask): void {
+    this.emit('update', snapshot(task));
+  }
+}
+
+/**
+ * @returns Whether the activity changed the progress of the task.
+ */
+function recordProgress(
+  task: BackgroundTask,
+  activity: SubagentActivityEvent,
+): boolean {
+  const progress = (task.progress ??= {});
+  if (
+    activity.type === 'TOOL_CALL_START' &&
+    typeof activity.data['name'] === 'string'
+  ) {
+    progress.lastTool = activity.data['name'];
+    return true;
+  }
+  if (
+    activity.type === 'THOUGHT_CHUNK' &&
+    typeof activity.data['text'] === 'string'
+  ) {
+    progress.lastMessage = activity.data['text'];
+    progress.lastMessageAt = new Date();
+    return true;
+  }
+  return false;
+}
+
+function snapshot(task: BackgroundTask): BackgroundTask {
+  return { ...task, progress: task.progress && { ...task.progress } };
+}
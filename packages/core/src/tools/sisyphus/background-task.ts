@@ -13,7 +13,9 @@ import {
 } from '../tools.js';
 import type { AnsiOutput } from '../../utils/terminalSerializer.js';
 import type { MessageBus } from '../../confirmation-bus/message-bus.js';
-import { BackgroundTaskManager } from './delegate-task.js';
+import type { Config } from '../../config/config.js';
+import { ToolErrorType } from '../tool-error.js';
+import { BackgroundTaskManager } from './background-task-manager.js';
 
 export interface BackgroundTaskParams {
   description: string;
@@ -24,15 +26,17 @@ export interface BackgroundTaskParams {
 /**
  * Background task tool - Launches asynchronous agent tasks
  *
- * NOTE: This is a simplified implementation. Full background task execution
- * requires significant infrastructure including async job queues, polling mechanisms,
- * and proper result storage. This version demonstrates the API and structure.
+ * Tasks are run by the {@link BackgroundTaskManager}, concurrently with the
+ * conversation, and their results are retrieved with background_output.
  */
 export class BackgroundTaskTool extends BaseDeclarativeTool<
   BackgroundTaskParams,
   ToolResult
 > {
-  constructor(messageBus: MessageBus) {
+  constructor(
+    private readonly config: Config,
+    messageBus: MessageBus,
+  ) {
     super(
       'background_task',
       'Background Task',
@@ -88,6 +92,7 @@ export class BackgroundTaskTool extends BaseDeclarativeTool<
   ): ToolInvocation<BackgroundTaskParams, ToolResult> {
     return new BackgroundTaskInvocation(
       params,
+      this.config,
       messageBus,
       _toolName,
       _toolDisplayName,
@@ -101,6 +106,7 @@ class BackgroundTaskInvocation extends BaseToolInvocation<
 > {
   constructor(
     params: BackgroundTaskParams,
+    private readonly config: Config,
     messageBus: MessageBus,
     _toolName?: string,
     _toolDisplayName?: string,
@@ -122,11 +128,20 @@ class BackgroundTaskInvocation extends BaseToolInvocation<
     _updateOutput?: (output: string | AnsiOutput) => void,
   ): Promise<ToolResult> {
     const manager = BackgroundTaskManager.getInstance();
-    const taskId = await manager.startBackgroundTask(
-      this.params.description,
-      this.params.agent,
-      this.params.prompt,
-    );
+    let taskId: string;
+    try {
+      taskId = manager.startBackgroundTask(this.config, this.params);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        llmContent: `Failed to start background task: ${message}`,
+        returnDisplay: `Error: ${message}`,
+        error: {
+          message,
+          type: ToolErrorType.EXECUTION_FAILED,
+        },
+      };
+    }
 
     return {
       llmContent: `Background task started with ID: ${taskId}\n\nUse background_output(task_id="${taskId}") to retrieve results.`,
@@ -0,0 +1,182 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DelegateTaskTool } from './delegate-task.js';
+import { BackgroundTaskManager } from './background-task-manager.js';
+import { LocalSubagentInvocation } from '../../agents/local-invocation.js';
+import type { AgentRegistry } from '../../agents/registry.js';
+import type { LocalAgentDefinition } from '../../agents/types.js';
+import type { Config } from '../../config/config.js';
+import type { DelegateTaskArgs } from '../../agents/sisyphus/types.js';
+import type { SkillDefinition } from '../../skills/skillManager.js';
+import { createMockMessageBus } from '../../test-utils/mock-message-bus.js';
+
+vi.mock('../../agents/local-invocation.js');
+
+const MockLocalSubagentInvocation = vi.mocked(LocalSubagentInvocation);
+
+const oracleDefinition: LocalAgentDefinition = {
+  kind: 'local',
+  name: 'oracle',
+  description: 'Answers architecture questions.',
+  inputConfig: {
+    inputSchema: {
+      type: 'object',
+      properties: { question: { type: 'string' } },
+      required: ['question'],
+    },
+  },
+  modelConfig: { model: 'test' },
+  runConfig: { maxTimeMinutes: 1 },
+  promptConfig: { systemPrompt: 'test' },
+};
+
+const skill: SkillDefinition = {
+  name: 'frontend-design',
+  description: 'Builds polished UIs.',
+  location: '/skills/frontend-design/SKILL.md',
+  body: 'Use the design tokens.',
+};
+
+describe('DelegateTaskTool', () => {
+  let tool: DelegateTaskTool;
+  let config: Config;
+
+  const params = (overrides: Partial<DelegateTaskArgs> = {}) =>
+    ({
+      description: 'Review the UI',
+      prompt: 'Review the login form',
+      subagent_type: 'oracle',
+      run_in_background: false,
+      skills: [],
+      ...overrides,
+    }) as DelegateTaskArgs;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    const registry = {
+      getAllDefinitions: () => [oracleDefinition],
+      getDefinition: (name: string) =>
+        name === oracleDefinition.name ? oracleDefinition : undefined,
+    } as unknown as AgentRegistry;
+    config = {
+      getSkillManager: () => ({
+        getSkills: () => [skill, { ...skill, name: 'testing' }],
+      }),
+      getAgentsSettings: () => ({
+        categories: {
+          'visual-engineering': {
+            provider: 'openrouter',
+            model: 'google/gemini-2.5-pro',
+            description: 'Screenshots and UI work',
+          },
+        },
+      }),
+    } as unknown as Config;
+    tool = new DelegateTaskTool(registry, config, createMockMessageBus());
+  });
+
+  it('should reject unknown skills and list the available ones', () => {
+    expect(() =>
+      tool.build(params({ skills: ['frontend-design', 'missing'] })),
+    ).toThrow(
+      'Unknown skill: "missing". Available skills: frontend-design, testing',
+    );
+  });
+
+  it('should load the skills into the subagent', async () => {
+    vi.mocked(MockLocalSubagentInvocation.prototype.execute).mockResolvedValue({
+      llmContent: [{ text: 'Looks good.' }],
+      returnDisplay: 'Looks good.',
+    });
+
+    await tool
+      .build(params({ skills: ['Frontend-Design'], resume: 'session-1' }))
+      .execute(new AbortController().signal);
+
+    expect(MockLocalSubagentInvocation).toHaveBeenCalledWith(
+      oracleDefinition,
+      config,
+      { question: 'Review the login form' },
+      expect.anything(),
+      undefined,
+      undefined,
+      { resumeSessionId: 'session-1', skills: [skill] },
+    );
+  });
+
+  it('should load the skills into background tasks', async () => {
+    const startBackgroundTask = vi
+      .spyOn(BackgroundTaskManager.getInstance(), 'startBackgroundTask')
+      .mockReturnValue('task_1');
+
+    const result = await tool
+      .build(params({ skills: ['frontend-design'], run_in_background: true }))
+      .execute(new AbortController().signal);
+
+    expect(startBackgroundTask).toHaveBeenCalledWith(config, {
+      description: 'Review the UI',
+      agent: 'oracle',
+      prompt: 'Review the login form',
+      resume: undefined,
+      skills: [skill],
+    });
+    expect(result.llmContent).toContain('task_1');
+  });
+
+  it('should list the agents of the registry', () => {
+    expect(tool.description).toContain(
+      '- **oracle**: Answers architecture questions.',
+    );
+    expect(tool.schema.parametersJsonSchema).toMatchObject({
+      anyOf: [
+        {
+          properties: {
+            subagent_type: {
+              const: 'oracle',
+              description: 'Answers architecture questions.',
+            },
+          },
+        },
+      ],
+    });
+  });
+
+  it('should list the categories of the settings with their models', () => {
+    expect(tool.description).toContain(
+      '- **visual-engineering** (openrouter:google/gemini-2.5-pro): Screenshots and UI work',
+    );
+    expect(() => tool.build(params({ category: 'missing' }))).toThrow(
+      'params/category must be equal to one of the allowed values',
+    );
+  });
+
+  it('should run the subagent in its category', async () => {
+    vi.mocked(MockLocalSubagentInvocation.prototype.execute).mockResolvedValue({
+      llmContent: [{ text: 'Done.' }],
+      returnDisplay: 'Done.',
+    });
+
+    await tool
+      .build(params({ category: 'visual-engineering' }))
+      .execute(new AbortController().signal);
+
+    expect(MockLocalSubagentInvocation).toHaveBeenCalledWith(
+      oracleDefinition,
+      config,
+      { question: 'Review the login form' },
+      expect.anything(),
+      undefined,
+      undefined,
+      {
+        resumeSessionId: undefined,
+        skills: [],
+        category: 'visual-engineering',
+      },
+    );
+  });
+});
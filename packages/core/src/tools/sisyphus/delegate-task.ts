@@ -16,10 +16,16 @@ import type { MessageBus } from '../../confirmation-bus/message-bus.js';
 import type { AgentRegistry } from '../../agents/registry.js';
 import type { Config } from '../../config/config.js';
 import { SubagentToolWrapper } from '../../agents/subagent-tool-wrapper.js';
+import { LocalSubagentInvocation } from '../../agents/local-invocation.js';
 import { SchemaValidator } from '../../utils/schemaValidator.js';
-import { debugLogger } from '../../utils/debugLogger.js';
+import type { AgentInputs } from '../../agents/types.js';
+import type { SkillDefinition } from '../../skills/skillManager.js';
 import type { DelegateTaskArgs } from '../../agents/sisyphus/types.js';
-import { DEFAULT_CATEGORIES } from '../../agents/sisyphus/types.js';
+import { getDelegationCategories } from '../../agents/sisyphus/categories.js';
+import {
+  BackgroundTaskManager,
+  buildAgentInputs,
+} from './background-task-manager.js';
 
 /**
  * Sisyphus delegate task tool - Enhanced agent delegation with categories and background support
@@ -35,7 +41,7 @@ export class DelegateTaskTool extends BaseDeclarativeTool<
   ) {
     // Build dynamic schema based on available agents
     const definitions = registry.getAllDefinitions();
-    const agentNames = definitions.map((d) => d.name);
+    const categories = getDelegationCategories(config);
 
     // Build schema with anyOf for subagent_type selection
     const agentSchemas = definitions.map((def) => ({
@@ -56,23 +62,25 @@ export class DelegateTaskTool extends BaseDeclarativeTool<
         },
         category: {
           type: 'string' as const,
-          description: 'DEPRECATED - Use subagent_type directly',
-          enum: Object.keys(DEFAULT_CATEGORIES),
+          description:
+            'Category of the task, running the agent on the model of the category',
+          enum: Object.keys(categories),
         },
         run_in_background: {
           type: 'boolean' as const,
           description:
-            'Execute task asynchronously (NOTE: Background execution requires additional infrastructure)',
+            'Execute task asynchronously and return a task_id for background_output',
         },
         skills: {
           type: 'array' as const,
           items: { type: 'string' as const },
-          description: 'Skills to load for this task (empty array if none)',
+          description:
+            'Names of the skills whose instructions the agent should follow for this task (empty array if none)',
         },
         resume: {
           type: 'string' as const,
           description:
-            'Session ID to resume (for efficiency - 70%+ token savings)',
+            'Session ID reported by a previous task of the same agent, to continue its conversation (for efficiency - 70%+ token savings)',
         },
       },
       required: ['description', 'prompt', 'run_in_background', 'skills'],
@@ -82,17 +90,24 @@ export class DelegateTaskTool extends BaseDeclarativeTool<
       anyOf: agentSchemas,
     };
 
-    const availableCategories = Object.entries(DEFAULT_CATEGORIES)
-      .map(
-        ([name, config]) =>
-          `- **${name}** (${config.temperature}): ${config.description}`,
-      )
+    const availableCategories = Object.entries(categories)
+      .map(([name, category]) => {
+        const model = [category.provider, category.model]
+          .filter(Boolean)
+          .join(':');
+        const settings = [
+          model,
+          category.temperature !== undefined &&
+            `temperature ${category.temperature}`,
+        ].filter(Boolean);
+        return `- **${name}**${settings.length > 0 ? ` (${settings.join(', ')})` : ''}: ${category.description ?? ''}`;
+      })
       .join('\n');
 
     const toolDescription = `Delegates tasks to specialized Sisyphus agents with categories.
 
 **Available Subagents:**
-${agentNames.map((name) => `- **${name}**`).join('\n')}
+${definitions.map((def) => `- **${def.name}**: ${def.description}`).join('\n')}
 
 **Available Categories:**
 ${availableCategories}
@@ -100,10 +115,11 @@ ${availableCategories}
 **Parameters:**
 - **description**: Short task description (3-5 words)
 - **prompt**: Detailed prompt for the agent
-- **subagent_type**: Direct agent selection (oracle, explore, librarian, frontend)
-- **run_in_background**: Execute asynchronously (requires background task infrastructure)
-- **skills**: Skills to load (empty array if none)
-- **resume**: Session ID to resume for efficiency
+- **subagent_type**: Direct agent selection, one of the available subagents
+- **category**: Category of the task, running the agent (sisyphus by default) on the model of the category
+- **run_in_background**: Execute asynchronously, returning a task_id to pass to background_output
+- **skills**: Names of skills to load into the agent, e.g. ["frontend-design"] (empty array if none)
+- **resume**: Session ID reported by a previous task of the same agent, to continue its conversation instead of starting over
 
 **Usage:**
 \`\`\`
@@ -116,7 +132,7 @@ delegate_task(
   skills=[]
 )
 
-# Category-based (spawns Sisyphus-Junior with adjusted temperature)
+# Category-based (runs sisyphus on the model of the category)
 delegate_task(
   description="Create UI component",
   prompt="Build a login form with...",
@@ -142,14 +158,24 @@ delegate_task(
   protected override validateToolParamValues(
     params: DelegateTaskArgs,
   ): string | null {
-    // Validate mutually exclusive category and subagent_type
-    if (params.category && params.subagent_type) {
-      return 'Cannot specify both "category" and "subagent_type". Use one or the other.';
+    // Validate category exists
+    const categories = getDelegationCategories(this.config);
+    if (params.category && !(params.category in categories)) {
+      return `Unknown category: "${params.category}". Available categories: ${Object.keys(categories).join(', ')}`;
     }
 
-    // Validate category exists
-    if (params.category && !(params.category in DEFAULT_CATEGORIES)) {
-      return `Unknown category: "${params.category}". Available categories: ${Object.keys(DEFAULT_CATEGORIES).join(', ')}`;
+    // Validate skills exist
+    const unknownSkills = (params.skills ?? []).filter(
+      (name) => !findSkill(this.config, name),
+    );
+    if (unknownSkills.length > 0) {
+      const availableSkills =
+        this.config
+          .getSkillManager()
+          .getSkills()
+          .map((skill) => skill.name)
+          .join(', ') || 'none';
+      return `Unknown skill${unknownSkills.length > 1 ? 's' : ''}: ${unknownSkills.map((name) => `"${name}"`).join(', ')}. Available skills: ${availableSkills}`;
     }
 
     // Validate subagent_type exists
@@ -164,14 +190,6 @@ delegate_task(
       }
     }
 
-    // Background execution requires infrastructure (not fully implemented yet)
-    if (params.run_in_background) {
-      debugLogger.log(
-        'INFO',
-        'Background task execution requested. This feature requires additional infrastructure and may not work fully yet.',
-      );
-    }
-
     return null;
   }
 
@@ -192,6 +210,20 @@ delegate_task(
   }
 }
 
+/**
+ * Looks up an enabled skill by name.
+ */
+export function findSkill(
+  config: Config,
+  name: string,
+): SkillDefinition | undefined {
+  const lowercaseName = name.toLowerCase();
+  return config
+    .getSkillManager()
+    .getSkills()
+    .find((skill) => skill.name.toLowerCase() === lowercaseName);
+}
+
 class DelegateTaskInvocation extends BaseToolInvocation<
   DelegateTaskArgs,
   ToolResult
@@ -223,26 +255,9 @@ class DelegateTaskInvocation extends BaseToolInvocation<
     signal: AbortSignal,
     updateOutput?: (output: string | AnsiOutput) => void,
   ): Promise<ToolResult> {
-    // Determine target agent
-    let agentName: string;
-    let temperature: number | undefined;
-
-    if (this.params.subagent_type) {
-      // Direct agent delegation
-      agentName = this.params.subagent_type;
-    } else if (this.params.category) {
-      // Category-based delegation - use Sisyphus with adjusted temperature
-      agentName = 'sisyphus';
-      const categoryConfig =
-        DEFAULT_CATEGORIES[
-          // eslint-disable-next-line @typescript-eslint/no-unnecessary-type-assertion
-          this.params.category as keyof typeof DEFAULT_CATEGORIES
-        ];
-      temperature = categoryConfig.temperature;
-    } else {
-      // Default to sisyphus
-      agentName = 'sisyphus';
-    }
+    // Determine target agent. Categories set the model of the agent, which
+    // ModelRouterService applies to its requests.
+    const agentName = this.params.subagent_type || 'sisyphus';
 
     // Get agent definition
     const definition = this.registry.getDefinition(agentName);
@@ -250,22 +265,35 @@ class DelegateTaskInvocation extends BaseToolInvocation<
       throw new Error(`Agent '${agentName}' not found in registry`);
     }
 
-    // Build agent arguments
-    const agentArgs: Record<string, unknown> = {
-      task: this.params.prompt,
-      ...(this.params.resume ? { resume_session: this.params.resume } : {}),
-    };
+    const skills = (this.params.skills ?? []).map((name) => {
+      const skill = findSkill(this.config, name);
+      if (!skill) {
+        throw new Error(`Skill '${name}' not found`);
+      }
+      return skill;
+    });
 
-    // Handle temperature override for category-based delegation
-    // Note: This would need to be integrated with model config service
-    if (temperature !== undefined) {
-      debugLogger.log(
-        'INFO',
-        `Category '${this.params.category}' requested temperature ${temperature}`,
+    if (this.params.run_in_background) {
+      const taskId = BackgroundTaskManager.getInstance().startBackgroundTask(
+        this.config,
+        {
+          description: this.params.description,
+          agent: agentName,
+          prompt: this.params.prompt,
+          resume: this.params.resume,
+          skills,
+          category: this.params.category,
+        },
       );
-      // TODO: Apply temperature override via model config service
+      return {
+        llmContent: `Background task started with ID: ${taskId}\n\nUse background_output(task_id="${taskId}") to retrieve results.`,
+        returnDisplay: `Task "${this.params.description}" delegated to ${agentName} in the background.\n\nTask ID: \`${taskId}\``,
+      };
     }
 
+    // Build agent arguments
+    const agentArgs = buildAgentInputs(definition, this.params.prompt);
+
     // Validate agent arguments
     const validationError = SchemaValidator.validate(
       definition.inputConfig.inputSchema,
@@ -278,13 +306,42 @@ class DelegateTaskInvocation extends BaseToolInvocation<
       );
     }
 
-    // Build subagent invocation
-    const wrapper = new SubagentToolWrapper(
-      definition,
-      this.config,
-      this.messageBus,
-    );
-    const invocation = wrapper.build(agentArgs);
+    // Build subagent invocation, continuing the previous session if asked
+    let invocation: ToolInvocation<AgentInputs, ToolResult>;
+    if (definition.kind === 'local') {
+      invocation = new LocalSubagentInvocation(
+        definition,
+        this.config,
+        agentArgs,
+        this.messageBus,
+        undefined,
+        undefined,
+        {
+          resumeSessionId: this.params.resume,
+          skills,
+          category: this.params.category,
+        },
+      );
+    } else if (this.params.resume) {
+      throw new Error(
+        `Agent '${agentName}' is a remote agent and cannot resume a session`,
+      );
+    } else if (skills.length > 0) {
+      throw new Error(
+        `Agent '${agentName}' is a remote agent and cannot load skills`,
+      );
+    } else if (this.params.category) {
+      throw new Error(
+        `Agent '${agentName}' is a remote agent and cannot run on the model of a category`,
+      );
+    } else {
+      const wrapper = new SubagentToolWrapper(
+        definition,
+        this.config,
+        this.messageBus,
+      );
+      invocation = wrapper.build(agentArgs);
+    }
 
     // Check for cancellation
     if (signal.aborted) {
@@ -292,8 +349,6 @@ class DelegateTaskInvocation extends BaseToolInvocation<
     }
 
     // Execute the task
-    // NOTE: Background execution is not fully implemented
-    // For now, all tasks execute synchronously
     const result = await invocation.execute(signal, updateOutput);
 
     // Return result with metadata
@@ -306,139 +361,3 @@ class DelegateTaskInvocation extends BaseToolInvocation<
     };
   }
 }
-
-/**
- * Background task manager for Sisyphus
- *
- * This would manage background task execution, polling, and result collection.
- * For now, this is a placeholder for future implementation.
- *
- * Full implementation would require:
- * - Task queue management
- * - Polling mechanism for task completion
- * - Result storage and retrieval
- * - Stability detection for async operations
- */
-export class BackgroundTaskManager {
-  private static instance: BackgroundTaskManager | null = null;
-  private tasks: Map<
-    string,
-    {
-      id: string;
-      description: string;
-      agent: string;
-      status: 'pending' | 'running' | 'completed' | 'error' | 'cancelled';
-      result?: ToolResult;
-      error?: Error;
-    }
-  > = new Map();
-
-  static getInstance(): BackgroundTaskManager {
-    if (!BackgroundTaskManager.instance) {
-      BackgroundTaskManager.instance = new BackgroundTaskManager();
-    }
-    return BackgroundTaskManager.instance;
-  }
-
-  /**
-   * Start a background task
-   * NOTE: This is a placeholder. Full implementation requires async task execution.
-   */
-  async startBackgroundTask(
-    description: string,
-    agent: string,
-    _prompt: string,
-  ): Promise<string> {
-    const taskId = `task_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-    this.tasks.set(taskId, {
-      id: taskId,
-      description,
-      agent,
-      status: 'pending',
-    });
-
-    debugLogger.log('INFO', `Background task ${taskId} queued for ${agent}`);
-
-    // TODO: Implement actual background execution
-    // For now, mark as completed immediately
-    this.tasks.set(taskId, {
-      id: taskId,
-      description,
-      agent,
-      status: 'completed',
-    });
-
-    return taskId;
-  }
-
-  /**
-   * Get background task result
-   */
-  getTaskResult(taskId: string): ToolResult | Error | null {
-    const task = this.tasks.get(taskId);
-    if (!task) {
-      return new Error(`Task ${taskId} not found`);
-    }
-
-    if (task.status === 'error' && task.error) {
-      return task.error;
-    }
-
-    if (task.status === 'completed' && task.result) {
-      return task.result;
-    }
-
-    return null; // Task not complete yet
-  }
-
-  /**
-   * Cancel a background task
-   */
-  cancelTask(taskId: string): boolean {
-    const task = this.tasks.get(taskId);
-    if (!task) {
-      return false;
-    }
-
-    if (task.status === 'pending' || task.status === 'running') {
-      this.tasks.set(taskId, {
-        ...task,
-        status: 'cancelled',
-      });
-      return true;
-    }
-
-    return false;
-  }
-
-  /**
-   * Cancel all background tasks
-   */
-  cancelAll(): void {
-    for (const [taskId, task] of this.tasks.entries()) {
-      if (task.status === 'pending' || task.status === 'running') {
-        this.tasks.set(taskId, {
-          ...task,
-          status: 'cancelled',
-        });
-      }
-    }
-  }
-
-  /**
-   * Clean up completed tasks
-   */
-  cleanup(olderThanMs: number = 3600000): void {
-    const cutoff = Date.now() - olderThanMs;
-    for (const [taskId, task] of this.tasks.entries()) {
-      if (
-        (task.status === 'completed' || task.status === 'cancelled') &&
-        taskId.split('_')[1] &&
-        parseInt(taskId.split('_')[1], 10) < cutoff
-      ) {
-        this.tasks.delete(taskId);
-      }
-    }
-  }
-}
@@ -9,17 +9,28 @@
  *
  * This module exports all Sisyphus-related tools:
  * - delegate_task: Enhanced agent delegation with categories
+ * - parallel_tasks: Runs several agents at once and merges their results
  * - background_task: Launches asynchronous agent tasks
  * - background_output: Retrieves results from background tasks
  * - background_cancel: Cancels running background tasks
  */
 
-export { DelegateTaskTool, BackgroundTaskManager } from './delegate-task.js';
+export { DelegateTaskTool } from './delegate-task.js';
+export { ParallelTasksTool } from './parallel-tasks.js';
+export {
+  BackgroundTaskManager,
+  buildAgentInputs,
+  isTerminalTaskStatus,
+} from './background-task-manager.js';
 export { BackgroundTaskTool } from './background-task.js';
 export { BackgroundOutputTool } from './background-output.js';
 export { BackgroundCancelTool } from './background-cancel.js';
 
 // Re-export types from each file
+export type {
+  BackgroundTaskManagerOptions,
+  BackgroundTaskRequest,
+} from './background-task-manager.js';
 export type { BackgroundTaskParams } from './background-task.js';
 export type { BackgroundOutputParams } from './background-output.js';
 export type { BackgroundCancelParams } from './background-cancel.js';
@@ -27,6 +38,8 @@ export type { BackgroundCancelParams } from './background-cancel.js';
 // DelegateTaskArgs is defined in agents/sisyphus/types.ts, re-export it for convenience
 export type {
   DelegateTaskArgs,
+  ParallelTasksArgs,
+  ParallelTaskArgs,
   BackgroundTaskArgs,
   BackgroundOutputArgs,
   BackgroundCancelArgs,
@@ -39,6 +52,7 @@ export type {
  */
 export const SISYPHUS_TOOLS = [
   'delegate_task',
+  'parallel_tasks',
   'background_task',
   'background_output',
   'background_cancel',
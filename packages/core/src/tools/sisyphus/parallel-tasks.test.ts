@@ -0,0 +1,210 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { z } from 'zod';
+import { ParallelTasksTool } from './parallel-tasks.js';
+import { LocalAgentExecutor } from '../../agents/local-executor.js';
+import type { LocalAgentExecutorOptions } from '../../agents/local-executor.js';
+import type { AgentRegistry } from '../../agents/registry.js';
+import type {
+  AgentInputs,
+  LocalAgentDefinition,
+  OutputObject,
+} from '../../agents/types.js';
+import { AgentTerminateMode } from '../../agents/types.js';
+import type { Config } from '../../config/config.js';
+import type { ParallelTasksArgs } from '../../agents/sisyphus/types.js';
+import { createMockMessageBus } from '../../test-utils/mock-message-bus.js';
+
+vi.mock('../../agents/local-executor.js');
+
+const MockLocalAgentExecutor = vi.mocked(LocalAgentExecutor);
+
+const definition = (name: string): LocalAgentDefinition => ({
+  kind: 'local',
+  name,
+  description: `The ${name} agent.`,
+  inputConfig: {
+    inputSchema: {
+      type: 'object',
+      properties: { objective: { type: 'string' } },
+      required: ['objective'],
+    },
+  },
+  modelConfig: { model: 'test' },
+  runConfig: { maxTimeMinutes: 10 },
+  promptConfig: { systemPrompt: 'test' },
+});
+
+const definitions = [definition('explore'), definition('librarian')];
+
+interface RunningExecutor {
+  definition: LocalAgentDefinition;
+  options?: LocalAgentExecutorOptions;
+  inputs: AgentInputs;
+  signal: AbortSignal;
+  finish: (output: OutputObject) => void;
+}
+
+describe('ParallelTasksTool', () => {
+  let tool: ParallelTasksTool;
+  let executors: RunningExecutor[];
+
+  const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  const params = (overrides: Partial<ParallelTasksArgs> = {}) =>
+    ({
+      description: 'Map auth flow',
+      tasks: [
+        {
+          description: 'Find login handlers',
+          prompt: 'Find the login handlers',
+          subagent_type: 'explore',
+        },
+        {
+          description: 'Find OAuth docs',
+          prompt: 'Find the OAuth docs',
+          subagent_type: 'librarian',
+        },
+      ],
+      ...overrides,
+    }) as ParallelTasksArgs;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    executors = [];
+    MockLocalAgentExecutor.create.mockImplementation(
+      async (definition, _config, _onActivity, options) =>
+        ({
+          run: (inputs: AgentInputs, signal: AbortSignal) =>
+            new Promise<OutputObject>((resolve) => {
+              executors.push({
+                definition: definition as unknown as LocalAgentDefinition,
+                options,
+                inputs,
+                signal,
+                finish: resolve,
+              });
+              signal.addEventListener('abort', () =>
+                resolve({
+                  result: 'Aborted.',
+                  terminate_reason: AgentTerminateMode.ABORTED,
+                }),
+              );
+            }),
+        }) as unknown as LocalAgentExecutor<z.ZodTypeAny>,
+    );
+
+    const registry = {
+      getAllDefinitions: () => definitions,
+      getDefinition: (name: string) =>
+        definitions.find((def) => def.name === name),
+    } as unknown as AgentRegistry;
+    const config = {
+      getSkillManager: () => ({ getSkills: () => [] }),
+      getAgentsSettings: () => ({}),
+    } as unknown as Config;
+    tool = new ParallelTasksTool(registry, config, createMockMessageBus());
+  });
+
+  it('should run the tasks concurrently and merge their results', async () => {
+    const updateOutput = vi.fn();
+    const result = tool
+      .build(params({ max_time_minutes: 2, max_tokens: 5000 }))
+      .execute(new AbortController().signal, updateOutput);
+    await flush();
+
+    // Both agents run before either has finished, sharing the budgets.
+    expect(executors).toHaveLength(2);
+    expect(executors[0].inputs).toEqual({
+      objective: 'Find the login handlers',
+    });
+    expect(executors[0].definition.runConfig.maxTimeMinutes).toBe(2);
+    expect(executors[0].options?.tokenBudget?.limit).toBe(5000);
+    expect(executors[1].options?.tokenBudget).toBe(
+      executors[0].options?.tokenBudget,
+    );
+
+    executors[1].finish({
+      result: 'OAuth is described in RFC 6749.',
+      terminate_reason: AgentTerminateMode.GOAL,
+    });
+    executors[0].finish({
+      result: 'Partial findings.',
+      terminate_reason: AgentTerminateMode.TOKEN_BUDGET,
+    });
+    const { llmContent } = await result;
+
+    expect(llmContent).toContain('1/2 tasks of "Map auth flow" completed');
+    expect(llmContent).toContain(
+      '## 1. Find login handlers (explore): error\nError: Agent stopped early (TOKEN_BUDGET)\nPartial findings.',
+    );
+    expect(llmContent).toContain(
+      '## 2. Find OAuth docs (librarian): completed\nOAuth is described in RFC 6749.',
+    );
+    expect(updateOutput).toHaveBeenCalledWith(
+      expect.stringContaining('✓ librarian: Find OAuth docs'),
+    );
+  });
+
+  it('should keep running the other tasks when one fails', async () => {
+    MockLocalAgentExecutor.create.mockRejectedValueOnce(
+      new Error('Tool not allowed'),
+    );
+
+    const result = tool.build(params()).execute(new AbortController().signal);
+    await flush();
+    executors[0].finish({
+      result: 'Found the docs.',
+      terminate_reason: AgentTerminateMode.GOAL,
+    });
+    const { llmContent } = await result;
+
+    expect(llmContent).toContain(
+      '## 1. Find login handlers (explore): error\nError: Tool not allowed',
+    );
+    expect(llmContent).toContain('(librarian): completed\nFound the docs.');
+  });
+
+  it('should cancel all tasks when aborted', async () => {
+    const controller = new AbortController();
+    const result = tool.build(params()).execute(controller.signal);
+    await flush();
+
+    controller.abort();
+    const { llmContent } = await result;
+
+    expect(llmContent).toContain('0/2 tasks');
+    expect(llmContent).toContain('(explore): cancelled');
+    expect(llmContent).toContain('(librarian): cancelled');
+  });
+
+  it('should only accept the agents of the registry and known skills', () => {
+    expect(tool.description).toContain('- **explore**: The explore agent.');
+    expect(() =>
+      tool.build(
+        params({
+          tasks: [{ description: 'x', prompt: 'x', subagent_type: 'oracle' }],
+        }),
+      ),
+    ).toThrow('must be equal to one of the allowed values');
+    expect(() =>
+      tool.build(
+        params({
+          tasks: [
+            {
+              description: 'x',
+              prompt: 'x',
+              subagent_type: 'explore',
+              skills: ['missing'],
+            },
+          ],
+        }),
+      ),
+    ).toThrow('Unknown skill: "missing". Available skills: none');
+  });
+});
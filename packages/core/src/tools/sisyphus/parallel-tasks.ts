@@ -0,0 +1,363 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  BaseDeclarativeTool,
+  Kind,
+  type ToolInvocation,
+  type ToolResult,
+  BaseToolInvocation,
+} from '../tools.js';
+import type { AnsiOutput } from '../../utils/terminalSerializer.js';
+import type { MessageBus } from '../../confirmation-bus/message-bus.js';
+import type { AgentRegistry } from '../../agents/registry.js';
+import type { Config } from '../../config/config.js';
+import { LocalAgentExecutor } from '../../agents/local-executor.js';
+import { AgentTokenBudget } from '../../agents/token-budget.js';
+import {
+  AgentTerminateMode,
+  type LocalAgentDefinition,
+} from '../../agents/types.js';
+import type {
+  BackgroundTaskStatus,
+  ParallelTaskArgs,
+  ParallelTasksArgs,
+} from '../../agents/sisyphus/types.js';
+import { SISYPHUS_DEFAULTS } from '../../agents/sisyphus/types.js';
+import { getDelegationCategories } from '../../agents/sisyphus/categories.js';
+import { PARALLEL_TASKS_TOOL_NAME } from '../tool-names.js';
+import { buildAgentInputs } from './background-task-manager.js';
+import { findSkill } from './delegate-task.js';
+
+/**
+ * State of a task of a fan-out
+ */
+interface TaskState {
+  task: ParallelTaskArgs;
+  status: BackgroundTaskStatus;
+  lastTool?: string;
+  result?: string;
+  error?: string;
+  durationMs?: number;
+}
+
+/**
+ * Sisyphus parallel tasks tool - Fans a task out to several agents at once
+ *
+ * The agents run concurrently within one tool call, sharing a time and a
+ * token budget, and their results are merged into a single report with the
+ * status of each agent.
+ */
+export class ParallelTasksTool extends BaseDeclarativeTool<
+  ParallelTasksArgs,
+  ToolResult
+> {
+  constructor(
+    private readonly registry: AgentRegistry,
+    private readonly config: Config,
+    messageBus: MessageBus,
+  ) {
+    // Remote agents cannot share the budgets, so only local ones are listed.
+    const definitions = registry
+      .getAllDefinitions()
+      .filter((def) => def.kind === 'local');
+    const categories = getDelegationCategories(config);
+
+    const toolDescription = `Runs several tasks at once, each with its own Sisyphus agent, and waits for all of them. Returns a merged report with the status and result of each task.
+
+Use it for independent searches whose results you all need before continuing, e.g. several \`explore\` searches of a large codebase: they take as long as the slowest one instead of their sum. Use \`background_task\` instead to keep working while the agents run.
+
+**Available Subagents:**
+${definitions.map((def) => `- **${def.name}**: ${def.description}`).join('\n')}
+
+**Parameters:**
+- **description**: Short description (3-5 words) of the whole fan-out
+- **tasks**: Up to ${SISYPHUS_DEFAULTS.MAX_PARALLEL_TASKS} tasks, each with a description, a prompt, a subagent_type and optionally a category and skills
+- **max_time_minutes**: Time budget shared by the tasks. Tasks still running when it runs out report what they found so far
+- **max_tokens**: Token budget shared by the tasks. Tasks stop once the agents have used it up and report what they found so far
+`;
+
+    super(
+      PARALLEL_TASKS_TOOL_NAME,
+      'Parallel Tasks',
+      toolDescription,
+      Kind.Think,
+      {
+        type: 'object',
+        properties: {
+          description: {
+            type: 'string',
+            description:
+              'Short description (3-5 words) of what the tasks will do',
+          },
+          tasks: {
+            type: 'array',
+            minItems: 1,
+            maxItems: SISYPHUS_DEFAULTS.MAX_PARALLEL_TASKS,
+            description: 'Independent tasks to run at the same time',
+            items: {
+              type: 'object',
+              properties: {
+                description: {
+                  type: 'string',
+                  description:
+                    'Short description (3-5 words) of what this task will do',
+                },
+                prompt: {
+                  type: 'string',
+                  description: 'Detailed prompt for the agent',
+                },
+                subagent_type: {
+                  type: 'string',
+                  description: 'Agent running the task',
+                  enum: definitions.map((def) => def.name),
+                },
+                category: {
+                  type: 'string',
+                  description:
+                    'Category of the task, running the agent on the model of the category',
+                  enum: Object.keys(categories),
+                },
+                skills: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description:
+                    'Names of the skills whose instructions the agent should follow for this task',
+                },
+              },
+              required: ['description', 'prompt', 'subagent_type'],
+            },
+          },
+          max_time_minutes: {
+            type: 'number',
+            exclusiveMinimum: 0,
+            description: 'Time budget shared by the tasks, in minutes',
+          },
+          max_tokens: {
+            type: 'integer',
+            minimum: 1,
+            description: 'Token budget shared by the tasks',
+          },
+        },
+        required: ['description', 'tasks'],
+      },
+      messageBus,
+      true,
+      true,
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: ParallelTasksArgs,
+  ): string | null {
+    const unknownSkills = new Set(
+      params.tasks
+        .flatMap((task) => task.skills ?? [])
+        .filter((name) => !findSkill(this.config, name)),
+    );
+    if (unknownSkills.size > 0) {
+      const availableSkills =
+        this.config
+          .getSkillManager()
+          .getSkills()
+          .map((skill) => skill.name)
+          .join(', ') || 'none';
+      return `Unknown skill${unknownSkills.size > 1 ? 's' : ''}: ${Array.from(unknownSkills, (name) => `"${name}"`).join(', ')}. Available skills: ${availableSkills}`;
+    }
+    return null;
+  }
+
+  protected createInvocation(
+    params: ParallelTasksArgs,
+    messageBus: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ): ToolInvocation<ParallelTasksArgs, ToolResult> {
+    return new ParallelTasksInvocation(
+      params,
+      this.registry,
+      this.config,
+      messageBus,
+      _toolName,
+      _toolDisplayName,
+    );
+  }
+}
+
+class ParallelTasksInvocation extends BaseToolInvocation<
+  ParallelTasksArgs,
+  ToolResult
+> {
+  constructor(
+    params: ParallelTasksArgs,
+    private readonly registry: AgentRegistry,
+    private readonly config: Config,
+    messageBus: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ) {
+    super(
+      params,
+      messageBus,
+      _toolName ?? PARALLEL_TASKS_TOOL_NAME,
+      _toolDisplayName ?? 'Parallel Tasks',
+    );
+  }
+
+  getDescription(): string {
+    const agents = this.params.tasks.map((task) => task.subagent_type);
+    return `Running "${this.params.description}" with ${agents.join(', ')}`;
+  }
+
+  async execute(
+    signal: AbortSignal,
+    updateOutput?: (output: string | AnsiOutput) => void,
+  ): Promise<ToolResult> {
+    const startTime = Date.now();
+    const tokenBudget = new AgentTokenBudget(this.params.max_tokens);
+    const states: TaskState[] = this.params.tasks.map((task) => ({
+      task,
+      status: 'running',
+    }));
+    const reportProgress = () => updateOutput?.(formatProgress(states));
+
+    reportProgress();
+    await Promise.all(
+      states.map((state) =>
+        this.runTask(state, tokenBudget, signal, reportProgress),
+      ),
+    );
+
+    const completed = states.filter(
+      (state) => state.status === 'completed',
+    ).length;
+    const summary = `${completed}/${states.length} tasks of "${this.params.description}" completed in ${formatSeconds(Date.now() - startTime)}, using ${tokenBudget.usedTokens} tokens.`;
+
+    return {
+      llmContent: [summary, ...states.map(formatTaskReport)].join('\n\n'),
+      returnDisplay: `${summary}\n\n${formatProgress(states)}`,
+    };
+  }
+
+  /**
+   * Runs a task to completion. Failures are recorded in its state rather
+   * than thrown, so that they do not stop the other tasks.
+   */
+  private async runTask(
+    state: TaskState,
+    tokenBudget: AgentTokenBudget,
+    signal: AbortSignal,
+    onProgress: () => void,
+  ): Promise<void> {
+    const { task } = state;
+    const startTime = Date.now();
+    try {
+      const definition = this.registry.getDefinition(task.subagent_type);
+      if (definition?.kind !== 'local') {
+        throw new Error(
+          `Agent '${task.subagent_type}' not found in registry or not local`,
+        );
+      }
+      const skills = (task.skills ?? []).map((name) => {
+        const skill = findSkill(this.config, name);
+        if (!skill) {
+          throw new Error(`Skill '${name}' not found`);
+        }
+        return skill;
+      });
+
+      const executor = await LocalAgentExecutor.create(
+        this.withTimeBudget(definition),
+        this.config,
+        (activity) => {
+          if (
+            activity.type === 'TOOL_CALL_START' &&
+            typeof activity.data['name'] === 'string'
+          ) {
+            state.lastTool = activity.data['name'];
+            onProgress();
+          }
+        },
+        { skills, category: task.category, tokenBudget },
+      );
+      const output = await executor.run(
+        buildAgentInputs(definition, task.prompt),
+        signal,
+      );
+
+      state.result = output.result;
+      if (output.terminate_reason === AgentTerminateMode.GOAL) {
+        state.status = 'completed';
+      } else if (output.terminate_reason === AgentTerminateMode.ABORTED) {
+        state.status = 'cancelled';
+      } else {
+        state.status = 'error';
+        state.error = `Agent stopped early (${output.terminate_reason})`;
+      }
+    } catch (error) {
+      state.status = signal.aborted ? 'cancelled' : 'error';
+      state.error = error instanceof Error ? error.message : String(error);
+    } finally {
+      state.durationMs = Date.now() - startTime;
+      onProgress();
+    }
+  }
+
+  /**
+   * Shortens the time limit of an agent to the time budget of the tasks.
+   * The tasks start together, so the budget is shared.
+   */
+  private withTimeBudget(
+    definition: LocalAgentDefinition,
+  ): LocalAgentDefinition {
+    const budget = this.params.max_time_minutes;
+    if (budget === undefined || budget >= definition.runConfig.maxTimeMinutes) {
+      return definition;
+    }
+    return {
+      ...definition,
+      runConfig: { ...definition.runConfig, maxTimeMinutes: budget },
+    };
+  }
+}
+
+const STATUS_ICONS: Record<BackgroundTaskStatus, string> = {
+  pending: '○',
+  running: '⏳',
+  completed: '✓',
+  error: '✗',
+  cancelled: '⊘',
+};
+
+function formatProgress(states: TaskState[]): string {
+  return states
+    .map(({ task, status, lastTool, durationMs }) => {
+      const details =
+        status === 'running'
+          ? lastTool && ` (${lastTool})`
+          : durationMs !== undefined && ` (${formatSeconds(durationMs)})`;
+      return `${STATUS_ICONS[status]} ${task.subagent_type}: ${task.description}${details || ''}`;
+    })
+    .join('\n');
+}
+
+function formatTaskReport(state: TaskState, index: number): string {
+  const { task, status, error, result } = state;
+  const lines = [
+    `## ${index + 1}. ${task.description} (${task.subagent_type}): ${status}`,
+  ];
+  if (error) {
+    lines.push(`Error: ${error}`);
+  }
+  if (result) {
+    lines.push(result);
+  }
+  return lines.join('\n');
+}
+
+function formatSeconds(milliseconds: number): string {
+  return `${Math.round(milliseconds / 1000)}s`;
+}
@@ -28,6 +28,7 @@ export const DELEGATE_TO_AGENT_TOOL_NAME = 'delegate_to_agent';
 
 // Sisyphus multi-agent orchestration tools
 export const DELEGATE_TASK_TOOL_NAME = 'delegate_task';
+export const PARALLEL_TASKS_TOOL_NAME = 'parallel_tasks';
 export const BACKGROUND_TASK_TOOL_NAME = 'background_task';
 export const BACKGROUND_OUTPUT_TOOL_NAME = 'background_output';
 export const BACKGROUND_CANCEL_TOOL_NAME = 'background_cancel';
@@ -108,6 +108,13 @@ export interface RetryAttemptPayload {
   model: string;
 }
 
+/**
+ * Payload for the 'megawork-mode-changed' event.
+ */
+export interface MegaworkModeChangedPayload {
+  enabled: boolean;
+}
+
 export enum CoreEvent {
   UserFeedback = 'user-feedback',
   ModelChanged = 'model-changed',
@@ -121,6 +128,7 @@ export enum CoreEvent {
   AgentsRefreshed = 'agents-refreshed',
   AdminSettingsChanged = 'admin-settings-changed',
   RetryAttempt = 'retry-attempt',
+  MegaworkModeChanged = 'megawork-mode-changed',
 }
 
 export interface CoreEvents {
@@ -136,6 +144,7 @@ export interface CoreEvents {
   [CoreEvent.AgentsRefreshed]: never[];
   [CoreEvent.AdminSettingsChanged]: never[];
   [CoreEvent.RetryAttempt]: [RetryAttemptPayload];
+  [CoreEvent.MegaworkModeChanged]: [MegaworkModeChangedPayload];
 }
 
 type EventBacklogItem = {
@@ -258,6 +267,14 @@ export class CoreEventEmitter extends EventEmitter<CoreEvents> {
     this.emit(CoreEvent.RetryAttempt, payload);
   }
 
+  /**
+   * Notifies subscribers that Megawork mode was switched on or off.
+   */
+  emitMegaworkModeChanged(enabled: boolean): void {
+    const payload: MegaworkModeChangedPayload = { enabled };
+    this.emit(CoreEvent.MegaworkModeChanged, payload);
+  }
+
   /**
    * Flushes buffered messages. Call this immediately after primary UI listener
    * subscribes.
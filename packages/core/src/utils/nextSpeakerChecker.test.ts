@@ -65,6 +65,7 @@ describe('checkNextSpeaker', () => {
       getProjectRoot: vi.fn().mockReturnValue('/test/project/root'),
       getSessionId: vi.fn().mockReturnValue('test-session-id'),
       getModel: () => 'test-model',
+      getContentGeneratorConfig: vi.fn().mockReturnValue({}),
       storage: {
         getProjectTempDir: vi.fn().mockReturnValue('/test/temp'),
       },
@@ -10,6 +10,7 @@ import process from 'node:process';
 import * as crypto from 'node:crypto';
 
 export const GEMINI_DIR = '.gemini';
+export const DEVORA_DIR = '.devora';
 export const GOOGLE_ACCOUNTS_FILENAME = 'google_accounts.json';
 
 /**
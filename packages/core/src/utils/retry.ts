@@ -16,6 +16,7 @@ import { delay, createAbortError } from './delay.js';
 import { debugLogger } from './debugLogger.js';
 import { getErrorStatus, ModelNotFoundError } from './httpErrors.js';
 import type { RetryAvailabilityContext } from '../availability/modelPolicy.js';
+import { classifyOpenAIError } from '../availability/errorClassification.js';
 
 export type { RetryAvailabilityContext };
 
@@ -198,7 +199,8 @@ export async function retryWithBackoff<T>(
         throw error;
       }
 
-      const classifiedError = classifyGoogleError(error);
+      const classifiedError =
+        classifyOpenAIError(error) ?? classifyGoogleError(error);
 
       const errorCode = getErrorStatus(error);
 
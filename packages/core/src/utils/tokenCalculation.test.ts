@@ -63,6 +63,35 @@ describe('calculateRequestTokenCount', () => {
     expect(mockContentGenerator.countTokens).not.toHaveBeenCalled();
   });
 
+  it('should count tokens with the local tokenizer of known models', async () => {
+    vi.mocked(mockContentGenerator.countTokens).mockClear();
+    // "Hello" "," " world" "!" in o200k_base, 3 with the heuristic.
+    const request = 'Hello, world!';
+
+    const count = await calculateRequestTokenCount(
+      request,
+      mockContentGenerator,
+      'openai/gpt-4o',
+    );
+
+    expect(count).toBe(4);
+    expect(mockContentGenerator.countTokens).not.toHaveBeenCalled();
+  });
+
+  it('should not tokenize massive text with the local tokenizer', async () => {
+    vi.mocked(mockContentGenerator.countTokens).mockClear();
+    const request = 'a'.repeat(200_000);
+
+    const count = await calculateRequestTokenCount(
+      request,
+      mockContentGenerator,
+      'openai/gpt-4o',
+    );
+
+    expect(count).toBe(50_000);
+    expect(mockContentGenerator.countTokens).not.toHaveBeenCalled();
+  });
+
   it('should estimate tokens locally for CJK text with higher weight', async () => {
     vi.mocked(mockContentGenerator.countTokens).mockClear();
     // 2 chars. 2 * 1.3 = 2.6 -> floor(2.6) = 2.
@@ -7,6 +7,7 @@
 import type { PartListUnion, Part } from '@google/genai';
 import type { ContentGenerator } from '../core/contentGenerator.js';
 import { debugLogger } from './debugLogger.js';
+import { getTokenizer } from '../tokenizer/tokenizer.js';
 
 // Token estimation constants
 // ASCII characters (0-127) are roughly 4 chars per token
@@ -25,16 +26,21 @@ const PDF_TOKEN_ESTIMATE = 25800;
 const MAX_CHARS_FOR_FULL_HEURISTIC = 100_000;
 
 /**
- * Estimates token count for parts synchronously using a heuristic.
- * - Text: character-based heuristic (ASCII vs CJK) for small strings, length/4 for massive ones.
- * - Non-text (Tools, etc): JSON string length / 4.
+ * Estimates token count for parts synchronously.
+ * - Text: the model's local tokenizer when its family is known, else a
+ *   character-based heuristic (ASCII vs CJK), for small strings; length/4 for
+ *   massive ones, which are too slow to encode synchronously.
+ * - Non-text (Tools, etc): tokenized JSON string, or JSON string length / 4.
  */
-export function estimateTokenCountSync(parts: Part[]): number {
+export function estimateTokenCountSync(parts: Part[], model?: string): number {
+  const tokenizer = getTokenizer(model);
   let totalTokens = 0;
   for (const part of parts) {
     if (typeof part.text === 'string') {
       if (part.text.length > MAX_CHARS_FOR_FULL_HEURISTIC) {
         totalTokens += part.text.length / 4;
+      } else if (tokenizer) {
+        totalTokens += tokenizer.countTokens(part.text);
       } else {
         for (const char of part.text) {
           if (char.codePointAt(0)! <= 127) {
@@ -62,7 +68,11 @@ export function estimateTokenCountSync(parts: Part[]): number {
         // For other non-text parts (functionCall, functionResponse, etc.),
         // we fallback to the JSON string length heuristic.
         // Note: This is an approximation.
-        totalTokens += JSON.stringify(part).length / 4;
+        const json = JSON.stringify(part);
+        totalTokens +=
+          tokenizer && json.length <= MAX_CHARS_FOR_FULL_HEURISTIC
+            ? tokenizer.countTokens(json)
+            : json.length / 4;
       }
     }
   }
@@ -101,9 +111,9 @@ export async function calculateRequestTokenCount(
     } catch (error) {
       // Fallback to local estimation if the API call fails
       debugLogger.debug('countTokens API failed:', error);
-      return estimateTokenCountSync(parts);
+      return estimateTokenCountSync(parts, model);
     }
   }
 
-  return estimateTokenCountSync(parts);
+  return estimateTokenCountSync(parts, model);
 }
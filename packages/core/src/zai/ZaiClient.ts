@@ -4,67 +4,36 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import OpenAI from 'openai';
-import type { ZaiChatRequest, ZaiChatResponse } from './types.js';
+import { OpenAICompatibleClient } from '../openai-compatible/OpenAICompatibleClient.js';
+import {
+  OPENAI_COMPATIBLE_PRESETS,
+  ZAI_PROVIDER_ID,
+} from '../openai-compatible/providers.js';
 
 /**
- * Zai API client wrapper using OpenAI SDK with custom base URL
+ * Zai API client, an OpenAI-compatible client preconfigured for Zai GLM
  * Documentation: https://docs.z.ai/devpack/tool/others
  */
-export class ZaiClient {
-  private client: OpenAI;
-  private readonly model = 'GLM-4.7';
-
-  constructor(apiKey: string) {
-    this.client = new OpenAI({
-      apiKey,
-      baseURL: 'https://api.z.ai/api/coding/paas/v4',
-    });
-  }
-
-  /**
-   * Send a chat completion request to Zai GLM
-   */
-  async chat(request: ZaiChatRequest): Promise<ZaiChatResponse> {
-    const response = await this.client.chat.completions.create({
-      model: this.model,
-      messages: request.messages,
-      temperature: request.temperature ?? 0.7,
-      max_tokens: request.max_tokens ?? 4096,
-      top_p: request.top_p,
-      stream: false,
-    });
-
-    return response as ZaiChatResponse;
-  }
-
+export class ZaiClient extends OpenAICompatibleClient {
   /**
-   * Send a streaming chat completion request to Zai GLM
+   * @param baseUrl The API of Zai, e.g. the `baseUrl` of its provider
+   *   settings. Defaults to the official one.
    */
-  async *streamChat(request: ZaiChatRequest): AsyncGenerator<unknown> {
-    const stream = await this.client.chat.completions.create({
-      model: this.model,
-      messages: request.messages,
-      temperature: request.temperature ?? 0.7,
-      max_tokens: request.max_tokens ?? 4096,
-      top_p: request.top_p,
-      stream: true,
-    });
-
-    for await (const chunk of stream) {
-      yield chunk;
-    }
+  constructor(
+    apiKey: string,
+    baseUrl: string = OPENAI_COMPATIBLE_PRESETS[ZAI_PROVIDER_ID].baseUrl,
+  ) {
+    const preset = OPENAI_COMPATIBLE_PRESETS[ZAI_PROVIDER_ID];
+    super({ apiKey, baseUrl, headers: preset.headers });
   }
 
   /**
    * Generate embeddings using Zai
    */
-  async embeddings(text: string): Promise<number[]> {
-    const response = await this.client.embeddings.create({
-      model: 'embedding-2',
-      input: text,
-    });
-
-    return response.data[0].embedding;
+  override async embeddings(
+    text: string,
+    model: string = OPENAI_COMPATIBLE_PRESETS[ZAI_PROVIDER_ID].embeddingModel!,
+  ): Promise<number[]> {
+    return super.embeddings(text, model);
   }
 }
@@ -4,43 +4,21 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import type {
+  OpenAIChatRequest,
+  OpenAIChatResponse,
+  OpenAIMessage,
+} from '../openai-compatible/types.js';
+
 /**
  * Types specific to Zai GLM integration
  */
 
-export interface ZaiMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
-}
+export type ZaiMessage = OpenAIMessage;
 
-export interface ZaiChatRequest {
-  model: string;
-  messages: ZaiMessage[];
-  temperature?: number;
-  max_tokens?: number;
-  top_p?: number;
-  stream?: boolean;
-}
+export type ZaiChatRequest = OpenAIChatRequest;
 
-export interface ZaiChatResponse {
-  id: string;
-  object: string;
-  created: number;
-  model: string;
-  choices: Array<{
-    index: number;
-    message: {
-      role: string;
-      content: string;
-    };
-    finish_reason: string;
-  }>;
-  usage: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
-}
+export type ZaiChatResponse = OpenAIChatResponse;
 
 export interface ZaiEmbeddingRequest {
   model: string;
@@ -5,4 +5,5 @@
  */
 
 export * from './file-system-test-helpers.js';
+export * from './mock-llm-server.js';
 export * from './test-rig.js';
@@ -0,0 +1,544 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { readFileSync } from 'node:fs';
+import type {
+  FakeResponse,
+  OpenAIChatChunk,
+  OpenAIChatResponse,
+  OpenAIModelInfo,
+  OpenAIToolCall,
+  OpenAIUsage,
+} from '@google/gemini-cli-core';
+
+type GenerateContentResponse = Extract<
+  FakeResponse,
+  { method: 'generateContent' }
+>['response'];
+type Part = NonNullable<
+  NonNullable<GenerateContentResponse['candidates']>[number]['content']
+>['parts'] extends Array<infer P> | undefined
+  ? P
+  : never;
+
+/**
+ * A scripted HTTP error, returned instead of the next model response, e.g. to
+ * exercise retries and quota errors.
+ */
+export interface MockLlmErrorResponse {
+  method: 'error';
+  status: number;
+  message: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * A line of a mock server fixture: a response recorded with
+ * `--record-responses`, or a scripted error.
+ */
+export type MockLlmResponse = FakeResponse | MockLlmErrorResponse;
+
+/**
+ * A request received by the mock server
+ */
+export interface MockLlmRequest {
+  protocol: 'gemini' | 'openai';
+  method: FakeResponse['method'];
+  model?: string;
+  stream: boolean;
+  body: Record<string, unknown>;
+}
+
+export interface MockLlmServerOptions {
+  /** The models listed by the OpenAI-compatible `/models` endpoint */
+  models?: OpenAIModelInfo[];
+}
+
+type GenerateMethod = 'generateContent' | 'generateContentStream';
+
+class UnexpectedRequestError extends Error {}
+
+class ScriptedError extends Error {
+  constructor(readonly response: MockLlmErrorResponse) {
+    super(response.message);
+  }
+}
+
+/**
+ * A local server answering Gemini REST and OpenAI-compatible chat completion
+ * requests with scripted responses, so that the CLI and the provider clients
+ * can run end to end without network.
+ *
+ * Responses are read from fixtures in the format of `--fake-responses`, one
+ * JSON response per line, and served in order whatever the protocol of the
+ * request. A Gemini response is translated into a chat completion for OpenAI
+ * requests, its thoughts becoming `reasoning_content` and its function calls
+ * `tool_calls`. Streamed and non-streamed responses answer both kinds of
+ * requests, so one fixture can drive either protocol.
+ */
+export class MockLlmServer {
+  readonly requests: MockLlmRequest[] = [];
+  private server?: Server;
+  private responseIndex = 0;
+  private toolCallCounter = 0;
+
+  constructor(
+    private readonly responses: MockLlmResponse[],
+    private readonly options: MockLlmServerOptions = {},
+  ) {}
+
+  static fromFile(
+    filePath: string,
+    options?: MockLlmServerOptions,
+  ): MockLlmServer {
+    const responses = readFileSync(filePath, 'utf-8')
+      .split('\n')
+      .filter((line) => line.trim() !== '')
+      .map((line) => JSON.parse(line) as MockLlmResponse);
+    return new MockLlmServer(responses, options);
+  }
+
+  /**
+   * The base URL of the server, to use as `GOOGLE_GEMINI_BASE_URL`
+   */
+  get url(): string {
+    if (!this.server) {
+      throw new Error('The mock LLM server is not started');
+    }
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  /**
+   * The base URL of the OpenAI-compatible API, to use as a provider `baseUrl`
+   */
+  get openaiBaseUrl(): string {
+    return `${this.url}/v1`;
+  }
+
+  /**
+   * Whether every scripted response was served
+   */
+  get isDone(): boolean {
+    return this.responseIndex >= this.responses.length;
+  }
+
+  async start(): Promise<string> {
+    const server = createServer((req, res) => {
+      this.handle(req, res).catch((error: unknown) => {
+        if (error instanceof ScriptedError) {
+          const { status, headers } = error.response;
+          sendJson(
+            res,
+            status,
+            { error: { code: status, message: error.message } },
+            headers,
+          );
+          return;
+        }
+        // Unexpected requests are not retried by the clients, unlike server
+        // errors.
+        const status = error instanceof UnexpectedRequestError ? 400 : 500;
+        sendJson(res, status, {
+          error: {
+            code: status,
+            message: error instanceof Error ? error.message : String(error),
+          },
+        });
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    this.server = server;
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = undefined;
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  private async handle(
+    req: IncomingMessage,
+    res: ServerResponse,
+  ): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://127.0.0.1');
+    const body = req.method === 'POST' ? await readJson(req) : {};
+
+    const geminiMatch = url.pathname.match(/\/models\/([^/:]+):(\w+)$/);
+    if (geminiMatch) {
+      const [, model, action] = geminiMatch;
+      switch (action) {
+        case 'generateContent':
+        case 'streamGenerateContent':
+          return this.handleGeminiGenerate(
+            res,
+            model,
+            action === 'streamGenerateContent',
+            body,
+          );
+        case 'countTokens':
+          return sendJson(
+            res,
+            200,
+            this.nextResponse('gemini', 'countTokens', model, body).response,
+          );
+        case 'embedContent':
+        case 'batchEmbedContents':
+          return sendJson(
+            res,
+            200,
+            this.nextResponse('gemini', 'embedContent', model, body).response,
+          );
+        default:
+          break;
+      }
+    }
+
+    if (url.pathname.endsWith('/chat/completions')) {
+      return this.handleOpenAIChat(res, body);
+    }
+    if (url.pathname.endsWith('/embeddings')) {
+      return this.handleOpenAIEmbeddings(res, body);
+    }
+    if (req.method === 'GET' && url.pathname.endsWith('/models')) {
+      return sendJson(res, 200, {
+        object: 'list',
+        data: this.options.models ?? [],
+      });
+    }
+
+    sendJson(res, 404, {
+      error: { code: 404, message: `Unknown endpoint: ${url.pathname}` },
+    });
+  }
+
+  /**
+   * Returns the next scripted response, or throws when it is not of the
+   * expected method. Scripted errors are returned whatever the method.
+   */
+  private nextResponse(
+    protocol: MockLlmRequest['protocol'],
+    method: FakeResponse['method'],
+    model: string | undefined,
+    body: Record<string, unknown>,
+    stream = false,
+  ): FakeResponse {
+    this.requests.push({ protocol, method, model, stream, body });
+    const response = this.responses[this.responseIndex];
+    if (!response) {
+      throw new UnexpectedRequestError(
+        `No more mock responses for ${method}, got request:\n` +
+          JSON.stringify(body),
+      );
+    }
+    if (response.method === 'error') {
+      this.responseIndex++;
+      throw new ScriptedError(response);
+    }
+    const accepted: string[] = isGenerateMethod(method)
+      ? ['generateContent', 'generateContentStream']
+      : [method];
+    if (!accepted.includes(response.method)) {
+      throw new UnexpectedRequestError(
+        `Unexpected response type, next response was for ${response.method} but expected ${method}`,
+      );
+    }
+    this.responseIndex++;
+    return response;
+  }
+
+  /**
+   * Returns the next scripted model response as a list of stream chunks
+   */
+  private nextGenerateResponse(
+    protocol: MockLlmRequest['protocol'],
+    model: string | undefined,
+    body: Record<string, unknown>,
+    stream: boolean,
+  ): GenerateContentResponse[] {
+    const method: GenerateMethod = stream
+      ? 'generateContentStream'
+      : 'generateContent';
+    const { response } = this.nextResponse(
+      protocol,
+      method,
+      model,
+      body,
+      stream,
+    ) as Extract<FakeResponse, { method: GenerateMethod }>;
+    return Array.isArray(response) ? response : [response];
+  }
+
+  private handleGeminiGenerate(
+    res: ServerResponse,
+    model: string,
+    stream: boolean,
+    body: Record<string, unknown>,
+  ): void {
+    const chunks = this.nextGenerateResponse('gemini', model, body, stream);
+    if (!stream) {
+      return sendJson(res, 200, mergeChunks(chunks));
+    }
+    startEventStream(res);
+    for (const chunk of chunks) {
+      res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+    }
+    res.end();
+  }
+
+  private handleOpenAIChat(
+    res: ServerResponse,
+    body: Record<string, unknown>,
+  ): void {
+    const model = typeof body['model'] === 'string' ? body['model'] : '';
+    const stream = body['stream'] === true;
+    const chunks = this.nextGenerateResponse('openai', model, body, stream);
+    const id = `chatcmpl-mock-${this.requests.length}`;
+    if (!stream) {
+      return sendJson(res, 200, this.toChatResponse(id, model, chunks));
+    }
+    startEventStream(res);
+    for (const chunk of this.toChatChunks(id, model, chunks)) {
+      res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+    }
+    res.write('data: [DONE]\n\n');
+    res.end();
+  }
+
+  private handleOpenAIEmbeddings(
+    res: ServerResponse,
+    body: Record<string, unknown>,
+  ): void {
+    const model = typeof body['model'] === 'string' ? body['model'] : '';
+    const { response } = this.nextResponse(
+      'openai',
+      'embedContent',
+      model,
+      body,
+    ) as Extract<FakeResponse, { method: 'embedContent' }>;
+    // The OpenAI SDK asks for base64 embeddings unless told otherwise.
+    const base64 = body['encoding_format'] === 'base64';
+    sendJson(res, 200, {
+      object: 'list',
+      model,
+      data: (response.embeddings ?? []).map((embedding, index) => ({
+        object: 'embedding',
+        index,
+        embedding: base64
+          ? Buffer.from(
+              new Float32Array(embedding.values ?? []).buffer,
+            ).toString('base64')
+          : (embedding.values ?? []),
+      })),
+    });
+  }
+
+  private toToolCalls(parts: Part[]): OpenAIToolCall[] {
+    return parts
+      .filter((part) => part.functionCall)
+      .map((part) => ({
+        id: part.functionCall!.id ?? `call_mock_${++this.toolCallCounter}`,
+        type: 'function',
+        function: {
+          name: part.functionCall!.name ?? '',
+          arguments: JSON.stringify(part.functionCall!.args ?? {}),
+        },
+      }));
+  }
+
+  private toChatResponse(
+    id: string,
+    model: string,
+    chunks: GenerateContentResponse[],
+  ): OpenAIChatResponse {
+    const merged = mergeChunks(chunks);
+    const candidate = merged.candidates?.[0];
+    const parts = candidate?.content?.parts ?? [];
+    const toolCalls = this.toToolCalls(parts);
+    const reasoning = getText(parts, true);
+    return {
+      id,
+      object: 'chat.completion',
+      created: Math.floor(Date.now() / 1000),
+      model,
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: 'assistant',
+            content: getText(parts, false) || null,
+            ...(reasoning ? { reasoning_content: reasoning } : {}),
+            ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+          },
+          finish_reason: toFinishReason(
+            candidate?.finishReason,
+            toolCalls.length > 0,
+          ),
+        },
+      ],
+      usage: toUsage(merged),
+    };
+  }
+
+  private toChatChunks(
+    id: string,
+    model: string,
+    chunks: GenerateContentResponse[],
+  ): OpenAIChatChunk[] {
+    const chatChunks: OpenAIChatChunk[] = [];
+    const delta = (value: OpenAIChatChunk['choices'][0]['delta']) =>
+      chatChunks.push({
+        id,
+        model,
+        choices: [{ index: 0, delta: value, finish_reason: null }],
+      });
+
+    let toolCallIndex = 0;
+    for (const chunk of chunks) {
+      for (const part of chunk.candidates?.[0]?.content?.parts ?? []) {
+        if (part.functionCall) {
+          const [toolCall] = this.toToolCalls([part]);
+          delta({ tool_calls: [{ index: toolCallIndex++, ...toolCall }] });
+        } else if (part.text && part.thought) {
+          delta({ reasoning_content: part.text });
+        } else if (part.text) {
+          delta({ content: part.text });
+        }
+      }
+    }
+
+    const last = chunks[chunks.length - 1];
+    chatChunks.push({
+      id,
+      model,
+      choices: [
+        {
+          index: 0,
+          delta: {},
+          finish_reason: toFinishReason(
+            last?.candidates?.[0]?.finishReason,
+            toolCallIndex > 0,
+          ),
+        },
+      ],
+      usage: toUsage(last),
+    });
+    return chatChunks;
+  }
+}
+
+function isGenerateMethod(method: string): method is GenerateMethod {
+  return method === 'generateContent' || method === 'generateContentStream';
+}
+
+async function readJson(
+  req: IncomingMessage,
+): Promise<Record<string, unknown>> {
+  let data = '';
+  for await (const chunk of req) {
+    data += chunk;
+  }
+  return data ? (JSON.parse(data) as Record<string, unknown>) : {};
+}
+
+function sendJson(
+  res: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {},
+) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function startEventStream(res: ServerResponse) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+}
+
+/**
+ * Merges stream chunks into one response, as the Gemini API answers a
+ * non-streamed request.
+ */
+function mergeChunks(
+  chunks: GenerateContentResponse[],
+): GenerateContentResponse {
+  const last = chunks[chunks.length - 1];
+  const parts = chunks.flatMap(
+    (chunk) => chunk.candidates?.[0]?.content?.parts ?? [],
+  );
+  return {
+    ...last,
+    candidates: [
+      {
+        ...last?.candidates?.[0],
+        content: { role: 'model', parts },
+        index: 0,
+      },
+    ],
+  } as GenerateContentResponse;
+}
+
+function getText(parts: Part[], thought: boolean): string {
+  return parts
+    .filter((part) => part.text && !!part.thought === thought)
+    .map((part) => part.text)
+    .join('');
+}
+
+function toFinishReason(
+  finishReason: string | undefined,
+  hasToolCalls: boolean,
+): string {
+  if (hasToolCalls) {
+    return 'tool_calls';
+  }
+  switch (finishReason) {
+    case 'MAX_TOKENS':
+      return 'length';
+    case 'SAFETY':
+      return 'content_filter';
+    default:
+      return 'stop';
+  }
+}
+
+function toUsage(
+  response: GenerateContentResponse | undefined,
+): OpenAIUsage | undefined {
+  const usage = response?.usageMetadata;
+  if (!usage) {
+    return undefined;
+  }
+  return {
+    prompt_tokens: usage.promptTokenCount ?? 0,
+    completion_tokens: usage.candidatesTokenCount ?? 0,
+    total_tokens: usage.totalTokenCount ?? 0,
+    prompt_tokens_details: {
+      cached_tokens: usage.cachedContentTokenCount,
+    },
+    completion_tokens_details: {
+      reasoning_tokens: usage.thoughtsTokenCount,
+    },
+  };
+}
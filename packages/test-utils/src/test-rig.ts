@@ -7,17 +7,24 @@
 import { expect } from 'vitest';
 import { execSync, spawn, type ChildProcess } from 'node:child_process';
 import { mkdirSync, writeFileSync, readFileSync } from 'node:fs';
-import { join, dirname } from 'node:path';
+import { join, dirname, relative } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { env } from 'node:process';
 import { setTimeout as sleep } from 'node:timers/promises';
-import { DEFAULT_GEMINI_MODEL, GEMINI_DIR } from '@google/gemini-cli-core';
+import {
+  DEFAULT_GEMINI_MODEL,
+  GEMINI_DIR,
+  getDevoraSettingsPath,
+} from '@google/gemini-cli-core';
 import fs from 'node:fs';
 import * as pty from '@lydell/node-pty';
 import stripAnsi from 'strip-ansi';
 import * as os from 'node:os';
+import type { MockLlmServer } from './mock-llm-server.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
+// API key of the providers when the CLI talks to a mock LLM server
+const MOCK_API_KEY = 'mock-llm-server-api-key';
 const BUNDLE_PATH = join(__dirname, '..', '..', '..', 'bundle/gemini.js');
 
 // Get timeout based on environment
@@ -281,6 +288,8 @@ export class TestRig {
   fakeResponsesPath?: string;
   // Original fake responses file path for rewriting goldens in record mode.
   originalFakeResponsesPath?: string;
+  // Mock LLM server answering the model requests of this test.
+  mockLlmServer?: MockLlmServer;
   private _interactiveRuns: InteractiveRun[] = [];
   private _spawnedProcesses: ChildProcess[] = [];
 
@@ -289,6 +298,13 @@ export class TestRig {
     options: {
       settings?: Record<string, unknown>;
       fakeResponsesPath?: string;
+      /**
+       * Started mock LLM server to send the Gemini and provider requests to,
+       * instead of using fake responses.
+       */
+      mockLlmServer?: MockLlmServer;
+      /** Devora settings, e.g. the `activeProvider`, for the mock server */
+      devoraSettings?: Record<string, unknown>;
     } = {},
   ) {
     this.testName = testName;
@@ -307,10 +323,60 @@ export class TestRig {
       }
     }
 
+    if (options.mockLlmServer) {
+      this.mockLlmServer = options.mockLlmServer;
+      this._createDevoraSettingsFile(
+        options.mockLlmServer,
+        options.devoraSettings,
+      );
+    }
+
     // Create a settings file to point the CLI to the local collector
     this._createSettingsFile(options.settings);
   }
 
+  /**
+   * Points the Zai and OpenRouter providers to the mock LLM server, in the
+   * Devora settings file of the test home directory.
+   */
+  private _createDevoraSettingsFile(
+    server: MockLlmServer,
+    overrideSettings?: Record<string, unknown>,
+  ) {
+    const settingsPath = join(
+      this.homeDir!,
+      relative(os.homedir(), getDevoraSettingsPath()),
+    );
+    mkdirSync(dirname(settingsPath), { recursive: true });
+    const settings = {
+      zaiApiKey: MOCK_API_KEY,
+      openrouterApiKey: MOCK_API_KEY,
+      providers: {
+        zai: { baseUrl: server.openaiBaseUrl },
+        openrouter: { baseUrl: server.openaiBaseUrl },
+      },
+      ...overrideSettings,
+    };
+    writeFileSync(settingsPath, JSON.stringify(settings, null, 2));
+  }
+
+  /**
+   * The environment sending the requests of the CLI to the mock LLM server
+   */
+  private _getMockLlmServerEnv(): Record<string, string> {
+    if (!this.mockLlmServer) {
+      return {};
+    }
+    return {
+      HOME: this.homeDir!,
+      USERPROFILE: this.homeDir!,
+      GOOGLE_GEMINI_BASE_URL: this.mockLlmServer.url,
+      GEMINI_API_KEY: MOCK_API_KEY,
+      ZAI_API_KEY: MOCK_API_KEY,
+      OPENROUTER_API_KEY: MOCK_API_KEY,
+    };
+  }
+
   private _createSettingsFile(overrideSettings?: Record<string, unknown>) {
     const projectGeminiDir = join(this.testDir!, GEMINI_DIR);
     mkdirSync(projectGeminiDir, { recursive: true });
@@ -436,6 +502,7 @@ export class TestRig {
       env: {
         ...process.env,
         GEMINI_CLI_HOME: this.homeDir!,
+        ...this._getMockLlmServerEnv(),
         ...options.env,
       },
     });
@@ -572,6 +639,7 @@ export class TestRig {
       env: {
         ...process.env,
         GEMINI_CLI_HOME: this.homeDir!,
+        ...this._getMockLlmServerEnv(),
         ...options.env,
       },
     });
@@ -1140,6 +1208,7 @@ export class TestRig {
     const envVars = {
       ...process.env,
       GEMINI_CLI_HOME: this.homeDir!,
+      ...this._getMockLlmServerEnv(),
       ...options?.env,
     };
 